@@ -0,0 +1,197 @@
+import dotenv from 'dotenv';
+import { FieldPath, FieldValue, type DocumentData, type Firestore, type Query, type WriteBatch } from 'firebase-admin/firestore';
+import type { Migration, MigrationContext, MigrationWriter } from './migrations/types';
+
+// Load environment variables before firebase-admin is initialized
+dotenv.config({ path: '.env.local' });
+
+// The app logger silences console once it loads, so keep our own handles for progress output
+const print = console.log.bind(console);
+const printError = console.error.bind(console);
+
+// Documents read per page, and queued writes per committed batch (Firestore allows 500)
+const PAGE_SIZE = 200;
+const WRITE_BATCH_SIZE = 400;
+
+const USAGE = `Usage: yarn migrate [--dry-run] [--only <id>] [--force] [--status]
+
+  --dry-run    Report what each pending migration would change without writing anything
+  --only <id>  Run a single migration
+  --force      Re-run migrations that already completed, from the start
+  --status     List migrations and where each one got to`;
+
+interface MigrationState {
+  status: 'running' | 'done';
+  cursors?: Record<string, string>;
+  scanned?: number;
+  changed?: number;
+}
+
+const parseArgs = (argv: string[]) => {
+  const onlyIndex = argv.indexOf('--only');
+  return {
+    dryRun: argv.includes('--dry-run'),
+    force: argv.includes('--force'),
+    status: argv.includes('--status'),
+    help: argv.includes('--help'),
+    only: onlyIndex >= 0 ? argv[onlyIndex + 1] : undefined
+  };
+};
+
+async function runMigration(db: Firestore, migration: Migration, state: MigrationState | undefined, dryRun: boolean) {
+  const stateRef = db.collection('schema_migrations').doc(migration.id);
+  const cursors = { ...state?.cursors };
+  const totals = { scanned: 0, changed: 0, writes: 0 };
+
+  if (!dryRun && state) {
+    await stateRef.update({ status: 'running', updatedAt: FieldValue.serverTimestamp() });
+  } else if (!dryRun) {
+    await stateRef.set({
+      status: 'running',
+      description: migration.description,
+      cursors: {},
+      scanned: 0,
+      changed: 0,
+      startedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  }
+
+  const log = (message: string) => print(`[${migration.id}] ${message}`);
+
+  const eachDocument: MigrationContext['eachDocument'] = async (step, query, visit) => {
+    let cursor = cursors[step];
+    if (cursor) log(`${step}: resuming after ${cursor}`);
+    const stepTotals = { scanned: 0, changed: 0 };
+
+    for (;;) {
+      let pageQuery: Query = query.orderBy(FieldPath.documentId());
+      if (cursor) pageQuery = pageQuery.startAfter(db.doc(cursor));
+      const page = await pageQuery.limit(PAGE_SIZE).get();
+      if (page.empty) break;
+
+      let batch: WriteBatch = db.batch();
+      let queued = 0;
+      const writer: MigrationWriter = {
+        set: (ref, data, options) => {
+          queued++;
+          if (!dryRun) {
+            if (options) batch.set(ref, data, options);
+            else batch.set(ref, data);
+          }
+        },
+        update: (ref, data) => {
+          queued++;
+          if (!dryRun) batch.update(ref, data);
+        },
+        delete: (ref) => {
+          queued++;
+          if (!dryRun) batch.delete(ref);
+        }
+      };
+
+      let pageChanged = 0;
+      for (const doc of page.docs) {
+        if (await visit(doc, writer)) pageChanged++;
+
+        // Only commit between documents, so each document's writes land together
+        if (queued >= WRITE_BATCH_SIZE) {
+          if (!dryRun) await batch.commit();
+          totals.writes += queued;
+          batch = db.batch();
+          queued = 0;
+        }
+      }
+
+      cursor = page.docs[page.docs.length - 1].ref.path;
+      cursors[step] = cursor;
+      totals.writes += queued;
+      stepTotals.scanned += page.size;
+      stepTotals.changed += pageChanged;
+
+      if (!dryRun) {
+        const checkpoint: DocumentData = {
+          cursors,
+          scanned: FieldValue.increment(page.size),
+          changed: FieldValue.increment(pageChanged),
+          updatedAt: FieldValue.serverTimestamp()
+        };
+        batch.set(stateRef, checkpoint, { merge: true });
+        await batch.commit();
+      }
+
+      log(`${step}: ${stepTotals.scanned} scanned, ${stepTotals.changed} ${dryRun ? 'to change' : 'changed'}`);
+      if (page.size < PAGE_SIZE) break;
+    }
+
+    totals.scanned += stepTotals.scanned;
+    totals.changed += stepTotals.changed;
+  };
+
+  await migration.up({ db, dryRun, eachDocument, log });
+
+  if (!dryRun) {
+    await stateRef.set({
+      status: 'done',
+      completedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  }
+
+  log(`${dryRun ? 'Dry run' : 'Done'}: ${totals.scanned} documents scanned, ${totals.changed} ${dryRun ? 'would change' : 'changed'} (${totals.writes} writes)`);
+}
+
+async function migrate() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    print(USAGE);
+    return;
+  }
+
+  // Imported after dotenv so firebase-admin sees the credentials (or FIRESTORE_EMULATOR_HOST)
+  const { adminDb } = await import('../src/lib/server/firebaseAdmin');
+  const { migrations } = await import('./migrations');
+
+  const selected = args.only ? migrations.filter(migration => migration.id === args.only) : migrations;
+  if (selected.length === 0) {
+    printError(`Unknown migration: ${args.only}`);
+    print(`Available: ${migrations.map(migration => migration.id).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const stateSnapshots = await adminDb.getAll(
+    ...selected.map(migration => adminDb.collection('schema_migrations').doc(migration.id))
+  );
+  const states = new Map(stateSnapshots.map(snapshot => [snapshot.id, snapshot.data() as MigrationState | undefined]));
+
+  if (args.status) {
+    selected.forEach(migration => {
+      const state = states.get(migration.id);
+      const progress = state ? `${state.status}, ${state.scanned || 0} scanned, ${state.changed || 0} changed` : 'pending';
+      print(`${migration.id}  ${progress}\n    ${migration.description}`);
+    });
+    return;
+  }
+
+  if (args.dryRun) print('Dry run: nothing will be written.');
+
+  for (const migration of selected) {
+    const state = states.get(migration.id);
+    if (state?.status === 'done' && !args.force) {
+      print(`[${migration.id}] Already applied, skipping.`);
+      continue;
+    }
+
+    print(`[${migration.id}] ${migration.description}`);
+    // --force starts over rather than resuming from the cursors of the completed run
+    await runMigration(adminDb, migration, args.force ? undefined : state, args.dryRun);
+  }
+
+  print('Migrations complete.');
+}
+
+migrate().catch(error => {
+  printError(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,84 @@
+import { FieldValue, type DocumentData, type DocumentReference, type Firestore } from 'firebase-admin/firestore';
+import { toLikeDocument } from '../../src/lib/trackDocuments';
+import { resolveMediaKey, toLegacyNFT, toTimestamp } from './legacy';
+import type { Migration, MigrationWriter } from './types';
+
+const getUserLikeRef = (db: Firestore, fid: string, mediaKey: string) =>
+  db.collection('users').doc(fid).collection('likes').doc(mediaKey);
+
+// Queue a users/{fid}/likes/{mediaKey} doc for a legacy like, unless the user already has one
+const queueLike = async (writer: MigrationWriter, likeRef: DocumentReference, mediaKey: string, data: DocumentData) => {
+  if ((await likeRef.get()).exists) return;
+  writer.set(likeRef, {
+    ...toLikeDocument(toLegacyNFT(data), mediaKey),
+    timestamp: toTimestamp(data.timestamp) || FieldValue.serverTimestamp()
+  });
+};
+
+/**
+ * Likes used to be written three ways: flat user_likes/{fid}-{contract}-{tokenId} docs, a
+ * liked_nfts array on the user doc, and users/{fid}/likes docs keyed by whatever the client
+ * had to hand. This moves all of them to users/{fid}/likes/{mediaKey}, the only shape the
+ * likes API writes and the Library reads.
+ */
+export const likesToMediaKeys: Migration = {
+  id: '001-likes-to-media-keys',
+  description: 'Move user_likes, liked_nfts and misfiled likes onto users/{fid}/likes/{mediaKey}',
+  up: async ({ db, eachDocument, log }) => {
+    await eachDocument('user_likes', db.collection('user_likes'), async (likeDoc, writer) => {
+      const data = likeDoc.data();
+      const fid = String(data.fid || likeDoc.id.split('-')[0]);
+      const mediaKey = resolveMediaKey(data);
+      if (!/^\d+$/.test(fid) || !mediaKey) {
+        log(`Skipping ${likeDoc.ref.path}: no fid or media to key on`);
+        return false;
+      }
+
+      await queueLike(writer, getUserLikeRef(db, fid, mediaKey), mediaKey, data);
+      writer.delete(likeDoc.ref);
+      return true;
+    });
+
+    await eachDocument('liked_nfts', db.collection('users'), async (userDoc, writer) => {
+      const likedNFTs = userDoc.get('liked_nfts');
+      if (likedNFTs === undefined) return false;
+
+      const queued = new Set<string>();
+      for (const nft of Array.isArray(likedNFTs) ? likedNFTs : []) {
+        const mediaKey = resolveMediaKey(nft);
+        if (!mediaKey) {
+          log(`Skipping a liked_nfts entry on ${userDoc.ref.path}: no media to key on`);
+          continue;
+        }
+        if (queued.has(mediaKey)) continue;
+        queued.add(mediaKey);
+        await queueLike(writer, getUserLikeRef(db, userDoc.id, mediaKey), mediaKey, nft);
+      }
+
+      writer.update(userDoc.ref, { liked_nfts: FieldValue.delete() });
+      return true;
+    });
+
+    await eachDocument('misfiled likes', db.collectionGroup('likes'), async (likeDoc, writer) => {
+      const userRef = likeDoc.ref.parent.parent;
+      if (!userRef || userRef.parent.id !== 'users') return false;
+
+      const data = likeDoc.data();
+      const mediaKey = resolveMediaKey(data);
+      if (!mediaKey) {
+        log(`Skipping ${likeDoc.ref.path}: no media to key on`);
+        return false;
+      }
+
+      if (likeDoc.id === mediaKey) {
+        if (data.mediaKey === mediaKey) return false;
+        writer.update(likeDoc.ref, { mediaKey });
+        return true;
+      }
+
+      await queueLike(writer, getUserLikeRef(db, userRef.id, mediaKey), mediaKey, data);
+      writer.delete(likeDoc.ref);
+      return true;
+    });
+  }
+};
@@ -0,0 +1,91 @@
+import { FieldPath, FieldValue, type DocumentData, type Firestore, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { toLegacyNFT, toTimestamp } from './legacy';
+import type { Migration } from './types';
+
+// Likes per mediaKey across every users/{fid}/likes doc, with the most recent like of each
+const tallyLikes = async (db: Firestore) => {
+  const tally = new Map<string, { count: number; latest: DocumentData }>();
+  let lastDoc: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let pageQuery = db.collectionGroup('likes').orderBy(FieldPath.documentId()).limit(500);
+    if (lastDoc) pageQuery = pageQuery.startAfter(lastDoc);
+    const page = await pageQuery.get();
+
+    page.docs.forEach(likeDoc => {
+      if (likeDoc.ref.parent.parent?.parent.id !== 'users') return;
+      const data = likeDoc.data();
+      const entry = tally.get(likeDoc.id);
+      if (!entry) {
+        tally.set(likeDoc.id, { count: 1, latest: data });
+        return;
+      }
+      entry.count++;
+      if ((toTimestamp(data.timestamp)?.toMillis() || 0) > (toTimestamp(entry.latest.timestamp)?.toMillis() || 0)) {
+        entry.latest = data;
+      }
+    });
+
+    if (page.size < 500) break;
+    lastDoc = page.docs[page.docs.length - 1];
+  }
+
+  return tally;
+};
+
+/**
+ * global_likes counts were kept by client-side increments, and the likes moved by the previous
+ * migration were never counted under their mediaKey. This recounts every global_likes doc from
+ * the users' likes, drops counts nobody backs any more and adds the ones that were missing.
+ */
+export const recountGlobalLikes: Migration = {
+  id: '002-recount-global-likes',
+  description: 'Recount global_likes/{mediaKey} from users/{fid}/likes',
+  up: async ({ db, eachDocument, log }) => {
+    log('Counting likes...');
+    const tally = await tallyLikes(db);
+    log(`Found likes for ${tally.size} tracks`);
+
+    await eachDocument('global_likes', db.collection('global_likes'), async (globalLikeDoc, writer) => {
+      const likeCount = tally.get(globalLikeDoc.id)?.count || 0;
+      if (likeCount === 0) {
+        writer.delete(globalLikeDoc.ref);
+        return true;
+      }
+      if (globalLikeDoc.get('likeCount') === likeCount && globalLikeDoc.get('mediaKey') === globalLikeDoc.id) {
+        return false;
+      }
+      writer.update(globalLikeDoc.ref, { mediaKey: globalLikeDoc.id, likeCount });
+      return true;
+    });
+
+    // Tracks liked only through legacy likes have no global_likes doc yet
+    const created = new Set<string>();
+    await eachDocument('missing global_likes', db.collectionGroup('likes'), async (likeDoc, writer) => {
+      const mediaKey = likeDoc.id;
+      const entry = tally.get(mediaKey);
+      if (!entry || created.has(mediaKey)) return false;
+      created.add(mediaKey);
+
+      const globalLikeRef = db.collection('global_likes').doc(mediaKey);
+      if ((await globalLikeRef.get()).exists) return false;
+
+      const nft = toLegacyNFT(entry.latest);
+      writer.set(globalLikeRef, {
+        mediaKey,
+        nftContract: nft.contract,
+        tokenId: nft.tokenId,
+        name: nft.name,
+        description: nft.description || '',
+        image: nft.image,
+        audioUrl: nft.audio || '',
+        collection: nft.collection?.name || 'Unknown Collection',
+        network: nft.network || 'ethereum',
+        likeCount: entry.count,
+        firstLiked: FieldValue.serverTimestamp(),
+        lastLiked: toTimestamp(entry.latest.timestamp) || FieldValue.serverTimestamp()
+      });
+      return true;
+    });
+  }
+};
@@ -0,0 +1,66 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { syncTopPlayed } from '../../src/lib/server/plays';
+import { resolveMediaKey } from './legacy';
+import type { DocumentVisitor, Migration } from './types';
+
+/**
+ * The old client trackers keyed global_plays and top_played by contract-tokenId for a while,
+ * so the same recording played from two tokens was counted twice, and their play rows carry
+ * no mediaKey at all. This folds every global_plays doc into global_plays/{mediaKey}, stamps
+ * the mediaKey on nft_plays and playHistory rows, and rebuilds top_played from the result.
+ */
+export const playsToMediaKeys: Migration = {
+  id: '003-plays-to-media-keys',
+  description: 'Merge global_plays onto mediaKey docs and stamp the mediaKey on every play row',
+  up: async ({ db, dryRun, eachDocument, log }) => {
+    await eachDocument('global_plays', db.collection('global_plays'), async (playDoc, writer) => {
+      const data = playDoc.data();
+      const mediaKey = resolveMediaKey(data);
+      if (!mediaKey) {
+        log(`Skipping ${playDoc.ref.path}: no media to key on`);
+        return false;
+      }
+
+      if (playDoc.id === mediaKey) {
+        if (data.mediaKey === mediaKey) return false;
+        writer.update(playDoc.ref, { mediaKey });
+        return true;
+      }
+
+      // Merged with an increment so several legacy docs for one mediaKey in the same batch all count
+      const targetRef = db.collection('global_plays').doc(mediaKey);
+      const targetExists = (await targetRef.get()).exists;
+      writer.set(targetRef, {
+        ...(targetExists ? {} : data),
+        mediaKey,
+        playCount: FieldValue.increment(data.playCount || 0)
+      }, { merge: true });
+      writer.delete(playDoc.ref);
+      return true;
+    });
+
+    if (dryRun) {
+      log('Would rebuild top_played from global_plays');
+    } else {
+      const { success, error } = await syncTopPlayed();
+      if (!success) throw error;
+      log('Rebuilt top_played from global_plays');
+    }
+
+    const stampMediaKey: DocumentVisitor = async (playDoc, writer) => {
+      const data = playDoc.data();
+      if (data.mediaKey) return false;
+
+      const mediaKey = resolveMediaKey(data);
+      if (!mediaKey) {
+        log(`Skipping ${playDoc.ref.path}: no media to key on`);
+        return false;
+      }
+      writer.update(playDoc.ref, { mediaKey });
+      return true;
+    };
+
+    await eachDocument('nft_plays', db.collection('nft_plays'), stampMediaKey);
+    await eachDocument('playHistory', db.collectionGroup('playHistory'), stampMediaKey);
+  }
+};
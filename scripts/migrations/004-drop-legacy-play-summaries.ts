@@ -0,0 +1,41 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Migration } from './types';
+
+// Written to users/{fid} by the old client trackNFTPlay, both at the root and as playHistorySummary
+const LEGACY_USER_FIELDS = [
+  'hasPlayHistory',
+  'lastPlayedTimestamp',
+  'lastPlayedISO',
+  'lastPlayedMediaKey',
+  'lastPlayedName',
+  'totalPlays',
+  'playHistorySummary',
+  'recentPlayHistoryPath',
+  'recentPlayHistoryId'
+];
+
+/**
+ * Play totals now come from counting playHistory, so the summaries the old tracker kept on
+ * the user doc only go stale. Its recentPlays and recent_plays copies of each play row are
+ * dropped as well; playHistory holds the same rows with their mediaKey.
+ */
+export const dropLegacyPlaySummaries: Migration = {
+  id: '004-drop-legacy-play-summaries',
+  description: 'Remove the play summary fields and recent play copies the old tracker kept per user',
+  up: async ({ db, eachDocument }) => {
+    await eachDocument('user fields', db.collection('users'), async (userDoc, writer) => {
+      const present = LEGACY_USER_FIELDS.filter(field => userDoc.get(field) !== undefined);
+      if (present.length === 0) return false;
+      writer.update(userDoc.ref, Object.fromEntries(present.map(field => [field, FieldValue.delete()])));
+      return true;
+    });
+
+    for (const collectionId of ['recentPlays', 'recent_plays']) {
+      await eachDocument(collectionId, db.collectionGroup(collectionId), async (playDoc, writer) => {
+        if (playDoc.ref.parent.parent?.parent.id !== 'users') return false;
+        writer.delete(playDoc.ref);
+        return true;
+      });
+    }
+  }
+};
@@ -0,0 +1,13 @@
+import type { Migration } from './types';
+import { likesToMediaKeys } from './001-likes-to-media-keys';
+import { recountGlobalLikes } from './002-recount-global-likes';
+import { playsToMediaKeys } from './003-plays-to-media-keys';
+import { dropLegacyPlaySummaries } from './004-drop-legacy-play-summaries';
+
+// Applied in this order. Add new migrations at the end; never renumber or edit an applied one.
+export const migrations: Migration[] = [
+  likesToMediaKeys,
+  recountGlobalLikes,
+  playsToMediaKeys,
+  dropLegacyPlaySummaries
+];
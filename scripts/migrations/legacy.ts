@@ -0,0 +1,49 @@
+import { Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import type { NFT } from '../../src/types/user';
+import { toMillis } from '../../src/lib/timestamps';
+import { getMediaKey } from '../../src/utils/media';
+
+/**
+ * Rebuild an NFT from a stored like or play. Older documents keep it flat with either
+ * nftContract or contract and audioUrl or audio, newer likes nest it under nft.
+ */
+export const toLegacyNFT = (data: DocumentData): NFT => {
+  const source = data.nft && typeof data.nft === 'object' ? { ...data, ...data.nft } : data;
+  const audio = source.audio || source.audioUrl || source.metadata?.animation_url || '';
+
+  return {
+    contract: source.contract || source.nftContract || '',
+    tokenId: String(source.tokenId ?? ''),
+    name: source.name || 'Untitled',
+    description: source.description || '',
+    image: source.image || source.metadata?.image || '',
+    audio,
+    hasValidAudio: !!audio,
+    metadata: source.metadata || {},
+    collection: typeof source.collection === 'string' ? { name: source.collection } : source.collection,
+    network: source.network
+  };
+};
+
+/**
+ * The mediaKey a stored like or play belongs under. A recorded mediaKey wins, since the flat
+ * fields don't always hold every URL it was made from; otherwise it is derived the way the API
+ * does. getMediaKey falls back to a timestamped key when there is no media to key on, so
+ * those come back as null rather than a fresh key per run.
+ */
+export const resolveMediaKey = (data: DocumentData): string | null => {
+  const recorded = data.mediaKey || data.nft?.mediaKey;
+  if (typeof recorded === 'string' && recorded) return recorded;
+
+  const nft = toLegacyNFT(data);
+  if (!nft.image && !nft.audio && !nft.metadata?.animation_url) return null;
+  const mediaKey = getMediaKey({ ...nft, mediaKey: undefined });
+  return mediaKey && !mediaKey.startsWith('unknown_nft_') ? mediaKey : null;
+};
+
+// Stored timestamps are Firestore Timestamps, millisecond numbers or ISO strings
+export const toTimestamp = (value: unknown): Timestamp | null => {
+  if (value instanceof Timestamp) return value;
+  const millis = toMillis(value);
+  return millis ? Timestamp.fromMillis(millis) : null;
+};
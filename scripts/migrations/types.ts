@@ -0,0 +1,38 @@
+import type {
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  Query,
+  QueryDocumentSnapshot
+} from 'firebase-admin/firestore';
+
+// Queues writes for the current page; a dry run only counts them
+export interface MigrationWriter {
+  set: (ref: DocumentReference, data: DocumentData, options?: { merge: boolean }) => void;
+  update: (ref: DocumentReference, data: DocumentData) => void;
+  delete: (ref: DocumentReference) => void;
+}
+
+// Queues whatever a document needs and returns whether it needed anything
+export type DocumentVisitor = (doc: QueryDocumentSnapshot, writer: MigrationWriter) => Promise<boolean>;
+
+export interface MigrationContext {
+  db: Firestore;
+  dryRun: boolean;
+  /**
+   * Visit every document of query in document path order. Each page's writes are committed
+   * together with the step's cursor, so an interrupted run picks up after the last page.
+   */
+  eachDocument: (step: string, query: Query, visit: DocumentVisitor) => Promise<void>;
+  log: (message: string) => void;
+}
+
+/**
+ * A versioned change to stored documents. Migrations run once each, in id order, and must be
+ * safe to re-run: a resumed step can revisit the documents of its last uncommitted page.
+ */
+export interface Migration {
+  id: string;
+  description: string;
+  up: (context: MigrationContext) => Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { recordPlaylistActivity } from '../../../lib/server/activity';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  playlistId: z.string().min(1).max(128)
+});
+
+// Post a "created a playlist" event for one of the signed-in user's playlists
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid activity');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const recorded = await recordPlaylistActivity(sessionFid, body.data.playlistId);
+  return NextResponse.json({ success: true, recorded });
+}
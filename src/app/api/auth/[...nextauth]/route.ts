@@ -1,11 +1,8 @@
 import NextAuth from "next-auth"
+import { authOptions } from "../../../../auth"
 
-const handler = NextAuth({
-  providers: [
-    // your providers...
-  ],
-  // The secret will be read from the NEXTAUTH_SECRET environment variable
-  secret: process.env.NEXTAUTH_SECRET,
-})
+// Sign In With Farcaster sessions, used to authenticate writes to the plays, likes, follows
+// and searches routes. The secret is read from the NEXTAUTH_SECRET environment variable.
+const handler = NextAuth(authOptions)
 
-export { handler as GET, handler as POST }
\ No newline at end of file
+export { handler as GET, handler as POST }
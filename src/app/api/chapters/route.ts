@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden, notOwner } from '../../../lib/server/session';
+import { trackSchema, resolveTrack } from '../../../lib/server/tracks';
+import { ownsNFT } from '../../../lib/server/ownership';
+import { saveChapters } from '../../../lib/server/chapters';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+import { MAX_CHAPTERS } from '../../../lib/chapters';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  chapters: z.array(z.object({
+    time: z.number().nonnegative(),
+    title: z.string().min(1).max(500)
+  })).max(MAX_CHAPTERS)
+});
+
+// Replace the chapter list of an NFT the signed-in user holds; an empty list removes it
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid chapters');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const { nft, chapters } = body.data;
+  const track = await resolveTrack(nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    if (!(await ownsNFT(sessionFid, track.nft.contract, track.nft.tokenId, track.nft.network))) return notOwner();
+    await saveChapters(track, sessionFid, chapters);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error saving chapters:', error);
+    return NextResponse.json({ success: false, error: 'Could not save chapters' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../../lib/server/session';
+import { trackSchema, resolveTrack } from '../../../../lib/server/tracks';
+import { reportComment } from '../../../../lib/server/comments';
+import { serverLogger } from '../../../../lib/server/firebaseAdmin';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  commentId: z.string().min(1).max(128)
+});
+
+// Report a comment as the signed-in user; repeat reports from the same user don't count
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid report');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const track = await resolveTrack(body.data.nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    await reportComment(track.mediaKey, body.data.commentId, sessionFid);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error reporting comment:', error);
+    return NextResponse.json({ success: false, error: 'Could not report comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden, notOwner } from '../../../lib/server/session';
+import { trackSchema, resolveTrack } from '../../../lib/server/tracks';
+import { addComment, deleteComment } from '../../../lib/server/comments';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+import { MAX_COMMENT_LENGTH } from '../../../lib/commentRules';
+
+const addSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  text: z.string().trim().min(1).max(MAX_COMMENT_LENGTH),
+  parentId: z.string().min(1).max(128).nullable().optional()
+});
+
+const deleteSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  commentId: z.string().min(1).max(128)
+});
+
+// Comment on a track, or reply to a comment, as the signed-in user
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = addSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid comment');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const track = await resolveTrack(body.data.nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    const commentId = await addComment(track.mediaKey, sessionFid, body.data.text, body.data.parentId || null);
+    return NextResponse.json({ success: true, commentId });
+  } catch (error) {
+    serverLogger.error('Error adding comment:', error);
+    return badRequest(error instanceof Error ? error.message : 'Could not add comment');
+  }
+}
+
+// Delete a comment and its replies; only its author or the NFT's owner may
+export async function DELETE(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = deleteSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid comment');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const { nft, commentId } = body.data;
+  const track = await resolveTrack(nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    if (!(await deleteComment(track.mediaKey, track.nft, commentId, sessionFid))) return notOwner();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error deleting comment:', error);
+    return NextResponse.json({ success: false, error: 'Could not delete comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { adminAuth, serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive()
+});
+
+// Custom token for the signed-in user, whose Firebase uid is their fid. The security rules
+// compare request.auth.uid against the owner of playlists, playback positions and the like.
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid token request');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    const token = await adminAuth.createCustomToken(String(sessionFid));
+    return NextResponse.json({ success: true, token });
+  } catch (error) {
+    serverLogger.error('Error creating Firebase custom token:', error);
+    return NextResponse.json({ success: false, error: 'Could not sign in to Firebase' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { follow, unfollow, type FollowTarget } from '../../../lib/server/follows';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const targetSchema = z.object({
+  fid: z.number().int().positive(),
+  username: z.string().min(1).max(64),
+  display_name: z.string().max(256).optional(),
+  pfp_url: z.string().max(2048).optional()
+});
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  target: targetSchema
+});
+
+const handle = async (
+  request: NextRequest,
+  action: (fid: number, target: FollowTarget) => Promise<void>
+) => {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid follow');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    await action(sessionFid, body.data.target);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error updating follow:', error);
+    return badRequest(error instanceof Error ? error.message : 'Could not update follow');
+  }
+};
+
+// Follow the target as the signed-in user
+export async function POST(request: NextRequest) {
+  return handle(request, follow);
+}
+
+// Unfollow the target as the signed-in user
+export async function DELETE(request: NextRequest) {
+  return handle(request, (fid, target) => unfollow(fid, target.fid));
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { NotificationStore } from '../../../lib/NotificationStore';
 import { getNFTMetadata } from '../../../lib/nft';
+import { parseStartTimeParam, buildPlayQuery } from '../../../lib/shareLinks';
 import { z } from 'zod';
 
 const appUrl = process.env.NEXT_PUBLIC_URL;
@@ -54,7 +55,8 @@ export async function POST(req: NextRequest) {
 
     // Get NFT metadata
     const nft = await getNFTMetadata(contract, tokenId);
-    const nftUrl = `${appUrl}/?contract=${contract}&tokenId=${tokenId}`;
+    const startTime = parseStartTimeParam(url.searchParams.get('t'));
+    const nftUrl = `${appUrl}/?${buildPlayQuery(contract, tokenId, startTime)}`;
 
     // Store the interaction with FID
     const token = crypto.randomUUID();
@@ -81,7 +83,7 @@ export async function POST(req: NextRequest) {
           target: nftUrl
         },
       }],
-      postUrl: `${appUrl}/api/frame?contract=${contract}&tokenId=${tokenId}`,
+      postUrl: `${appUrl}/api/frame?${buildPlayQuery(contract, tokenId, startTime)}`,
     };
 
     // Return frame response
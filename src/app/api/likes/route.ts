@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { trackSchema } from '../../../lib/server/tracks';
+import { toggleLike } from '../../../lib/server/likes';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  forceUnlike: z.boolean().optional()
+});
+
+// Like or unlike an NFT for the signed-in listener; responds with whether it's now liked
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid like');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    const liked = await toggleLike(body.data.nft, sessionFid, body.data.forceUnlike);
+    return NextResponse.json({ success: true, liked });
+  } catch (error) {
+    serverLogger.error('Error toggling like:', error);
+    return NextResponse.json({ success: false, error: 'Could not update like' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden, notOwner } from '../../../lib/server/session';
+import { trackSchema, resolveTrack } from '../../../lib/server/tracks';
+import { ownsNFT } from '../../../lib/server/ownership';
+import { saveLyrics, deleteLyrics } from '../../../lib/server/lyrics';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+import { MAX_LYRICS_LENGTH } from '../../../lib/lyrics';
+
+const saveSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  text: z.string().min(1).max(MAX_LYRICS_LENGTH)
+});
+
+const deleteSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema
+});
+
+// Upload lyrics for an NFT the signed-in user holds
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = saveSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid lyrics');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const { nft, text } = body.data;
+  const track = await resolveTrack(nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    if (!(await ownsNFT(sessionFid, track.nft.contract, track.nft.tokenId, track.nft.network))) return notOwner();
+    await saveLyrics(track, sessionFid, text);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error saving lyrics:', error);
+    return NextResponse.json({ success: false, error: 'Could not save lyrics' }, { status: 500 });
+  }
+}
+
+// Remove the uploaded lyrics from an NFT the signed-in user holds
+export async function DELETE(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = deleteSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid lyrics');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const { nft } = body.data;
+  const track = await resolveTrack(nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    if (!(await ownsNFT(sessionFid, track.nft.contract, track.nft.tokenId, track.nft.network))) return notOwner();
+    await deleteLyrics(track, sessionFid);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error deleting lyrics:', error);
+    return NextResponse.json({ success: false, error: 'Could not delete lyrics' }, { status: 500 });
+  }
+}
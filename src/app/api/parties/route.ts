@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { joinParty } from '../../../lib/server/listeningParties';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const joinSchema = z.object({
+  fid: z.number().int().positive(),
+  partyId: z.string().min(1).max(128)
+});
+
+// Join a listening party as the signed-in user
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = joinSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid party');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    await joinParty(body.data.partyId, sessionFid);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error joining listening party:', error);
+    return badRequest(error instanceof Error ? error.message : 'Could not join listening party');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { trackSchema } from '../../../lib/server/tracks';
+import { recordPlay } from '../../../lib/server/plays';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  thresholdReached: z.boolean().optional(),
+  durationSeconds: z.number().nonnegative().optional(),
+  listenedSeconds: z.number().nonnegative().optional()
+});
+
+// Count a play for the signed-in listener. Plays the guard refuses still get a 200 with
+// counted: false - there's nothing for the player to retry.
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid play');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    const { nft, thresholdReached, durationSeconds, listenedSeconds } = body.data;
+    const result = await recordPlay(nft, sessionFid, { thresholdReached, durationSeconds, listenedSeconds });
+    return NextResponse.json({
+      success: true,
+      mediaKey: result?.mediaKey || null,
+      counted: Boolean(result?.counted),
+      reason: result?.reason
+    });
+  } catch (error) {
+    serverLogger.error('Error tracking NFT play:', error);
+    return NextResponse.json({ success: false, error: 'Could not track play' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden, notOwner } from '../../../lib/server/session';
+import { trackSchema, resolveTrack } from '../../../lib/server/tracks';
+import { addReaction, deleteReaction } from '../../../lib/server/comments';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const addSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  emoji: z.string().min(1).max(16),
+  position: z.number().nonnegative()
+});
+
+const deleteSchema = z.object({
+  fid: z.number().int().positive(),
+  nft: trackSchema,
+  reactionId: z.string().min(1).max(128)
+});
+
+// Drop a timestamped reaction on a track as the signed-in user
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = addSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid reaction');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const track = await resolveTrack(body.data.nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    const reactionId = await addReaction(track.mediaKey, sessionFid, body.data.emoji, body.data.position);
+    return NextResponse.json({ success: true, reactionId });
+  } catch (error) {
+    serverLogger.error('Error adding reaction:', error);
+    return NextResponse.json({ success: false, error: 'Could not add reaction' }, { status: 500 });
+  }
+}
+
+// Remove a reaction; only its author or the NFT's owner may
+export async function DELETE(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = deleteSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid reaction');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  const { nft, reactionId } = body.data;
+  const track = await resolveTrack(nft);
+  if (!track) return badRequest('Could not determine media key');
+
+  try {
+    if (!(await deleteReaction(track.mediaKey, track.nft, reactionId, sessionFid))) return notOwner();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    serverLogger.error('Error deleting reaction:', error);
+    return NextResponse.json({ success: false, error: 'Could not delete reaction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { recordUserSearch } from '../../../lib/server/searches';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  username: z.string().trim().min(1).max(64)
+});
+
+// Look up a Farcaster user and record the search for the signed-in user's history
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid search');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    const user = await recordUserSearch(body.data.username, sessionFid);
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    serverLogger.error('Error tracking user search:', error);
+    return NextResponse.json({ success: false, error: 'Could not find user' }, { status: 404 });
+  }
+}
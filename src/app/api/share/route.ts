@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { headers } from 'next/headers';
+import { parseStartTimeParam, buildPlayQuery } from '../../../lib/shareLinks';
 
 const appUrl = process.env.NEXT_PUBLIC_URL;
 
@@ -8,6 +9,8 @@ export async function GET(req: NextRequest) {
     const url = new URL(req.url);
     const contract = url.searchParams.get('contract');
     const tokenId = url.searchParams.get('tokenId');
+    // Optional start offset, carried through to the app so playback begins there
+    const startTime = parseStartTimeParam(url.searchParams.get('t'));
 
     if (!contract || !tokenId) {
       return new Response('Missing contract or tokenId', { status: 400 });
@@ -27,7 +30,7 @@ export async function GET(req: NextRequest) {
           action: 'post'
         }
       ],
-      postUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'https://yourapp.com'}/api/frame?contract=${contract}&tokenId=${tokenId}`
+      postUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'https://yourapp.com'}/api/frame?${buildPlayQuery(contract, tokenId, startTime)}`
     };
 
     return new Response(
@@ -47,7 +50,7 @@ export async function GET(req: NextRequest) {
           <meta name="twitter:title" content="${nftData.name || 'PODPlayr NFT'}" />
           <meta name="twitter:description" content="${nftData.description || 'Listen to this NFT on PODPlayr'}" />
           <meta name="twitter:image" content="${frameMetadata.image}" />
-          <meta http-equiv="refresh" content="0;url=${appUrl}/?contract=${contract}&tokenId=${tokenId}" />
+          <meta http-equiv="refresh" content="0;url=${appUrl}/?${buildPlayQuery(contract, tokenId, startTime)}" />
         </head>
         <body>
           <p>Redirecting to PODPLAYR...</p>
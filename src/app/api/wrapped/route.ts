@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFid, unauthorized, badRequest, forbidden } from '../../../lib/server/session';
+import { saveWrappedSummary } from '../../../lib/server/listeningStats';
+import { serverLogger } from '../../../lib/server/firebaseAdmin';
+import { getCurrentYear, isValidTimeZone } from '../../../lib/listeningStats';
+
+// timeZone is the listener's IANA zone, so their year and streaks end at their own midnight
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  year: z.number().int().min(2020),
+  timeZone: z.string().max(64).refine(isValidTimeZone).optional()
+}).refine(({ year, timeZone }) => year <= getCurrentYear(Date.now(), timeZone));
+
+// Build and store the signed-in user's yearly recap so it can be shared
+export async function POST(request: NextRequest) {
+  const sessionFid = await getSessionFid();
+  if (!sessionFid) return unauthorized();
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest('Invalid recap');
+  if (body.data.fid !== sessionFid) return forbidden();
+
+  try {
+    const summary = await saveWrappedSummary(sessionFid, body.data.year, body.data.timeZone);
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    serverLogger.error('Error saving wrapped summary:', error);
+    return NextResponse.json({ success: false, error: 'Could not save recap' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { Metadata } from 'next';
+import App from '../../app';
+import { getArtist } from '../../../lib/firebase/artists';
+
+interface Props {
+  params: {
+    artistId: string;
+  };
+}
+
+export const revalidate = 300;
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { artistId } = params;
+  const artist = await getArtist(artistId);
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  const artistUrl = `${appUrl}/artist/${artistId}`;
+  const name = artist?.name || 'Artist';
+
+  const frame = {
+    version: 'vNext',
+    image: artist?.farcaster?.pfp_url || artist?.tracks[0]?.image || `${appUrl}/og-image.jpg`,
+    title: name,
+    description: artist
+      ? `${artist.tracks.length} tracks and ${artist.totalPlays} plays on PODPlayr`
+      : 'Listen on PODPlayr',
+    buttons: [{
+      label: '▶️ Play artist',
+      action: {
+        type: 'post_redirect',
+        target: artistUrl,
+      },
+    }],
+  };
+
+  return {
+    title: frame.title,
+    description: frame.description,
+    openGraph: {
+      title: frame.title,
+      description: frame.description,
+      images: [frame.image],
+      url: artistUrl,
+    },
+    other: {
+      'fc:frame': frame.version,
+      'fc:frame:image': frame.image,
+      'fc:frame:button:1': frame.buttons[0].label,
+      'fc:frame:button:1:action': 'post_redirect',
+      'fc:frame:button:1:target': frame.buttons[0].action.target,
+    },
+  };
+}
+
+// The app itself opens the artist view from the path
+export default function ArtistPage() {
+  return (<App />);
+}
@@ -0,0 +1,59 @@
+import { Metadata } from 'next';
+import App from '../../app';
+import { fetchCollectionInfoFromAlchemy } from '../../../lib/alchemy';
+
+interface Props {
+  params: {
+    contract: string;
+  };
+  searchParams?: {
+    network?: string;
+  };
+}
+
+export const revalidate = 300;
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const { contract } = params;
+  const network = searchParams?.network === 'base' ? 'base' : 'ethereum';
+  const info = await fetchCollectionInfoFromAlchemy(contract, network);
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  const collectionUrl = `${appUrl}/collection/${contract}${network === 'base' ? '?network=base' : ''}`;
+
+  const frame = {
+    version: 'vNext',
+    image: info.image || `${appUrl}/og-image.jpg`,
+    title: info.name,
+    description: info.description || `Listen to ${info.name} on PODPlayr`,
+    buttons: [{
+      label: '▶️ Play collection',
+      action: {
+        type: 'post_redirect',
+        target: collectionUrl,
+      },
+    }],
+  };
+
+  return {
+    title: frame.title,
+    description: frame.description,
+    openGraph: {
+      title: frame.title,
+      description: frame.description,
+      images: [frame.image],
+      url: collectionUrl,
+    },
+    other: {
+      'fc:frame': frame.version,
+      'fc:frame:image': frame.image,
+      'fc:frame:button:1': frame.buttons[0].label,
+      'fc:frame:button:1:action': 'post_redirect',
+      'fc:frame:button:1:target': frame.buttons[0].action.target,
+    },
+  };
+}
+
+// The app itself opens the collection view from the path
+export default function CollectionPage() {
+  return (<App />);
+}
@@ -1,18 +1,24 @@
 import { Metadata } from 'next';
 import { getNFTMetadata } from '../../../../lib/nft';
+import { parseStartTimeParam, buildPlayQuery } from '../../../../lib/shareLinks';
+import { formatTimestamp } from '../../../../lib/chapters';
 
 interface Props {
   params: {
     contract: string;
     tokenId: string;
   };
+  searchParams?: {
+    t?: string; // Start offset, e.g. "90", "1:30" or "1m30s"
+  };
 }
 
-export async function generateMetadata({ params }: Props): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
   const { contract, tokenId } = params;
   const nft = await getNFTMetadata(contract, tokenId);
   const appUrl = process.env.NEXT_PUBLIC_URL;
-  const nftUrl = `${appUrl}/?contract=${contract}&tokenId=${tokenId}`;
+  const startTime = parseStartTimeParam(searchParams?.t);
+  const nftUrl = `${appUrl}/?${buildPlayQuery(contract, tokenId, startTime)}`;
 
   const frame = {
     version: 'vNext',
@@ -26,7 +32,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
         target: nftUrl,
       },
     }],
-    postUrl: `${appUrl}/api/frame?contract=${contract}&tokenId=${tokenId}`,
+    postUrl: `${appUrl}/api/frame?${buildPlayQuery(contract, tokenId, startTime)}`,
   };
 
   return {
@@ -49,10 +55,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   };
 }
 
-export default async function NFTFramePage({ params }: Props) {
+export default async function NFTFramePage({ params, searchParams }: Props) {
   const { contract, tokenId } = params;
   const nft = await getNFTMetadata(contract, tokenId);
   const appUrl = process.env.NEXT_PUBLIC_URL;
+  const startTime = parseStartTimeParam(searchParams?.t);
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center p-4">
@@ -68,13 +75,13 @@ export default async function NFTFramePage({ params }: Props) {
         )}
         <div className="mt-6 flex gap-4">
           <a
-            href={`${appUrl}/?contract=${contract}&tokenId=${tokenId}`}
+            href={`${appUrl}/?${buildPlayQuery(contract, tokenId, startTime)}`}
             className="flex-1 text-center bg-purple-500 text-black font-semibold py-3 px-6 rounded-lg hover:bg-purple-400 transition-colors"
           >
-            ▶️ Play
+            ▶️ {startTime ? `Play from ${formatTimestamp(startTime)}` : 'Play'}
           </a>
           <a
-            href={`https://warpcast.com/~/compose?embeds[]=${appUrl}/nft/${contract}/${tokenId}`}
+            href={`https://warpcast.com/~/compose?embeds[]=${encodeURIComponent(`${appUrl}/nft/${contract}/${tokenId}${startTime ? `?t=${startTime}` : ''}`)}`}
             target="_blank"
             rel="noopener noreferrer"
             className="flex-1 text-center bg-purple-500 text-black font-semibold py-3 px-6 rounded-lg hover:bg-purple-400 transition-colors"
@@ -0,0 +1,86 @@
+import { Metadata } from 'next';
+import { getListeningParty } from '../../../lib/firebase/listeningParties';
+
+interface Props {
+  params: {
+    partyId: string;
+  };
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { partyId } = params;
+  const party = await getListeningParty(partyId);
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  const joinUrl = `${appUrl}/?party=${encodeURIComponent(partyId)}`;
+  const track = party?.playback?.track;
+
+  const frame = {
+    version: 'vNext',
+    image: track?.image || `${appUrl}/og-image.jpg`,
+    title: 'PODPLAYR Listening Party',
+    description: track ? `Listening to "${track.name}" together on PODPlayr` : 'Listen together on PODPlayr',
+    buttons: [{
+      label: '🎧 Join the party',
+      action: {
+        type: 'post_redirect',
+        target: joinUrl,
+      },
+    }],
+  };
+
+  return {
+    title: frame.title,
+    description: frame.description,
+    openGraph: {
+      title: frame.title,
+      description: frame.description,
+      images: [frame.image],
+      url: joinUrl,
+    },
+    other: {
+      'fc:frame': frame.version,
+      'fc:frame:image': frame.image,
+      'fc:frame:button:1': frame.buttons[0].label,
+      'fc:frame:button:1:action': 'post_redirect',
+      'fc:frame:button:1:target': frame.buttons[0].action.target,
+    },
+  };
+}
+
+export default async function PartyPage({ params }: Props) {
+  const { partyId } = params;
+  const party = await getListeningParty(partyId);
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  const track = party?.playback?.track;
+  const hasEnded = !party || Boolean(party.endedAt);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4">
+      <div className="max-w-lg w-full">
+        {track?.image && (
+          <img
+            src={track.image}
+            alt={track.name}
+            className="w-full h-auto rounded-lg shadow-lg"
+          />
+        )}
+        <h1 className="text-2xl font-bold mt-4 text-purple-300">Listening Party</h1>
+        <p className="mt-2 text-gray-400">
+          {hasEnded
+            ? 'This party has ended.'
+            : track ? `Now playing: ${track.name}` : 'Waiting for the host to pick a track.'}
+        </p>
+        {!hasEnded && (
+          <div className="mt-6 flex gap-4">
+            <a
+              href={`${appUrl}/?party=${encodeURIComponent(partyId)}`}
+              className="flex-1 text-center bg-purple-500 text-black font-semibold py-3 px-6 rounded-lg hover:bg-purple-400 transition-colors"
+            >
+              🎧 Join the party
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ import { NFTNotificationProvider } from '../context/NFTNotificationContext';
 import { ConnectionProvider } from '../context/ConnectionContext';
 import { TermsProvider } from '../context/TermsContext';
 import { NFTCacheProvider } from '../contexts/NFTCacheContext';
+import { QueueProvider } from '../contexts/QueueContext';
+import { PlaybackSettingsProvider } from '../contexts/PlaybackSettingsContext';
+import { ListeningPartyProvider } from '../contexts/ListeningPartyContext';
+import type { PartyProfile } from '../lib/firebase/listeningParties';
 
 const WagmiProvider = dynamic(
   () => import("~/components/providers/WagmiProvider"),
@@ -21,11 +25,13 @@ const WagmiProvider = dynamic(
   }
 );
 
-export const FarcasterContext = createContext<{ fid?: number }>({});
+// profile is the signed-in user's name and avatar, for anything that posts as them
+export const FarcasterContext = createContext<{ fid?: number; profile?: PartyProfile | null }>({});
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [fid, setFid] = useState<number>();
   const [initialProfileImage, setInitialProfileImage] = useState<string>();
+  const [partyProfile, setPartyProfile] = useState<PartyProfile | null>(null);
   
   // Update PODPLAYR follower count when the app starts
   useEffect(() => {
@@ -57,7 +63,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
 
   return (
     <WagmiProvider>
-      <FarcasterContext.Provider value={{ fid }}>
+      <FarcasterContext.Provider value={{ fid, profile: partyProfile }}>
         <NetworkProvider>
           <UserImageProvider 
             fid={fid}
@@ -65,6 +71,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
           >
             <VideoPlayProvider>
               <NFTCacheProvider>
+                <QueueProvider>
+                <PlaybackSettingsProvider>
+                <ListeningPartyProvider profile={partyProfile}>
                 <NFTNotificationProvider>
                   <ConnectionProvider>
                     <TermsProvider>
@@ -74,6 +83,12 @@ export function Providers({ children }: { children: React.ReactNode }) {
                       if (context?.user?.fid && context.user.fid !== 1) {
                         setFid(context.user.fid);
                         setInitialProfileImage(context.user.pfpUrl);
+                        setPartyProfile({
+                          fid: context.user.fid,
+                          username: context.user.username || '',
+                          displayName: context.user.displayName || '',
+                          pfpUrl: context.user.pfpUrl || ''
+                        });
                       }
                     }}
                   />
@@ -82,6 +97,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
                     </TermsProvider>
                   </ConnectionProvider>
                 </NFTNotificationProvider>
+                </ListeningPartyProvider>
+                </PlaybackSettingsProvider>
+                </QueueProvider>
               </NFTCacheProvider>
             </VideoPlayProvider>
           </UserImageProvider>
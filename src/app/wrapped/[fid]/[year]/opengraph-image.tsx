@@ -0,0 +1,84 @@
+import { ImageResponse } from "next/og";
+import { getWrappedSummary } from '../../../../lib/firebase/listeningStats';
+
+// Runs on the Node runtime (not edge like the root image) since it reads Firestore
+
+export const alt = "PODPLAYR Wrapped";
+export const size = {
+  width: 1200,
+  height: 630,
+};
+
+export const contentType = "image/png";
+
+interface Props {
+  params: {
+    fid: string;
+    year: string;
+  };
+}
+
+export default async function Image({ params }: Props) {
+  const summary = await getWrappedSummary(Number(params.fid), Number(params.year));
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          height: '100%',
+          width: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          padding: '60px 80px',
+          backgroundColor: '#000000',
+          color: '#ffffff',
+          fontFamily: 'monospace',
+        }}
+      >
+        <div style={{ fontSize: 36, color: '#c084fc', display: 'flex' }}>
+          {summary ? `@${summary.username || summary.fid}'s ${summary.year} on PODPLAYR` : 'PODPLAYR Wrapped'}
+        </div>
+        {summary ? (
+          <div style={{ display: 'flex', flexDirection: 'column', marginTop: 40 }}>
+            <div style={{ display: 'flex', gap: 60 }}>
+              {[
+                [summary.totalPlays, 'plays'],
+                [summary.totalMinutes, 'minutes'],
+                [summary.longestStreak, 'day streak'],
+                [summary.firstListens, 'first listens'],
+              ].map(([value, label]) => (
+                <div key={label} style={{ display: 'flex', flexDirection: 'column' }}>
+                  <div style={{ fontSize: 64, color: '#4ade80', display: 'flex' }}>{value}</div>
+                  <div style={{ fontSize: 24, color: '#9ca3af', display: 'flex' }}>{label}</div>
+                </div>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: 80, marginTop: 50 }}>
+              {[
+                ['Top tracks', summary.topTracks],
+                ['Top creators', summary.topCreators.length > 0 ? summary.topCreators : summary.topCollections],
+              ].map(([title, items]) => (
+                <div key={title as string} style={{ display: 'flex', flexDirection: 'column', width: 480 }}>
+                  <div style={{ fontSize: 26, color: '#c084fc', display: 'flex', marginBottom: 10 }}>{title as string}</div>
+                  {(items as typeof summary.topTracks).slice(0, 3).map((item, index) => (
+                    <div key={item.key} style={{ fontSize: 26, display: 'flex' }}>
+                      {`${index + 1}. ${item.label.length > 28 ? `${item.label.slice(0, 27)}…` : item.label}`}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div style={{ fontSize: 28, color: '#9ca3af', marginTop: 30, display: 'flex' }}>
+            Listen on PODPLAYR to get your year in review
+          </div>
+        )}
+      </div>
+    ),
+    {
+      ...size,
+    }
+  );
+}
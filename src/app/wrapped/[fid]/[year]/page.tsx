@@ -0,0 +1,69 @@
+import { Metadata } from 'next';
+import { getWrappedSummary } from '../../../../lib/firebase/listeningStats';
+
+interface Props {
+  params: {
+    fid: string;
+    year: string;
+  };
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { fid, year } = params;
+  const summary = await getWrappedSummary(Number(fid), Number(year));
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+
+  const frame = {
+    version: 'vNext',
+    image: `${appUrl}/wrapped/${fid}/${year}/opengraph-image`,
+    title: summary ? `@${summary.username}'s ${year} on PODPLAYR` : 'PODPLAYR Wrapped',
+    description: summary
+      ? `${summary.totalPlays} plays and ${summary.totalMinutes} minutes of listening in ${year}`
+      : 'Your year of listening on PODPlayr',
+    buttons: [{
+      label: '🎧 Get your Wrapped',
+      action: {
+        type: 'post_redirect',
+        target: `${appUrl}/`,
+      },
+    }],
+  };
+
+  return {
+    title: frame.title,
+    description: frame.description,
+    other: {
+      'fc:frame': frame.version,
+      'fc:frame:image': frame.image,
+      'fc:frame:button:1': frame.buttons[0].label,
+      'fc:frame:button:1:action': 'post_redirect',
+      'fc:frame:button:1:target': frame.buttons[0].action.target,
+    },
+  };
+}
+
+export default async function WrappedPage({ params }: Props) {
+  const { fid, year } = params;
+  const summary = await getWrappedSummary(Number(fid), Number(year));
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4">
+      <div className="max-w-lg w-full">
+        <img
+          src={`${appUrl}/wrapped/${fid}/${year}/opengraph-image`}
+          alt={summary ? `@${summary.username}'s ${year} Wrapped` : 'PODPLAYR Wrapped'}
+          className="w-full h-auto rounded-lg shadow-lg"
+        />
+        <div className="mt-6 flex gap-4">
+          <a
+            href={`${appUrl}/`}
+            className="flex-1 text-center bg-purple-500 text-black font-semibold py-3 px-6 rounded-lg hover:bg-purple-400 transition-colors"
+          >
+            🎧 Get your Wrapped
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback, useContext } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useContext, useMemo } from 'react';
 import { FarcasterContext } from '~/app/providers';
 import { PlayerWithAds } from './player/PlayerWithAds';
 import { getMediaKey } from '~/utils/media';
@@ -11,6 +11,9 @@ import ExploreView from './views/ExploreView';
 import LibraryView from './views/LibraryView';
 import ProfileView from './views/ProfileView';
 import UserProfileView from './views/UserProfileView';
+import ChartsView from './views/ChartsView';
+import CollectionView from './views/CollectionView';
+import ArtistView from './views/ArtistView';
 import RecentlyPlayed from './RecentlyPlayed';
 import TermsOfService from './TermsOfService';
 import { useTerms } from '../context/TermsContext';
@@ -29,9 +32,19 @@ import {
   fetchUserNFTs
 } from '../lib/firebase';
 import { fetchUserNFTsFromAlchemy } from '../lib/alchemy';
-import type { NFT, FarcasterUser, SearchedUser, UserContext, LibraryViewProps, ProfileViewProps, NFTFile, NFTPlayData, GroupedNFT } from '../types/user';
+import { getNFTMetadata } from '../lib/nft';
+import { parseStartTimeParam } from '../lib/shareLinks';
+import { getRecommendations, recommendedTrackToNFT } from '../lib/firebase/recommendations';
+import { searchCatalog } from '../lib/firebase/searchIndex';
+import type { NFT, FarcasterUser, SearchedUser, UserContext, LibraryViewProps, ProfileViewProps, NFTFile, NFTPlayData, GroupedNFT, GroupedSearchResults } from '../types/user';
 import { useAudioPlayer } from '../hooks/useAudioPlayer';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useSleepTimer } from '../hooks/useSleepTimer';
 import { useTopPlayedNFTs } from '../hooks/useTopPlayedNFTs';
+import { useQueue } from '../contexts/QueueContext';
+import { usePlaybackSettings } from '../contexts/PlaybackSettingsContext';
+import { useListeningParty } from '../contexts/ListeningPartyContext';
+import { usePartyBroadcast } from '../hooks/usePartyBroadcast';
 import {
   collection,
   query,
@@ -56,6 +69,7 @@ import { logger } from '../utils/logger';
 
 const NFT_CACHE_KEY = 'podplayr_nft_cache_';
 const TWO_HOURS = 2 * 60 * 60 * 1000;
+const EMPTY_CATALOG_RESULTS: Pick<GroupedSearchResults, 'tracks' | 'collections'> = { tracks: [], collections: [] };
 
 // Create module-specific loggers for different parts of the Demo component
 const demoLogger = logger.getModuleLogger('demo');
@@ -75,6 +89,9 @@ interface PageState {
   isLibrary: boolean;
   isProfile: boolean;
   isUserProfile: boolean;
+  isCharts: boolean;
+  isCollection: boolean;
+  isArtist: boolean;
 }
 
 interface NavigationSource {
@@ -126,21 +143,50 @@ const DemoBase: React.FC = () => {
     isExplore: false,
     isLibrary: false,
     isProfile: false,
-    isUserProfile: false
+    isUserProfile: false,
+    isCharts: false,
+    isCollection: false,
+    isArtist: false
   });
   
+  // The collection page being shown, and the page to go back to from it
+  const [openedCollection, setOpenedCollection] = useState<{
+    contract: string;
+    network: 'ethereum' | 'base';
+    returnTo: PageState;
+  } | null>(null);
+
+  // The artist page being shown, and the page to go back to from it
+  const [openedArtist, setOpenedArtist] = useState<{
+    id: string;
+    returnTo: PageState;
+  } | null>(null);
+
   // Track where the user navigated from when going to a user profile
   const [navigationSource, setNavigationSource] = useState<NavigationSource>({
     fromExplore: false,
     fromProfile: false
   });
   
-  // Add state to track the current NFT queue for proper next/previous navigation
-  const [currentNFTQueue, setCurrentNFTQueue] = useState<NFT[]>([]);
-  const [currentQueueType, setCurrentQueueType] = useState<string>('');
+  // The play queue lives in QueueContext so it can be edited from the player and survives reloads
+  const queue = useQueue();
+  const queueNFTs = useMemo(() => queue.items.map(item => item.nft), [queue.items]);
+  const queueIds = useMemo(() => queue.items.map(item => item.id), [queue.items]);
+  const { settings: playbackSettings, isAudioProcessingEnabled } = usePlaybackSettings();
+  const listeningParty = useListeningParty();
+  const audioProcessing = useMemo(() => ({
+    enabled: isAudioProcessingEnabled,
+    eqGains: playbackSettings.eqGains,
+    normalizeLoudness: playbackSettings.normalizeLoudness
+  }), [isAudioProcessingEnabled, playbackSettings.eqGains, playbackSettings.normalizeLoudness]);
 
   const [isPlayerMinimized, setIsPlayerMinimized] = useState(true);
+  // An "end of track" sleep timer needs the track to actually end, so it holds off crossfading
+  const [isEndOfTrackTimerArmed, setIsEndOfTrackTimerArmed] = useState(false);
   const [isInitialPlay, setIsInitialPlay] = useState(false);
+  // Set further down once handlePlayFromLibrary exists; the player calls it when the queue runs out
+  const queueEndRef = useRef<(lastNFT: NFT) => void>(() => {});
+  const handleQueueEnd = useCallback((lastNFT: NFT) => queueEndRef.current(lastNFT), []);
 
   const [recentlyPlayedNFTs, setRecentlyPlayedNFTs] = useState<NFT[]>([]);
   // Track the most recently played NFT to prevent duplicates from Firebase subscription
@@ -194,6 +240,7 @@ const DemoBase: React.FC = () => {
   
   const { topPlayed: topPlayedNFTs, loading: topPlayedLoading } = useTopPlayedNFTs();
   const [searchResults, setSearchResults] = useState<FarcasterUser[]>([]);
+  const [catalogResults, setCatalogResults] = useState(EMPTY_CATALOG_RESULTS);
   const [selectedUser, setSelectedUser] = useState<FarcasterUser | null>(null);
   const [userNFTs, setUserNFTs] = useState<NFT[]>([]);
   const [filteredNFTs, setFilteredNFTs] = useState<NFT[]>([]);
@@ -369,11 +416,33 @@ const DemoBase: React.FC = () => {
     handlePlayAudio,
     handlePlayPause,
     handleSeek,
-    audioRef
+    audioRef,
+    activeMediaRef,
+    handlePlayNext: playNextInQueue,
+    handlePlayPrevious: playPreviousInQueue,
+    shuffle,
+    repeatMode,
+    toggleShuffle,
+    cycleRepeatMode,
+    resumeOffer,
+    acceptResume,
+    dismissResume,
+    playbackRate,
+    setPlaybackRate,
+    handleSkip
   } = useAudioPlayer({ 
     fid: userFid,
     setRecentlyPlayedNFTs,
-    recentlyAddedNFT 
+    recentlyAddedNFT,
+    queue: queueNFTs,
+    queueIds,
+    queueIndex: queue.currentIndex,
+    onQueueIndexChange: queue.setCurrentIndex,
+    syncPlaybackPositions: Boolean(userFid),
+    crossfadeSeconds: isEndOfTrackTimerArmed ? 0 : playbackSettings.crossfadeSeconds,
+    audioProcessing,
+    partySync: listeningParty.followTarget,
+    onQueueEnd: handleQueueEnd
   });
 
   useEffect(() => {
@@ -1000,7 +1069,10 @@ const DemoBase: React.FC = () => {
       isExplore: false,
       isLibrary: false,
       isProfile: false,
-      isUserProfile: false
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: false,
+      isArtist: false
     };
     newState[page] = true;
     
@@ -1010,6 +1082,7 @@ const DemoBase: React.FC = () => {
     // Reset states when switching pages
     setSelectedUser(null);
     setSearchResults([]);
+    setCatalogResults(EMPTY_CATALOG_RESULTS);
     setError(null);
 
     // Always fetch fresh liked NFTs regardless of which page we're navigating to
@@ -1118,16 +1191,21 @@ const DemoBase: React.FC = () => {
   const handleSearch = async (username: string) => {
     setIsSearching(true);
     try {
-      const results = await searchUsers(username);
+      const [results, catalog] = await Promise.all([
+        searchUsers(username),
+        searchCatalog(username)
+      ]);
+      const hasCatalogResults = catalog.tracks.length > 0 || catalog.collections.length > 0;
       
       // IMPORTANT: If there's only one result, bypass search results completely
-      if (results.length === 1) {
+      if (results.length === 1 && !hasCatalogResults) {
         await handleDirectUserSelect(results[0]);
         return; // Skip setting searchResults at all
       }
       
       // Otherwise, if multiple results
       setSearchResults(results);
+      setCatalogResults(catalog);
       setSelectedUser(null); // Clear any selected user
     } catch (error) {
       logger.error('Error searching users:', error);
@@ -1143,7 +1221,10 @@ const DemoBase: React.FC = () => {
       isExplore: false,
       isLibrary: false,
       isProfile: false,
-      isUserProfile: false
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: false,
+      isArtist: false
     });
     
     // Reset scroll position to top of page
@@ -1151,6 +1232,7 @@ const DemoBase: React.FC = () => {
     
     setSelectedUser(null);
     setSearchResults([]);
+    setCatalogResults(EMPTY_CATALOG_RESULTS);
     setUserNFTs([]);
     setError(null);
     
@@ -1161,19 +1243,15 @@ const DemoBase: React.FC = () => {
   const handlePlayFromLibrary = async (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => {
     setIsInitialPlay(true);
     
+    let queueNFTs: NFT[] = [];
+    let queueSource = '';
+    
     // If a specific queue context was provided, use that
     if (context?.queue && context.queue.length > 0) {
-      demoLogger.info(`Setting current queue to ${context.queue.length} NFTs from ${context.queueType || 'unknown'} context`);
-      setCurrentNFTQueue(context.queue);
-      setCurrentQueueType(context.queueType || '');
-      
-      // For backward compatibility
-      window.nftList = context.queue;
+      queueNFTs = context.queue;
+      queueSource = context.queueType || '';
     } else {
       // Set the queue based on the active view
-      let queueNFTs: NFT[] = [];
-      let queueSource = '';
-      
       if (currentPage.isExplore) {
         queueNFTs = filteredNFTs;
         queueSource = 'explore';
@@ -1195,20 +1273,105 @@ const DemoBase: React.FC = () => {
           queueSource = 'topPlayed';
         }
       }
-      
-      demoLogger.info(`Setting default queue to ${queueNFTs.length} NFTs from ${queueSource}`);
-      setCurrentNFTQueue(queueNFTs);
-      setCurrentQueueType(queueSource);
-      
-      // For backward compatibility
-      window.nftList = queueNFTs;
     }
     
+    // Start the queue at the clicked NFT, putting it at the front if the source doesn't contain it
+    let startIndex = queueNFTs.findIndex(item => getMediaKey(item) === getMediaKey(nft));
+    if (startIndex === -1) {
+      queueNFTs = [nft, ...queueNFTs];
+      startIndex = 0;
+    }
+    
+    demoLogger.info(`Setting queue to ${queueNFTs.length} NFTs from ${queueSource || 'unknown'} context`);
+    queue.setQueue(queueNFTs, startIndex, queueSource);
+    
+    // For backward compatibility
+    window.nftList = queueNFTs;
+    
     // Start playing the NFT
     await handlePlayAudio(nft);
     setIsInitialPlay(false);
   };
 
+  // Autoplay: when the queue runs out, carry on with tracks similar to the last one
+  queueEndRef.current = (lastNFT: NFT) => {
+    if (!playbackSettings.autoContinue) return;
+    const queuedKeys = new Set(queueNFTs.map(nft => getMediaKey(nft)));
+    getRecommendations(getMediaKey(lastNFT))
+      .then(recommended => {
+        const upNext = recommended.map(recommendedTrackToNFT).filter(nft => !queuedKeys.has(getMediaKey(nft)));
+        if (upNext.length === 0) {
+          demoLogger.info('No recommendations to continue with after', lastNFT.name);
+          return;
+        }
+        return handlePlayFromLibrary(upNext[0], { queue: upNext, queueType: 'autoContinue' });
+      })
+      .catch(error => {
+        demoLogger.error('Error continuing playback with recommendations:', error);
+      });
+  };
+
+  // Collections open over the current page without resetting it, so back returns to
+  // e.g. the same search results
+  const handleOpenCollection = (contract: string, network: 'ethereum' | 'base' = 'ethereum') => {
+    setOpenedCollection({ contract, network, returnTo: currentPage });
+    setCurrentPage({
+      isHome: false,
+      isExplore: false,
+      isLibrary: false,
+      isProfile: false,
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: true,
+      isArtist: false
+    });
+    window.scrollTo(0, 0);
+  };
+
+  const handleCloseCollection = () => {
+    setCurrentPage(openedCollection?.returnTo || {
+      isHome: true,
+      isExplore: false,
+      isLibrary: false,
+      isProfile: false,
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: false,
+      isArtist: false
+    });
+    setOpenedCollection(null);
+  };
+
+  // Artists open over the current page the same way, from the player's info panel
+  const handleOpenArtist = (artistId: string) => {
+    setOpenedArtist({ id: artistId, returnTo: currentPage });
+    setCurrentPage({
+      isHome: false,
+      isExplore: false,
+      isLibrary: false,
+      isProfile: false,
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: false,
+      isArtist: true
+    });
+    window.scrollTo(0, 0);
+  };
+
+  const handleCloseArtist = () => {
+    setCurrentPage(openedArtist?.returnTo || {
+      isHome: true,
+      isExplore: false,
+      isLibrary: false,
+      isProfile: false,
+      isUserProfile: false,
+      isCharts: false,
+      isCollection: false,
+      isArtist: false
+    });
+    setOpenedArtist(null);
+  };
+
   const handleMinimizeToggle = () => {
     if (!isInitialPlay) {
       setIsPlayerMinimized(!isPlayerMinimized);
@@ -1246,6 +1409,44 @@ const DemoBase: React.FC = () => {
               hasActivePlayer={Boolean(currentPlayingNFT)}
               currentPlayingNFT={currentPlayingNFT} // Pass the currentPlayingNFT prop
               recentlyAddedNFT={recentlyAddedNFT} // Pass the recentlyAddedNFT ref
+              onOpenCharts={() => switchPage('isCharts')}
+            />
+          )}
+          {currentPage.isCharts && (
+            <ChartsView
+              onPlayNFT={(nft: NFT, context?: { queue?: NFT[], queueType?: string }) => handlePlayFromLibrary(nft, context)}
+              currentlyPlaying={currentlyPlaying}
+              isPlaying={isPlaying}
+              handlePlayPause={handlePlayPause}
+              onBack={() => switchPage('isHome')}
+              hasActivePlayer={Boolean(currentPlayingNFT)}
+            />
+          )}
+          {currentPage.isCollection && openedCollection && (
+            <CollectionView
+              key={`${openedCollection.network}-${openedCollection.contract}`}
+              contract={openedCollection.contract}
+              network={openedCollection.network}
+              onPlayNFT={(nft: NFT, context?: { queue?: NFT[], queueType?: string }) => handlePlayFromLibrary(nft, context)}
+              currentlyPlaying={currentlyPlaying}
+              isPlaying={isPlaying}
+              handlePlayPause={handlePlayPause}
+              onUserSelect={handleDirectUserSelect}
+              onBack={handleCloseCollection}
+              hasActivePlayer={Boolean(currentPlayingNFT)}
+            />
+          )}
+          {currentPage.isArtist && openedArtist && (
+            <ArtistView
+              key={openedArtist.id}
+              artistId={openedArtist.id}
+              onPlayNFT={(nft: NFT, context?: { queue?: NFT[], queueType?: string }) => handlePlayFromLibrary(nft, context)}
+              currentlyPlaying={currentlyPlaying}
+              isPlaying={isPlaying}
+              handlePlayPause={handlePlayPause}
+              onUserSelect={handleDirectUserSelect}
+              onBack={handleCloseArtist}
+              hasActivePlayer={Boolean(currentPlayingNFT)}
             />
           )}
           {currentPage.isExplore && (
@@ -1256,6 +1457,8 @@ const DemoBase: React.FC = () => {
               currentlyPlaying={currentlyPlaying}
               isPlaying={isPlaying}
               searchResults={searchResults}
+              catalogResults={catalogResults}
+              onOpenCollection={handleOpenCollection}
               nfts={filteredNFTs}
               isSearching={isSearching}
               handlePlayPause={handlePlayPause}
@@ -1425,7 +1628,10 @@ const DemoBase: React.FC = () => {
                     isExplore: false,
                     isLibrary: false,
                     isProfile: true,
-                    isUserProfile: false
+                    isUserProfile: false,
+                    isCharts: false,
+                    isCollection: false,
+                    isArtist: false
                   });
                 } else {
                   // For all other cases, go back to explore page
@@ -1443,7 +1649,10 @@ const DemoBase: React.FC = () => {
                     isExplore: true,
                     isLibrary: false,
                     isProfile: false,
-                    isUserProfile: false
+                    isUserProfile: false,
+                    isCharts: false,
+                    isCollection: false,
+                    isArtist: false
                   });
                 }
                 
@@ -1571,34 +1780,8 @@ const DemoBase: React.FC = () => {
   }, [fetchRecentlyPlayed]);
 
   const prepareAndPlayAudio = async (nft: NFT) => {
-    // Only build a default queue if the current queue is empty
-    if (currentNFTQueue.length === 0) {
-      // Set the current queue based on the active view
-      let defaultQueue: NFT[] = [];
-      
-      if (currentPage.isExplore) {
-        defaultQueue = filteredNFTs;
-        setCurrentQueueType('explore');
-      } else if (currentPage.isLibrary) {
-        defaultQueue = likedNFTs;
-        setCurrentQueueType('library');
-      } else if (currentPage.isProfile) {
-        defaultQueue = userNFTs;
-        setCurrentQueueType('profile');
-      } else if (currentPage.isHome) {
-        // Only use recently played as the default queue, don't combine with top played
-        defaultQueue = recentlyPlayedNFTs;
-        setCurrentQueueType('recentlyPlayed');
-      }
-      
-      demoLogger.info(`Building default queue with ${defaultQueue.length} NFTs from ${currentPage.isHome ? 'home' : currentPage.isExplore ? 'explore' : currentPage.isLibrary ? 'library' : 'profile'} page`);
-      
-      // Update the queue state
-      setCurrentNFTQueue(defaultQueue);
-    }
-    
     // For compatibility with any code that might use this global
-    window.nftList = currentNFTQueue;
+    window.nftList = queue.items.map(item => item.nft);
     
     try {
       // Call the original handlePlayAudio from useAudioPlayer
@@ -1608,54 +1791,150 @@ const DemoBase: React.FC = () => {
     }
   };
 
+  // Next/previous follow the play queue; the audio player applies shuffle order and wraparound
   const handlePlayNext = async () => {
-    if (!currentPlayingNFT || currentNFTQueue.length === 0) return;
-    
-    // Find current NFT index in our saved queue
-    // Use mediaKey for consistent tracking rather than contract+tokenId
-    const currentIndex = currentNFTQueue.findIndex(
-      (nft: NFT) => getMediaKey(nft) === getMediaKey(currentPlayingNFT)
-    );
+    if (!currentPlayingNFT) return;
     
-    if (currentIndex === -1) {
-      demoLogger.warn(`Current NFT not found in the ${currentQueueType} queue. Can't navigate to next.`);
+    if (queue.items.length === 0) {
+      demoLogger.warn(`The ${queue.queueType} queue is empty. Can't navigate to next.`);
       return;
     }
     
-    // Get next NFT with wraparound
-    const nextIndex = (currentIndex + 1) % currentNFTQueue.length;
-    const nextNFT = currentNFTQueue[nextIndex];
-    
-    demoLogger.info(`Playing next NFT (${nextIndex + 1}/${currentNFTQueue.length}) in ${currentQueueType} queue`);
-    
-    // Play the next NFT
-    await prepareAndPlayAudio(nextNFT);
+    window.nftList = queueNFTs;
+    await playNextInQueue();
   };
 
   const handlePlayPrevious = async () => {
-    if (!currentPlayingNFT || currentNFTQueue.length === 0) return;
-    
-    // Find current NFT index in our saved queue
-    // Use mediaKey for consistent tracking rather than contract+tokenId
-    const currentIndex = currentNFTQueue.findIndex(
-      (nft: NFT) => getMediaKey(nft) === getMediaKey(currentPlayingNFT)
-    );
+    if (!currentPlayingNFT) return;
     
-    if (currentIndex === -1) {
-      demoLogger.warn(`Current NFT not found in the ${currentQueueType} queue. Can't navigate to previous.`);
+    if (queue.items.length === 0) {
+      demoLogger.warn(`The ${queue.queueType} queue is empty. Can't navigate to previous.`);
       return;
     }
     
-    // Get previous NFT with wraparound
-    const prevIndex = (currentIndex - 1 + currentNFTQueue.length) % currentNFTQueue.length;
-    const prevNFT = currentNFTQueue[prevIndex];
-    
-    demoLogger.info(`Playing previous NFT (${prevIndex + 1}/${currentNFTQueue.length}) in ${currentQueueType} queue`);
-    
-    // Play the previous NFT
-    await prepareAndPlayAudio(prevNFT);
+    window.nftList = queueNFTs;
+    await playPreviousInQueue();
   };
 
+  // Play a specific entry picked from the Up Next sheet
+  const handlePlayFromQueue = async (queueItemId: string) => {
+    const nft = queue.jumpTo(queueItemId);
+    if (nft) {
+      await prepareAndPlayAudio(nft);
+    }
+  };
+
+  // Owners can attach lyrics/transcripts to their NFTs from the player
+  const isOwnedByUser = useMemo(() => Boolean(currentPlayingNFT && userNFTs.some(nft =>
+    nft.contract.toLowerCase() === currentPlayingNFT.contract.toLowerCase() &&
+    nft.tokenId === currentPlayingNFT.tokenId
+  )), [currentPlayingNFT, userNFTs]);
+
+  // Deep links (/?contract=...&tokenId=...&t=90) from shared URLs and frames: play the linked
+  // NFT once on load, starting at the requested offset
+  const handledDeepLinkRef = useRef(false);
+  useEffect(() => {
+    if (handledDeepLinkRef.current) return;
+    handledDeepLinkRef.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+
+    // Collection pages (/collection/0x...?network=base) open the collection view
+    const collectionMatch = window.location.pathname.match(/^\/collection\/([^/]+)\/?$/);
+    if (collectionMatch) {
+      handleOpenCollection(decodeURIComponent(collectionMatch[1]), params.get('network') === 'base' ? 'base' : 'ethereum');
+      window.history.replaceState(null, '', '/');
+      return;
+    }
+
+    // Artist pages (/artist/fid-123) open the artist view
+    const artistMatch = window.location.pathname.match(/^\/artist\/([^/]+)\/?$/);
+    if (artistMatch) {
+      handleOpenArtist(decodeURIComponent(artistMatch[1]));
+      window.history.replaceState(null, '', '/');
+      return;
+    }
+
+    // Party links (/?party=ID) join the party; its host decides what plays
+    const partyId = params.get('party');
+    if (partyId) {
+      listeningParty.joinParty(partyId);
+      window.history.replaceState(null, '', window.location.pathname);
+      return;
+    }
+
+    const contract = params.get('contract');
+    const tokenId = params.get('tokenId');
+    if (!contract || !tokenId) return;
+
+    const startTime = parseStartTimeParam(params.get('t'));
+    const network = params.get('network') === 'base' ? 'base' : 'ethereum';
+
+    const openLinkedNFT = async () => {
+      try {
+        const nft = await getNFTMetadata(contract, tokenId, network);
+        await prepareAndPlayAudio(nft);
+        if (startTime) {
+          // The link's offset takes precedence over any saved resume position
+          dismissResume();
+          handleSeek(startTime);
+        }
+      } catch (error) {
+        demoLogger.error('Error opening linked NFT:', error);
+      }
+      // Drop the params so a reload doesn't replay the link
+      window.history.replaceState(null, '', window.location.pathname);
+    };
+
+    openLinkedNFT();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Lock-screen metadata and hardware/headset controls
+  useMediaSession({
+    nft: currentPlayingNFT,
+    isPlaying,
+    progress: audioProgress,
+    duration: audioDuration,
+    playbackRate,
+    onPlayPause: handlePlayPause,
+    onNext: handlePlayNext,
+    onPrevious: handlePlayPrevious,
+    onSeek: handleSeek
+  });
+
+  // When hosting a party, publish our playback for everyone following along
+  usePartyBroadcast({
+    nft: currentPlayingNFT,
+    isPlaying,
+    progress: audioProgress,
+    playbackRate
+  });
+  const partyHost = listeningParty.participants.find(participant => participant.fid === listeningParty.party?.hostFid);
+
+  // Sleep timer fades the audio out and pauses it
+  const sleepTimer = useSleepTimer({
+    audioRef,
+    activeMediaRef,
+    isPlaying,
+    progress: audioProgress,
+    duration: audioDuration,
+    onPlayPause: handlePlayPause
+  });
+  useEffect(() => {
+    setIsEndOfTrackTimerArmed(sleepTimer.mode === 'endOfTrack');
+  }, [sleepTimer.mode]);
+
+  // Keep the queue position pointing at whatever is actually playing
+  // (a ref avoids re-running this on every queue edit, which would fight next/previous)
+  const syncQueueRef = useRef(queue.syncToNFT);
+  syncQueueRef.current = queue.syncToNFT;
+  useEffect(() => {
+    if (currentPlayingNFT) {
+      syncQueueRef.current(currentPlayingNFT);
+    }
+  }, [currentPlayingNFT]);
+
   // Add this helper function to release resources from videos
   const releaseVideoResources = useCallback(() => {
     // Just pause videos that aren't playing, don't try to unload resources
@@ -1790,6 +2069,7 @@ const DemoBase: React.FC = () => {
     setFilteredNFTs([]);
     window.nftList = [];
     setSearchResults([]);
+    setCatalogResults(EMPTY_CATALOG_RESULTS);
     
     // Set the selected user to null first to ensure clean state transition
     // This forces a complete re-render and ensures the loading state is shown
@@ -1823,7 +2103,10 @@ const DemoBase: React.FC = () => {
       isExplore: false,
       isLibrary: false,
       isProfile: false,
-      isUserProfile: true
+      isUserProfile: true,
+      isCharts: false,
+      isCollection: false,
+      isArtist: false
     });
     
     // Create a local copy of the user to prevent reference issues
@@ -2081,6 +2364,19 @@ const DemoBase: React.FC = () => {
           onPlayPause={handlePlayPause}
           onNext={handlePlayNext}
           onPrevious={handlePlayPrevious}
+          onPlayFromQueue={handlePlayFromQueue}
+          shuffle={shuffle}
+          repeatMode={repeatMode}
+          onToggleShuffle={toggleShuffle}
+          onCycleRepeat={cycleRepeatMode}
+          sleepTimerMode={sleepTimer.mode}
+          sleepTimerRemaining={sleepTimer.remaining}
+          onSetSleepTimer={sleepTimer.start}
+          onCancelSleepTimer={sleepTimer.cancel}
+          playbackRate={playbackRate}
+          onPlaybackRateChange={setPlaybackRate}
+          onSkip={handleSkip}
+          editorFid={isOwnedByUser ? userFid : undefined}
           isMinimized={isPlayerMinimized}
           onMinimizeToggle={handleMinimizeToggle}
           progress={audioProgress}
@@ -2096,6 +2392,7 @@ const DemoBase: React.FC = () => {
           }}
           isLiked={isNFTLiked(currentPlayingNFT, true)}
           onPictureInPicture={togglePictureInPicture}
+          onOpenArtist={handleOpenArtist}
         />
       )}
 
@@ -2108,9 +2405,81 @@ const DemoBase: React.FC = () => {
           isPlaying={isPlaying}
           audioProgress={audioProgress}
           onPlayPause={handlePlayPause}
+          playbackRate={playbackRate}
         />
       )}
 
+      {/* Offer to pick up a long-form track where it was left off */}
+      {currentPlayingNFT && resumeOffer && (
+        <div className="fixed top-20 left-4 right-4 z-[110] bg-black/90 border border-purple-400/20 rounded-lg">
+          <div className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <p className="text-xs text-gray-400 font-mono">Resume from {formatTime(resumeOffer.position)}?</p>
+              <p className="text-sm text-purple-400 font-mono truncate">{currentPlayingNFT.name}</p>
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button
+                onClick={dismissResume}
+                className="text-gray-400 hover:text-gray-300 font-mono text-xs"
+              >
+                Start over
+              </button>
+              <button
+                onClick={acceptResume}
+                className="px-3 py-1.5 rounded-full bg-purple-400 text-black font-mono text-xs"
+              >
+                Resume
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Following someone else's listening party */}
+      {listeningParty.party && !listeningParty.isHost && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[90] flex items-center gap-3 bg-black/90 border border-green-400/30 rounded-full px-4 py-2">
+          <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
+          <span className="text-xs text-green-400 font-mono">
+            Listening with {partyHost ? `@${partyHost.username}` : 'a party'}
+          </span>
+          <button
+            onClick={() => listeningParty.leaveParty()}
+            className="text-gray-400 hover:text-red-400 font-mono text-xs"
+          >
+            Leave
+          </button>
+        </div>
+      )}
+
+      {/* Offer to pick up a queue restored from a previous session */}
+      {!currentPlayingNFT && queue.items[queue.currentIndex] && (
+        <div className="fixed bottom-20 left-0 right-0 z-[90] bg-black/90 border-t border-purple-400/20">
+          <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <p className="text-xs text-gray-400 font-mono">Resume your queue</p>
+              <p className="text-sm text-purple-400 font-mono truncate">{queue.items[queue.currentIndex].nft.name}</p>
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button
+                onClick={() => queue.setCurrentIndex(-1)}
+                className="text-gray-400 hover:text-gray-300 font-mono text-xs"
+              >
+                Dismiss
+              </button>
+              <button
+                onClick={() => prepareAndPlayAudio(queue.items[queue.currentIndex].nft)}
+                className="w-10 h-10 rounded-full bg-purple-400 text-black flex items-center justify-center"
+                aria-label="Resume queue"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                  <path d="M320-200v-560l440 280-440 280Z"/>
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <BottomNav
         currentPage={currentPage}
         onNavigate={switchPage}
@@ -5,6 +5,7 @@ import { subscribeToRecentPlays } from '../lib/firebase';
 import { logger } from '../utils/logger';
 import { NFTCard } from './nft/NFTCard';
 import { getMediaKey } from '../utils/media';
+import { getPlaybackProgress } from '../lib/playbackPositions';
 
 // Create a dedicated logger for this component
 const recentlyPlayedLogger = logger.getModuleLogger('RecentlyPlayed');
@@ -367,6 +368,8 @@ const RecentlyPlayed: React.FC<RecentlyPlayedProps> = ({
                   const uniqueKey = mediaKey
                     ? `recent-${mediaKey.substring(0, 8)}-${index}`
                     : `recent-fallback-${index}-${Math.random().toString(36).substring(2, 9)}`;
+                  // How far into a long-form item the user got, if they stopped partway
+                  const playbackProgress = mediaKey ? getPlaybackProgress(mediaKey) : null;
                   
                   return (
                     <div key={uniqueKey} className="flex-shrink-0 w-[140px]">
@@ -393,7 +396,15 @@ const RecentlyPlayed: React.FC<RecentlyPlayedProps> = ({
                         animationDelay={0.2 + (index * 0.05)}
                         smallCard={true} // Position heart icon properly for smaller cards
                       />
-                      <h3 className="font-mono text-white text-sm truncate mt-3">{nft.name}</h3>
+                      {playbackProgress !== null && (
+                        <div className="h-1 bg-gray-700 rounded-full overflow-hidden mt-2">
+                          <div
+                            className="h-full bg-green-400"
+                            style={{ width: `${Math.round(playbackProgress * 100)}%` }}
+                          />
+                        </div>
+                      )}
+                      <h3 className={`font-mono text-white text-sm truncate ${playbackProgress !== null ? 'mt-2' : 'mt-3'}`}>{nft.name}</h3>
                     </div>
                   );
                 })}
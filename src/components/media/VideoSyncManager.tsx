@@ -4,6 +4,7 @@ import { useEffect, useRef } from 'react';
 import type { NFT } from '../../types/user';
 import { setupHls, destroyHls, isHlsUrl, getHlsUrl } from '../../utils/hlsUtils';
 import { processMediaUrl } from '../../utils/media';
+import { applyPlaybackRate } from '../../lib/playbackRates';
 
 interface VideoSyncManagerProps {
   videoRef: React.RefObject<HTMLVideoElement>;
@@ -11,6 +12,7 @@ interface VideoSyncManagerProps {
   isPlaying: boolean;
   audioProgress: number;
   onPlayPause: () => void;
+  playbackRate?: number;
 }
 
 export const VideoSyncManager: React.FC<VideoSyncManagerProps> = ({
@@ -18,7 +20,8 @@ export const VideoSyncManager: React.FC<VideoSyncManagerProps> = ({
   currentPlayingNFT,
   isPlaying,
   audioProgress,
-  onPlayPause
+  onPlayPause,
+  playbackRate = 1
 }) => {
   const hlsInitializedRef = useRef(false);
   const lastPlayStateRef = useRef(isPlaying);
@@ -36,6 +39,11 @@ export const VideoSyncManager: React.FC<VideoSyncManagerProps> = ({
       return;
     }
 
+    // Follow the audio's playback speed so the picture doesn't drift
+    if (videoElement.playbackRate !== playbackRate) {
+      applyPlaybackRate(videoElement, playbackRate);
+    }
+
     // Handle play state changes immediately - this is critical for UI responsiveness
     if (isPlaying !== lastPlayStateRef.current) {
       if (isPlaying && videoElement.paused) {
@@ -117,7 +125,7 @@ export const VideoSyncManager: React.FC<VideoSyncManagerProps> = ({
         hlsInitializedRef.current = false;
       }
     };
-  }, [isPlaying, audioProgress, currentPlayingNFT, onPlayPause]);
+  }, [isPlaying, audioProgress, currentPlayingNFT, onPlayPause, playbackRate]);
 
   return null;
 };
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import sdk from '@farcaster/frame-sdk';
+import type { NFT } from '../../types/user';
+import { useListeningParty } from '../../contexts/ListeningPartyContext';
+import { buildPartyPlayback } from '../../lib/firebase/listeningParties';
+import { logger } from '../../utils/logger';
+
+const partyLogger = logger.getModuleLogger('listeningParty');
+
+interface ListeningPartySheetProps {
+  nft: NFT;
+  isPlaying: boolean;
+  progress: number;
+  playbackRate: number;
+  onClose: () => void;
+}
+
+// Bottom sheet for starting, sharing and managing a listening party
+export const ListeningPartySheet: React.FC<ListeningPartySheetProps> = ({
+  nft,
+  isPlaying,
+  progress,
+  playbackRate,
+  onClose
+}) => {
+  const { party, participants, isHost, startParty, leaveParty, handOff } = useListeningParty();
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const appUrl = process.env.NEXT_PUBLIC_URL || (typeof window !== 'undefined' ? window.location.origin : '');
+  const partyUrl = party ? `${appUrl}/party/${party.id}` : '';
+  const host = participants.find(participant => participant.fid === party?.hostFid);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      await startParty(buildPartyPlayback(nft, progress, isPlaying, playbackRate));
+    } catch (startError) {
+      partyLogger.error('Error starting listening party:', startError);
+      setError(startError instanceof Error ? startError.message : 'Could not start the party');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleShare = () => {
+    const shareText = `Join my listening party on PODPLAYR - we're playing "${nft.name}" 🎧`;
+    sdk.actions.openUrl(`https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(partyUrl)}`);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(partyUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      partyLogger.warn('Error copying party link:', copyError);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60" />
+      <div
+        className="relative bg-gray-900 border-t border-purple-400/20 rounded-t-2xl max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-purple-400/10">
+          <h3 className="font-mono text-purple-400 text-sm">Listening Party</h3>
+          <button onClick={onClose} className="text-purple-400 hover:text-purple-300" aria-label="Close listening party">
+            <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+              <path d="M480-345 240-585l56-56 184 184 184-184 56 56-240 240Z"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-4 py-3 space-y-3">
+          {!party ? (
+            <>
+              <p className="text-gray-300 text-sm">
+                Listen together: everyone who joins hears what you play, in sync.
+              </p>
+              {error && <p className="text-red-400 font-mono text-xs">{error}</p>}
+              <button
+                onClick={handleStart}
+                disabled={isStarting}
+                className="w-full py-2 bg-purple-500 text-black rounded-full font-mono text-sm disabled:opacity-50"
+              >
+                {isStarting ? 'Starting...' : 'Start a listening party'}
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-400 font-mono text-xs">
+                {isHost ? 'You are hosting - everyone follows your playback' : `Following ${host ? `@${host.username}` : 'the host'}`}
+              </p>
+
+              <div className="flex gap-2">
+                <button onClick={handleShare} className="flex-1 py-2 bg-purple-500 text-black rounded-full font-mono text-xs">
+                  Share to Farcaster
+                </button>
+                <button onClick={handleCopy} className="flex-1 py-2 bg-gray-800 text-purple-300 rounded-full font-mono text-xs">
+                  {copied ? 'Copied!' : 'Copy link'}
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-gray-500 font-mono text-xs">{participants.length} listening</p>
+                {participants.map(participant => (
+                  <div key={participant.fid} className="flex items-center gap-3 bg-gray-800/40 rounded-lg p-2">
+                    <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700 flex-shrink-0">
+                      {participant.pfpUrl && (
+                        <Image
+                          src={participant.pfpUrl}
+                          alt={participant.displayName || participant.username}
+                          width={32}
+                          height={32}
+                          className="w-full h-full object-cover"
+                          unoptimized
+                        />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm truncate">{participant.displayName || participant.username}</p>
+                      <p className="text-gray-400 text-xs truncate">@{participant.username}</p>
+                    </div>
+                    {participant.fid === party.hostFid ? (
+                      <span className="text-green-400 font-mono text-xs">Host</span>
+                    ) : isHost && (
+                      <button
+                        onClick={() => handOff(participant.fid).catch(handOffError => {
+                          partyLogger.error('Error handing off party:', handOffError);
+                        })}
+                        className="text-gray-400 hover:text-purple-300 font-mono text-xs"
+                      >
+                        Make host
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => leaveParty().then(onClose)}
+                className="w-full py-2 text-red-400 hover:bg-red-400/10 rounded-full font-mono text-xs"
+              >
+                {isHost && participants.length <= 1 ? 'End party' : 'Leave party'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
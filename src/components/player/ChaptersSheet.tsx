@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Chapter } from '../../types/user';
+import { formatTimestamp, formatChapterList } from '../../lib/chapters';
+import { logger } from '../../utils/logger';
+
+const chaptersLogger = logger.getModuleLogger('chapters');
+
+interface ChaptersSheetProps {
+  chapters: Chapter[];
+  currentIndex: number;
+  // Chapters that come from metadata can't be overridden by the owner
+  isFromMetadata: boolean;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+  editorFid?: number;
+  onSave: (text: string, fid: number) => Promise<void>;
+}
+
+// Bottom sheet listing an episode's chapters; owners can type in their own list
+export const ChaptersSheet: React.FC<ChaptersSheetProps> = ({
+  chapters,
+  currentIndex,
+  isFromMetadata,
+  onSeek,
+  onClose,
+  editorFid,
+  onSave
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = Boolean(editorFid) && !isFromMetadata;
+
+  const startEditing = () => {
+    setDraft(formatChapterList(chapters));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!editorFid) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft, editorFid);
+      setIsEditing(false);
+    } catch (saveError) {
+      chaptersLogger.error('Error saving chapters:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Could not save chapters');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60" />
+      <div
+        className="relative bg-gray-900 border-t border-purple-400/20 rounded-t-2xl max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-purple-400/10">
+          <h3 className="font-mono text-purple-400 text-sm">Chapters</h3>
+          <div className="flex items-center gap-4">
+            {canEdit && !isEditing && (
+              <button onClick={startEditing} className="text-gray-400 hover:text-purple-300 font-mono text-xs">
+                Edit
+              </button>
+            )}
+            <button onClick={onClose} className="text-purple-400 hover:text-purple-300" aria-label="Close chapters">
+              <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                <path d="M480-345 240-585l56-56 184 184 184-184 56 56-240 240Z"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto px-4 py-3 space-y-2">
+          {isEditing ? (
+            <>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={'0:00 Intro\n4:30 Main topic\n32:10 Q&A'}
+                rows={8}
+                className="w-full bg-gray-800 text-white font-mono text-sm rounded-lg p-3 border border-purple-400/20 focus:outline-none focus:border-purple-400"
+              />
+              {error && <p className="text-red-400 font-mono text-xs">{error}</p>}
+              <div className="flex justify-end gap-3">
+                <button onClick={() => setIsEditing(false)} className="text-gray-400 font-mono text-xs">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-3 py-1 bg-purple-500 text-black rounded-full font-mono text-xs disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </>
+          ) : chapters.length === 0 ? (
+            <p className="text-center text-gray-500 font-mono text-sm py-6">
+              No chapters{canEdit ? ' yet - tap Edit to add some' : ''}
+            </p>
+          ) : (
+            chapters.map((chapter, index) => (
+              <button
+                key={`${chapter.time}-${index}`}
+                onClick={() => onSeek(chapter.time)}
+                className={`flex w-full items-center gap-3 rounded-lg p-2 text-left ${
+                  index === currentIndex ? 'bg-purple-500/20 text-green-400' : 'bg-gray-800/40 text-purple-400'
+                }`}
+              >
+                <span className="font-mono text-xs text-gray-400 w-14 flex-shrink-0">{formatTimestamp(chapter.time)}</span>
+                <span className="font-mono text-sm truncate">{chapter.title}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
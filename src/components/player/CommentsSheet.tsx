@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Image from 'next/image';
+import type { CommentAuthor, TrackComment } from '../../types/user';
+import { MAX_COMMENT_LENGTH } from '../../lib/firebase/comments';
+import { formatTimestamp } from '../../lib/chapters';
+import { logger } from '../../utils/logger';
+
+const commentsLogger = logger.getModuleLogger('comments');
+
+// Quick reactions offered at the current playback position
+export const REACTION_EMOJIS = ['🔥', '❤️', '😂', '😮', '👏'];
+
+interface CommentsSheetProps {
+  comments: TrackComment[];
+  progress: number;
+  currentFid?: number;
+  // The NFT's owner can remove anything posted on their track
+  isTrackOwner: boolean;
+  onPost: (text: string, parentId: string | null) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+  onReport: (commentId: string) => Promise<void>;
+  onReact: (emoji: string, position: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const timeAgo = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+const Avatar: React.FC<{ author: CommentAuthor; size: number }> = ({ author, size }) => (
+  <div className="rounded-full overflow-hidden relative flex-shrink-0" style={{ width: size, height: size }}>
+    <Image
+      src={author.pfpUrl || `https://avatar.vercel.sh/${author.username}`}
+      alt={author.displayName || author.username}
+      className="object-cover"
+      fill
+      sizes={`${size}px`}
+    />
+  </div>
+);
+
+// Bottom sheet with a track's comment threads, a composer and quick timestamped reactions
+export const CommentsSheet: React.FC<CommentsSheetProps> = ({
+  comments,
+  progress,
+  currentFid,
+  isTrackOwner,
+  onPost,
+  onDelete,
+  onReport,
+  onReact,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<TrackComment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [reported, setReported] = useState<Set<string>>(new Set());
+
+  // Top-level comments oldest first, each followed by its replies
+  const threads = useMemo(() => {
+    const replies = new Map<string, TrackComment[]>();
+    comments.forEach(comment => {
+      if (comment.parentId) {
+        replies.set(comment.parentId, [...(replies.get(comment.parentId) || []), comment]);
+      }
+    });
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(comment => ({ comment, replies: replies.get(comment.id) || [] }));
+  }, [comments]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      commentsLogger.error(`${failure}:`, actionError);
+      setError(actionError instanceof Error ? actionError.message : failure);
+    }
+  };
+
+  const handlePost = async () => {
+    setIsPosting(true);
+    await runAction(async () => {
+      await onPost(draft, replyTo?.id || null);
+      setDraft('');
+      setReplyTo(null);
+    }, 'Could not post comment');
+    setIsPosting(false);
+  };
+
+  const handleReport = (comment: TrackComment) => runAction(async () => {
+    await onReport(comment.id);
+    setReported(previous => new Set(previous).add(comment.id));
+  }, 'Could not report comment');
+
+  const renderComment = (comment: TrackComment, isReply: boolean) => {
+    const isOwn = comment.author?.fid === currentFid;
+    const canDelete = Boolean(currentFid) && (isOwn || isTrackOwner);
+    // Hidden comments stay visible to their author and the track owner so they can act on them
+    if (comment.hidden && !canDelete) {
+      return (
+        <p key={comment.id} className={`font-mono text-xs text-gray-500 italic ${isReply ? 'pl-10' : ''}`}>
+          Comment hidden after reports
+        </p>
+      );
+    }
+
+    return (
+      <div key={comment.id} className={`flex gap-3 ${isReply ? 'pl-10' : ''}`}>
+        <Avatar author={comment.author} size={isReply ? 24 : 32} />
+        <div className="min-w-0 flex-1">
+          <p className="font-mono text-xs text-gray-400">
+            <span className="text-purple-400">@{comment.author?.username}</span> · {timeAgo(comment.createdAt)}
+            {comment.hidden && <span className="text-red-400"> · hidden</span>}
+          </p>
+          <p className="text-sm text-gray-200 break-words whitespace-pre-wrap">{comment.text}</p>
+          {currentFid ? (
+            <div className="flex gap-4 mt-1 font-mono text-xs text-gray-500">
+              {!isReply && (
+                <button onClick={() => setReplyTo(comment)} className="hover:text-purple-300">Reply</button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={() => runAction(() => onDelete(comment.id), 'Could not delete comment')}
+                  className="hover:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
+              {!isOwn && (
+                <button
+                  onClick={() => handleReport(comment)}
+                  disabled={reported.has(comment.id)}
+                  className="hover:text-red-400 disabled:opacity-50"
+                >
+                  {reported.has(comment.id) ? 'Reported' : 'Report'}
+                </button>
+              )}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60" />
+      <div
+        className="relative bg-gray-900 border-t border-purple-400/20 rounded-t-2xl max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-purple-400/10">
+          <h3 className="font-mono text-purple-400 text-sm">Comments</h3>
+          <button onClick={onClose} className="text-purple-400 hover:text-purple-300" aria-label="Close comments">
+            <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+              <path d="M480-345 240-585l56-56 184 184 184-184 56 56-240 240Z"/>
+            </svg>
+          </button>
+        </div>
+
+        {currentFid ? (
+          <div className="flex items-center gap-3 px-4 py-2 border-b border-purple-400/10">
+            <span className="font-mono text-xs text-gray-400">React at {formatTimestamp(progress)}</span>
+            {REACTION_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => runAction(() => onReact(emoji, progress), 'Could not add reaction')}
+                className="text-lg hover:scale-125 transition-transform"
+                aria-label={`React with ${emoji}`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="overflow-y-auto px-4 py-3 space-y-4 flex-1">
+          {threads.length === 0 ? (
+            <p className="text-center text-gray-500 font-mono text-sm py-6">No comments yet</p>
+          ) : (
+            threads.map(({ comment, replies }) => (
+              <div key={comment.id} className="space-y-3">
+                {renderComment(comment, false)}
+                {replies.map(reply => renderComment(reply, true))}
+              </div>
+            ))
+          )}
+        </div>
+
+        {currentFid ? (
+          <div className="border-t border-purple-400/10 px-4 py-3 space-y-2">
+            {replyTo && (
+              <p className="font-mono text-xs text-gray-400">
+                Replying to <span className="text-purple-400">@{replyTo.author?.username}</span>
+                <button onClick={() => setReplyTo(null)} className="ml-2 text-gray-500 hover:text-purple-300">Cancel</button>
+              </p>
+            )}
+            {error && <p className="text-red-400 font-mono text-xs">{error}</p>}
+            <div className="flex gap-2">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && draft.trim() && !isPosting) handlePost();
+                }}
+                maxLength={MAX_COMMENT_LENGTH}
+                placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+                className="flex-1 bg-gray-800 text-white font-mono text-sm rounded-full px-4 py-2 border border-purple-400/20 focus:outline-none focus:border-purple-400"
+              />
+              <button
+                onClick={handlePost}
+                disabled={isPosting || !draft.trim()}
+                className="px-4 py-1 bg-purple-500 text-black rounded-full font-mono text-xs disabled:opacity-50"
+              >
+                {isPosting ? 'Posting...' : 'Post'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="border-t border-purple-400/10 px-4 py-3 text-center text-gray-500 font-mono text-xs">
+            Open PODPLAYR in Farcaster to comment
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNFTPlayCount } from '../../hooks/useNFTPlayCount';
 import { useNFTLikeState } from '../../hooks/useNFTLikeState';
 import { useNFTTopPlayed } from '../../hooks/useNFTTopPlayed';
+import { useNFTArtist } from '../../hooks/useNFTArtist';
 import type { NFT } from '../../types/user';
 import { getMediaKey } from '../../utils/media';
 
@@ -9,12 +10,14 @@ interface InfoPanelProps {
   nft: NFT;
   onClose: () => void;
   userFid?: number;
+  onOpenArtist?: (artistId: string) => void;
 }
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ nft, onClose, userFid = 0 }) => {
+const InfoPanel: React.FC<InfoPanelProps> = ({ nft, onClose, userFid = 0, onOpenArtist }) => {
   const { playCount, loading, realCountIncrease } = useNFTPlayCount(nft);
   const { isLiked, likesCount, isLoading: likesLoading } = useNFTLikeState(nft, userFid);
   const { hasBeenInTopPlayed, loading: topPlayedLoading } = useNFTTopPlayed(nft);
+  const { artist, artistName } = useNFTArtist(nft);
   const [isClosing, setIsClosing] = useState(false);
   
   // State to track animation of play count
@@ -68,6 +71,16 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ nft, onClose, userFid = 0 }) => {
         <div className="flex justify-between items-start mb-4">
           <div className="flex-1">
             <h2 className="text-purple-300 font-mono text-base font-semibold">{nft.name}</h2>
+            {artist && onOpenArtist ? (
+              <button
+                onClick={() => onOpenArtist(artist.id)}
+                className="text-green-400 hover:text-green-300 font-mono text-sm text-left underline-offset-2 hover:underline"
+              >
+                {artistName}
+              </button>
+            ) : artistName && (
+              <p className="text-gray-400 font-mono text-sm">{artistName}</p>
+            )}
             <div className="flex items-center gap-2 mt-1">
               <div 
                 className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full transition-all duration-300 ${isPlayCountAnimating ? 'animate-count-updated' : 'bg-purple-500/10'}`}
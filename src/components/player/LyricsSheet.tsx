@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { NFT } from '../../types/user';
+import { useLyrics } from '../../hooks/useLyrics';
+import { getActiveLyricIndex } from '../../lib/lyrics';
+import { logger } from '../../utils/logger';
+
+const lyricsLogger = logger.getModuleLogger('lyrics');
+
+// After the listener scrolls by hand, leave the view alone for this long
+const MANUAL_SCROLL_PAUSE_MS = 4000;
+
+interface LyricsSheetProps {
+  nft: NFT;
+  progress: number;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+  // Set when the current user owns this NFT, enabling lyric uploads
+  uploaderFid?: number;
+}
+
+// Bottom sheet showing time-synced lyrics or a transcript that follows playback
+export const LyricsSheet: React.FC<LyricsSheetProps> = ({ nft, progress, onSeek, onClose, uploaderFid }) => {
+  const { lyrics, isLoading, uploadLyrics, removeUploadedLyrics } = useLyrics(nft);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const lineRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const lastManualScrollRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeIndex = lyrics ? getActiveLyricIndex(lyrics.lines, progress) : -1;
+
+  // Keep the current line centred unless the listener is browsing
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    if (Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_PAUSE_MS) return;
+    lineRefs.current[activeIndex]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const markManualScroll = () => {
+    lastManualScrollRef.current = Date.now();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !uploaderFid) return;
+
+    setUploadError(null);
+    setIsUploading(true);
+    try {
+      await uploadLyrics(await file.text(), uploaderFid);
+    } catch (error) {
+      lyricsLogger.error('Error uploading lyrics:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60" />
+      <div
+        className="relative bg-gray-900 border-t border-purple-400/20 rounded-t-2xl h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-purple-400/10">
+          <h3 className="font-mono text-purple-400 text-sm truncate">
+            {lyrics?.format === 'vtt' ? 'Transcript' : 'Lyrics'} · {nft.name}
+          </h3>
+          <div className="flex items-center gap-4">
+            {uploaderFid && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".lrc,.vtt,text/vtt,text/plain"
+                  className="hidden"
+                  onChange={handleFileSelected}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="text-gray-400 hover:text-purple-300 font-mono text-xs disabled:opacity-50"
+                >
+                  {isUploading ? 'Uploading...' : lyrics?.source === 'upload' ? 'Replace' : 'Upload'}
+                </button>
+                {lyrics?.source === 'upload' && (
+                  <button
+                    onClick={() => removeUploadedLyrics(uploaderFid).catch(error => setUploadError(error.message))}
+                    className="text-gray-400 hover:text-red-400 font-mono text-xs"
+                  >
+                    Remove
+                  </button>
+                )}
+              </>
+            )}
+            <button onClick={onClose} className="text-purple-400 hover:text-purple-300" aria-label="Close lyrics">
+              <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                <path d="M480-345 240-585l56-56 184 184 184-184 56 56-240 240Z"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {uploadError && (
+          <p className="px-4 pt-2 text-red-400 font-mono text-xs">{uploadError}</p>
+        )}
+
+        <div
+          className="flex-1 overflow-y-auto px-6 py-6 space-y-3"
+          onWheel={markManualScroll}
+          onTouchMove={markManualScroll}
+        >
+          {isLoading ? (
+            <p className="text-center text-gray-500 font-mono text-sm py-6">Loading lyrics...</p>
+          ) : !lyrics ? (
+            <p className="text-center text-gray-500 font-mono text-sm py-6">
+              No lyrics for this track{uploaderFid ? ' yet - upload an .lrc or .vtt file' : ''}
+            </p>
+          ) : (
+            lyrics.lines.map((line, index) => (
+              <button
+                key={`${line.time}-${index}`}
+                ref={el => { lineRefs.current[index] = el; }}
+                onClick={() => onSeek(line.time)}
+                className={`block w-full text-left text-lg transition-colors ${
+                  index === activeIndex
+                    ? 'text-white font-semibold'
+                    : index < activeIndex
+                      ? 'text-purple-300/50'
+                      : 'text-purple-300/80 hover:text-purple-200'
+                }`}
+              >
+                {line.text || '♪'}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
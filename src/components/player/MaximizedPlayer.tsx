@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useContext } from 'react';
 import { usePlayerState } from './hooks/usePlayerState';
 import { NFTImage } from '../media/NFTImage';
 import { processMediaUrl, getMediaKey } from '../../utils/media';
@@ -6,6 +6,22 @@ import type { NFT } from '../../types/user';
 import sdk from '@farcaster/frame-sdk';
 import { getNftCdnUrl, preloadNftMedia } from '../../utils/cdn';
 import { logger } from '../../utils/logger';
+import { UpNextSheet } from './UpNextSheet';
+import { LyricsSheet } from './LyricsSheet';
+import { ChaptersSheet } from './ChaptersSheet';
+import { CommentsSheet } from './CommentsSheet';
+import { SeekBarReactions } from './SeekBarReactions';
+import { ListeningPartySheet } from '../party/ListeningPartySheet';
+import { useListeningParty } from '../../contexts/ListeningPartyContext';
+import { useChapters } from '../../hooks/useChapters';
+import { useTrackComments } from '../../hooks/useTrackComments';
+import { FarcasterContext } from '../../app/providers';
+import { getCurrentChapterIndex, getPreviousChapterTime, getNextChapterTime } from '../../lib/chapters';
+import { buildShareUrl } from '../../lib/shareLinks';
+import { isLongFormDuration } from '../../lib/playbackPositions';
+import type { RepeatMode } from '../../hooks/useAudioPlayer';
+import { SLEEP_TIMER_PRESETS, type SleepTimerMode } from '../../hooks/useSleepTimer';
+import { getNextPlaybackRate } from '../../lib/playbackRates';
 
 // Fix the MaximizedPlayerProps interface to include isAnimating
 // export interface MaximizedPlayerProps {
@@ -32,6 +48,19 @@ export interface MaximizedPlayerProps {
   onPlayPause: () => void;
   onNext?: () => void;
   onPrevious?: () => void;
+  onPlayFromQueue?: (queueItemId: string) => void;
+  shuffle?: boolean;
+  repeatMode?: RepeatMode;
+  onToggleShuffle?: () => void;
+  onCycleRepeat?: () => void;
+  sleepTimerMode?: SleepTimerMode | null;
+  sleepTimerRemaining?: number | null;
+  onSetSleepTimer?: (mode: SleepTimerMode) => void;
+  onCancelSleepTimer?: () => void;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkip?: (seconds: number) => void;
+  editorFid?: number; // fid of the current user when they own this NFT (can edit lyrics and chapters)
   isMinimized: boolean;
   onMinimizeToggle: () => void;
   progress: number;
@@ -50,6 +79,19 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
   onPlayPause,
   onNext,
   onPrevious,
+  onPlayFromQueue,
+  shuffle = false,
+  repeatMode = 'off',
+  onToggleShuffle,
+  onCycleRepeat,
+  sleepTimerMode = null,
+  sleepTimerRemaining = null,
+  onSetSleepTimer,
+  onCancelSleepTimer,
+  playbackRate = 1,
+  onPlaybackRateChange,
+  onSkip,
+  editorFid,
   isMinimized,
   onMinimizeToggle,
   progress,
@@ -72,6 +114,27 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
   const [longPressTimer, setLongPressTimer] = useState<NodeJS.Timeout | null>(null);
   const progressBarRef = useRef<HTMLDivElement>(null);
   const [pipActive, setPipActive] = useState(false);
+  const [showUpNext, setShowUpNext] = useState(false);
+  const [showSleepMenu, setShowSleepMenu] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
+  const [showChapters, setShowChapters] = useState(false);
+  const [showParty, setShowParty] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const { party } = useListeningParty();
+  const { fid: userFid = 0, profile } = useContext(FarcasterContext);
+  const isTrackOwner = Boolean(editorFid);
+  const {
+    comments,
+    reactions,
+    postComment,
+    removeComment,
+    report,
+    react
+  } = useTrackComments(nft, profile || null);
+  const { chapters, source: chaptersSource, saveChapterList } = useChapters(nft);
+  const currentChapterIndex = getCurrentChapterIndex(chapters, progress);
+  const previousChapterTime = getPreviousChapterTime(chapters, progress);
+  const nextChapterTime = getNextChapterTime(chapters, progress);
   
   // Auto-hide controls after inactivity
   useEffect(() => {
@@ -565,7 +628,9 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                       onClick={() => {
                         // Personalize the share message with the NFT name
                         const shareText = `Check out "${nft.name}" on PODPLAYR! 📺`;
-                        const shareUrl = 'podplayr.xyz';
+                        // Long-form shares pick up where the listener is now
+                        const startTime = isLongFormDuration(duration) ? progress : null;
+                        const shareUrl = buildShareUrl(process.env.NEXT_PUBLIC_URL || window.location.origin, nft.contract, nft.tokenId, startTime);
                         
                         // Use the imported SDK directly
                         sdk.actions.openUrl(`https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`);
@@ -652,6 +717,18 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                   style={{ width: `${((scrubPosition !== null ? scrubPosition : progress) / duration) * 100}%` }}
                 />
                 
+                {/* Chapter ticks */}
+                {duration > 0 && chapters.filter(chapter => chapter.time > 0 && chapter.time < duration).map(chapter => (
+                  <div
+                    key={chapter.time}
+                    className="absolute inset-y-0 w-0.5 bg-black/70 pointer-events-none"
+                    style={{ left: `${(chapter.time / duration) * 100}%` }}
+                  />
+                ))}
+
+                {/* Timestamped reactions */}
+                <SeekBarReactions reactions={reactions} progress={progress} duration={duration} />
+
                 {/* Scrubber handle - only shows during active scrubbing */}
                 {isActivelyScrubbingBar && (
                   <div 
@@ -681,6 +758,16 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                 <span>{formatTime(Math.floor(duration))}</span>
               </div>
 
+              {/* Current chapter */}
+              {currentChapterIndex >= 0 && (
+                <button
+                  onClick={() => setShowChapters(true)}
+                  className="block mx-auto -mt-2 mb-4 max-w-full truncate font-mono text-xs text-purple-300 hover:text-purple-200"
+                >
+                  {chapters[currentChapterIndex].title}
+                </button>
+              )}
+
               {/* Playback Controls */}
               <div className="flex justify-center items-center gap-12 mb-8">
                 {/* Previous Track */}
@@ -722,14 +809,267 @@ export const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                 </button>
               </div>
 
-              {/* Secondary Controls - REMOVED THE PIP BUTTON FROM HERE */}
+              {/* Skip and speed controls for spoken-word NFTs */}
+              {(onSkip || onPlaybackRateChange || chapters.length > 0) && (
+                <div className="flex justify-center items-center gap-6 mb-6">
+                  {chapters.length > 0 && (
+                    <button
+                      onClick={() => previousChapterTime !== null && onSeek(previousChapterTime)}
+                      disabled={previousChapterTime === null}
+                      className="text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-30"
+                      aria-label="Previous chapter"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                        <path d="M860-240 500-480l360-240v480Zm-400 0L100-480l360-240v480Z"/>
+                      </svg>
+                    </button>
+                  )}
+
+                  {onSkip && [-30, -15].map(seconds => (
+                    <button
+                      key={seconds}
+                      onClick={() => onSkip(seconds)}
+                      className="relative text-purple-400 hover:text-purple-300 transition-colors"
+                      aria-label={`Back ${Math.abs(seconds)} seconds`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" height="28" viewBox="0 -960 960 960" width="28" fill="currentColor">
+                        <path d="M480-80q-75 0-140.5-28.5t-114-77q-48.5-48.5-77-114T120-440h80q0 117 81.5 198.5T480-160q117 0 198.5-81.5T760-440q0-117-81.5-198.5T480-720h-6l62 62-56 58-160-160 160-160 56 58-62 62h6q75 0 140.5 28.5t114 77q48.5 48.5 77 114T840-440q0 75-28.5 140.5t-77 114q-48.5 48.5-114 77T480-80Z"/>
+                      </svg>
+                      <span className="absolute inset-0 flex items-center justify-center pt-1 font-mono text-[9px]">{Math.abs(seconds)}</span>
+                    </button>
+                  ))}
+
+                  {onPlaybackRateChange && (
+                    <button
+                      onClick={() => onPlaybackRateChange(getNextPlaybackRate(playbackRate))}
+                      className={`min-w-[48px] px-2 py-1 rounded-full border font-mono text-xs transition-colors ${playbackRate !== 1 ? 'border-green-400 text-green-400' : 'border-purple-400/40 text-purple-400 hover:text-purple-300'}`}
+                      aria-label="Playback speed"
+                    >
+                      {playbackRate}×
+                    </button>
+                  )}
+
+                  {onSkip && [15, 30].map(seconds => (
+                    <button
+                      key={seconds}
+                      onClick={() => onSkip(seconds)}
+                      className="relative text-purple-400 hover:text-purple-300 transition-colors"
+                      aria-label={`Forward ${seconds} seconds`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" height="28" viewBox="0 -960 960 960" width="28" fill="currentColor">
+                        <path d="M480-80q-75 0-140.5-28.5t-114-77q-48.5-48.5-77-114T120-440q0-75 28.5-140.5t77-114q48.5-48.5 114-77T480-800h6l-62-62 56-58 160 160-160 160-56-58 62-62h-6q-117 0-198.5 81.5T200-440q0 117 81.5 198.5T480-160q117 0 198.5-81.5T760-440h80q0 75-28.5 140.5t-77 114q-48.5 48.5-114 77T480-80Z"/>
+                      </svg>
+                      <span className="absolute inset-0 flex items-center justify-center pt-1 font-mono text-[9px]">{seconds}</span>
+                    </button>
+                  ))}
+
+                  {chapters.length > 0 && (
+                    <button
+                      onClick={() => nextChapterTime !== null && onSeek(nextChapterTime)}
+                      disabled={nextChapterTime === null}
+                      className="text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-30"
+                      aria-label="Next chapter"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                        <path d="M100-240v-480l360 240-360 240Zm400 0v-480l360 240-360 240Z"/>
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Secondary Controls */}
               <div className="flex justify-center items-center gap-8">
-                {/* No buttons here - removed the redundant PIP button */}
+                {/* Shuffle */}
+                {onToggleShuffle && (
+                  <button
+                    onClick={onToggleShuffle}
+                    className={`transition-colors ${shuffle ? 'text-green-400' : 'text-purple-400/60 hover:text-purple-300'}`}
+                    aria-label={shuffle ? 'Turn shuffle off' : 'Turn shuffle on'}
+                    aria-pressed={shuffle}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                      <path d="M560-160v-80h104L537-367l57-57 126 126v-102h80v240H560Zm-344 0-56-56 504-504H560v-80h240v240h-80v-104L216-160Zm151-377L160-744l56-56 207 207-56 56Z"/>
+                    </svg>
+                  </button>
+                )}
+
+                {/* Repeat: off -> all -> one */}
+                {onCycleRepeat && (
+                  <button
+                    onClick={onCycleRepeat}
+                    className={`transition-colors ${repeatMode !== 'off' ? 'text-green-400' : 'text-purple-400/60 hover:text-purple-300'}`}
+                    aria-label={`Repeat: ${repeatMode}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                      <path d={repeatMode === 'one' ? 'M460-360v-180h-60v-60h120v240h-60ZM280-80 120-240l160-160 56 58-62 62h406v-160h80v240H274l62 62-56 58Zm-80-440v-240h486l-62-62 56-58 160 160-160 160-56-58 62-62H280v160h-80Z' : 'M280-80 120-240l160-160 56 58-62 62h406v-160h80v240H274l62 62-56 58Zm-80-440v-240h486l-62-62 56-58 160 160-160 160-56-58 62-62H280v160h-80Z'}/>
+                    </svg>
+                  </button>
+                )}
+
+                {/* Sleep timer */}
+                {onSetSleepTimer && (
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowSleepMenu(prev => !prev)}
+                      className={`flex items-center gap-1 transition-colors ${sleepTimerMode !== null ? 'text-green-400' : 'text-purple-400/60 hover:text-purple-300'}`}
+                      aria-label="Sleep timer"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                        <path d="M484-80q-84 0-157.5-32t-128-86.5Q144-253 112-326.5T80-484q0-146 93-257.5T410-880q-18 99 11 193.5T521-521q71 71 165.5 100T880-410q-26 144-138 237T484-80Z"/>
+                      </svg>
+                      {sleepTimerRemaining !== null && (
+                        <span className="font-mono text-xs">{formatTime(Math.ceil(sleepTimerRemaining))}</span>
+                      )}
+                    </button>
+
+                    {showSleepMenu && (
+                      <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-900 border border-purple-400/20 rounded-lg py-1 min-w-[150px] z-50">
+                        {SLEEP_TIMER_PRESETS.map(preset => (
+                          <button
+                            key={preset}
+                            onClick={() => {
+                              onSetSleepTimer(preset);
+                              setShowSleepMenu(false);
+                            }}
+                            className={`block w-full text-left px-4 py-2 font-mono text-sm hover:bg-purple-400/10 ${sleepTimerMode === preset ? 'text-green-400' : 'text-purple-400'}`}
+                          >
+                            {preset === 'endOfTrack' ? 'End of track' : `${preset} minutes`}
+                          </button>
+                        ))}
+                        {sleepTimerMode !== null && onCancelSleepTimer && (
+                          <button
+                            onClick={() => {
+                              onCancelSleepTimer();
+                              setShowSleepMenu(false);
+                            }}
+                            className="block w-full text-left px-4 py-2 font-mono text-sm text-red-400 hover:bg-red-400/10"
+                          >
+                            Turn off
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Lyrics / transcript */}
+                <button
+                  onClick={() => setShowLyrics(true)}
+                  className="text-purple-400 hover:text-purple-300 transition-colors"
+                  aria-label="Show lyrics"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                    <path d="M240-400h320v-80H240v80Zm0-120h480v-80H240v80Zm0-120h480v-80H240v80ZM80-80v-720q0-33 23.5-56.5T160-880h640q33 0 56.5 23.5T880-800v480q0 33-23.5 56.5T800-240H240L80-80Zm126-240h594v-480H160v525l46-45Zm-46 0v-480 480Z"/>
+                  </svg>
+                </button>
+
+                {/* Chapters - owners can add them even when there are none yet */}
+                {(chapters.length > 0 || editorFid) && (
+                  <button
+                    onClick={() => setShowChapters(true)}
+                    className="text-purple-400 hover:text-purple-300 transition-colors"
+                    aria-label="Show chapters"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                      <path d="M280-600v-80h560v80H280Zm0 160v-80h560v80H280Zm0 160v-80h560v80H280ZM160-600q-17 0-28.5-11.5T120-640q0-17 11.5-28.5T160-680q17 0 28.5 11.5T200-640q0 17-11.5 28.5T160-600Zm0 160q-17 0-28.5-11.5T120-480q0-17 11.5-28.5T160-520q17 0 28.5 11.5T200-480q0 17-11.5 28.5T160-440Zm0 160q-17 0-28.5-11.5T120-320q0-17 11.5-28.5T160-360q17 0 28.5 11.5T200-320q0 17-11.5 28.5T160-280Z"/>
+                    </svg>
+                  </button>
+                )}
+
+                {/* Comments */}
+                <button
+                  onClick={() => setShowComments(true)}
+                  className="relative text-purple-400 hover:text-purple-300 transition-colors"
+                  aria-label="Show comments"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                    <path d="M240-400h480v-80H240v80Zm0-120h480v-80H240v80Zm0-120h480v-80H240v80ZM880-80 720-240H160q-33 0-56.5-23.5T80-320v-480q0-33 23.5-56.5T160-880h640q33 0 56.5 23.5T880-800v720ZM160-320h594l46 45v-525H160v480Zm0 0v-480 480Z"/>
+                  </svg>
+                  {comments.length > 0 && (
+                    <span className="absolute -top-1 -right-2 font-mono text-[10px] text-green-400">{comments.length}</span>
+                  )}
+                </button>
+
+                {/* Listening party */}
+                <button
+                  onClick={() => setShowParty(true)}
+                  className={`transition-colors ${party ? 'text-green-400' : 'text-purple-400 hover:text-purple-300'}`}
+                  aria-label="Listening party"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                    <path d="M40-160v-112q0-34 17.5-62.5T104-378q62-31 126-46.5T360-440q66 0 130 15.5T616-378q29 15 46.5 43.5T680-272v112H40Zm720 0v-120q0-44-24.5-84.5T666-434q51 6 96 20.5t84 35.5q36 20 55 44.5t19 53.5v120H760ZM360-480q-66 0-113-47t-47-113q0-66 47-113t113-47q66 0 113 47t47 113q0 66-47 113t-113 47Zm400-160q0 66-47 113t-113 47q-11 0-28-2.5t-28-5.5q27-32 41.5-71t14.5-81q0-42-14.5-81T544-792q14-5 28-6.5t28-1.5q66 0 113 47t47 113Z"/>
+                  </svg>
+                </button>
+
+                {/* Up Next queue */}
+                <button
+                  onClick={() => setShowUpNext(true)}
+                  className="text-purple-400 hover:text-purple-300 transition-colors"
+                  aria-label="Show Up Next"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                    <path d="M640-160q-50 0-85-35t-35-85q0-50 35-85t85-35q11 0 21 1.5t19 6.5v-328h200v80H760v360q0 50-35 85t-85 35ZM120-320v-80h320v80H120Zm0-160v-80h480v80H120Zm0-160v-80h480v80H120Z"/>
+                  </svg>
+                </button>
               </div>
             </div>
           </div>
         </div>
 
+        {showUpNext && (
+          <UpNextSheet
+            onClose={() => setShowUpNext(false)}
+            onPlayFromQueue={onPlayFromQueue}
+          />
+        )}
+
+        {showLyrics && (
+          <LyricsSheet
+            nft={nft}
+            progress={progress}
+            onSeek={onSeek}
+            onClose={() => setShowLyrics(false)}
+            uploaderFid={editorFid}
+          />
+        )}
+
+        {showParty && (
+          <ListeningPartySheet
+            nft={nft}
+            isPlaying={isPlaying}
+            progress={progress}
+            playbackRate={playbackRate}
+            onClose={() => setShowParty(false)}
+          />
+        )}
+
+        {showComments && (
+          <CommentsSheet
+            comments={comments}
+            progress={progress}
+            currentFid={userFid || undefined}
+            isTrackOwner={isTrackOwner}
+            onPost={postComment}
+            onDelete={removeComment}
+            onReport={report}
+            onReact={react}
+            onClose={() => setShowComments(false)}
+          />
+        )}
+
+        {showChapters && (
+          <ChaptersSheet
+            chapters={chapters}
+            currentIndex={currentChapterIndex}
+            isFromMetadata={chaptersSource === 'metadata'}
+            onSeek={onSeek}
+            onClose={() => setShowChapters(false)}
+            editorFid={editorFid}
+            onSave={saveChapterList}
+          />
+        )}
+
         {/* Now Playing Bar */}
         <div className="fixed bottom-0 left-0 right-0 bg-black/80 backdrop-blur-sm border-t border-purple-400/20">
           <div className="container mx-auto flex items-center justify-between px-4 py-5">
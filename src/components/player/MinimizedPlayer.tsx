@@ -26,6 +26,8 @@ interface MinimizedPlayerProps {
   lastPosition?: number;
   isAnimating?: boolean;
   userFid?: number;
+  sleepTimerRemaining?: number | null;
+  onOpenArtist?: (artistId: string) => void;
 }
 
 export const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
@@ -42,6 +44,8 @@ export const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
   isAnimating,
   lastPosition,
   userFid = 0,
+  sleepTimerRemaining = null,
+  onOpenArtist,
 }) => {
   // State for swipe and info panel
   const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -383,7 +387,17 @@ export const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
 
   return (
     <>
-      {showInfo && <InfoPanel nft={nft} onClose={() => setShowInfo(false)} userFid={userFid} />}
+      {showInfo && (
+        <InfoPanel
+          nft={nft}
+          onClose={() => setShowInfo(false)}
+          userFid={userFid}
+          onOpenArtist={onOpenArtist ? (artistId) => {
+            setShowInfo(false);
+            onOpenArtist(artistId);
+          } : undefined}
+        />
+      )}
       <div 
         className="fixed bottom-20 left-0 right-0 bg-black border-t border-purple-400/20 h-20 z-[100] will-change-transform overflow-hidden"
         style={{
@@ -468,6 +482,14 @@ export const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
                   <span className="text-gray-400 text-xs font-mono">{formatTime(Math.floor(progress))}</span>
                   <span className="text-gray-600 text-xs font-mono">/</span>
                   <span className="text-gray-400 text-xs font-mono">{formatTime(Math.floor(duration))}</span>
+                  {sleepTimerRemaining !== null && (
+                    <span className="inline-flex items-center text-purple-300 text-xs font-mono pl-2" aria-label="Sleep timer">
+                      <svg xmlns="http://www.w3.org/2000/svg" height="12" viewBox="0 -960 960 960" width="12" fill="currentColor" className="mr-0.5">
+                        <path d="M484-80q-84 0-157.5-32t-128-86.5Q144-253 112-326.5T80-484q0-146 93-257.5T410-880q-18 99 11 193.5T521-521q71 71 165.5 100T880-410q-26 144-138 237T484-80Z"/>
+                      </svg>
+                      {formatTime(Math.ceil(sleepTimerRemaining))}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
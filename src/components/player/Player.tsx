@@ -3,6 +3,8 @@ import React, { useContext, useRef, useEffect, useState } from 'react';
 import { MinimizedPlayer } from './MinimizedPlayer';
 import { MaximizedPlayer } from './MaximizedPlayer';
 import type { NFT } from '../../types/user';
+import type { RepeatMode } from '../../hooks/useAudioPlayer';
+import type { SleepTimerMode } from '../../hooks/useSleepTimer';
 import { FarcasterContext } from '../../app/providers';
 import { useNFTLikeState } from '../../hooks/useNFTLikeState';
 import { setPlaybackActive } from '../../utils/media';
@@ -14,6 +16,19 @@ interface PlayerProps {
   onPlayPause: () => void;
   onNext?: () => void;
   onPrevious?: () => void;
+  onPlayFromQueue?: (queueItemId: string) => void;
+  shuffle?: boolean;
+  repeatMode?: RepeatMode;
+  onToggleShuffle?: () => void;
+  onCycleRepeat?: () => void;
+  sleepTimerMode?: SleepTimerMode | null;
+  sleepTimerRemaining?: number | null;
+  onSetSleepTimer?: (mode: SleepTimerMode) => void;
+  onCancelSleepTimer?: () => void;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkip?: (seconds: number) => void;
+  editorFid?: number;
   isMinimized: boolean;
   onMinimizeToggle: () => void;
   progress: number;
@@ -22,6 +37,7 @@ interface PlayerProps {
   onLikeToggle?: (nft: NFT) => void;
   isLiked?: boolean;
   onPictureInPicture?: () => void;
+  onOpenArtist?: (artistId: string) => void;
 }
 
 export const Player: React.FC<PlayerProps> = (props) => {
@@ -31,13 +47,27 @@ export const Player: React.FC<PlayerProps> = (props) => {
   onPlayPause,
   onNext,
   onPrevious,
+  onPlayFromQueue,
+  shuffle,
+  repeatMode,
+  onToggleShuffle,
+  onCycleRepeat,
+  sleepTimerMode,
+  sleepTimerRemaining,
+  onSetSleepTimer,
+  onCancelSleepTimer,
+  playbackRate,
+  onPlaybackRateChange,
+  onSkip,
+  editorFid,
   isMinimized,
   onMinimizeToggle,
   progress,
   duration,
   onSeek,
   onLikeToggle,
-  onPictureInPicture
+  onPictureInPicture,
+  onOpenArtist
   } = props;
 
   // Video reference for syncing video playback
@@ -280,10 +310,12 @@ export const Player: React.FC<PlayerProps> = (props) => {
           onLikeToggle={onLikeToggle ? (nft) => onLikeToggle(nft) : undefined}
           isLiked={isLiked}
           onPictureInPicture={onPictureInPicture}
+          sleepTimerRemaining={sleepTimerRemaining}
           lastPosition={lastPositionRef.current}
           isMinimized={isMinimized}
           isAnimating={isAnimating}
-          userFid={userFid}          
+          userFid={userFid}
+          onOpenArtist={onOpenArtist}
         />
       )}
       {showMaximized && (
@@ -295,6 +327,19 @@ export const Player: React.FC<PlayerProps> = (props) => {
             onPlayPause={onPlayPause}
             onNext={onNext}
             onPrevious={onPrevious}
+            onPlayFromQueue={onPlayFromQueue}
+            shuffle={shuffle}
+            repeatMode={repeatMode}
+            onToggleShuffle={onToggleShuffle}
+            onCycleRepeat={onCycleRepeat}
+            sleepTimerMode={sleepTimerMode}
+            sleepTimerRemaining={sleepTimerRemaining}
+            onSetSleepTimer={onSetSleepTimer}
+            onCancelSleepTimer={onCancelSleepTimer}
+            playbackRate={playbackRate}
+            onPlaybackRateChange={onPlaybackRateChange}
+            onSkip={onSkip}
+            editorFid={editorFid}
             onMinimizeToggle={onMinimizeToggle}
             progress={progress}
             duration={duration}
@@ -1,6 +1,8 @@
 'use client';
 
 import React from 'react';
+import type { RepeatMode } from '../../hooks/useAudioPlayer';
+import { getNextPlaybackRate } from '../../lib/playbackRates';
 
 interface PlayerControlsProps {
   isPlaying: boolean;
@@ -10,6 +12,15 @@ interface PlayerControlsProps {
   disabled?: boolean;
   onPictureInPicture?: () => void;
   showPiP?: boolean;
+  shuffle?: boolean;
+  repeatMode?: RepeatMode;
+  onToggleShuffle?: () => void;
+  onCycleRepeat?: () => void;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkip?: (seconds: number) => void;
+  onPreviousChapter?: () => void;
+  onNextChapter?: () => void;
 }
 
 export const PlayerControls: React.FC<PlayerControlsProps> = ({
@@ -20,9 +31,62 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
   disabled = false,
   onPictureInPicture,
   showPiP = false,
+  shuffle = false,
+  repeatMode = 'off',
+  onToggleShuffle,
+  onCycleRepeat,
+  playbackRate = 1,
+  onPlaybackRateChange,
+  onSkip,
+  onPreviousChapter,
+  onNextChapter,
 }) => {
   return (
     <div className="flex items-center gap-4">
+      {/* Shuffle Toggle */}
+      {onToggleShuffle && (
+        <button
+          onClick={onToggleShuffle}
+          disabled={disabled}
+          className={`${shuffle ? 'text-green-400' : 'text-purple-400/60 hover:text-purple-300'} transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label={shuffle ? 'Turn shuffle off' : 'Turn shuffle on'}
+          aria-pressed={shuffle}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M560-160v-80h104L537-367l57-57 126 126v-102h80v240H560Zm-344 0-56-56 504-504H560v-80h240v240h-80v-104L216-160Zm151-377L160-744l56-56 207 207-56 56Z" />
+          </svg>
+        </button>
+      )}
+
+      {/* Previous Chapter */}
+      {onPreviousChapter && (
+        <button
+          onClick={onPreviousChapter}
+          disabled={disabled}
+          className={`text-purple-400 hover:text-purple-300 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label="Previous chapter"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M860-240 500-480l360-240v480Zm-400 0L100-480l360-240v480Z" />
+          </svg>
+        </button>
+      )}
+
+      {/* Skip Back 15s */}
+      {onSkip && (
+        <button
+          onClick={() => onSkip(-15)}
+          disabled={disabled}
+          className={`relative text-purple-400 hover:text-purple-300 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label="Back 15 seconds"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="28" viewBox="0 -960 960 960" width="28" fill="currentColor">
+            <path d="M480-80q-75 0-140.5-28.5t-114-77q-48.5-48.5-77-114T120-440h80q0 117 81.5 198.5T480-160q117 0 198.5-81.5T760-440q0-117-81.5-198.5T480-720h-6l62 62-56 58-160-160 160-160 56 58-62 62h6q75 0 140.5 28.5t114 77q48.5 48.5 77 114T840-440q0 75-28.5 140.5t-77 114q-48.5 48.5-114 77T480-80Z" />
+          </svg>
+          <span className="absolute inset-0 flex items-center justify-center pt-1 font-mono text-[9px]">15</span>
+        </button>
+      )}
+
       {/* Previous Track */}
       <button
         onClick={onPrevious}
@@ -62,6 +126,61 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
         </svg>
       </button>
 
+      {/* Skip Forward 15s */}
+      {onSkip && (
+        <button
+          onClick={() => onSkip(15)}
+          disabled={disabled}
+          className={`relative text-purple-400 hover:text-purple-300 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label="Forward 15 seconds"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="28" viewBox="0 -960 960 960" width="28" fill="currentColor">
+            <path d="M480-80q-75 0-140.5-28.5t-114-77q-48.5-48.5-77-114T120-440q0-75 28.5-140.5t77-114q48.5-48.5 114-77T480-800h6l-62-62 56-58 160 160-160 160-56-58 62-62h-6q-117 0-198.5 81.5T200-440q0 117 81.5 198.5T480-160q117 0 198.5-81.5T760-440h80q0 75-28.5 140.5t-77 114q-48.5 48.5-114 77T480-80Z" />
+          </svg>
+          <span className="absolute inset-0 flex items-center justify-center pt-1 font-mono text-[9px]">15</span>
+        </button>
+      )}
+
+      {/* Next Chapter */}
+      {onNextChapter && (
+        <button
+          onClick={onNextChapter}
+          disabled={disabled}
+          className={`text-purple-400 hover:text-purple-300 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label="Next chapter"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M100-240v-480l360 240-360 240Zm400 0v-480l360 240-360 240Z" />
+          </svg>
+        </button>
+      )}
+
+      {/* Playback Speed */}
+      {onPlaybackRateChange && (
+        <button
+          onClick={() => onPlaybackRateChange(getNextPlaybackRate(playbackRate))}
+          disabled={disabled}
+          className={`min-w-[40px] font-mono text-xs ${playbackRate !== 1 ? 'text-green-400' : 'text-purple-400 hover:text-purple-300'} transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label="Playback speed"
+        >
+          {playbackRate}×
+        </button>
+      )}
+
+      {/* Repeat Toggle: off -> all -> one */}
+      {onCycleRepeat && (
+        <button
+          onClick={onCycleRepeat}
+          disabled={disabled}
+          className={`${repeatMode !== 'off' ? 'text-green-400' : 'text-purple-400/60 hover:text-purple-300'} transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : ''} touch-manipulation`}
+          aria-label={`Repeat: ${repeatMode}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d={repeatMode === 'one' ? 'M460-360v-180h-60v-60h120v240h-60ZM280-80 120-240l160-160 56 58-62 62h406v-160h80v240H274l62 62-56 58Zm-80-440v-240h486l-62-62 56-58 160 160-160 160-56-58 62-62H280v160h-80Z' : 'M280-80 120-240l160-160 56 58-62 62h406v-160h80v240H274l62 62-56 58Zm-80-440v-240h486l-62-62 56-58 160 160-160 160-56-58 62-62H280v160h-80Z'} />
+          </svg>
+        </button>
+      )}
+
       {/* Picture-in-Picture Toggle */}
       {showPiP && onPictureInPicture && (
         <button
@@ -5,6 +5,8 @@ import { Player } from './Player';
 import { AdPlayer } from './AdPlayer';
 import { useVideoPlay } from '../../contexts/VideoPlayContext';
 import type { NFT } from '../../types/user';
+import type { RepeatMode } from '../../hooks/useAudioPlayer';
+import type { SleepTimerMode } from '../../hooks/useSleepTimer';
 
 interface PlayerWithAdsProps {
   nft?: NFT | null;
@@ -12,6 +14,19 @@ interface PlayerWithAdsProps {
   onPlayPause: () => void;
   onNext?: () => void;
   onPrevious?: () => void;
+  onPlayFromQueue?: (queueItemId: string) => void;
+  shuffle?: boolean;
+  repeatMode?: RepeatMode;
+  onToggleShuffle?: () => void;
+  onCycleRepeat?: () => void;
+  sleepTimerMode?: SleepTimerMode | null;
+  sleepTimerRemaining?: number | null;
+  onSetSleepTimer?: (mode: SleepTimerMode) => void;
+  onCancelSleepTimer?: () => void;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkip?: (seconds: number) => void;
+  editorFid?: number;
   isMinimized: boolean;
   onMinimizeToggle: () => void;
   progress: number;
@@ -20,6 +35,7 @@ interface PlayerWithAdsProps {
   onLikeToggle?: (nft: NFT) => void;
   isLiked?: boolean;
   onPictureInPicture?: () => void;
+  onOpenArtist?: (artistId: string) => void;
 }
 
 export const PlayerWithAds: React.FC<PlayerWithAdsProps> = (props) => {
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import type { TrackReaction } from '../../types/user';
+
+// More than this and the avatars blur into a solid strip; the newest ones win
+const MAX_VISIBLE_REACTIONS = 40;
+
+// A reaction pops while playback is within this many seconds after it
+const ACTIVE_WINDOW_SECONDS = 3;
+
+interface SeekBarReactionsProps {
+  reactions: TrackReaction[];
+  progress: number;
+  duration: number;
+}
+
+// Reactor avatars pinned above the seek bar at the moment each reaction was posted
+export const SeekBarReactions: React.FC<SeekBarReactionsProps> = ({ reactions, progress, duration }) => {
+  if (duration <= 0 || reactions.length === 0) return null;
+
+  const visible = [...reactions]
+    .filter(reaction => reaction.position <= duration)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_VISIBLE_REACTIONS);
+
+  return (
+    <div className="absolute inset-x-0 -top-6 h-5 pointer-events-none">
+      {visible.map(reaction => {
+        const isActive = progress >= reaction.position && progress - reaction.position < ACTIVE_WINDOW_SECONDS;
+        return (
+          <div
+            key={reaction.id}
+            className={`absolute -translate-x-1/2 transition-transform duration-200 ${isActive ? 'scale-150 z-10' : 'scale-100'}`}
+            style={{ left: `${(reaction.position / duration) * 100}%` }}
+          >
+            <div className="w-4 h-4 rounded-full overflow-hidden relative border border-black">
+              <Image
+                src={reaction.author?.pfpUrl || `https://avatar.vercel.sh/${reaction.author?.username}`}
+                alt={reaction.author?.username || ''}
+                className="object-cover"
+                fill
+                sizes="16px"
+              />
+            </div>
+            {isActive && (
+              <span className="absolute -top-5 left-1/2 -translate-x-1/2 text-sm">{reaction.emoji}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { NFTImage } from '../media/NFTImage';
+import { useQueue } from '../../contexts/QueueContext';
+
+interface UpNextSheetProps {
+  onClose: () => void;
+  onPlayFromQueue?: (queueItemId: string) => void;
+}
+
+// Bottom sheet listing what's coming up in the play queue, with edit controls
+export const UpNextSheet: React.FC<UpNextSheetProps> = ({ onClose, onPlayFromQueue }) => {
+  const { items, currentIndex, upNext, remove, reorder, clear } = useQueue();
+  const nowPlaying = items[currentIndex];
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60" />
+      <div
+        className="relative bg-gray-900 border-t border-purple-400/20 rounded-t-2xl max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-purple-400/10">
+          <h3 className="font-mono text-purple-400 text-sm">Up Next</h3>
+          <div className="flex items-center gap-4">
+            {upNext.length > 0 && (
+              <button onClick={clear} className="text-gray-400 hover:text-red-400 font-mono text-xs">
+                Clear
+              </button>
+            )}
+            <button onClick={onClose} className="text-purple-400 hover:text-purple-300" aria-label="Close Up Next">
+              <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                <path d="M480-345 240-585l56-56 184 184 184-184 56 56-240 240Z"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto px-4 py-3 space-y-2">
+          {nowPlaying && (
+            <div className="text-xs text-gray-400 font-mono mb-1">
+              Now playing: <span className="text-purple-300">{nowPlaying.nft.name}</span>
+            </div>
+          )}
+
+          {upNext.length === 0 ? (
+            <p className="text-center text-gray-500 font-mono text-sm py-6">Nothing queued</p>
+          ) : (
+            upNext.map((item, offset) => {
+              const index = currentIndex + 1 + offset;
+              return (
+                <div key={item.id} className="flex items-center gap-3 bg-gray-800/40 rounded-lg p-2">
+                  <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                    <NFTImage
+                      src={item.nft.image || item.nft.metadata?.image || ''}
+                      alt={item.nft.name}
+                      className="w-full h-full object-cover"
+                      width={40}
+                      height={40}
+                      nft={item.nft}
+                    />
+                  </div>
+                  <button
+                    onClick={() => onPlayFromQueue?.(item.id)}
+                    className="flex-1 min-w-0 text-left font-mono text-sm text-purple-400 truncate"
+                  >
+                    {item.nft.name}
+                  </button>
+                  <div className="flex items-center gap-1 text-gray-400 text-xs">
+                    <button
+                      onClick={() => reorder(index, index - 1)}
+                      disabled={offset === 0}
+                      className="p-1 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => reorder(index, index + 1)}
+                      disabled={offset === upNext.length - 1}
+                      className="p-1 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      ▼
+                    </button>
+                    <button onClick={() => remove(item.id)} className="p-1 text-red-400" aria-label="Remove from queue">
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpNextSheet;
@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import type { NFT, Playlist } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { getMediaKey } from '~/utils/media';
+import { usePlaylists } from '../../hooks/usePlaylists';
+import { useQueue } from '../../contexts/QueueContext';
+import { playlistTrackToNFT } from '../../lib/firebase/playlists';
+import { logger } from '../../utils/logger';
+
+const playlistLogger = logger.getModuleLogger('playlists');
+
+interface PlaylistsPanelProps {
+  userFid?: number;
+  likedNFTs: NFT[];
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  onPlay: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => Promise<void>;
+}
+
+export const PlaylistsPanel: React.FC<PlaylistsPanelProps> = ({
+  userFid,
+  likedNFTs,
+  currentlyPlaying,
+  isPlaying,
+  onPlay
+}) => {
+  const {
+    playlists,
+    isLoading,
+    createPlaylist,
+    renamePlaylist,
+    addTrackToPlaylist,
+    removeTrackFromPlaylist,
+    reorderPlaylist,
+    deletePlaylist
+  } = usePlaylists(userFid);
+  const { playNext, enqueue } = useQueue();
+
+  const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+
+  const selectedPlaylist = playlists.find(playlist => playlist.id === selectedPlaylistId) || null;
+
+  // Liked NFTs that can still be added to the selected playlist
+  const addableNFTs = useMemo(() => {
+    if (!selectedPlaylist) return [];
+    const existingKeys = new Set(selectedPlaylist.tracks.map(track => track.mediaKey));
+    const seen = new Set<string>();
+    return likedNFTs.filter(nft => {
+      const mediaKey = getMediaKey(nft);
+      if (!mediaKey || existingKeys.has(mediaKey) || seen.has(mediaKey)) return false;
+      seen.add(mediaKey);
+      return true;
+    });
+  }, [selectedPlaylist, likedNFTs]);
+
+  const handleCreate = async () => {
+    if (!newPlaylistName.trim()) return;
+    try {
+      const playlistId = await createPlaylist(newPlaylistName);
+      setNewPlaylistName('');
+      setSelectedPlaylistId(playlistId);
+    } catch (error) {
+      playlistLogger.error('Error creating playlist:', error);
+    }
+  };
+
+  const handlePlayPlaylist = (playlist: Playlist, startIndex = 0) => {
+    const queue = playlist.tracks.map(playlistTrackToNFT);
+    if (queue.length === 0) return;
+    onPlay(queue[startIndex], { queue, queueType: `playlist:${playlist.id}` });
+  };
+
+  const handleMove = (playlist: Playlist, index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= playlist.tracks.length) return;
+    const keys = playlist.tracks.map(track => track.mediaKey);
+    [keys[index], keys[target]] = [keys[target], keys[index]];
+    reorderPlaylist(playlist.id, keys).catch(error => {
+      playlistLogger.error('Error reordering playlist:', error);
+    });
+  };
+
+  const handleRename = async () => {
+    if (!selectedPlaylist || renameValue === null) return;
+    try {
+      await renamePlaylist(selectedPlaylist.id, renameValue);
+      setRenameValue(null);
+    } catch (error) {
+      playlistLogger.error('Error renaming playlist:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPlaylist) return;
+    if (!window.confirm(`Delete "${selectedPlaylist.name}"?`)) return;
+    try {
+      await deletePlaylist(selectedPlaylist.id);
+      setSelectedPlaylistId(null);
+    } catch (error) {
+      playlistLogger.error('Error deleting playlist:', error);
+    }
+  };
+
+  if (!userFid) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400">Must be on Warpcast to create playlists</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col justify-center items-center py-12 space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-purple-400 border-t-transparent"></div>
+        <p className="text-purple-400 font-mono text-sm">Loading your playlists...</p>
+      </div>
+    );
+  }
+
+  // Playlist detail view
+  if (selectedPlaylist) {
+    return (
+      <div className="px-4 pb-32 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={() => { setSelectedPlaylistId(null); setRenameValue(null); }}
+            className="text-purple-400 hover:text-purple-300 font-mono text-sm"
+          >
+            ← Playlists
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setRenameValue(selectedPlaylist.name)}
+              className="text-gray-400 hover:text-purple-300 font-mono text-xs"
+            >
+              Rename
+            </button>
+            <button
+              onClick={handleDelete}
+              className="text-red-400 hover:text-red-300 font-mono text-xs"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        {renameValue !== null ? (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              className="flex-1 px-4 py-2 bg-gray-800/50 border border-purple-400/20 rounded-lg text-purple-400 focus:outline-none focus:border-purple-400 font-mono text-sm"
+              autoFocus
+            />
+            <button onClick={handleRename} className="px-3 py-2 rounded-lg bg-purple-400 text-black font-mono text-sm">
+              Save
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-base font-semibold text-purple-400">{selectedPlaylist.name}</h3>
+              <p className="text-xs text-gray-400 mt-0.5 font-mono">{selectedPlaylist.tracks.length} tracks</p>
+            </div>
+            <button
+              onClick={() => handlePlayPlaylist(selectedPlaylist)}
+              disabled={selectedPlaylist.tracks.length === 0}
+              className="w-10 h-10 rounded-full bg-purple-400 text-black flex items-center justify-center disabled:opacity-50"
+              aria-label="Play playlist"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+                <path d="M320-200v-560l440 280-440 280Z"/>
+              </svg>
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {selectedPlaylist.tracks.map((track, index) => {
+            const isCurrentTrack = currentlyPlaying === `${track.contract}-${track.tokenId}`;
+            return (
+              <div key={track.mediaKey} className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+                <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                  <NFTImage
+                    src={track.image}
+                    alt={track.name}
+                    className="w-full h-full object-cover"
+                    width={40}
+                    height={40}
+                    nft={playlistTrackToNFT(track)}
+                  />
+                </div>
+                <button
+                  onClick={() => handlePlayPlaylist(selectedPlaylist, index)}
+                  className={`flex-grow min-w-0 text-left font-mono truncate ${isCurrentTrack && isPlaying ? 'text-green-400' : 'text-purple-400'}`}
+                >
+                  {track.name}
+                </button>
+                <div className="flex items-center gap-1 text-gray-400">
+                  <button onClick={() => playNext(playlistTrackToNFT(track))} className="p-1 font-mono text-xs hover:text-purple-300" aria-label="Play next">Next</button>
+                  <button onClick={() => enqueue(playlistTrackToNFT(track))} className="p-1 font-mono text-xs hover:text-purple-300" aria-label="Add to queue">+Q</button>
+                  <button onClick={() => handleMove(selectedPlaylist, index, -1)} disabled={index === 0} className="p-1 disabled:opacity-30" aria-label="Move up">▲</button>
+                  <button onClick={() => handleMove(selectedPlaylist, index, 1)} disabled={index === selectedPlaylist.tracks.length - 1} className="p-1 disabled:opacity-30" aria-label="Move down">▼</button>
+                  <button
+                    onClick={() => removeTrackFromPlaylist(selectedPlaylist.id, track.mediaKey).catch(error => {
+                      playlistLogger.error('Error removing track:', error);
+                    })}
+                    className="p-1 text-red-400"
+                    aria-label="Remove from playlist"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {addableNFTs.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const nft = addableNFTs.find(item => getMediaKey(item) === e.target.value);
+              if (nft) {
+                addTrackToPlaylist(selectedPlaylist.id, nft).catch(error => {
+                  playlistLogger.error('Error adding track:', error);
+                });
+              }
+            }}
+            className="w-full bg-gray-800/50 text-purple-400 rounded-lg px-3 py-2 font-mono text-sm border border-purple-400/20 focus:outline-none focus:border-purple-400"
+          >
+            <option value="">+ Add from your library...</option>
+            {addableNFTs.map(nft => (
+              <option key={getMediaKey(nft)} value={getMediaKey(nft)}>{nft.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  }
+
+  // Playlist overview
+  return (
+    <div className="px-4 pb-32 space-y-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newPlaylistName}
+          onChange={(e) => setNewPlaylistName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New playlist name..."
+          className="flex-1 px-4 py-3 bg-gray-800/50 border border-purple-400/20 rounded-lg text-purple-400 placeholder-purple-400/50 focus:outline-none focus:border-purple-400 font-mono text-sm"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newPlaylistName.trim()}
+          className="px-4 rounded-lg bg-purple-400 text-black font-mono text-sm disabled:opacity-50"
+        >
+          Create
+        </button>
+      </div>
+
+      {playlists.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-xl text-purple-400 mb-2">No Playlists Yet</h3>
+          <p className="text-gray-400">Create a playlist and add tracks from your library.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {playlists.map(playlist => (
+            <div
+              key={playlist.id}
+              className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-4 hover:bg-gray-800/50 transition-colors cursor-pointer"
+              onClick={() => setSelectedPlaylistId(playlist.id)}
+            >
+              <div className="w-12 h-12 rounded-md overflow-hidden flex-shrink-0 bg-purple-900/30">
+                {playlist.tracks[0] && (
+                  <NFTImage
+                    src={playlist.tracks[0].image}
+                    alt={playlist.name}
+                    className="w-full h-full object-cover"
+                    width={48}
+                    height={48}
+                    nft={playlistTrackToNFT(playlist.tracks[0])}
+                  />
+                )}
+              </div>
+              <div className="flex-grow min-w-0">
+                <h3 className="font-mono text-purple-400 truncate">{playlist.name}</h3>
+                <p className="text-xs text-gray-400 font-mono">{playlist.tracks.length} tracks</p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handlePlayPlaylist(playlist);
+                }}
+                disabled={playlist.tracks.length === 0}
+                className="text-purple-400 hover:scale-110 transition-transform disabled:opacity-30"
+                aria-label="Play playlist"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="currentColor">
+                  <path d="M320-200v-560l440 280-440 280Z"/>
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistsPanel;
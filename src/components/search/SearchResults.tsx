@@ -1,39 +1,174 @@
-import React from 'react';
-import { FarcasterUser } from '../../types/user';
-import { NFT } from '../../types/user';
-import { NFTCard } from '../nft/NFTCard';
+import React, { useMemo, useState } from 'react';
+import type { FarcasterUser, NFT, GroupedSearchResults, SearchIndexEntry } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { getIndexedCollectionTracks } from '../../lib/firebase/searchIndex';
+import { playlistTrackToNFT } from '../../lib/firebase/playlists';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const searchLogger = logger.getModuleLogger('search');
 
 interface SearchResultsProps {
-  nfts: NFT[];
-  handlePlayAudio: (nft: NFT, context?: string) => Promise<void>;
+  results: GroupedSearchResults;
+  // User cards keep the explore view's own styling (follow button, badges)
+  renderUser: (user: FarcasterUser) => React.ReactNode;
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  onOpenCollection?: (contract: string, network: 'ethereum' | 'base') => void;
   isPlaying: boolean;
   currentlyPlaying: string | null;
   handlePlayPause: () => void;
 }
 
+const entryToNFT = (entry: SearchIndexEntry): NFT | null =>
+  entry.track ? playlistTrackToNFT({ ...entry.track, addedAt: 0 }) : null;
+
+const PlayIcon: React.FC<{ isPaused: boolean }> = ({ isPaused }) => (
+  isPaused ? (
+    <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+      <path d="M320-200v-560l440 280-440 280Z"/>
+    </svg>
+  ) : (
+    <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+      <path d="M560-200v-560h160v560H560Zm-320 0v-560h160v560H240Z"/>
+    </svg>
+  )
+);
+
+const ResultRow: React.FC<{
+  entry: SearchIndexEntry;
+  nft?: NFT;
+  isActive: boolean;
+  isBusy?: boolean;
+  onPlay: () => void;
+  onOpen?: () => void;
+}> = ({ entry, nft, isActive, isBusy = false, onPlay, onOpen }) => (
+  <div className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+    <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+      <NFTImage
+        src={entry.image}
+        alt={entry.title}
+        className="w-full h-full object-cover"
+        width={40}
+        height={40}
+        nft={nft}
+      />
+    </div>
+    <div
+      className={`flex-grow min-w-0 ${onOpen ? 'cursor-pointer' : ''}`}
+      onClick={onOpen}
+    >
+      <p className={`font-mono text-sm truncate ${isActive ? 'text-green-400' : 'text-purple-400'}`}>{entry.title}</p>
+      <p className="text-xs text-gray-400 font-mono truncate">{entry.subtitle}</p>
+    </div>
+    <button
+      onClick={onPlay}
+      disabled={isBusy}
+      className="w-8 h-8 rounded-full bg-purple-400 text-black flex items-center justify-center flex-shrink-0 disabled:opacity-50"
+      aria-label={isActive ? 'Pause' : 'Play'}
+    >
+      <PlayIcon isPaused={!isActive} />
+    </button>
+  </div>
+);
+
+// Explore search results grouped into users, tracks and collections
 export const SearchResults: React.FC<SearchResultsProps> = ({
-  nfts,
-  handlePlayAudio,
+  results,
+  renderUser,
+  onPlayNFT,
+  onOpenCollection,
   isPlaying,
   currentlyPlaying,
   handlePlayPause,
 }) => {
-  if (nfts.length === 0) {
+  const [loadingCollection, setLoadingCollection] = useState<string | null>(null);
+
+  const trackNFTs = useMemo(
+    () => results.tracks.flatMap(entry => {
+      const nft = entryToNFT(entry);
+      return nft ? [{ entry, nft }] : [];
+    }),
+    [results.tracks]
+  );
+  const trackQueue = useMemo(() => trackNFTs.map(({ nft }) => nft), [trackNFTs]);
+
+  const handlePlayTrack = async (nft: NFT) => {
+    if (currentlyPlaying === getMediaKey(nft)) {
+      handlePlayPause();
+      return;
+    }
+    try {
+      await onPlayNFT(nft, { queue: trackQueue, queueType: 'search' });
+    } catch (error) {
+      searchLogger.error('Error playing NFT from search:', error);
+    }
+  };
+
+  // Collections play every indexed track from the contract, most played first
+  const handlePlayCollection = async (entry: SearchIndexEntry) => {
+    setLoadingCollection(entry.id);
+    try {
+      const queue = (await getIndexedCollectionTracks(entry.contract))
+        .map(track => playlistTrackToNFT({ ...track, addedAt: 0 }));
+      if (queue.length > 0) {
+        await onPlayNFT(queue[0], { queue, queueType: `collection-${entry.contract}` });
+      }
+    } catch (error) {
+      searchLogger.error('Error playing collection from search:', error);
+    } finally {
+      setLoadingCollection(null);
+    }
+  };
+
+  if (results.users.length === 0 && results.tracks.length === 0 && results.collections.length === 0) {
     return <div className="text-center text-gray-500 mt-4">No results found</div>;
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4">
-      {nfts.map((nft) => (
-        <NFTCard
-          key={nft.contract}
-          nft={nft}
-          onPlay={() => handlePlayAudio(nft)}
-          isPlaying={isPlaying}
-          currentlyPlaying={currentlyPlaying}
-          handlePlayPause={handlePlayPause}
-        />
-      ))}
+    <div className="space-y-8">
+      {results.users.length > 0 && (
+        <section>
+          <h3 className="text-xl font-mono text-green-400 mb-4">Users</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {results.users.map(user => renderUser(user))}
+          </div>
+        </section>
+      )}
+
+      {trackNFTs.length > 0 && (
+        <section>
+          <h3 className="text-xl font-mono text-green-400 mb-4">Tracks</h3>
+          <div className="space-y-2">
+            {trackNFTs.map(({ entry, nft }) => (
+              <ResultRow
+                key={entry.id}
+                entry={entry}
+                nft={nft}
+                isActive={isPlaying && currentlyPlaying === getMediaKey(nft)}
+                onPlay={() => handlePlayTrack(nft)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {results.collections.length > 0 && (
+        <section>
+          <h3 className="text-xl font-mono text-green-400 mb-4">Collections</h3>
+          <div className="space-y-2">
+            {results.collections.map(entry => (
+              <ResultRow
+                key={entry.id}
+                entry={entry}
+                isActive={false}
+                isBusy={loadingCollection === entry.id}
+                onPlay={() => handlePlayCollection(entry)}
+                onOpen={onOpenCollection ? () => onOpenCollection(entry.contract, entry.network) : undefined}
+              />
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import type { NFT } from '../../types/user';
+import { NFTCard } from '../nft/NFTCard';
+import { useRecommendations } from '../../hooks/useRecommendations';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const recommendationsLogger = logger.getModuleLogger('recommendations');
+
+interface BecauseYouLikedProps {
+  likedNFTs: NFT[];
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  handlePlayPause: () => void;
+  onLikeToggle: (nft: NFT) => Promise<void>;
+  isNFTLiked: (nft: NFT) => boolean;
+  userFid: number;
+}
+
+// "Because you liked X" rows on the home view, one per recent like
+const BecauseYouLiked: React.FC<BecauseYouLikedProps> = ({
+  likedNFTs,
+  onPlayNFT,
+  currentlyPlaying,
+  isPlaying,
+  handlePlayPause,
+  onLikeToggle,
+  isNFTLiked,
+  userFid
+}) => {
+  const { rows } = useRecommendations(likedNFTs);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <section>
+      {rows.map(({ seed, tracks }) => (
+        <div key={getMediaKey(seed)} className="mb-8">
+          <h2 className="text-xl font-mono text-green-400 mb-6 truncate">
+            Because you liked {seed.name}
+          </h2>
+          <div className="overflow-x-auto pb-4 hide-scrollbar">
+            <div className="flex gap-6">
+              {tracks.map((nft, index) => (
+                <div key={`because-${getMediaKey(seed)}-${getMediaKey(nft)}`} className="flex-shrink-0 w-[200px]">
+                  <NFTCard
+                    nft={nft}
+                    onPlay={async (nft) => {
+                      try {
+                        await onPlayNFT(nft, { queue: tracks, queueType: 'recommendations' });
+                      } catch (error) {
+                        recommendationsLogger.error('Error playing recommended NFT:', error);
+                      }
+                    }}
+                    isPlaying={isPlaying && currentlyPlaying === getMediaKey(nft)}
+                    currentlyPlaying={currentlyPlaying}
+                    handlePlayPause={handlePlayPause}
+                    onLikeToggle={() => onLikeToggle(nft)}
+                    userFid={userFid}
+                    isNFTLiked={() => isNFTLiked(nft)}
+                    animationDelay={0.2 + (index * 0.05)}
+                  />
+                  <h3 className="font-mono text-white text-sm truncate mt-3">{nft.name}</h3>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default BecauseYouLiked;
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import Image from 'next/image';
+import type { NFT, ActivityEvent } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { useActivityFeed } from '../../hooks/useActivityFeed';
+import { playlistTrackToNFT } from '../../lib/firebase/playlists';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const activityLogger = logger.getModuleLogger('activity');
+
+interface FollowingFeedProps {
+  userFid: number;
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  handlePlayPause: () => void;
+}
+
+const ACTIVITY_VERBS: Record<ActivityEvent['type'], string> = {
+  play: 'played',
+  like: 'liked',
+  playlist: 'made a playlist'
+};
+
+const formatTimeAgo = (timestamp: number): string => {
+  const seconds = Math.max(Math.floor((Date.now() - timestamp) / 1000), 0);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+const eventToNFT = (event: ActivityEvent): NFT | null =>
+  event.track ? playlistTrackToNFT({ ...event.track, addedAt: event.createdAt }) : null;
+
+// "Following" section on the home view: what the people you follow are playing, liking and collecting
+const FollowingFeed: React.FC<FollowingFeedProps> = ({
+  userFid,
+  onPlayNFT,
+  currentlyPlaying,
+  isPlaying,
+  handlePlayPause
+}) => {
+  const { events, following, isLoading, isLoadingMore, hasMore, error, loadMore } = useActivityFeed(userFid);
+
+  // The feed's tracks, in feed order with repeats collapsed, become the queue
+  const feedQueue = useMemo(() => {
+    const seen = new Set<string>();
+    return events.flatMap(event => {
+      const nft = eventToNFT(event);
+      if (!nft || !nft.mediaKey || seen.has(nft.mediaKey)) return [];
+      seen.add(nft.mediaKey);
+      return [nft];
+    });
+  }, [events]);
+
+  if (!userFid || (!isLoading && following.size === 0)) return null;
+
+  const handlePlay = async (nft: NFT) => {
+    if (currentlyPlaying === getMediaKey(nft)) {
+      handlePlayPause();
+      return;
+    }
+    try {
+      await onPlayNFT(nft, { queue: feedQueue, queueType: 'followingFeed' });
+    } catch (playError) {
+      activityLogger.error('Error playing NFT from Following feed:', playError);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-xl font-mono text-green-400 mb-6">Following</h2>
+
+      {isLoading ? (
+        <div className="space-y-2 animate-pulse">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-800 rounded-lg"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-red-400 font-mono text-xs">{error}</p>
+      ) : events.length === 0 ? (
+        <p className="text-gray-500 font-mono text-sm">Nothing from the people you follow yet</p>
+      ) : (
+        <div className="space-y-2">
+          {events.map(event => {
+            const actor = following.get(event.actorFid);
+            const nft = eventToNFT(event);
+            const isCurrent = Boolean(nft) && currentlyPlaying === getMediaKey(nft as NFT);
+
+            return (
+              <div key={event.id} className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+                <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700 flex-shrink-0">
+                  {actor?.pfp_url && (
+                    <Image
+                      src={actor.pfp_url}
+                      alt={actor.display_name || actor.username}
+                      width={32}
+                      height={32}
+                      className="w-full h-full object-cover"
+                      unoptimized
+                    />
+                  )}
+                </div>
+                <div className="flex-grow min-w-0">
+                  <p className="text-xs text-gray-400 font-mono truncate">
+                    @{actor?.username || event.actorFid} {ACTIVITY_VERBS[event.type]} · {formatTimeAgo(event.createdAt)}
+                  </p>
+                  <p className={`font-mono text-sm truncate ${isCurrent && isPlaying ? 'text-green-400' : 'text-purple-400'}`}>
+                    {event.type === 'playlist' && event.playlist
+                      ? `${event.playlist.name} (${event.playlist.trackCount} tracks)`
+                      : event.track?.name}
+                  </p>
+                </div>
+                {nft && (
+                  <>
+                    <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                      <NFTImage
+                        src={nft.image || ''}
+                        alt={nft.name}
+                        className="w-full h-full object-cover"
+                        width={40}
+                        height={40}
+                        nft={nft}
+                      />
+                    </div>
+                    <button
+                      onClick={() => handlePlay(nft)}
+                      className="w-8 h-8 rounded-full bg-purple-400 text-black flex items-center justify-center flex-shrink-0"
+                      aria-label={isCurrent && isPlaying ? 'Pause' : 'Play'}
+                    >
+                      {isCurrent && isPlaying ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                          <path d="M560-200v-560h160v560H560Zm-320 0v-560h160v560H240Z"/>
+                        </svg>
+                      ) : (
+                        <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                          <path d="M320-200v-560l440 280-440 280Z"/>
+                        </svg>
+                      )}
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-purple-400 hover:text-purple-300 font-mono text-xs disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FollowingFeed;
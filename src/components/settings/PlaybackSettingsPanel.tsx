@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { usePlaybackSettings, MAX_CROSSFADE_SECONDS } from '../../contexts/PlaybackSettingsContext';
+import { EQ_BANDS, EQ_PRESETS, MAX_EQ_GAIN_DB, isAudioGraphSupported } from '../../utils/audioGraph';
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+
+export const PlaybackSettingsPanel: React.FC = () => {
+  const {
+    settings,
+    setCrossfadeSeconds,
+    setEqPreset,
+    setEqBandGain,
+    setNormalizeLoudness,
+    setAutoContinue
+  } = usePlaybackSettings();
+  // Checked after mount so server and client renders match
+  const [canProcessAudio, setCanProcessAudio] = useState(false);
+
+  useEffect(() => {
+    setCanProcessAudio(isAudioGraphSupported());
+  }, []);
+
+  return (
+    <div className="bg-black/40 border border-purple-400/20 rounded-xl p-4 space-y-3">
+      <h3 className="text-lg font-semibold text-purple-400">Playback</h3>
+
+      {/* Crossfade */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="crossfade-seconds" className="text-sm text-white">Crossfade</label>
+          <span className="text-sm text-gray-400">
+            {settings.crossfadeSeconds === 0 ? 'Off' : `${settings.crossfadeSeconds}s`}
+          </span>
+        </div>
+        <input
+          id="crossfade-seconds"
+          type="range"
+          min={0}
+          max={MAX_CROSSFADE_SECONDS}
+          step={1}
+          value={settings.crossfadeSeconds}
+          onChange={(e) => setCrossfadeSeconds(Number(e.target.value))}
+          className="w-full accent-purple-400"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Blend the end of each track into the next one in your queue.
+        </p>
+      </div>
+
+      {/* Auto-continue */}
+      <div className="flex items-center justify-between pt-2 border-t border-white/10">
+        <div>
+          <p className="text-sm text-white">Autoplay</p>
+          <p className="text-xs text-gray-500">Keep playing similar tracks when your queue ends.</p>
+        </div>
+        <button
+          onClick={() => setAutoContinue(!settings.autoContinue)}
+          className={`w-11 h-6 rounded-full transition-colors relative ${
+            settings.autoContinue ? 'bg-purple-500' : 'bg-gray-600'
+          }`}
+          aria-pressed={settings.autoContinue}
+          aria-label="Autoplay"
+        >
+          <span
+            className={`absolute top-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+              settings.autoContinue ? 'translate-x-5' : 'translate-x-0.5'
+            }`}
+          />
+        </button>
+      </div>
+
+      {canProcessAudio && (
+        <>
+          {/* Loudness normalization */}
+          <div className="flex items-center justify-between pt-2 border-t border-white/10">
+            <div>
+              <p className="text-sm text-white">Normalize volume</p>
+              <p className="text-xs text-gray-500">Play every track at a similar loudness.</p>
+            </div>
+            <button
+              onClick={() => setNormalizeLoudness(!settings.normalizeLoudness)}
+              className={`w-11 h-6 rounded-full transition-colors relative ${
+                settings.normalizeLoudness ? 'bg-purple-500' : 'bg-gray-600'
+              }`}
+              aria-pressed={settings.normalizeLoudness}
+              aria-label="Normalize volume"
+            >
+              <span
+                className={`absolute top-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                  settings.normalizeLoudness ? 'translate-x-5' : 'translate-x-0.5'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Equalizer */}
+          <div className="pt-2 border-t border-white/10">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm text-white">Equalizer</p>
+              {settings.eqPreset === 'custom' && (
+                <span className="text-xs text-gray-400">Custom</span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(Object.keys(EQ_PRESETS) as Array<keyof typeof EQ_PRESETS>).map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => setEqPreset(preset)}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    settings.eqPreset === preset
+                      ? 'bg-purple-500 text-white'
+                      : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                  }`}
+                >
+                  {EQ_PRESETS[preset].label}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {EQ_BANDS.map((frequency, index) => (
+                <div key={frequency} className="flex items-center gap-2">
+                  <span className="w-8 text-right text-xs text-gray-400">{formatFrequency(frequency)}</span>
+                  <input
+                    type="range"
+                    min={-MAX_EQ_GAIN_DB}
+                    max={MAX_EQ_GAIN_DB}
+                    step={1}
+                    value={settings.eqGains[index] || 0}
+                    onChange={(e) => setEqBandGain(index, Number(e.target.value))}
+                    className="flex-1 accent-purple-400"
+                    aria-label={`${formatFrequency(frequency)}Hz gain`}
+                  />
+                  <span className="w-10 text-xs text-gray-400">
+                    {settings.eqGains[index] > 0 ? '+' : ''}{settings.eqGains[index] || 0}dB
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Turning the equalizer or normalization on applies from the next track you play.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import sdk from '@farcaster/frame-sdk';
+import type { StatsRankItem } from '../../types/user';
+import { useListeningStats, type StatsPeriod } from '../../hooks/useListeningStats';
+import { shareWrappedSummary } from '../../lib/firebase/listeningStats';
+import { logger } from '../../utils/logger';
+
+const statsLogger = logger.getModuleLogger('listeningStats');
+
+interface ListeningStatsPanelProps {
+  fid: number;
+}
+
+const StatTile: React.FC<{ label: string; value: number | string }> = ({ label, value }) => (
+  <div className="bg-gray-800/40 rounded-lg p-3">
+    <p className="text-xl font-mono text-green-400">{value}</p>
+    <p className="text-xs text-gray-400">{label}</p>
+  </div>
+);
+
+const MinutesChart: React.FC<{ title: string; buckets: { label: string; minutes: number }[] }> = ({ title, buckets }) => {
+  const max = Math.max(...buckets.map(bucket => bucket.minutes), 1);
+  return (
+    <div>
+      <p className="text-sm text-white mb-2">{title}</p>
+      <div className="flex items-end gap-1 h-20">
+        {buckets.map((bucket, index) => (
+          <div key={`${bucket.label}-${index}`} className="flex-1 flex flex-col items-center justify-end h-full">
+            <div
+              className="w-full bg-purple-400/70 rounded-t"
+              style={{ height: `${(bucket.minutes / max) * 100}%`, minHeight: bucket.minutes > 0 ? 2 : 0 }}
+              title={`${bucket.minutes} min`}
+            />
+            <span className="text-[10px] text-gray-500 mt-1">{bucket.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface RankListProps {
+  title: string;
+  items: StatsRankItem[];
+  emptyText: string;
+  showPlays?: boolean;
+}
+
+const RankList: React.FC<RankListProps> = ({ title, items, emptyText, showPlays = true }) => (
+  <div>
+    <p className="text-sm text-white mb-2">{title}</p>
+    {items.length === 0 ? (
+      <p className="text-xs text-gray-500">{emptyText}</p>
+    ) : (
+      <ol className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.key} className="flex items-center gap-2 text-sm">
+            <span className="w-4 font-mono text-gray-500">{index + 1}</span>
+            <span className="flex-1 truncate text-purple-300">{item.label}</span>
+            {showPlays && <span className="font-mono text-xs text-gray-400">{item.plays}</span>}
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+// Profile dashboard of the user's own listening, with a shareable yearly recap
+export const ListeningStatsPanel: React.FC<ListeningStatsPanelProps> = ({ fid }) => {
+  const [period, setPeriod] = useState<StatsPeriod>('year');
+  const [isSharing, setIsSharing] = useState(false);
+  const { stats, isLoading } = useListeningStats(fid, period);
+  const year = new Date().getFullYear();
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const summary = await shareWrappedSummary(fid, year);
+      const appUrl = process.env.NEXT_PUBLIC_URL || window.location.origin;
+      const shareText = `My ${year} on PODPLAYR: ${summary.totalPlays} plays, ${summary.totalMinutes} minutes 🎧`;
+      const shareUrl = `${appUrl}/wrapped/${fid}/${year}`;
+      sdk.actions.openUrl(`https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`);
+    } catch (error) {
+      statsLogger.error('Error sharing wrapped summary:', error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="bg-black/40 border border-purple-400/20 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-purple-400">Your listening</h3>
+        <div className="flex gap-1">
+          {(['year', 'allTime'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setPeriod(option)}
+              className={`px-3 py-1 rounded-full font-mono text-xs transition-colors ${
+                period === option ? 'bg-purple-400 text-black' : 'bg-gray-800/50 text-gray-400'
+              }`}
+            >
+              {option === 'year' ? year : 'All time'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 bg-gray-800 rounded-lg animate-pulse" />
+      ) : stats.totalPlays === 0 ? (
+        <p className="text-sm text-gray-500">Play a few tracks and your stats will show up here.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <StatTile label="Plays" value={stats.totalPlays} />
+            <StatTile label="Minutes" value={stats.totalMinutes} />
+            <StatTile label="First listens" value={stats.firstListens} />
+            <StatTile label="Day streak" value={stats.currentStreak} />
+            <StatTile label="Longest streak" value={stats.longestStreak} />
+          </div>
+
+          <MinutesChart title="Minutes this week" buckets={stats.minutesByDay} />
+          <MinutesChart title="Minutes per week" buckets={stats.minutesByWeek} />
+
+          <RankList title="Top tracks" items={stats.topTracks} emptyText="No plays yet" />
+          <RankList title="Top collections" items={stats.topCollections} emptyText="No plays yet" />
+          <RankList title="Top creators" items={stats.topCreators} emptyText="None of your tracks name their creator yet" />
+          <RankList title="Recent first listens" items={stats.recentFirstListens} emptyText="Nothing new this time" showPlays={false} />
+
+          {period === 'year' && (
+            <button
+              onClick={handleShare}
+              disabled={isSharing}
+              className="w-full py-2 bg-purple-500 text-black rounded-full font-mono text-sm disabled:opacity-50"
+            >
+              {isSharing ? 'Sharing...' : `Share my ${year} Wrapped`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import type { NFT, FarcasterUser } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { useArtist } from '../../hooks/useArtist';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const artistLogger = logger.getModuleLogger('artist');
+
+interface ArtistViewProps {
+  artistId: string;
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  handlePlayPause: () => void;
+  onUserSelect: (user: FarcasterUser) => void;
+  onBack: () => void;
+  hasActivePlayer: boolean;
+}
+
+const StatTile: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="bg-gray-800/40 rounded-lg p-3 text-center">
+    <p className="text-xl font-mono text-green-400">{value.toLocaleString()}</p>
+    <p className="text-xs text-gray-400">{label}</p>
+  </div>
+);
+
+// Artist page: one musician's tracks across every contract, their total plays and Farcaster profile
+const ArtistView: React.FC<ArtistViewProps> = ({
+  artistId,
+  onPlayNFT,
+  currentlyPlaying,
+  isPlaying,
+  handlePlayPause,
+  onUserSelect,
+  onBack,
+  hasActivePlayer
+}) => {
+  const { artist, nfts, isLoading } = useArtist(artistId);
+  const queueType = `artist-${artistId}`;
+  const farcaster = artist?.farcaster || null;
+  const image = farcaster?.pfp_url || artist?.tracks[0]?.image || '';
+
+  const handlePlay = async (nft: NFT) => {
+    if (currentlyPlaying === getMediaKey(nft)) {
+      handlePlayPause();
+      return;
+    }
+    try {
+      await onPlayNFT(nft, { queue: nfts, queueType });
+    } catch (error) {
+      artistLogger.error('Error playing NFT from artist page:', error);
+    }
+  };
+
+  const handlePlayAll = () => {
+    if (nfts.length > 0) {
+      handlePlay(nfts[0]);
+    }
+  };
+
+  const collectionCount = new Set((artist?.tracks || []).map(track => track.contract.toLowerCase())).size;
+
+  return (
+    <>
+      <header className="fixed top-0 left-0 right-0 h-16 bg-black border-b border-black flex items-center px-4 z-50">
+        <button onClick={onBack} className="text-purple-400 hover:text-purple-300" aria-label="Back">
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z"/>
+          </svg>
+        </button>
+        <h1 className="flex-1 text-center font-mono text-green-400 text-lg mr-6 truncate">
+          {artist?.name || 'Artist'}
+        </h1>
+      </header>
+
+      <div
+        className={`space-y-6 pt-20 pb-40 px-4 overflow-y-auto overscroll-y-contain ${
+          hasActivePlayer ? 'h-[calc(100vh-130px)] md:h-[calc(100vh-150px)]' : 'h-screen'
+        }`}
+      >
+        {isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            <div className="h-32 bg-gray-800 rounded-lg"></div>
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-800 rounded-lg"></div>
+            ))}
+          </div>
+        ) : !artist ? (
+          <p className="text-center text-gray-500 font-mono text-sm py-6">Artist not found</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <div className="w-24 h-24 rounded-full overflow-hidden flex-shrink-0 bg-gray-800">
+                {image && (
+                  <NFTImage
+                    src={image}
+                    alt={artist.name}
+                    className="w-full h-full object-cover"
+                    width={96}
+                    height={96}
+                  />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-mono text-lg text-white truncate">{artist.name}</p>
+                {artist.addresses.length > 0 && (
+                  <p className="font-mono text-xs text-gray-500 truncate">{artist.addresses.join(' · ')}</p>
+                )}
+                <button
+                  onClick={handlePlayAll}
+                  disabled={nfts.length === 0}
+                  className="mt-3 px-4 py-1.5 rounded-full bg-purple-400 text-black font-mono text-sm disabled:opacity-50"
+                >
+                  ▶ Play all
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <StatTile label="Tracks" value={nfts.length} />
+              <StatTile label="Plays" value={artist.totalPlays} />
+              <StatTile label="Collections" value={collectionCount} />
+            </div>
+
+            {farcaster && (
+              <section>
+                <h2 className="text-xl font-mono text-green-400 mb-4">On Farcaster</h2>
+                <button
+                  onClick={() => onUserSelect(farcaster)}
+                  className="w-full bg-gray-800/30 rounded-lg p-3 flex items-center gap-3 text-left"
+                >
+                  <div className="w-12 h-12 rounded-full overflow-hidden relative flex-shrink-0">
+                    <Image
+                      src={farcaster.pfp_url || `https://avatar.vercel.sh/${farcaster.username}`}
+                      alt={farcaster.display_name || farcaster.username}
+                      className="object-cover"
+                      fill
+                      sizes="48px"
+                    />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-mono text-sm text-purple-400 truncate">{farcaster.display_name || farcaster.username}</p>
+                    <p className="font-mono text-xs text-gray-400 truncate">
+                      @{farcaster.username} · {farcaster.follower_count.toLocaleString()} followers
+                    </p>
+                    {farcaster.profile?.bio && (
+                      <p className="text-xs text-gray-400 line-clamp-2 mt-1">{farcaster.profile.bio}</p>
+                    )}
+                  </div>
+                </button>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-xl font-mono text-green-400 mb-4">Discography</h2>
+              <div className="space-y-2">
+                {nfts.map((nft, index) => {
+                  const mediaKey = getMediaKey(nft);
+                  const isCurrent = currentlyPlaying === mediaKey;
+                  const plays = artist.tracks[index]?.playCount || 0;
+
+                  return (
+                    <div key={mediaKey} className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                        <NFTImage
+                          src={nft.image}
+                          alt={nft.name}
+                          className="w-full h-full object-cover"
+                          width={40}
+                          height={40}
+                          nft={nft}
+                        />
+                      </div>
+                      <div className="flex-grow min-w-0">
+                        <p className={`font-mono text-sm truncate ${isCurrent && isPlaying ? 'text-green-400' : 'text-purple-400'}`}>
+                          {nft.name}
+                        </p>
+                        <p className="text-xs text-gray-400 font-mono truncate">
+                          {nft.collection?.name || 'Unknown Collection'}{plays > 0 ? ` · ${plays} plays` : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handlePlay(nft)}
+                        className="w-8 h-8 rounded-full bg-purple-400 text-black flex items-center justify-center flex-shrink-0"
+                        aria-label={isCurrent && isPlaying ? 'Pause' : 'Play'}
+                      >
+                        {isCurrent && isPlaying ? (
+                          <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                            <path d="M560-200v-560h160v560H560Zm-320 0v-560h160v560H240Z"/>
+                          </svg>
+                        ) : (
+                          <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                            <path d="M320-200v-560l440 280-440 280Z"/>
+                          </svg>
+                        )}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ArtistView;
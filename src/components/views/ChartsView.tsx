@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { NFT, ChartEntry, ChartWindow } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { useChart } from '../../hooks/useChart';
+import { playlistTrackToNFT } from '../../lib/firebase/playlists';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const chartsLogger = logger.getModuleLogger('charts');
+
+interface ChartsViewProps {
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  handlePlayPause: () => void;
+  onBack: () => void;
+  hasActivePlayer: boolean;
+}
+
+type NetworkFilter = 'all' | 'ethereum' | 'base';
+
+const WINDOW_LABELS: Record<ChartWindow, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  monthly: 'This month',
+  allTime: 'All time'
+};
+
+const NETWORK_LABELS: Record<NetworkFilter, string> = {
+  all: 'All networks',
+  ethereum: 'Ethereum',
+  base: 'Base'
+};
+
+const entryToNFT = (entry: ChartEntry, generatedAt: number): NFT =>
+  playlistTrackToNFT({ ...entry, addedAt: generatedAt });
+
+const MovementBadge: React.FC<{ entry: ChartEntry }> = ({ entry }) => {
+  if (entry.movement === 'new') {
+    return <span className="text-[10px] font-mono text-yellow-400">NEW</span>;
+  }
+  if (entry.movement === 'same' || entry.previousRank === null) {
+    return <span className="text-xs font-mono text-gray-500">–</span>;
+  }
+  const delta = Math.abs(entry.previousRank - entry.rank);
+  return entry.movement === 'up'
+    ? <span className="text-xs font-mono text-green-400">▲{delta}</span>
+    : <span className="text-xs font-mono text-red-400">▼{delta}</span>;
+};
+
+// Charts screen: ranked plays per time window, filterable by network and collection
+const ChartsView: React.FC<ChartsViewProps> = ({
+  onPlayNFT,
+  currentlyPlaying,
+  isPlaying,
+  handlePlayPause,
+  onBack,
+  hasActivePlayer
+}) => {
+  const [chartWindow, setChartWindow] = useState<ChartWindow>('weekly');
+  const [network, setNetwork] = useState<NetworkFilter>('all');
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const { chart, isLoading } = useChart(chartWindow);
+
+  const networkEntries = useMemo(
+    () => (chart?.entries || []).filter(entry => network === 'all' || (entry.network || 'ethereum') === network),
+    [chart, network]
+  );
+
+  const collections = useMemo(
+    () => Array.from(new Set(networkEntries.map(entry => entry.collection).filter(Boolean) as string[])).sort(),
+    [networkEntries]
+  );
+
+  const entries = useMemo(
+    () => networkEntries.filter(entry => !collectionFilter || entry.collection === collectionFilter),
+    [networkEntries, collectionFilter]
+  );
+
+  const queue = useMemo(
+    () => entries.map(entry => entryToNFT(entry, chart?.generatedAt || 0)),
+    [entries, chart]
+  );
+
+  const handlePlay = async (nft: NFT) => {
+    if (currentlyPlaying === getMediaKey(nft)) {
+      handlePlayPause();
+      return;
+    }
+    try {
+      await onPlayNFT(nft, { queue, queueType: `charts-${chartWindow}` });
+    } catch (error) {
+      chartsLogger.error('Error playing NFT from charts:', error);
+    }
+  };
+
+  return (
+    <>
+      <header className="fixed top-0 left-0 right-0 h-16 bg-black border-b border-black flex items-center px-4 z-50">
+        <button onClick={onBack} className="text-purple-400 hover:text-purple-300" aria-label="Back">
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z"/>
+          </svg>
+        </button>
+        <h1 className="flex-1 text-center font-mono text-green-400 text-lg mr-6">Charts</h1>
+      </header>
+
+      <div
+        className={`space-y-4 pt-20 pb-40 px-4 overflow-y-auto overscroll-y-contain ${
+          hasActivePlayer ? 'h-[calc(100vh-130px)] md:h-[calc(100vh-150px)]' : 'h-screen'
+        }`}
+      >
+        <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+          {(Object.keys(WINDOW_LABELS) as ChartWindow[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setChartWindow(option)}
+              className={`px-4 py-1.5 rounded-full font-mono text-sm whitespace-nowrap transition-colors ${
+                chartWindow === option ? 'bg-purple-400 text-black' : 'bg-gray-800/50 text-gray-400'
+              }`}
+            >
+              {WINDOW_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={network}
+            onChange={(e) => {
+              setNetwork(e.target.value as NetworkFilter);
+              setCollectionFilter('');
+            }}
+            className="flex-1 bg-gray-800/50 text-purple-400 rounded-lg px-3 py-2 font-mono text-sm border border-purple-400/20 focus:outline-none focus:border-purple-400"
+          >
+            {(Object.keys(NETWORK_LABELS) as NetworkFilter[]).map(option => (
+              <option key={option} value={option}>{NETWORK_LABELS[option]}</option>
+            ))}
+          </select>
+          <select
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            className="flex-1 min-w-0 bg-gray-800/50 text-purple-400 rounded-lg px-3 py-2 font-mono text-sm border border-purple-400/20 focus:outline-none focus:border-purple-400"
+          >
+            <option value="">All collections</option>
+            {collections.map(collectionName => (
+              <option key={collectionName} value={collectionName}>{collectionName}</option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-800 rounded-lg"></div>
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 font-mono text-sm py-6">No plays in this chart yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry, index) => {
+              const nft = queue[index];
+              const isCurrent = currentlyPlaying === getMediaKey(nft);
+
+              return (
+                <div key={entry.mediaKey} className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+                  <div className="w-8 flex-shrink-0 flex flex-col items-center">
+                    {/* Position within the filtered list; movement is from the full chart */}
+                    <span className="font-mono text-white text-sm">{index + 1}</span>
+                    <MovementBadge entry={entry} />
+                  </div>
+                  <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                    <NFTImage
+                      src={entry.image}
+                      alt={entry.name}
+                      className="w-full h-full object-cover"
+                      width={40}
+                      height={40}
+                      nft={nft}
+                    />
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    <p className={`font-mono text-sm truncate ${isCurrent && isPlaying ? 'text-green-400' : 'text-purple-400'}`}>
+                      {entry.name}
+                    </p>
+                    <p className="text-xs text-gray-400 font-mono truncate">
+                      {entry.collection} · {entry.playCount} plays
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handlePlay(nft)}
+                    className="w-8 h-8 rounded-full bg-purple-400 text-black flex items-center justify-center flex-shrink-0"
+                    aria-label={isCurrent && isPlaying ? 'Pause' : 'Play'}
+                  >
+                    {isCurrent && isPlaying ? (
+                      <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                        <path d="M560-200v-560h160v560H560Zm-320 0v-560h160v560H240Z"/>
+                      </svg>
+                    ) : (
+                      <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                        <path d="M320-200v-560l440 280-440 280Z"/>
+                      </svg>
+                    )}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ChartsView;
@@ -0,0 +1,214 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import type { NFT, FarcasterUser } from '../../types/user';
+import { NFTImage } from '../media/NFTImage';
+import { useCollection } from '../../hooks/useCollection';
+import { getMediaKey } from '../../utils/media';
+import { logger } from '../../utils/logger';
+
+const collectionLogger = logger.getModuleLogger('collection');
+
+interface CollectionViewProps {
+  contract: string;
+  network: 'ethereum' | 'base';
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
+  currentlyPlaying: string | null;
+  isPlaying: boolean;
+  handlePlayPause: () => void;
+  onUserSelect: (user: FarcasterUser) => void;
+  onBack: () => void;
+  hasActivePlayer: boolean;
+}
+
+const StatTile: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="bg-gray-800/40 rounded-lg p-3 text-center">
+    <p className="text-xl font-mono text-green-400">{value.toLocaleString()}</p>
+    <p className="text-xs text-gray-400">{label}</p>
+  </div>
+);
+
+// Collection page: every media NFT in a contract, its play/like totals and who holds it
+const CollectionView: React.FC<CollectionViewProps> = ({
+  contract,
+  network,
+  onPlayNFT,
+  currentlyPlaying,
+  isPlaying,
+  handlePlayPause,
+  onUserSelect,
+  onBack,
+  hasActivePlayer
+}) => {
+  const { info, nfts, stats, holders, isLoading } = useCollection(contract, network);
+  const queueType = `collection-${contract.toLowerCase()}`;
+
+  const handlePlay = async (nft: NFT) => {
+    if (currentlyPlaying === getMediaKey(nft)) {
+      handlePlayPause();
+      return;
+    }
+    try {
+      await onPlayNFT(nft, { queue: nfts, queueType });
+    } catch (error) {
+      collectionLogger.error('Error playing NFT from collection:', error);
+    }
+  };
+
+  const handlePlayAll = () => {
+    if (nfts.length > 0) {
+      handlePlay(nfts[0]);
+    }
+  };
+
+  return (
+    <>
+      <header className="fixed top-0 left-0 right-0 h-16 bg-black border-b border-black flex items-center px-4 z-50">
+        <button onClick={onBack} className="text-purple-400 hover:text-purple-300" aria-label="Back">
+          <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24" fill="currentColor">
+            <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z"/>
+          </svg>
+        </button>
+        <h1 className="flex-1 text-center font-mono text-green-400 text-lg mr-6 truncate">
+          {info?.name || 'Collection'}
+        </h1>
+      </header>
+
+      <div
+        className={`space-y-6 pt-20 pb-40 px-4 overflow-y-auto overscroll-y-contain ${
+          hasActivePlayer ? 'h-[calc(100vh-130px)] md:h-[calc(100vh-150px)]' : 'h-screen'
+        }`}
+      >
+        {isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            <div className="h-32 bg-gray-800 rounded-lg"></div>
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-800 rounded-lg"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <div className="w-24 h-24 rounded-lg overflow-hidden flex-shrink-0 bg-gray-800">
+                {info?.image && (
+                  <NFTImage
+                    src={info.image}
+                    alt={info.name}
+                    className="w-full h-full object-cover"
+                    width={96}
+                    height={96}
+                  />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-mono text-lg text-white truncate">{info?.name}</p>
+                <p className="font-mono text-xs text-gray-500 truncate">
+                  {network === 'base' ? 'Base' : 'Ethereum'} · {contract}
+                </p>
+                <button
+                  onClick={handlePlayAll}
+                  disabled={nfts.length === 0}
+                  className="mt-3 px-4 py-1.5 rounded-full bg-purple-400 text-black font-mono text-sm disabled:opacity-50"
+                >
+                  ▶ Play all
+                </button>
+              </div>
+            </div>
+
+            {info?.description && (
+              <p className="text-sm text-gray-400 line-clamp-3">{info.description}</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              <StatTile label="Tracks" value={nfts.length} />
+              <StatTile label="Plays" value={stats.playCount} />
+              <StatTile label="Likes" value={stats.likeCount} />
+            </div>
+
+            {holders.length > 0 && (
+              <section>
+                <h2 className="text-xl font-mono text-green-400 mb-4">Holders on PODPLAYR</h2>
+                <div className="flex gap-4 overflow-x-auto hide-scrollbar pb-2">
+                  {holders.map(holder => (
+                    <button
+                      key={holder.fid}
+                      onClick={() => onUserSelect(holder)}
+                      className="flex flex-col items-center gap-1 w-16 flex-shrink-0"
+                    >
+                      <div className="w-12 h-12 rounded-full overflow-hidden relative">
+                        <Image
+                          src={holder.pfp_url || `https://avatar.vercel.sh/${holder.username}`}
+                          alt={holder.display_name || holder.username}
+                          className="object-cover"
+                          fill
+                          sizes="48px"
+                        />
+                      </div>
+                      <span className="text-xs font-mono text-gray-400 truncate w-full">@{holder.username}</span>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-xl font-mono text-green-400 mb-4">Tracks</h2>
+              {nfts.length === 0 ? (
+                <p className="text-center text-gray-500 font-mono text-sm py-6">No media NFTs found in this collection</p>
+              ) : (
+                <div className="space-y-2">
+                  {nfts.map(nft => {
+                    const mediaKey = getMediaKey(nft);
+                    const isCurrent = currentlyPlaying === mediaKey;
+                    const plays = stats.trackPlays[mediaKey] || 0;
+
+                    return (
+                      <div key={`${nft.contract}-${nft.tokenId}`} className="bg-gray-800/30 rounded-lg p-3 flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-md overflow-hidden flex-shrink-0">
+                          <NFTImage
+                            src={nft.image}
+                            alt={nft.name}
+                            className="w-full h-full object-cover"
+                            width={40}
+                            height={40}
+                            nft={nft}
+                          />
+                        </div>
+                        <div className="flex-grow min-w-0">
+                          <p className={`font-mono text-sm truncate ${isCurrent && isPlaying ? 'text-green-400' : 'text-purple-400'}`}>
+                            {nft.name}
+                          </p>
+                          <p className="text-xs text-gray-400 font-mono truncate">
+                            #{nft.tokenId}{plays > 0 ? ` · ${plays} plays` : ''}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handlePlay(nft)}
+                          className="w-8 h-8 rounded-full bg-purple-400 text-black flex items-center justify-center flex-shrink-0"
+                          aria-label={isCurrent && isPlaying ? 'Pause' : 'Play'}
+                        >
+                          {isCurrent && isPlaying ? (
+                            <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                              <path d="M560-200v-560h160v560H560Zm-320 0v-560h160v560H240Z"/>
+                            </svg>
+                          ) : (
+                            <svg xmlns="http://www.w3.org/2000/svg" height="20" viewBox="0 -960 960 960" width="20" fill="currentColor">
+                              <path d="M320-200v-560l440 280-440 280Z"/>
+                            </svg>
+                          )}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CollectionView;
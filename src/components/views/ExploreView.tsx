@@ -4,9 +4,10 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useVirtualizedNFTs } from '../../hooks/useVirtualizedNFTs';
 import FollowsModal from '../FollowsModal';
 import { SearchBar } from '../search/SearchBar';
+import { SearchResults } from '../search/SearchResults';
 import { VirtualizedNFTGrid } from '../nft/VirtualizedNFTGrid';
 import Image from 'next/image';
-import { NFT, FarcasterUser, SearchedUser } from '../../types/user';
+import { NFT, FarcasterUser, SearchedUser, GroupedSearchResults } from '../../types/user';
 import { getDoc, doc } from 'firebase/firestore';
 import { db, trackUserSearch, isUserFollowed, toggleFollowUser, getFollowersCount, getFollowingCount } from '../../lib/firebase';
 
@@ -27,10 +28,12 @@ import { useConnection } from '../../context/ConnectionContext';
 interface ExploreViewProps {
   onSearch: (query: string) => void;
   selectedUser: FarcasterUser | null;
-  onPlayNFT: (nft: NFT) => void;
+  onPlayNFT: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => void;
   currentlyPlaying: string | null;
   isPlaying: boolean;
   searchResults: FarcasterUser[];
+  catalogResults?: Pick<GroupedSearchResults, 'tracks' | 'collections'>; // Indexed tracks and collections matching the search
+  onOpenCollection?: (contract: string, network: 'ethereum' | 'base') => void;
   nfts: NFT[];
   isSearching: boolean;
   handlePlayPause: () => void;
@@ -69,6 +72,8 @@ const ExploreView: React.FC<ExploreViewProps> = (props) => {
     currentlyPlaying,
     isPlaying,
     searchResults,
+    catalogResults = { tracks: [], collections: [] },
+    onOpenCollection,
     nfts,
     isSearching,
     handlePlayPause,
@@ -479,6 +484,114 @@ const ExploreView: React.FC<ExploreViewProps> = (props) => {
     };
   }, [hideNotification]);
 
+  const hasSearchResults = searchResults.length > 0 || catalogResults.tracks.length > 0 || catalogResults.collections.length > 0;
+
+  const renderUserCard = (user: FarcasterUser) => (
+    <div
+      key={user.fid}
+      onClick={() => {
+        console.log('=== EXPLORE: Direct wallet search from search results ===');
+        console.log('Selected user:', user);
+        
+        // IMPORTANT: We only track the search when the user actually visits the profile
+        // This prevents the recently searched list from being populated just by typing
+        if (effectiveUserFid) {
+          // Only track the search if the user actually clicks to view the profile
+          console.log('Tracking search for user:', user.username);
+          trackUserSearch(user.username, effectiveUserFid);
+        }
+        
+        // Directly initiate wallet search without showing intermediate profile view
+        handleUserSelect(user);
+      }}
+      className="group relative bg-gradient-to-br from-gray-900/80 to-gray-800/60 backdrop-blur-sm rounded-xl overflow-hidden shadow-lg shadow-black/30 hover:shadow-green-900/20 transition-all duration-300 cursor-pointer border border-gray-700/40 hover:border-green-400/40"
+    >
+      {/* Card content with improved layout */}
+      <div className="flex flex-col h-full">
+        {/* Top colored accent bar */}
+        <div className="h-1 w-full bg-gradient-to-r from-purple-500/60 via-green-400/40 to-purple-500/60"></div>
+        
+        {/* User info section */}
+        <div className="p-4 flex items-center gap-4">
+          <div className="relative">
+            {/* Profile image with improved styling */}
+            <div className="w-16 h-16 rounded-full overflow-hidden flex-shrink-0 relative ring-2 ring-purple-500/30 group-hover:ring-green-400/40 transition-all duration-300 shadow-md shadow-black/20">
+              <Image
+                src={user.pfp_url || `https://avatar.vercel.sh/${user.username}`}
+                alt={user.display_name || user.username}
+                className="object-cover"
+                fill
+                sizes="64px"
+              />
+            </div>
+            
+            {/* Follow/unfollow button */}
+            <div 
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                handleFollowToggle(user, e);
+              }}
+              className={`absolute -bottom-1 -right-1 w-7 h-7 ${followedUsers[user.fid] ? 'bg-green-600 hover:bg-green-500' : 'bg-purple-600 hover:bg-purple-500'} rounded-full flex items-center justify-center shadow-lg border-2 ${followedUsers[user.fid] ? 'border-green-400/30' : 'border-purple-400/30'} transition-all duration-200 cursor-pointer transform hover:scale-110 active:scale-95`}
+            >
+              {followedUsers[user.fid] ? (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+                </svg>
+              )}
+            </div>
+          </div>
+          
+          {/* User details with improved typography */}
+          <div className="space-y-1 flex-1 min-w-0">
+            <h3 className="font-mono text-lg text-green-400 truncate group-hover:text-green-300 transition-colors">
+              {user.display_name || user.username}
+            </h3>
+            <div className="flex items-center gap-2">
+              <p className="font-mono text-gray-400 text-sm truncate">@{user.username}</p>
+            </div>
+            
+            {/* Stats row */}
+            <div className="flex items-center gap-2 mt-1">
+              {followedUsers[user.fid] && (
+                <span className="text-xs font-mono px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full flex items-center">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                  </svg>
+                  Following
+                </span>
+              )}
+              {POD_MEMBER_FIDS.includes(user.fid) && (
+                <span className="text-xs font-mono px-2 py-0.5 bg-purple-500/20 text-purple-400 rounded-full flex items-center">
+                  thepod
+                </span>
+              )}
+              {user.fid === PODPLAYR_OFFICIAL_FID && (
+                <span className="text-xs font-mono px-2 py-0.5 bg-purple-800/40 text-purple-300 rounded-full flex items-center font-semibold">
+                  Official
+                </span>
+              )}
+              {[7472, 14871, 414859, 356115, 296462, 195864, 1020224, 1020659].includes(user.fid) && (
+                <span className="text-xs font-mono px-2 py-0.5 rounded-full flex items-center font-semibold" 
+                      style={{ 
+                        background: 'linear-gradient(90deg, rgba(255,0,0,0.2) 0%, rgba(255,154,0,0.2) 25%, rgba(208,222,33,0.2) 50%, rgba(79,220,74,0.2) 75%, rgba(63,218,216,0.2) 100%)', 
+                        color: '#f0f0f0',
+                        textShadow: '0 0 2px rgba(0,0,0,0.5)'
+                      }}>
+                  ACYL
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <>
       {/* Logo header that shows when no notification is visible */}
@@ -631,121 +744,23 @@ const ExploreView: React.FC<ExploreViewProps> = (props) => {
             </div>
 
             {/* Search Results */}
-            {searchResults.length > 0 && !selectedUser ? (
+            {hasSearchResults && !selectedUser ? (
               <div className="mt-8">
                 <h2 className="text-2xl font-semibold mb-4 font-mono text-green-400">Search Results</h2>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {searchResults.map((user) => (
-                    <div
-                      key={user.fid}
-                      onClick={() => {
-                        console.log('=== EXPLORE: Direct wallet search from search results ===');
-                        console.log('Selected user:', user);
-                        
-                        // IMPORTANT: We only track the search when the user actually visits the profile
-                        // This prevents the recently searched list from being populated just by typing
-                        if (effectiveUserFid) {
-                          // Only track the search if the user actually clicks to view the profile
-                          console.log('Tracking search for user:', user.username);
-                          trackUserSearch(user.username, effectiveUserFid);
-                        }
-                        
-                        // Directly initiate wallet search without showing intermediate profile view
-                        handleUserSelect(user);
-                      }}
-                      className="group relative bg-gradient-to-br from-gray-900/80 to-gray-800/60 backdrop-blur-sm rounded-xl overflow-hidden shadow-lg shadow-black/30 hover:shadow-green-900/20 transition-all duration-300 cursor-pointer border border-gray-700/40 hover:border-green-400/40"
-                    >
-                      {/* Card content with improved layout */}
-                      <div className="flex flex-col h-full">
-                        {/* Top colored accent bar */}
-                        <div className="h-1 w-full bg-gradient-to-r from-purple-500/60 via-green-400/40 to-purple-500/60"></div>
-                        
-                        {/* User info section */}
-                        <div className="p-4 flex items-center gap-4">
-                          <div className="relative">
-                            {/* Profile image with improved styling */}
-                            <div className="w-16 h-16 rounded-full overflow-hidden flex-shrink-0 relative ring-2 ring-purple-500/30 group-hover:ring-green-400/40 transition-all duration-300 shadow-md shadow-black/20">
-                              <Image
-                                src={user.pfp_url || `https://avatar.vercel.sh/${user.username}`}
-                                alt={user.display_name || user.username}
-                                className="object-cover"
-                                fill
-                                sizes="64px"
-                              />
-                            </div>
-                            
-                            {/* Follow/unfollow button */}
-                            <div 
-                              onClick={(e) => {
-                                e.preventDefault();
-                                e.stopPropagation();
-                                handleFollowToggle(user, e);
-                              }}
-                              className={`absolute -bottom-1 -right-1 w-7 h-7 ${followedUsers[user.fid] ? 'bg-green-600 hover:bg-green-500' : 'bg-purple-600 hover:bg-purple-500'} rounded-full flex items-center justify-center shadow-lg border-2 ${followedUsers[user.fid] ? 'border-green-400/30' : 'border-purple-400/30'} transition-all duration-200 cursor-pointer transform hover:scale-110 active:scale-95`}
-                            >
-                              {followedUsers[user.fid] ? (
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
-                                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                </svg>
-                              ) : (
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
-                                  <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
-                                </svg>
-                              )}
-                            </div>
-                          </div>
-                          
-                          {/* User details with improved typography */}
-                          <div className="space-y-1 flex-1 min-w-0">
-                            <h3 className="font-mono text-lg text-green-400 truncate group-hover:text-green-300 transition-colors">
-                              {user.display_name || user.username}
-                            </h3>
-                            <div className="flex items-center gap-2">
-                              <p className="font-mono text-gray-400 text-sm truncate">@{user.username}</p>
-                            </div>
-                            
-                            {/* Stats row */}
-                            <div className="flex items-center gap-2 mt-1">
-                              {followedUsers[user.fid] && (
-                                <span className="text-xs font-mono px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full flex items-center">
-                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
-                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                  </svg>
-                                  Following
-                                </span>
-                              )}
-                              {POD_MEMBER_FIDS.includes(user.fid) && (
-                                <span className="text-xs font-mono px-2 py-0.5 bg-purple-500/20 text-purple-400 rounded-full flex items-center">
-                                  thepod
-                                </span>
-                              )}
-                              {user.fid === PODPLAYR_OFFICIAL_FID && (
-                                <span className="text-xs font-mono px-2 py-0.5 bg-purple-800/40 text-purple-300 rounded-full flex items-center font-semibold">
-                                  Official
-                                </span>
-                              )}
-                              {[7472, 14871, 414859, 356115, 296462, 195864, 1020224, 1020659].includes(user.fid) && (
-                                <span className="text-xs font-mono px-2 py-0.5 rounded-full flex items-center font-semibold" 
-                                      style={{ 
-                                        background: 'linear-gradient(90deg, rgba(255,0,0,0.2) 0%, rgba(255,154,0,0.2) 25%, rgba(208,222,33,0.2) 50%, rgba(79,220,74,0.2) 75%, rgba(63,218,216,0.2) 100%)', 
-                                        color: '#f0f0f0',
-                                        textShadow: '0 0 2px rgba(0,0,0,0.5)'
-                                      }}>
-                                  ACYL
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <SearchResults
+                  results={{ users: searchResults, ...catalogResults }}
+                  renderUser={renderUserCard}
+                  onOpenCollection={onOpenCollection}
+                  onPlayNFT={onPlayNFT}
+                  isPlaying={isPlaying}
+                  currentlyPlaying={currentlyPlaying}
+                  handlePlayPause={handlePlayPause}
+                />
               </div>
             ) : null}
 
             {/* Recently Searched Users Section - with cleaner, more distinct styling */}
-            {!searchResults.length && !selectedUser && recentSearches.length > 0 && (
+            {!hasSearchResults && !selectedUser && recentSearches.length > 0 && (
               <div className="mb-8 px-4">
                 <h2 className="text-xl font-mono text-green-400 mb-4">
                   {effectiveUserFid ? "Recently Searched" : "Popular Users"}
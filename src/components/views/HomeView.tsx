@@ -1,12 +1,14 @@
 'use client';
 
-import React, { useMemo, useContext, useState, useEffect } from 'react';
+import React, { useMemo, useContext, useState } from 'react';
 import { NFTCard } from '../nft/NFTCard';
 import type { NFT } from '../../types/user';
 import Image from 'next/image';
 import { useNFTPreloader } from '../../hooks/useNFTPreloader';
 import FeaturedSection from '../sections/FeaturedSection';
 import RecentlyPlayed from '../RecentlyPlayed';
+import FollowingFeed from '../sections/FollowingFeed';
+import BecauseYouLiked from '../sections/BecauseYouLiked';
 import { getMediaKey } from '../../utils/media';
 import { FarcasterContext } from '../../app/providers';
 import NotificationHeader from '../NotificationHeader';
@@ -31,6 +33,7 @@ interface HomeViewProps {
   hasActivePlayer: boolean;
   currentPlayingNFT?: NFT | null; // Add currentPlayingNFT prop
   recentlyAddedNFT?: React.MutableRefObject<string | null>; // Add recentlyAddedNFT ref
+  onOpenCharts?: () => void;
 }
 
 const HomeView: React.FC<HomeViewProps> = ({
@@ -47,21 +50,11 @@ const HomeView: React.FC<HomeViewProps> = ({
   hasActivePlayer = false,
   currentPlayingNFT,
   recentlyAddedNFT,
+  onOpenCharts,
 }) => {
   // Get NFT notification context (use directly for instant notifications)
   const { showNotification } = useNFTNotification();
 
-  // Initialize featured NFTs once on mount
-  useEffect(() => {
-    const initializeFeaturedNFTs = async () => {
-      const { ensureFeaturedNFTsExist } = await import('../../lib/firebase');
-      const { FEATURED_NFTS } = await import('../sections/FeaturedSection');
-      await ensureFeaturedNFTsExist(FEATURED_NFTS);
-    };
-
-    initializeFeaturedNFTs();
-  }, []);
-
   // Combine all NFTs that need preloading
   const allNFTs = useMemo(() => {
     const nfts = [...recentlyPlayedNFTs];
@@ -247,11 +240,27 @@ const HomeView: React.FC<HomeViewProps> = ({
           recentlyAddedNFT={recentlyAddedNFT} // Pass the recentlyAddedNFT ref
         />
 
+        {/* Activity from followed users */}
+        <FollowingFeed
+          userFid={userFid}
+          onPlayNFT={onPlayNFT}
+          currentlyPlaying={currentlyPlaying}
+          isPlaying={isPlaying}
+          handlePlayPause={handlePlayPause}
+        />
+
         {/* Top Played Section */}
         <section>
           {topPlayedNFTs.length > 0 && (
             <div className="mb-8">
-              <h2 className="text-xl font-mono text-green-400 mb-6">Top Played</h2>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-mono text-green-400">Top Played</h2>
+                {onOpenCharts && (
+                  <button onClick={onOpenCharts} className="text-sm font-mono text-purple-400 hover:text-purple-300">
+                    Charts →
+                  </button>
+                )}
+              </div>
               <div className="relative">
                 <div className="overflow-x-auto pb-4 hide-scrollbar">
                   <div className="flex gap-6">
@@ -297,6 +306,18 @@ const HomeView: React.FC<HomeViewProps> = ({
           )}
         </section>
 
+        {/* Recommendations seeded by recent likes */}
+        <BecauseYouLiked
+          likedNFTs={likedNFTs}
+          onPlayNFT={onPlayNFT}
+          currentlyPlaying={currentlyPlaying}
+          isPlaying={isPlaying}
+          handlePlayPause={handlePlayPause}
+          onLikeToggle={handleNFTLike}
+          isNFTLiked={checkDirectlyLiked}
+          userFid={userFid}
+        />
+
         {/* Featured Section */}
         <section>
           <FeaturedSection
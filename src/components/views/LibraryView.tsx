@@ -8,6 +8,7 @@ import Image from 'next/image';
 import NotificationHeader from '../NotificationHeader';
 import { useNFTNotification } from '../../context/NFTNotificationContext';
 import NFTNotification from '../NFTNotification';
+import { PlaylistsPanel } from '../playlists/PlaylistsPanel';
 
 // This component is a wrapper that uses the hook and passes it to the class component
 const NotificationHandler = ({ nft, onTrigger }: { nft: NFT | null, onTrigger: () => void }) => {
@@ -31,7 +32,7 @@ interface LibraryViewProps {
   isPlaying: boolean;
   currentlyPlaying: string | null;
   currentPlayingNFT: NFT | null;
-  handlePlayAudio: (nft: NFT) => Promise<void>;
+  handlePlayAudio: (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => Promise<void>;
   handlePlayPause: () => void;
   onReset: () => void;
   userContext: UserContext;
@@ -169,6 +170,7 @@ class SimpleNFTCard extends React.Component<SimpleNFTCardProps> {
 class LibraryView extends React.Component<LibraryViewProps> {
   // State for the component including notification handling
   state = {
+    activeTab: 'liked' as 'liked' | 'playlists',
     viewMode: 'grid' as 'grid' | 'list',
     searchFilter: '',
     filterSort: 'recent' as 'recent' | 'name',
@@ -302,7 +304,7 @@ class LibraryView extends React.Component<LibraryViewProps> {
       onLikeToggle 
     } = this.props;
     
-    const { viewMode, searchFilter, filterSort, isLoading } = this.state;
+    const { activeTab, viewMode, searchFilter, filterSort, isLoading } = this.state;
     const uniqueNFTs = this.getUniqueNFTs();
     const filteredNFTs = this.getFilteredNFTs();
 
@@ -349,6 +351,31 @@ class LibraryView extends React.Component<LibraryViewProps> {
             bottom: '0'
           }}
         >
+          {/* Library Tabs */}
+          <div className="flex gap-2 px-4">
+            {(['liked', 'playlists'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => this.setState({ activeTab: tab })}
+                className={`px-4 py-1.5 rounded-full font-mono text-sm transition-colors ${
+                  activeTab === tab ? 'bg-purple-400 text-black' : 'bg-gray-800/50 text-gray-400'
+                }`}
+              >
+                {tab === 'liked' ? 'Liked' : 'Playlists'}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'playlists' ? (
+            <PlaylistsPanel
+              userFid={userContext?.user?.fid}
+              likedNFTs={uniqueNFTs}
+              currentlyPlaying={currentlyPlaying}
+              isPlaying={isPlaying}
+              onPlay={handlePlayAudio}
+            />
+          ) : (
+          <>
           {/* Header and Filters */}
           <div className="flex justify-between items-center px-4">
             <div>
@@ -452,6 +479,8 @@ class LibraryView extends React.Component<LibraryViewProps> {
               })}
             </div>
           )}
+          </>
+          )}
         </div>
       </>
     );
@@ -14,6 +14,8 @@ import FollowsModal from '../FollowsModal';
 import { useNFTNotification } from '../../context/NFTNotificationContext';
 import NFTNotification from '../NFTNotification';
 import { useNFTCache } from '../../contexts/NFTCacheContext';
+import { PlaybackSettingsPanel } from '../settings/PlaybackSettingsPanel';
+import { ListeningStatsPanel } from '../user/ListeningStatsPanel';
 
 interface ProfileViewProps {
   userContext: UserContext;
@@ -519,6 +521,13 @@ const ProfileView: React.FC<ProfileViewProps> = ({
           </div>
         </div>
 
+        {/* Listening stats */}
+        {userContext?.user?.fid && (
+          <div className="px-4">
+            <ListeningStatsPanel fid={userContext.user.fid} />
+          </div>
+        )}
+
         {/* User's NFTs - Replace with virtualized grid */}
         <div>
           <h2 className="text-2xl font-bold text-green-400 mb-4">Your NFTs</h2>
@@ -572,6 +581,10 @@ const ProfileView: React.FC<ProfileViewProps> = ({
             </div>
           )}
         </div>
+        {/* Playback preferences */}
+        <div className="px-4">
+          <PlaybackSettingsPanel />
+        </div>
         {/* Copyright text */}
         <div className="text-center py-8 text-white/60 text-sm">
           © THEPOD 2025 ALL RIGHTS RESERVED
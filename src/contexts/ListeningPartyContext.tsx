@@ -0,0 +1,205 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ListeningParty, PartyParticipant, PartyPlaybackState } from '../types/user';
+import {
+  createListeningParty,
+  joinListeningParty,
+  leaveListeningParty,
+  touchPartyParticipant,
+  updatePartyPlayback,
+  transferPartyHost,
+  endListeningParty,
+  subscribeToListeningParty,
+  subscribeToPartyParticipants,
+  type PartyProfile
+} from '../lib/firebase/listeningParties';
+import { logger } from '../utils/logger';
+
+const partyLogger = logger.getModuleLogger('listeningParty');
+
+// localStorage key for the party we're in, so a reload rejoins it
+const PARTY_STORAGE_KEY = 'podplayr_listening_party';
+
+// Participants refresh lastSeen on this interval, and drop off the list when it's this stale
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const PARTICIPANT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Host playback as received by a follower; receivedAt is our local clock, so drift
+// correction doesn't depend on the host's clock matching ours
+export interface PartyFollowTarget extends PartyPlaybackState {
+  receivedAt: number;
+}
+
+interface ListeningPartyContextType {
+  party: ListeningParty | null;
+  participants: PartyParticipant[];
+  isHost: boolean;
+  // Playback to follow - null when not in a party or when we're the host
+  followTarget: PartyFollowTarget | null;
+  startParty: (playback: PartyPlaybackState) => Promise<string>;
+  joinParty: (partyId: string) => void;
+  leaveParty: () => Promise<void>;
+  broadcast: (playback: PartyPlaybackState) => void;
+  handOff: (toFid: number) => Promise<void>;
+}
+
+const ListeningPartyContext = createContext<ListeningPartyContextType | undefined>(undefined);
+
+interface ListeningPartyProviderProps {
+  children: React.ReactNode;
+  // The signed-in Farcaster user, as reported by the frame context
+  profile: PartyProfile | null;
+}
+
+export const ListeningPartyProvider: React.FC<ListeningPartyProviderProps> = ({ children, profile }) => {
+  const [partyId, setPartyId] = useState<string | null>(null);
+  const [party, setParty] = useState<ListeningParty | null>(null);
+  const [receivedAt, setReceivedAt] = useState(0);
+  const [participants, setParticipants] = useState<PartyParticipant[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const partyIdRef = useRef<string | null>(null);
+  partyIdRef.current = partyId;
+
+  // Rejoin the party we were in before a reload
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(PARTY_STORAGE_KEY);
+      if (stored) setPartyId(stored);
+    } catch (error) {
+      partyLogger.warn('Error reading listening party from localStorage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    try {
+      if (partyId) {
+        localStorage.setItem(PARTY_STORAGE_KEY, partyId);
+      } else {
+        localStorage.removeItem(PARTY_STORAGE_KEY);
+      }
+    } catch (error) {
+      partyLogger.warn('Error saving listening party to localStorage:', error);
+    }
+  }, [partyId]);
+
+  // Register as a participant once we know who we are, and keep the heartbeat going
+  useEffect(() => {
+    if (!partyId || !profile) return;
+
+    joinListeningParty(partyId, profile.fid).catch(error => {
+      partyLogger.error('Error joining listening party:', error);
+    });
+    const intervalId = setInterval(() => {
+      touchPartyParticipant(partyId, profile.fid);
+      setNow(Date.now());
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [partyId, profile]);
+
+  useEffect(() => {
+    if (!partyId) {
+      setParty(null);
+      setParticipants([]);
+      return;
+    }
+
+    const unsubscribeParty = subscribeToListeningParty(partyId, (updated) => {
+      if (!updated || updated.endedAt) {
+        partyLogger.info(`Listening party ${partyId} has ended`);
+        setPartyId(null);
+        return;
+      }
+      setParty(updated);
+      setReceivedAt(Date.now());
+    });
+    const unsubscribeParticipants = subscribeToPartyParticipants(partyId, setParticipants);
+
+    return () => {
+      unsubscribeParty();
+      unsubscribeParticipants();
+    };
+  }, [partyId]);
+
+  const startParty = useCallback(async (playback: PartyPlaybackState) => {
+    if (!profile) throw new Error('Sign in with Farcaster to start a listening party');
+    const id = await createListeningParty(profile, playback);
+    setPartyId(id);
+    return id;
+  }, [profile]);
+
+  const joinParty = useCallback((id: string) => {
+    partyLogger.info(`Joining listening party ${id}`);
+    setPartyId(id);
+  }, []);
+
+  const isHost = Boolean(party && profile && party.hostFid === profile.fid);
+
+  const activeParticipants = useMemo(
+    () => participants.filter(participant => now - participant.lastSeen < PARTICIPANT_TIMEOUT_MS),
+    [participants, now]
+  );
+
+  // A leaving host passes control to the longest-standing listener, or ends an empty party
+  const leaveParty = useCallback(async () => {
+    const id = partyIdRef.current;
+    if (!id) return;
+
+    if (profile) {
+      if (isHost) {
+        const successor = activeParticipants.find(participant => participant.fid !== profile.fid);
+        if (successor) {
+          await transferPartyHost(id, successor.fid);
+        } else {
+          await endListeningParty(id);
+        }
+      }
+      await leaveListeningParty(id, profile.fid);
+    }
+    setPartyId(null);
+  }, [profile, isHost, activeParticipants]);
+
+  const broadcast = useCallback((playback: PartyPlaybackState) => {
+    const id = partyIdRef.current;
+    if (!id || !isHost) return;
+    updatePartyPlayback(id, playback);
+  }, [isHost]);
+
+  const handOff = useCallback(async (toFid: number) => {
+    const id = partyIdRef.current;
+    if (!id || !isHost) return;
+    await transferPartyHost(id, toFid);
+  }, [isHost]);
+
+  const followTarget = useMemo<PartyFollowTarget | null>(() => {
+    if (!party || isHost || !party.playback?.track) return null;
+    return { ...party.playback, receivedAt };
+  }, [party, isHost, receivedAt]);
+
+  const value = useMemo(() => ({
+    party,
+    participants: activeParticipants,
+    isHost,
+    followTarget,
+    startParty,
+    joinParty,
+    leaveParty,
+    broadcast,
+    handOff
+  }), [party, activeParticipants, isHost, followTarget, startParty, joinParty, leaveParty, broadcast, handOff]);
+
+  return (
+    <ListeningPartyContext.Provider value={value}>
+      {children}
+    </ListeningPartyContext.Provider>
+  );
+};
+
+export const useListeningParty = () => {
+  const context = useContext(ListeningPartyContext);
+  if (context === undefined) {
+    throw new Error('useListeningParty must be used within a ListeningPartyProvider');
+  }
+  return context;
+};
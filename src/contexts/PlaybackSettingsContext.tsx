@@ -0,0 +1,126 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '../utils/logger';
+import { EQ_PRESETS, EQ_BANDS, MAX_EQ_GAIN_DB, type EqPresetId } from '../utils/audioGraph';
+
+const settingsLogger = logger.getModuleLogger('playbackSettings');
+
+// localStorage key for the user's playback preferences
+const PLAYBACK_SETTINGS_STORAGE_KEY = 'podplayr_playback_settings';
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+export interface PlaybackSettings {
+  crossfadeSeconds: number; // 0 disables crossfade
+  eqPreset: EqPresetId;
+  eqGains: number[]; // dB per EQ_BANDS entry
+  normalizeLoudness: boolean;
+  autoContinue: boolean; // Keep playing recommended tracks once the queue runs out
+}
+
+const defaultPlaybackSettings: PlaybackSettings = {
+  crossfadeSeconds: 0,
+  eqPreset: 'flat',
+  eqGains: EQ_PRESETS.flat.gains,
+  normalizeLoudness: false,
+  autoContinue: true
+};
+
+interface PlaybackSettingsContextType {
+  settings: PlaybackSettings;
+  // True when EQ or normalization is on, i.e. audio needs to go through the Web Audio graph
+  isAudioProcessingEnabled: boolean;
+  setCrossfadeSeconds: (seconds: number) => void;
+  setEqPreset: (preset: Exclude<EqPresetId, 'custom'>) => void;
+  setEqBandGain: (bandIndex: number, gainDb: number) => void;
+  setNormalizeLoudness: (enabled: boolean) => void;
+  setAutoContinue: (enabled: boolean) => void;
+}
+
+const PlaybackSettingsContext = createContext<PlaybackSettingsContextType | undefined>(undefined);
+
+const loadPlaybackSettings = (): PlaybackSettings => {
+  try {
+    const stored = localStorage.getItem(PLAYBACK_SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return { ...defaultPlaybackSettings, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    settingsLogger.warn('Error loading playback settings from localStorage:', error);
+  }
+  return defaultPlaybackSettings;
+};
+
+export const PlaybackSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<PlaybackSettings>(defaultPlaybackSettings);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  useEffect(() => {
+    setSettings(loadPlaybackSettings());
+    setHasLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!hasLoaded) return;
+    try {
+      localStorage.setItem(PLAYBACK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      settingsLogger.warn('Error saving playback settings to localStorage:', error);
+    }
+  }, [settings, hasLoaded]);
+
+  const setCrossfadeSeconds = useCallback((seconds: number) => {
+    const crossfadeSeconds = Math.min(Math.max(Math.round(seconds), 0), MAX_CROSSFADE_SECONDS);
+    setSettings(prev => ({ ...prev, crossfadeSeconds }));
+  }, []);
+
+  const setEqPreset = useCallback((preset: Exclude<EqPresetId, 'custom'>) => {
+    setSettings(prev => ({ ...prev, eqPreset: preset, eqGains: EQ_PRESETS[preset].gains }));
+  }, []);
+
+  // Adjusting a single band turns the current preset into a custom curve
+  const setEqBandGain = useCallback((bandIndex: number, gainDb: number) => {
+    if (bandIndex < 0 || bandIndex >= EQ_BANDS.length) return;
+    const gain = Math.min(Math.max(gainDb, -MAX_EQ_GAIN_DB), MAX_EQ_GAIN_DB);
+    setSettings(prev => {
+      const eqGains = [...prev.eqGains];
+      eqGains[bandIndex] = gain;
+      return { ...prev, eqPreset: 'custom', eqGains };
+    });
+  }, []);
+
+  const setNormalizeLoudness = useCallback((normalizeLoudness: boolean) => {
+    setSettings(prev => ({ ...prev, normalizeLoudness }));
+  }, []);
+
+  const setAutoContinue = useCallback((autoContinue: boolean) => {
+    setSettings(prev => ({ ...prev, autoContinue }));
+  }, []);
+
+  const isAudioProcessingEnabled = settings.normalizeLoudness || settings.eqGains.some(gain => gain !== 0);
+
+  const value = useMemo(() => ({
+    settings,
+    isAudioProcessingEnabled,
+    setCrossfadeSeconds,
+    setEqPreset,
+    setEqBandGain,
+    setNormalizeLoudness,
+    setAutoContinue
+  }), [settings, isAudioProcessingEnabled, setCrossfadeSeconds, setEqPreset, setEqBandGain, setNormalizeLoudness, setAutoContinue]);
+
+  return (
+    <PlaybackSettingsContext.Provider value={value}>
+      {children}
+    </PlaybackSettingsContext.Provider>
+  );
+};
+
+export const usePlaybackSettings = () => {
+  const context = useContext(PlaybackSettingsContext);
+  if (context === undefined) {
+    throw new Error('usePlaybackSettings must be used within a PlaybackSettingsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { NFT } from '../types/user';
+import { getMediaKey } from '../utils/media';
+import {
+  queueReducer,
+  initialQueueState,
+  findQueueIndex,
+  loadPersistedQueue,
+  persistQueue,
+  type QueueItem
+} from '../lib/queueStore';
+
+interface QueueContextType {
+  items: QueueItem[];
+  currentIndex: number;
+  queueType: string;
+  upNext: QueueItem[];
+  setQueue: (nfts: NFT[], startIndex: number, queueType: string) => void;
+  enqueue: (nft: NFT | NFT[]) => void;
+  playNext: (nft: NFT | NFT[]) => void;
+  remove: (id: string) => void;
+  reorder: (fromIndex: number, toIndex: number) => void;
+  clear: () => void;
+  jumpTo: (id: string) => NFT | null;
+  syncToNFT: (nft: NFT) => boolean;
+  getAdjacent: (direction: 1 | -1) => { index: number; nft: NFT } | null;
+  setCurrentIndex: (index: number) => void;
+}
+
+const QueueContext = createContext<QueueContextType | undefined>(undefined);
+
+export const QueueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, dispatch] = useReducer(queueReducer, initialQueueState);
+  const hasRestoredRef = useRef(false);
+
+  // Restore the persisted queue once on mount
+  useEffect(() => {
+    const persisted = loadPersistedQueue();
+    if (persisted) {
+      dispatch({ type: 'RESTORE', state: persisted });
+    }
+  }, []);
+
+  // Persist every change, skipping the initial empty state so it can't overwrite the stored queue
+  useEffect(() => {
+    if (!hasRestoredRef.current) {
+      hasRestoredRef.current = true;
+      return;
+    }
+    persistQueue(state);
+  }, [state]);
+
+  const setQueue = useCallback((nfts: NFT[], startIndex: number, queueType: string) => {
+    dispatch({ type: 'SET_QUEUE', nfts, startIndex, queueType });
+  }, []);
+
+  const enqueue = useCallback((nft: NFT | NFT[]) => {
+    dispatch({ type: 'ENQUEUE', nfts: Array.isArray(nft) ? nft : [nft] });
+  }, []);
+
+  const playNext = useCallback((nft: NFT | NFT[]) => {
+    dispatch({ type: 'PLAY_NEXT', nfts: Array.isArray(nft) ? nft : [nft] });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    dispatch({ type: 'REMOVE', id });
+  }, []);
+
+  const reorder = useCallback((fromIndex: number, toIndex: number) => {
+    dispatch({ type: 'REORDER', fromIndex, toIndex });
+  }, []);
+
+  const clear = useCallback(() => {
+    dispatch({ type: 'CLEAR' });
+  }, []);
+
+  const setCurrentIndex = useCallback((index: number) => {
+    dispatch({ type: 'SET_CURRENT_INDEX', index });
+  }, []);
+
+  // Move the current position to a specific entry and hand back its NFT for playback
+  const jumpTo = useCallback((id: string): NFT | null => {
+    const index = state.items.findIndex(item => item.id === id);
+    if (index === -1) return null;
+    dispatch({ type: 'SET_CURRENT_INDEX', index });
+    return state.items[index].nft;
+  }, [state.items]);
+
+  // Point the queue at whatever is now playing; returns false if the NFT isn't queued
+  const syncToNFT = useCallback((nft: NFT): boolean => {
+    const current = state.items[state.currentIndex];
+    if (current && (current.nft.mediaKey || getMediaKey(current.nft)) === (nft.mediaKey || getMediaKey(nft))) {
+      return true;
+    }
+    const index = findQueueIndex(state, nft);
+    if (index === -1) return false;
+    dispatch({ type: 'SET_CURRENT_INDEX', index });
+    return true;
+  }, [state]);
+
+  // Next/previous entry with wraparound, matching the old page-queue behaviour
+  const getAdjacent = useCallback((direction: 1 | -1) => {
+    if (state.items.length === 0) return null;
+    const from = state.currentIndex === -1 ? (direction === 1 ? -1 : 0) : state.currentIndex;
+    const index = (from + direction + state.items.length) % state.items.length;
+    return { index, nft: state.items[index].nft };
+  }, [state.items, state.currentIndex]);
+
+  const value = useMemo(() => ({
+    items: state.items,
+    currentIndex: state.currentIndex,
+    queueType: state.queueType,
+    upNext: state.items.slice(state.currentIndex + 1),
+    setQueue,
+    enqueue,
+    playNext,
+    remove,
+    reorder,
+    clear,
+    jumpTo,
+    syncToNFT,
+    getAdjacent,
+    setCurrentIndex
+  }), [state, setQueue, enqueue, playNext, remove, reorder, clear, jumpTo, syncToNFT, getAdjacent, setCurrentIndex]);
+
+  return (
+    <QueueContext.Provider value={value}>
+      {children}
+    </QueueContext.Provider>
+  );
+};
+
+export const useQueue = () => {
+  const context = useContext(QueueContext);
+  if (context === undefined) {
+    throw new Error('useQueue must be used within a QueueProvider');
+  }
+  return context;
+};
@@ -1,20 +1,8 @@
-import { initializeApp } from 'firebase/app';
-import { getFirestore, doc, setDoc } from 'firebase/firestore';
+import { doc, setDoc } from 'firebase/firestore';
 import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { app, db } from './lib/firebase/config';
+import { ensureFirebaseUser } from './lib/firebase/auth';
 
-// Your web app's Firebase configuration
-const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID
-};
-
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-export const db = getFirestore(app);
 // Initialize Firebase Storage with custom settings
 export const storage = getStorage(app, 'gs://podplayr2.firebasestorage.app');
 
@@ -68,7 +56,8 @@ export const uploadProfileBackground = async (fid: number, file: File): Promise<
     const downloadUrl = await getDownloadURL(snapshot.ref);
     console.log('Got download URL:', downloadUrl);
 
-    // Store the URL in Firestore
+    // Store the URL in Firestore; only fid may write their user doc
+    await ensureFirebaseUser(fid);
     const userRef = doc(db, 'users', fid.toString());
     await setDoc(userRef, { 
       backgroundImage: downloadUrl,
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import type { ActivityEvent, FollowedUser } from '../types/user';
+import { getActivityFeed } from '../lib/firebase/activity';
+import { getFollowingUsers } from '../lib/firebase/social';
+import { logger } from '../utils/logger';
+
+const activityLogger = logger.getModuleLogger('activity');
+
+/**
+ * Hook loading the "Following" activity feed for a user, a page at a time,
+ * along with the followed profiles needed to render each event's actor
+ */
+export const useActivityFeed = (userFid?: number) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [following, setFollowing] = useState<Map<number, FollowedUser>>(new Map());
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped on refresh so a slow page from a previous load can't land in the new one
+  const loadIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    if (!userFid) {
+      setEvents([]);
+      setFollowing(new Map());
+      setCursor(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const followedUsers = await getFollowingUsers(userFid);
+      const page = await getActivityFeed(followedUsers.map(user => user.fid));
+      if (loadId !== loadIdRef.current) return;
+
+      setFollowing(new Map(followedUsers.map(user => [user.fid, user])));
+      setEvents(page.events);
+      setCursor(page.nextCursor);
+    } catch (loadError) {
+      activityLogger.error('Error loading following feed:', loadError);
+      if (loadId === loadIdRef.current) setError('Could not load activity');
+    } finally {
+      if (loadId === loadIdRef.current) setIsLoading(false);
+    }
+  }, [userFid]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoadingMore) return;
+    const loadId = loadIdRef.current;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getActivityFeed(Array.from(following.keys()), cursor);
+      if (loadId !== loadIdRef.current) return;
+      setEvents(current => [...current, ...page.events]);
+      setCursor(page.nextCursor);
+    } catch (loadError) {
+      activityLogger.error('Error loading more activity:', loadError);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [cursor, isLoadingMore, following]);
+
+  return {
+    events,
+    following,
+    isLoading,
+    isLoadingMore,
+    hasMore: cursor !== null,
+    error,
+    loadMore,
+    refresh
+  };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import type { NFT, Artist } from '../types/user';
+import { getArtist } from '../lib/firebase/artists';
+import { playlistTrackToNFT } from '../lib/firebase/playlists';
+import { logger } from '../utils/logger';
+
+const artistLogger = logger.getModuleLogger('artist');
+
+/**
+ * Hook loading an artist page: the synced artist profile and its discography as playable NFTs
+ */
+export const useArtist = (artistId: string) => {
+  const [artist, setArtist] = useState<Artist | null>(null);
+  const [nfts, setNFTs] = useState<NFT[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setArtist(null);
+    setNFTs([]);
+
+    const load = async () => {
+      try {
+        const result = await getArtist(artistId);
+        if (cancelled) return;
+        setArtist(result);
+        setNFTs((result?.tracks || []).map(track => playlistTrackToNFT({ ...track, addedAt: 0 })));
+      } catch (error) {
+        artistLogger.error('Error loading artist:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [artistId]);
+
+  return { artist, nfts, isLoading };
+};
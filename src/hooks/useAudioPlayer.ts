@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { NFT } from '../types/user';
 import { trackNFTPlay as originalTrackNFTPlay } from '../lib/firebase';
 
@@ -7,19 +7,15 @@ import { trackNFTPlay as originalTrackNFTPlay } from '../lib/firebase';
 const immediatelyTrackedNFTs = new Set<string>();
 
 // This function wraps the original trackNFTPlay to implement the 25% threshold logic
-const trackNFTPlay = (nft: NFT, fid: number, options?: { forceTrack?: boolean, thresholdReached?: boolean }) => {
+const trackNFTPlay = (nft: NFT, fid: number, options?: { forceTrack?: boolean, thresholdReached?: boolean, durationSeconds?: number, listenedSeconds?: number }) => {
   // CRITICAL: Use mediaKey as the primary identifier for this NFT
   // This ensures identical content is tracked together regardless of contract/tokenId
   const mediaKey = nft.mediaKey || getMediaKey(nft);
-  // For backwards compatibility, also track the legacy nftKey
-  const legacyNftKey = `${nft.contract}-${nft.tokenId}`;
   
   // If this is an immediate tracking call (from handlePlayAudio) and not forced
   if (!options?.forceTrack && !options?.thresholdReached) {
     // Just mark this NFT as having been immediately tracked
-    // Add both mediaKey and legacy key to support transition
     if (mediaKey) immediatelyTrackedNFTs.add(mediaKey);
-    immediatelyTrackedNFTs.add(legacyNftKey);
     audioLogger.info(`Skipping immediate play tracking for NFT: ${nft.name} - will track at 25% threshold`);
     return Promise.resolve(); // Return a resolved promise to maintain the same interface
   }
@@ -28,18 +24,173 @@ const trackNFTPlay = (nft: NFT, fid: number, options?: { forceTrack?: boolean, t
   if (options?.thresholdReached || options?.forceTrack) {
     // Actually track the play
     audioLogger.info(`${options?.thresholdReached ? '25% threshold reached' : 'Forced tracking'} - Recording play count for NFT: ${nft.name}`);
-    return originalTrackNFTPlay(nft, fid);
+    return originalTrackNFTPlay(nft, fid, options);
   }
   
   // Default case - shouldn't happen but included for completeness
   return Promise.resolve();
 };
 import { processMediaUrl, getMediaKey } from '../utils/media';
+import { createListenMeter, requiredListenSeconds } from '../lib/playRules';
 import { logger } from '../utils/logger';
+import {
+  getPlaybackPosition,
+  savePlaybackPosition,
+  clearPlaybackPosition,
+  mergePlaybackPosition,
+  isResumablePosition,
+  isLongFormDuration
+} from '../lib/playbackPositions';
+import {
+  savePlaybackPositionToFirestore,
+  getPlaybackPositionFromFirestore,
+  clearPlaybackPositionFromFirestore
+} from '../lib/firebase/playbackPositions';
+import { getPlaybackRate, savePlaybackRate, applyPlaybackRate, clampPlaybackRate } from '../lib/playbackRates';
+import { preloadAudio } from '../utils/audioPreloader';
+import { audioGraph } from '../utils/audioGraph';
+import { playlistTrackToNFT } from '../lib/firebase/playlists';
+import type { PartyFollowTarget } from '../contexts/ListeningPartyContext';
 
 // Create a dedicated logger for this module
 const audioLogger = logger.getModuleLogger('audioPlayer');
 
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Playback modes are stored per user so each Farcaster account keeps its own preference
+const PLAYBACK_MODE_STORAGE_PREFIX = 'podplayr_playback_mode_';
+
+const loadPlaybackMode = (fid: number): { shuffle: boolean; repeatMode: RepeatMode } => {
+  try {
+    const stored = localStorage.getItem(`${PLAYBACK_MODE_STORAGE_PREFIX}${fid}`);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        shuffle: parsed.shuffle === true,
+        repeatMode: ['off', 'all', 'one'].includes(parsed.repeatMode) ? parsed.repeatMode : 'off'
+      };
+    }
+  } catch (error) {
+    audioLogger.warn('Error loading playback mode from localStorage:', error);
+  }
+  return { shuffle: false, repeatMode: 'off' };
+};
+
+// Fisher-Yates shuffle of queue indices, with the given index pinned to the front
+// so turning shuffle on never skips away from the track that's playing
+const buildShuffleOrder = (length: number, firstIndex: number): number[] => {
+  const rest = Array.from({ length }, (_, i) => i).filter(i => i !== firstIndex);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstIndex >= 0 && firstIndex < length ? [firstIndex, ...rest] : rest;
+};
+
+const isSameNFT = (a: NFT, b: NFT) => a.contract === b.contract && a.tokenId === b.tokenId;
+
+// Crossfade volume ramps are stepped at this interval
+const VOLUME_RAMP_STEP_MS = 50;
+// Start preparing the next track this many seconds before the crossfade window opens
+const CROSSFADE_PRELOAD_LEAD_SECONDS = 20;
+
+interface CrossfadeOptions {
+  seconds: number;
+  preparedAudio?: HTMLAudioElement | null; // Buffered element from audioPreloader.preloadAudio
+}
+
+// Linearly move a media element's volume over `seconds`
+const rampVolume = (media: HTMLMediaElement, from: number, to: number, seconds: number): Promise<void> =>
+  new Promise(resolve => {
+    const steps = Math.max(Math.round((seconds * 1000) / VOLUME_RAMP_STEP_MS), 1);
+    let step = 0;
+    media.volume = from;
+    const intervalId = setInterval(() => {
+      step++;
+      media.volume = Math.min(Math.max(from + (to - from) * (step / steps), 0), 1);
+      if (step >= steps) {
+        clearInterval(intervalId);
+        resolve();
+      }
+    }, VOLUME_RAMP_STEP_MS);
+  });
+
+// Fade the outgoing track to silence, then stop it and put its volume back for next time
+const fadeOutAndStop = async (media: HTMLMediaElement, seconds: number) => {
+  const volume = media.volume;
+  await rampVolume(media, volume, 0, seconds);
+  media.pause();
+  media.volume = volume;
+  if (media instanceof HTMLVideoElement) {
+    // Card videos (DirectVideoPlayer) are muted previews unless they're the active track
+    media.muted = true;
+    media.currentTime = 0;
+  }
+};
+
+// Listening party followers re-check their drift from the host on this interval
+const PARTY_SYNC_INTERVAL_MS = 1000;
+// Beyond this much drift a follower jumps straight to the host's position...
+const PARTY_HARD_SEEK_SECONDS = 2;
+// ...while smaller drift is absorbed by nudging the playback rate
+const PARTY_DRIFT_TOLERANCE_SECONDS = 0.25;
+const PARTY_RATE_NUDGE = 0.05;
+
+// How often a playing item's position is written locally and (when syncing) to Firestore
+const LOCAL_POSITION_SAVE_INTERVAL = 5000;
+const REMOTE_POSITION_SAVE_INTERVAL = 30000;
+
+// Keep the saved position for a media element up to date while it plays.
+// Returns a stop function that flushes the latest position and detaches the listeners -
+// call it before the element is reset, since the async pause event would see currentTime = 0.
+const watchPlaybackPosition = (media: HTMLMediaElement, mediaKey: string, remoteFid: number | null) => {
+  let lastLocalSave = 0;
+  let lastRemoteSave = 0;
+  let hasRemotePosition = false;
+
+  const save = (force: boolean) => {
+    const now = Date.now();
+    if (force || now - lastLocalSave >= LOCAL_POSITION_SAVE_INTERVAL) {
+      lastLocalSave = now;
+      savePlaybackPosition(mediaKey, media.currentTime, media.duration);
+    }
+
+    if (!remoteFid || (!force && now - lastRemoteSave < REMOTE_POSITION_SAVE_INTERVAL)) return;
+    lastRemoteSave = now;
+    if (isResumablePosition(media.currentTime, media.duration)) {
+      hasRemotePosition = true;
+      savePlaybackPositionToFirestore(remoteFid, mediaKey, {
+        position: media.currentTime,
+        duration: media.duration,
+        updatedAt: now
+      });
+    } else if (hasRemotePosition) {
+      hasRemotePosition = false;
+      clearPlaybackPositionFromFirestore(remoteFid, mediaKey);
+    }
+  };
+
+  const handleTimeUpdate = () => save(false);
+  const handlePause = () => save(true);
+  const handleEnded = () => {
+    clearPlaybackPosition(mediaKey);
+    if (remoteFid && isLongFormDuration(media.duration)) {
+      clearPlaybackPositionFromFirestore(remoteFid, mediaKey);
+    }
+  };
+
+  media.addEventListener('timeupdate', handleTimeUpdate);
+  media.addEventListener('pause', handlePause);
+  media.addEventListener('ended', handleEnded);
+
+  return () => {
+    if (!media.ended) save(true);
+    media.removeEventListener('timeupdate', handleTimeUpdate);
+    media.removeEventListener('pause', handlePause);
+    media.removeEventListener('ended', handleEnded);
+  };
+};
+
 // Extend Window interface to include our custom property
 declare global {
   interface Window {
@@ -51,6 +202,33 @@ export interface UseAudioPlayerProps {
   fid?: number;
   setRecentlyPlayedNFTs?: React.Dispatch<React.SetStateAction<NFT[]>>;
   recentlyAddedNFT?: React.MutableRefObject<string | null>;
+  // External play queue (e.g. from QueueContext); takes precedence over the queue passed to handlePlayAudio
+  queue?: NFT[];
+  // Per-entry ids and the playing entry's position for `queue`, so an NFT queued twice (or played
+  // next while also further down) is navigated by entry rather than by its first copy
+  queueIds?: string[];
+  queueIndex?: number;
+  onQueueIndexChange?: (index: number) => void;
+  // Also sync resume positions to Firestore under the user doc (local storage is always used)
+  syncPlaybackPositions?: boolean;
+  // Blend into the next queued track over this many seconds (0 = off)
+  crossfadeSeconds?: number;
+  // EQ / loudness normalization; audio elements go through the Web Audio graph while enabled
+  audioProcessing?: {
+    enabled: boolean;
+    eqGains: number[];
+    normalizeLoudness: boolean;
+  };
+  // Host playback to follow while in someone else's listening party
+  partySync?: PartyFollowTarget | null;
+  // Called with the last track when playback runs off the end of the queue with repeat off
+  onQueueEnd?: (lastNFT: NFT) => void;
+}
+
+export interface ResumeOffer {
+  mediaKey: string;
+  position: number;
+  duration: number;
 }
 
 type UseAudioPlayerReturn = {
@@ -65,6 +243,18 @@ type UseAudioPlayerReturn = {
   handlePlayPrevious: () => void;
   handleSeek: (time: number) => void;
   audioRef: React.RefObject<HTMLAudioElement | null>;
+  // The element producing sound right now, which is a video's own element for embedded audio
+  activeMediaRef: React.RefObject<HTMLMediaElement | null>;
+  shuffle: boolean;
+  repeatMode: RepeatMode;
+  toggleShuffle: () => void;
+  cycleRepeatMode: () => void;
+  resumeOffer: ResumeOffer | null;
+  acceptResume: () => void;
+  dismissResume: () => void;
+  playbackRate: number;
+  setPlaybackRate: (rate: number) => void;
+  handleSkip: (seconds: number) => void;
 }
 
 type AudioPlayerHandles = {
@@ -75,7 +265,20 @@ type AudioPlayerHandles = {
   timeupdate: () => void;
 }
 
-export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNFT }: UseAudioPlayerProps = {}): UseAudioPlayerReturn => {
+export const useAudioPlayer = ({
+  fid = 1,
+  setRecentlyPlayedNFTs,
+  recentlyAddedNFT,
+  queue,
+  queueIds,
+  queueIndex,
+  onQueueIndexChange,
+  syncPlaybackPositions = false,
+  crossfadeSeconds = 0,
+  audioProcessing,
+  partySync = null,
+  onQueueEnd
+}: UseAudioPlayerProps = {}): UseAudioPlayerReturn => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentPlayingNFT, setCurrentPlayingNFT] = useState<NFT | null>(null);
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
@@ -83,7 +286,106 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
   const [audioDuration, setAudioDuration] = useState<number>(0);
   const [currentQueue, setCurrentQueue] = useState<NFT[]>([]);
   const [queueType, setQueueType] = useState<string>('default');
+  const [shuffle, setShuffle] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
+  // Shuffled order as queue entry ids, so inserting entries doesn't shift it
+  const [shuffleOrder, setShuffleOrder] = useState<string[]>([]);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Per-track ended listeners are created inside handlePlayAudio, so they call through a ref
+  // to always see the latest queue and modes
+  const handleTrackEndedRef = useRef<(media: HTMLMediaElement) => void>(() => {});
+  const hasLoadedModeRef = useRef(false);
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null);
+  // The element whose position is being saved, plus the function that stops watching it
+  const positionMediaRef = useRef<HTMLMediaElement | null>(null);
+  const stopPositionWatchRef = useRef<(() => void) | null>(null);
+  const positionMediaKeyRef = useRef<string | null>(null);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  // The element actually producing sound for the current track (audio, or a video with embedded audio).
+  // Listeners on an outgoing element check this so a crossfading track can't overwrite player state.
+  const activeMediaRef = useRef<HTMLMediaElement | null>(null);
+  const crossfadeStartedRef = useRef(false);
+  const preparedNextRef = useRef<{ key: string; audio: HTMLAudioElement | null } | null>(null);
+  // Read from handlePlayAudio without making it depend on every settings change
+  const audioProcessingRef = useRef(audioProcessing);
+  audioProcessingRef.current = audioProcessing;
+  const onQueueEndRef = useRef(onQueueEnd);
+  onQueueEndRef.current = onQueueEnd;
+  const partySyncRef = useRef(partySync);
+  partySyncRef.current = partySync;
+  const partyLoadingKeyRef = useRef<string | null>(null);
+  const onQueueIndexChangeRef = useRef(onQueueIndexChange);
+  onQueueIndexChangeRef.current = onQueueIndexChange;
+
+  const activeQueue = queue ?? currentQueue;
+  // Queues handed to handlePlayAudio have no entry ids, so their entries are told apart by position
+  const entryIds = useMemo(() => (
+    queue && queueIds && queueIds.length === queue.length
+      ? queueIds
+      : activeQueue.map((nft, i) => `${i}:${nft.contract}-${nft.tokenId}`)
+  ), [queue, queueIds, activeQueue]);
+
+  // The entry that's playing: the queue's own position when it points at the current NFT,
+  // otherwise the first entry for it
+  const currentQueueIndex = useMemo(() => {
+    if (!currentPlayingNFT) return -1;
+    if (queue && queueIndex !== undefined && activeQueue[queueIndex] && isSameNFT(activeQueue[queueIndex], currentPlayingNFT)) {
+      return queueIndex;
+    }
+    return activeQueue.findIndex(nft => isSameNFT(nft, currentPlayingNFT));
+  }, [queue, queueIndex, activeQueue, currentPlayingNFT]);
+
+  // Keep the Web Audio graph in step with the EQ / normalization settings
+  useEffect(() => {
+    if (!audioProcessing) return;
+    audioGraph.setEqGains(audioProcessing.eqGains);
+    audioGraph.setNormalizeLoudness(audioProcessing.normalizeLoudness);
+  }, [audioProcessing]);
+
+  // Load this user's saved shuffle/repeat preference
+  useEffect(() => {
+    const mode = loadPlaybackMode(fid);
+    setShuffle(mode.shuffle);
+    setRepeatMode(mode.repeatMode);
+    hasLoadedModeRef.current = true;
+  }, [fid]);
+
+  useEffect(() => {
+    if (!hasLoadedModeRef.current) return;
+    try {
+      localStorage.setItem(`${PLAYBACK_MODE_STORAGE_PREFIX}${fid}`, JSON.stringify({ shuffle, repeatMode }));
+    } catch (error) {
+      audioLogger.warn('Error saving playback mode to localStorage:', error);
+    }
+  }, [fid, shuffle, repeatMode]);
+
+  // Build the shuffled order when shuffle is switched on or the queue is replaced. Edits keep it
+  // stable so previous can walk back through it: played-next entries go straight after the
+  // current one, other new entries at the end, and removed ones drop out.
+  const queueSignature = entryIds.join('|');
+  useEffect(() => {
+    setShuffleOrder(previous => {
+      if (!shuffle) return [];
+
+      const queuedIds = new Set(entryIds);
+      const retained = previous.filter(id => queuedIds.has(id));
+      if (retained.length === 0) {
+        return buildShuffleOrder(entryIds.length, currentQueueIndex).map(i => entryIds[i]);
+      }
+
+      const knownIds = new Set(previous);
+      const playNextIds: string[] = [];
+      for (let i = currentQueueIndex + 1; i < entryIds.length && !knownIds.has(entryIds[i]); i++) {
+        playNextIds.push(entryIds[i]);
+      }
+      const appendedIds = entryIds.filter(id => !knownIds.has(id) && !playNextIds.includes(id));
+
+      const order = [...retained];
+      order.splice(order.indexOf(entryIds[currentQueueIndex]) + 1, 0, ...playNextIds);
+      return [...order, ...appendedIds];
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shuffle, queueSignature]);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -107,6 +409,7 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
     const handleEnded = () => {
       setIsPlaying(false);
       setAudioProgress(0);
+      handleTrackEndedRef.current(audio);
     };
 
     const handlePlay = () => setIsPlaying(true);
@@ -156,8 +459,82 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
     }
   }, [isPlaying]);
 
+  // Start saving the position of the element that's now playing, and offer to resume
+  // from a previously saved position (preferring a newer one from Firestore when syncing)
+  const startPositionTracking = useCallback((media: HTMLMediaElement, mediaKey: string) => {
+    if (!mediaKey) return;
+    const remoteFid = syncPlaybackPositions && fid > 0 ? fid : null;
+
+    positionMediaRef.current = media;
+    positionMediaKeyRef.current = mediaKey;
+    stopPositionWatchRef.current = watchPlaybackPosition(media, mediaKey, remoteFid);
+
+    const offer = (saved: { position: number; duration: number } | null) => {
+      if (!saved || positionMediaKeyRef.current !== mediaKey) return;
+      audioLogger.info(`Saved position found for ${mediaKey.substring(0, 12)}...: ${Math.round(saved.position)}s`);
+      setResumeOffer({ mediaKey, position: saved.position, duration: saved.duration });
+    };
+
+    const local = getPlaybackPosition(mediaKey);
+    if (!remoteFid) {
+      offer(local);
+      return;
+    }
+
+    getPlaybackPositionFromFirestore(remoteFid, mediaKey)
+      .then(remote => offer(remote ? mergePlaybackPosition(mediaKey, remote) : local))
+      .catch(() => offer(local));
+  }, [fid, syncPlaybackPositions]);
+
+  // Restore the speed remembered for this mediaKey onto the element that's now playing
+  const restorePlaybackRate = useCallback((media: HTMLMediaElement, mediaKey: string) => {
+    const rate = getPlaybackRate(mediaKey);
+    applyPlaybackRate(media, rate);
+    setPlaybackRateState(rate);
+  }, []);
+
+  const acceptResume = useCallback(() => {
+    const media = positionMediaRef.current;
+    if (media && resumeOffer && positionMediaKeyRef.current === resumeOffer.mediaKey) {
+      media.currentTime = resumeOffer.position;
+      setAudioProgress(resumeOffer.position);
+      audioLogger.info(`Resumed playback at ${Math.round(resumeOffer.position)}s`);
+    }
+    setResumeOffer(null);
+  }, [resumeOffer]);
+
+  const dismissResume = useCallback(() => {
+    setResumeOffer(null);
+  }, []);
+
+  // Flush the current position when the page is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      const media = positionMediaRef.current;
+      const mediaKey = positionMediaKeyRef.current;
+      if (media && mediaKey && !media.ended) {
+        savePlaybackPosition(mediaKey, media.currentTime, media.duration);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      stopPositionWatchRef.current?.();
+    };
+  }, []);
+
   // Define handlePlayAudio first, before it's used in other functions
-  const handlePlayAudio = useCallback(async (nft: NFT, context?: { queue?: NFT[], queueType?: string }) => {
+  const handlePlayAudio = useCallback(async (
+    nft: NFT,
+    context?: { queue?: NFT[], queueType?: string },
+    options?: { crossfade?: CrossfadeOptions }
+  ) => {
     // Add mobile optimization
     const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
     
@@ -185,8 +562,26 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
       return;
     }
 
-    // Stop current audio and video if playing
-    if (audioRef.current) {
+    // Save where we were in the outgoing track before it gets reset
+    stopPositionWatchRef.current?.();
+    stopPositionWatchRef.current = null;
+    setResumeOffer(null);
+    crossfadeStartedRef.current = false;
+    preparedNextRef.current = null;
+
+    const crossfade = options?.crossfade;
+    const outgoingMedia = activeMediaRef.current;
+    activeMediaRef.current = null;
+
+    // Stop current audio and video if playing - or let it fade out underneath the next track
+    if (crossfade && outgoingMedia && !outgoingMedia.paused) {
+      audioLogger.info(`Crossfading into ${nft.name} over ${crossfade.seconds.toFixed(1)}s`);
+      fadeOutAndStop(outgoingMedia, crossfade.seconds).catch(error => {
+        audioLogger.error('Error fading out previous track:', error);
+      });
+      setAudioProgress(0);
+      setAudioDuration(0);
+    } else if (audioRef.current) {
       audioLogger.info('Stopping current audio');
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
@@ -197,7 +592,7 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
     // Stop any currently playing videos
     const currentVideo = currentPlayingNFT ? 
       document.querySelector(`#video-${currentPlayingNFT.contract}-${currentPlayingNFT.tokenId}`) : null;
-    if (currentVideo instanceof HTMLVideoElement) {
+    if (currentVideo instanceof HTMLVideoElement && !(crossfade && currentVideo === outgoingMedia)) {
       currentVideo.pause();
       currentVideo.currentTime = 0;
     }
@@ -315,21 +710,25 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
       const videoElement = document.querySelector(`#video-${nft.contract}-${nft.tokenId}`) as HTMLVideoElement;
       
       if (videoElement) {
-        // Unmute the video to hear its audio
+        // Unmute the video to hear its audio (from silence when crossfading in)
+        const targetVolume = videoElement.volume || 1;
+        if (crossfade) videoElement.volume = 0;
         videoElement.muted = false;
+        activeMediaRef.current = videoElement;
         
         // Set up listeners to track playback state and progress
         // Create a closure variable to track if this particular NFT play has been counted
         let playTracked = false;
         const mediaKey = getMediaKey(nft);
-        const nftKey = `${nft.contract}-${nft.tokenId}`;
+        const measureListen = createListenMeter();
         
         videoElement.addEventListener('timeupdate', () => {
-          setAudioProgress(videoElement.currentTime);
+          if (activeMediaRef.current === videoElement) setAudioProgress(videoElement.currentTime);
+          const listenedSeconds = measureListen(videoElement.currentTime);
           
-          // Check for 25% threshold without using component state
-          // This uses a closure variable that's specific to this video instance
-          if (!playTracked && videoElement.duration > 0 && videoElement.currentTime >= (videoElement.duration * 0.25)) {
+          // Check for 25% threshold without using component state - counted from time actually
+          // listened, so seeking or resuming past the mark doesn't count as a play
+          if (!playTracked && videoElement.duration > 0 && listenedSeconds >= requiredListenSeconds(videoElement.duration)) {
             playTracked = true; // Mark as tracked to prevent duplicate counting
             
             // Only log mediaKey if available
@@ -340,27 +739,42 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
             }
             
             // Track the play in Firebase with threshold flag
-            trackNFTPlay(nft, fid, { thresholdReached: true }).catch(error => {
+            trackNFTPlay(nft, fid, { thresholdReached: true, durationSeconds: videoElement.duration, listenedSeconds }).catch(error => {
               audioLogger.error('Error tracking Video NFT play after 25% threshold:', error);
             });
           }
         });
         
         videoElement.addEventListener('loadedmetadata', () => {
-          setAudioDuration(videoElement.duration);
+          if (activeMediaRef.current === videoElement) setAudioDuration(videoElement.duration);
         });
+        if (videoElement.readyState >= 1) {
+          setAudioDuration(videoElement.duration);
+        }
         
-        videoElement.addEventListener('play', () => setIsPlaying(true));
-        videoElement.addEventListener('pause', () => setIsPlaying(false));
+        videoElement.addEventListener('play', () => {
+          if (activeMediaRef.current === videoElement) setIsPlaying(true);
+        });
+        videoElement.addEventListener('pause', () => {
+          if (activeMediaRef.current === videoElement) setIsPlaying(false);
+        });
         videoElement.addEventListener('ended', () => {
+          if (activeMediaRef.current !== videoElement) return;
           setIsPlaying(false);
           setAudioProgress(0);
+          handleTrackEndedRef.current(videoElement);
         });
         
+        startPositionTracking(videoElement, mediaKey);
+        restorePlaybackRate(videoElement, mediaKey);
+
         // Try to play the video
         try {
           await videoElement.play();
           setIsPlaying(true);
+          if (crossfade) {
+            rampVolume(videoElement, 0, targetVolume, crossfade.seconds);
+          }
         } catch (error) {
           audioLogger.error("Error playing video with audio:", error);
           setIsPlaying(false);
@@ -373,8 +787,21 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
     
     // EXISTING CODE for audio-only or separate audio+image NFTs
     if (audioRef.current) {
-      // Create a new audio element for this NFT
-      const audio = new Audio(processMediaUrl(audioUrl));
+      // Create a new audio element for this NFT, or adopt the one buffered ahead for a crossfade.
+      // Elements routed through the Web Audio graph have to be CORS-enabled before src is set.
+      const useAudioGraph = Boolean(audioProcessingRef.current?.enabled);
+      const preparedAudio = crossfade?.preparedAudio;
+      let audio: HTMLAudioElement;
+      if (preparedAudio && (!useAudioGraph || preparedAudio.crossOrigin === 'anonymous')) {
+        audio = preparedAudio;
+      } else {
+        audio = new Audio();
+        if (useAudioGraph) audio.crossOrigin = 'anonymous';
+        audio.src = processMediaUrl(audioUrl);
+      }
+      if (useAudioGraph) {
+        audioGraph.attach(audio, nft);
+      }
       
       // Set up event listeners before loading
       audio.addEventListener('loadedmetadata', () => {
@@ -382,20 +809,25 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
           duration: audio.duration,
           currentTime: audio.currentTime
         });
-        setAudioDuration(audio.duration);
+        if (activeMediaRef.current === audio) setAudioDuration(audio.duration);
       });
+      if (audio.readyState >= 1) {
+        // A preloaded element already has its metadata
+        setAudioDuration(audio.duration);
+      }
 
       // Create a closure variable to track if this particular NFT play has been counted
       let playTracked = false;
       const mediaKey = getMediaKey(nft);
-      const nftKey = `${nft.contract}-${nft.tokenId}`;
+      const measureListen = createListenMeter();
       
       audio.addEventListener('timeupdate', () => {
-        setAudioProgress(audio.currentTime);
+        if (activeMediaRef.current === audio) setAudioProgress(audio.currentTime);
+        const listenedSeconds = measureListen(audio.currentTime);
         
-        // Check for 25% threshold without using component state
-        // This uses a closure variable that's specific to this audio instance
-        if (!playTracked && audio.duration > 0 && audio.currentTime >= (audio.duration * 0.25)) {
+        // Check for 25% threshold without using component state - counted from time actually
+        // listened, so seeking or resuming past the mark doesn't count as a play
+        if (!playTracked && audio.duration > 0 && listenedSeconds >= requiredListenSeconds(audio.duration)) {
           playTracked = true; // Mark as tracked to prevent duplicate counting
           
           // Only log mediaKey if available
@@ -406,21 +838,30 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
           }
           
           // Track the play in Firebase with threshold flag
-          trackNFTPlay(nft, fid, { thresholdReached: true }).catch(error => {
+          trackNFTPlay(nft, fid, { thresholdReached: true, durationSeconds: audio.duration, listenedSeconds }).catch(error => {
             audioLogger.error('Error tracking NFT play after 25% threshold:', error);
           });
         }
       });
 
-      audio.addEventListener('play', () => setIsPlaying(true));
-      audio.addEventListener('pause', () => setIsPlaying(false));
+      audio.addEventListener('play', () => {
+        if (activeMediaRef.current === audio) setIsPlaying(true);
+      });
+      audio.addEventListener('pause', () => {
+        if (activeMediaRef.current === audio) setIsPlaying(false);
+      });
       audio.addEventListener('ended', () => {
+        if (activeMediaRef.current !== audio) return;
         setIsPlaying(false);
         setAudioProgress(0);
+        handleTrackEndedRef.current(audio);
       });
 
       // Replace the current audio reference
       audioRef.current = audio;
+      activeMediaRef.current = audio;
+      startPositionTracking(audio, mediaKey);
+      restorePlaybackRate(audio, mediaKey);
 
       // When setting up the audio element
       if (isMobile) {
@@ -441,6 +882,10 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
         }
       }
 
+      // Crossfading tracks start silent and ramp up once playing
+      const targetVolume = audio.volume;
+      if (crossfade) audio.volume = 0;
+
       try {
         if (isMobile) {
           // Improved mobile audio handling
@@ -472,6 +917,10 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
           await audio.play();
           setIsPlaying(true);
         }
+
+        if (crossfade) {
+          rampVolume(audio, 0, targetVolume, crossfade.seconds);
+        }
         
         // Start the new video
         const newVideo = document.querySelector(`#video-${nft.contract}-${nft.tokenId}`);
@@ -536,91 +985,270 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
         videoElement.load();
       }
     }
-  }, [currentlyPlaying, handlePlayPause, fid, setRecentlyPlayedNFTs]);
+  }, [currentlyPlaying, handlePlayPause, fid, setRecentlyPlayedNFTs, startPositionTracking, restorePlaybackRate]);
   
-  // Now define handlePlayNext and handlePlayPrevious which use handlePlayAudio
-  const handlePlayNext = useCallback(async () => {
-    if (!currentPlayingNFT) return;
-    
-    // Use the current queue that was set when the NFT was played
-    // instead of relying on window.nftList
-    if (currentQueue.length === 0) {
-      audioLogger.debug('No queue available for next track');
+  // Resolve the queue entry `direction` steps away from the playing entry, following the
+  // shuffled order when shuffle is on. Wraps around unless `wrap` is false.
+  const getAdjacentEntry = useCallback((direction: 1 | -1, wrap: boolean): { index: number; nft: NFT } | null => {
+    if (!currentPlayingNFT || activeQueue.length === 0) return null;
+    if (currentQueueIndex === -1) {
+      audioLogger.debug('Current NFT not found in queue');
+      return null;
+    }
+
+    const indexById = new Map(entryIds.map((id, i) => [id, i]));
+    const order = shuffle && shuffleOrder.length === activeQueue.length
+      ? shuffleOrder.map(id => indexById.get(id) ?? -1)
+      : activeQueue.map((_, i) => i);
+
+    const position = order.indexOf(currentQueueIndex);
+    let nextPosition = position + direction;
+    if (nextPosition < 0 || nextPosition >= order.length) {
+      if (!wrap) return null;
+      nextPosition = (nextPosition + order.length) % order.length;
+    }
+
+    const index = order[nextPosition];
+    return activeQueue[index] ? { index, nft: activeQueue[index] } : null;
+  }, [currentPlayingNFT, activeQueue, currentQueueIndex, entryIds, shuffle, shuffleOrder]);
+
+  // Move the queue onto an entry and play it. Another entry for the NFT that's already playing
+  // restarts it, since handlePlayAudio would treat the same NFT as a pause toggle.
+  const playQueueEntry = useCallback(async (entry: { index: number; nft: NFT }, options?: { crossfade?: CrossfadeOptions }) => {
+    onQueueIndexChangeRef.current?.(entry.index);
+
+    if (currentPlayingNFT && isSameNFT(entry.nft, currentPlayingNFT)) {
+      const media = activeMediaRef.current || audioRef.current;
+      if (!media) return;
+      media.currentTime = 0;
+      await media.play().catch(error => {
+        audioLogger.error('Error restarting track:', error);
+      });
       return;
     }
 
-    audioLogger.info('Next button pressed. Current queue length:', currentQueue.length);
-    audioLogger.info('Current queue type:', queueType);
-    
-    // Find current index in the queue
-    const currentIndex = currentQueue.findIndex(
-      (nft: NFT) => nft.contract === currentPlayingNFT.contract && nft.tokenId === currentPlayingNFT.tokenId
-    );
+    await handlePlayAudio(entry.nft, queue ? undefined : { queue: currentQueue, queueType }, options);
+  }, [currentPlayingNFT, handlePlayAudio, queue, currentQueue, queueType]);
 
-    audioLogger.info('Current index in queue:', currentIndex);
+  const handlePlayNext = useCallback(async () => {
+    if (!currentPlayingNFT) return;
 
-    if (currentIndex === -1) {
-      audioLogger.debug('Current NFT not found in queue');
+    if (activeQueue.length === 0) {
+      audioLogger.debug('No queue available for next track');
       return;
     }
 
-    // Get next NFT in queue with wraparound
-    const nextIndex = (currentIndex + 1) % currentQueue.length;
-    const nextNFT = currentQueue[nextIndex];
+    audioLogger.info('Next button pressed. Queue length:', activeQueue.length, 'type:', queueType, 'shuffle:', shuffle);
 
-    audioLogger.info('Playing next NFT:', nextNFT.name, 'at index:', nextIndex);
-    
-    if (nextNFT) {
-      // Pass the same queue context to maintain consistency
-      await handlePlayAudio(nextNFT, { queue: currentQueue, queueType });
+    // Manual skips always wrap around, regardless of repeat mode
+    const next = getAdjacentEntry(1, true);
+    if (next) {
+      audioLogger.info('Playing next NFT:', next.nft.name);
+      await playQueueEntry(next);
     }
-  }, [currentPlayingNFT, handlePlayAudio, currentQueue, queueType]);
+  }, [currentPlayingNFT, activeQueue, queueType, shuffle, getAdjacentEntry, playQueueEntry]);
 
   const handlePlayPrevious = useCallback(async () => {
     if (!currentPlayingNFT) return;
-    
-    // Get the current queue from window.nftList which is set by the Demo component
-    // based on the current page/category
-    const currentPageQueue = window.nftList || [];
-    
-    if (!currentPageQueue.length) {
+
+    if (activeQueue.length === 0) {
       audioLogger.debug('No queue available for previous track');
       return;
     }
 
-    audioLogger.info('Previous button pressed. Current queue length:', currentPageQueue.length);
-    
-    // Find current index in the current page queue
-    const currentIndex = currentPageQueue.findIndex(
-      (nft: NFT) => nft.contract === currentPlayingNFT.contract && nft.tokenId === currentPlayingNFT.tokenId
-    );
+    audioLogger.info('Previous button pressed. Queue length:', activeQueue.length, 'shuffle:', shuffle);
 
-    audioLogger.info('Current index in queue:', currentIndex);
+    // In shuffle mode this walks back through the same shuffled order
+    const previous = getAdjacentEntry(-1, true);
+    if (previous) {
+      audioLogger.info('Playing previous NFT:', previous.nft.name);
+      await playQueueEntry(previous);
+    }
+  }, [currentPlayingNFT, activeQueue, shuffle, getAdjacentEntry, playQueueEntry]);
 
-    if (currentIndex === -1) {
-      audioLogger.debug('Current NFT not found in queue');
+  // What happens when a track finishes: repeat-one replays it, repeat-all wraps to the start
+  // of the queue, and with repeat off playback stops after the last track
+  handleTrackEndedRef.current = (media: HTMLMediaElement) => {
+    // A track that was crossfaded out is no longer in charge of what plays next
+    if (activeMediaRef.current && media !== activeMediaRef.current) return;
+    // In someone else's listening party the host decides what plays next
+    if (partySyncRef.current) return;
+
+    const restart = () => {
+      media.currentTime = 0;
+      media.play().catch(error => {
+        audioLogger.error('Error restarting track:', error);
+      });
+    };
+
+    if (repeatMode === 'one') {
+      restart();
       return;
     }
 
-    // Get previous NFT in queue with wraparound
-    const prevIndex = (currentIndex - 1 + currentPageQueue.length) % currentPageQueue.length;
-    const prevNFT = currentPageQueue[prevIndex];
+    const next = getAdjacentEntry(1, repeatMode === 'all');
+    if (!next) {
+      audioLogger.info('Reached the end of the queue with repeat off');
+      if (currentPlayingNFT) onQueueEndRef.current?.(currentPlayingNFT);
+      return;
+    }
 
-    audioLogger.info('Playing previous NFT:', prevNFT.name, 'at index:', prevIndex);
-    
-    if (prevNFT) {
-      // Update our internal queue to match the page queue
-      setCurrentQueue(currentPageQueue);
-      await handlePlayAudio(prevNFT);
+    // A single-track queue on repeat-all wraps back onto itself; handlePlayAudio would treat that as a pause toggle
+    if (currentPlayingNFT && isSameNFT(next.nft, currentPlayingNFT)) {
+      onQueueIndexChangeRef.current?.(next.index);
+      restart();
+      return;
+    }
+
+    audioLogger.info('Track ended, advancing to:', next.nft.name);
+    playQueueEntry(next).catch(error => {
+      audioLogger.error('Error auto-advancing to next track:', error);
+    });
+  };
+
+  // Crossfade: buffer the next queued track shortly before the end of this one, then start it
+  // underneath the current track once the fade window opens
+  useEffect(() => {
+    if (crossfadeSeconds <= 0 || !isPlaying || repeatMode === 'one' || !currentPlayingNFT || partySync) return;
+    if (!audioDuration || !Number.isFinite(audioDuration)) return;
+
+    const remaining = audioDuration - audioProgress;
+    if (remaining > crossfadeSeconds + CROSSFADE_PRELOAD_LEAD_SECONDS) return;
+
+    const next = getAdjacentEntry(1, repeatMode === 'all');
+    if (!next || isSameNFT(next.nft, currentPlayingNFT)) return;
+    const nextNFT = next.nft;
+    const nextKey = `${nextNFT.contract}-${nextNFT.tokenId}`;
+
+    if (preparedNextRef.current?.key !== nextKey) {
+      preparedNextRef.current = { key: nextKey, audio: null };
+      // Videos with embedded audio play through their own element, so only audio needs buffering
+      const hasEmbeddedVideoAudio = nextNFT.isVideo && nextNFT.metadata?.animation_url?.match(/\.(mp4|webm|mov)$/i) &&
+        document.querySelector(`#video-${nextNFT.contract}-${nextNFT.tokenId}`);
+      if (!hasEmbeddedVideoAudio) {
+        preloadAudio(nextNFT, 'high', Boolean(audioProcessingRef.current?.enabled)).then(audio => {
+          if (preparedNextRef.current?.key === nextKey) {
+            preparedNextRef.current.audio = audio;
+          }
+        });
+      }
+    }
+
+    if (remaining <= crossfadeSeconds && !crossfadeStartedRef.current) {
+      crossfadeStartedRef.current = true;
+      playQueueEntry(next, {
+        crossfade: { seconds: Math.max(remaining, 0.5), preparedAudio: preparedNextRef.current?.audio }
+      }).catch(error => {
+        audioLogger.error('Error starting crossfade:', error);
+      });
     }
-  }, [currentPlayingNFT, handlePlayAudio]);
+  }, [crossfadeSeconds, isPlaying, repeatMode, currentPlayingNFT, audioDuration, audioProgress, getAdjacentEntry, playQueueEntry, partySync]);
+
+  // Listening party: follow the host's track, play state and position. Large drift is fixed
+  // with a seek; small drift by briefly speeding up or slowing down so playback stays smooth.
+  useEffect(() => {
+    if (!partySync?.track) return;
+    const target = partySync;
+    const targetKey = `${target.track!.contract}-${target.track!.tokenId}`;
+
+    const sync = () => {
+      if (currentlyPlaying !== targetKey) {
+        if (partyLoadingKeyRef.current === targetKey) return;
+        partyLoadingKeyRef.current = targetKey;
+        audioLogger.info(`Listening party: switching to ${target.track!.name}`);
+        handlePlayAudio(playlistTrackToNFT(target.track!)).catch(error => {
+          audioLogger.error('Error following listening party track:', error);
+        }).finally(() => {
+          partyLoadingKeyRef.current = null;
+        });
+        return;
+      }
+
+      const media = activeMediaRef.current;
+      if (!media || media.readyState < 1) return;
+
+      const expected = target.isPlaying
+        ? target.position + ((Date.now() - target.receivedAt) / 1000) * target.playbackRate
+        : target.position;
+      const drift = media.currentTime - expected;
+
+      if (!target.isPlaying) {
+        if (!media.paused) media.pause();
+        if (Math.abs(drift) > PARTY_HARD_SEEK_SECONDS) media.currentTime = expected;
+        return;
+      }
+
+      if (Math.abs(drift) > PARTY_HARD_SEEK_SECONDS) {
+        media.currentTime = expected;
+        applyPlaybackRate(media, target.playbackRate);
+      } else if (Math.abs(drift) > PARTY_DRIFT_TOLERANCE_SECONDS) {
+        applyPlaybackRate(media, target.playbackRate * (drift > 0 ? 1 - PARTY_RATE_NUDGE : 1 + PARTY_RATE_NUDGE));
+      } else if (media.playbackRate !== target.playbackRate) {
+        applyPlaybackRate(media, target.playbackRate);
+      }
+
+      if (media.paused) {
+        media.play().catch(error => {
+          // Usually autoplay policy - the listener has to tap play once
+          audioLogger.warn('Listening party could not resume playback:', error);
+        });
+      }
+    };
+
+    sync();
+    const intervalId = setInterval(sync, PARTY_SYNC_INTERVAL_MS);
+    return () => {
+      clearInterval(intervalId);
+      // Drop any drift nudge - the next sync re-applies one if it's still needed
+      if (activeMediaRef.current) applyPlaybackRate(activeMediaRef.current, playbackRate);
+    };
+  }, [partySync, currentlyPlaying, handlePlayAudio, playbackRate]);
+
+  const toggleShuffle = useCallback(() => {
+    setShuffle(prev => !prev);
+  }, []);
+
+  const cycleRepeatMode = useCallback(() => {
+    setRepeatMode(prev => (prev === 'off' ? 'all' : prev === 'all' ? 'one' : 'off'));
+  }, []);
 
   const handleSeek = useCallback((time: number) => {
-    if (!audioRef.current) return;
-    audioRef.current.currentTime = time;
+    const media = activeMediaRef.current || audioRef.current;
+    if (!media) return;
+    media.currentTime = time;
+    setAudioProgress(time);
+  }, []);
+
+  // Jump forwards or backwards by a number of seconds within the current track
+  const handleSkip = useCallback((seconds: number) => {
+    const media = activeMediaRef.current || audioRef.current;
+    if (!media) return;
+    const limit = Number.isFinite(media.duration) ? media.duration : Infinity;
+    const time = Math.min(Math.max(media.currentTime + seconds, 0), limit);
+    media.currentTime = time;
     setAudioProgress(time);
   }, []);
 
+  // Change speed for the current track (and its synced video) and remember it for this mediaKey
+  const setPlaybackRate = useCallback((rate: number) => {
+    const nextRate = clampPlaybackRate(rate);
+    const media = positionMediaRef.current || audioRef.current;
+    if (media) {
+      applyPlaybackRate(media, nextRate);
+    }
+
+    if (currentPlayingNFT) {
+      const video = document.querySelector(`#video-${currentPlayingNFT.contract}-${currentPlayingNFT.tokenId}`);
+      if (video instanceof HTMLVideoElement && video !== media) {
+        applyPlaybackRate(video, nextRate);
+      }
+      savePlaybackRate(currentPlayingNFT.mediaKey || getMediaKey(currentPlayingNFT), nextRate);
+    }
+
+    setPlaybackRateState(nextRate);
+    audioLogger.info(`Playback rate set to ${nextRate}x`);
+  }, [currentPlayingNFT]);
+
   return {
     isPlaying,
     currentPlayingNFT,
@@ -632,6 +1260,17 @@ export const useAudioPlayer = ({ fid = 1, setRecentlyPlayedNFTs, recentlyAddedNF
     handlePlayNext,
     handlePlayPrevious,
     handleSeek,
-    audioRef
+    audioRef,
+    activeMediaRef,
+    shuffle,
+    repeatMode,
+    toggleShuffle,
+    cycleRepeatMode,
+    resumeOffer,
+    acceptResume,
+    dismissResume,
+    playbackRate,
+    setPlaybackRate,
+    handleSkip
   };
 }
\ No newline at end of file
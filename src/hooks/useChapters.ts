@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { NFT, Chapter } from '../types/user';
+import { loadChaptersFromMetadata, parseChapterList } from '../lib/chapters';
+import { getOwnerChapters, saveOwnerChapters } from '../lib/firebase/chapters';
+import { getMediaKey } from '../utils/media';
+
+/**
+ * Hook resolving chapter markers for an NFT.
+ * Metadata chapters win; otherwise falls back to the list supplied by the owner.
+ */
+export const useChapters = (nft: NFT | null) => {
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [source, setSource] = useState<'metadata' | 'owner' | null>(null);
+  const mediaKey = nft ? (nft.mediaKey || getMediaKey(nft)) : '';
+
+  useEffect(() => {
+    setChapters([]);
+    setSource(null);
+    if (!nft) return;
+
+    let cancelled = false;
+
+    const load = async (): Promise<[Chapter[], 'metadata' | 'owner' | null]> => {
+      const fromMetadata = await loadChaptersFromMetadata(nft);
+      if (fromMetadata.length > 0) return [fromMetadata, 'metadata'];
+
+      const fromOwner = await getOwnerChapters(nft);
+      return fromOwner?.length ? [fromOwner, 'owner'] : [[], null];
+    };
+
+    load().then(([loaded, loadedSource]) => {
+      if (cancelled) return;
+      setChapters(loaded);
+      setSource(loadedSource);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // Keyed on mediaKey so re-renders with a new NFT object for the same content don't refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mediaKey]);
+
+  // Save a "0:00 Intro" list typed by the owner; an empty list removes their chapters
+  const saveChapterList = useCallback(async (text: string, fid: number) => {
+    if (!nft) throw new Error('Nothing is playing');
+
+    const parsed = parseChapterList(text);
+    if (text.trim() && parsed.length === 0) {
+      throw new Error('No chapters found - use one "0:00 Title" per line');
+    }
+
+    await saveOwnerChapters(nft, fid, parsed);
+    setChapters(parsed);
+    setSource(parsed.length > 0 ? 'owner' : null);
+  }, [nft]);
+
+  return { chapters, source, saveChapterList };
+};
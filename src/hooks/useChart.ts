@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import type { Chart, ChartWindow } from '../types/user';
+import { subscribeToChart } from '../lib/firebase/charts';
+
+/**
+ * Hook exposing one chart window with real-time updates as it's re-synced
+ */
+export const useChart = (chartWindow: ChartWindow) => {
+  const [chart, setChart] = useState<Chart | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = subscribeToChart(chartWindow, (updated) => {
+      setChart(updated);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [chartWindow]);
+
+  return { chart, isLoading };
+};
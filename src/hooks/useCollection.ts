@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import type { NFT, CollectionInfo, CollectionStats, FarcasterUser } from '../types/user';
+import {
+  fetchCollectionInfoFromAlchemy,
+  fetchCollectionNFTsFromAlchemy,
+  fetchCollectionOwnersFromAlchemy
+} from '../lib/alchemy';
+import { getCollectionStats, getKnownCollectionHolders } from '../lib/firebase/collectionStats';
+import { logger } from '../utils/logger';
+
+const collectionLogger = logger.getModuleLogger('collection');
+
+const EMPTY_STATS: CollectionStats = { playCount: 0, likeCount: 0, trackPlays: {} };
+
+/**
+ * Hook loading a collection page: contract metadata and media NFTs from Alchemy,
+ * play/like totals from Firestore, and the Podplayr users known to hold it
+ */
+export const useCollection = (contract: string, network: 'ethereum' | 'base') => {
+  const [info, setInfo] = useState<CollectionInfo | null>(null);
+  const [nfts, setNFTs] = useState<NFT[]>([]);
+  const [stats, setStats] = useState<CollectionStats>(EMPTY_STATS);
+  const [holders, setHolders] = useState<FarcasterUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setInfo(null);
+    setNFTs([]);
+    setStats(EMPTY_STATS);
+    setHolders([]);
+
+    const load = async () => {
+      try {
+        const [collectionInfo, collectionNFTs, collectionStats] = await Promise.all([
+          fetchCollectionInfoFromAlchemy(contract, network),
+          fetchCollectionNFTsFromAlchemy(contract, network),
+          getCollectionStats(contract)
+        ]);
+        if (cancelled) return;
+        setInfo(collectionInfo);
+        setNFTs(collectionNFTs.map(nft => ({ ...nft, collection: { name: collectionInfo.name, image: collectionInfo.image } })));
+        setStats(collectionStats);
+      } catch (error) {
+        collectionLogger.error('Error loading collection:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+
+      // Holders are slower to resolve and secondary, so they fill in after the track list
+      const owners = await fetchCollectionOwnersFromAlchemy(contract, network);
+      const knownHolders = await getKnownCollectionHolders(owners);
+      if (!cancelled) setHolders(knownHolders);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, network]);
+
+  return { info, nfts, stats, holders, isLoading };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { PlayEvent } from '../types/user';
+import { getUserPlayEvents } from '../lib/firebase/listeningStats';
+import { computeListeningStats, getYearRange } from '../lib/listeningStats';
+
+export type StatsPeriod = 'year' | 'allTime';
+
+/**
+ * Hook loading a user's play history once and deriving the stats dashboard for a period
+ */
+export const useListeningStats = (userFid: number | undefined, period: StatsPeriod) => {
+  const [events, setEvents] = useState<PlayEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userFid) {
+      setEvents([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getUserPlayEvents(userFid).then(loaded => {
+      if (cancelled) return;
+      setEvents(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userFid]);
+
+  const stats = useMemo(() => {
+    const now = Date.now();
+    const { since, until } = period === 'year' ? getYearRange(new Date(now).getFullYear(), now) : { since: 0, until: now };
+    return computeListeningStats(events, since, until);
+  }, [events, period]);
+
+  return { stats, isLoading };
+};
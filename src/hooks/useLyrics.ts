@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { NFT, Lyrics } from '../types/user';
+import { loadLyricsFromMetadata, parseLyrics, MAX_LYRICS_LENGTH } from '../lib/lyrics';
+import { getUploadedLyrics, saveUploadedLyrics, deleteUploadedLyrics } from '../lib/firebase/lyrics';
+import { getMediaKey } from '../utils/media';
+
+/**
+ * Hook resolving time-synced lyrics/transcripts for an NFT.
+ * Metadata wins when present; otherwise falls back to lyrics uploaded by the owner.
+ */
+export const useLyrics = (nft: NFT | null) => {
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const mediaKey = nft ? (nft.mediaKey || getMediaKey(nft)) : '';
+
+  useEffect(() => {
+    if (!nft) {
+      setLyrics(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setLyrics(null);
+
+    const load = async () => {
+      const fromMetadata = await loadLyricsFromMetadata(nft);
+      if (fromMetadata) return fromMetadata;
+
+      const uploaded = await getUploadedLyrics(nft);
+      return uploaded ? parseLyrics(uploaded.text, 'upload') : null;
+    };
+
+    load().then(result => {
+      if (cancelled) return;
+      setLyrics(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // Keyed on mediaKey so re-renders with a new NFT object for the same content don't refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mediaKey]);
+
+  // Validate and store an LRC/VTT file for this NFT; throws with a readable message on bad input
+  const uploadLyrics = useCallback(async (text: string, fid: number) => {
+    if (!nft) throw new Error('Nothing is playing');
+    if (text.length > MAX_LYRICS_LENGTH) throw new Error('That file is too large to be lyrics');
+
+    const parsed = parseLyrics(text, 'upload');
+    if (!parsed) throw new Error('No timed lines found - upload an .lrc or .vtt file');
+
+    await saveUploadedLyrics(nft, fid, text);
+    setLyrics(parsed);
+  }, [nft]);
+
+  const removeUploadedLyrics = useCallback(async (fid: number) => {
+    if (!nft) return;
+    await deleteUploadedLyrics(nft, fid);
+    setLyrics(null);
+  }, [nft]);
+
+  return { lyrics, isLoading, uploadLyrics, removeUploadedLyrics };
+};
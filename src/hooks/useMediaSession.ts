@@ -0,0 +1,138 @@
+import { useEffect, useRef } from 'react';
+import type { NFT } from '../types/user';
+import { processMediaUrl } from '../utils/media';
+import { logger } from '../utils/logger';
+
+const mediaSessionLogger = logger.getModuleLogger('mediaSession');
+
+// Step used for the lock-screen / headset skip buttons
+const DEFAULT_SKIP_SECONDS = 10;
+
+interface UseMediaSessionProps {
+  nft: NFT | null;
+  isPlaying: boolean;
+  progress: number;
+  duration: number;
+  playbackRate?: number;
+  onPlayPause: () => void;
+  onNext?: () => void;
+  onPrevious?: () => void;
+  onSeek: (time: number) => void;
+}
+
+const isMediaSessionSupported = () =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+// Build the artwork list for the OS media controls from the NFT's image
+const getArtwork = (nft: NFT): MediaImage[] => {
+  const image = nft.image || nft.metadata?.image || nft.metadata?.image_url;
+  if (!image) return [];
+  const src = processMediaUrl(image);
+  return [96, 192, 512].map(size => ({ src, sizes: `${size}x${size}` }));
+};
+
+// Bridges the player to the Media Session API so lock screens, notifications and
+// hardware/headset buttons show the current NFT and can control playback
+export const useMediaSession = ({
+  nft,
+  isPlaying,
+  progress,
+  duration,
+  playbackRate = 1,
+  onPlayPause,
+  onNext,
+  onPrevious,
+  onSeek
+}: UseMediaSessionProps) => {
+  // Handlers are registered once; refs keep them pointed at the latest callbacks and state
+  const handlersRef = useRef({ isPlaying, progress, duration, onPlayPause, onNext, onPrevious, onSeek });
+  handlersRef.current = { isPlaying, progress, duration, onPlayPause, onNext, onPrevious, onSeek };
+
+  // Metadata for the current NFT
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    if (!nft) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    try {
+      navigator.mediaSession.metadata = new MediaMetadata({
+        title: nft.name || 'Untitled',
+        artist: nft.collection?.name || '',
+        album: 'PODPlayr',
+        artwork: getArtwork(nft)
+      });
+    } catch (error) {
+      mediaSessionLogger.warn('Error setting media session metadata:', error);
+    }
+  }, [nft]);
+
+  // Action handlers
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    const seekTo = (time: number) => {
+      const { duration: total, onSeek: seek } = handlersRef.current;
+      seek(Math.max(0, total ? Math.min(time, total) : time));
+    };
+
+    const actions: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => { if (!handlersRef.current.isPlaying) handlersRef.current.onPlayPause(); }],
+      ['pause', () => { if (handlersRef.current.isPlaying) handlersRef.current.onPlayPause(); }],
+      ['nexttrack', () => handlersRef.current.onNext?.()],
+      ['previoustrack', () => handlersRef.current.onPrevious?.()],
+      ['seekto', (details) => {
+        if (typeof details.seekTime === 'number') seekTo(details.seekTime);
+      }],
+      ['seekbackward', (details) => {
+        seekTo(handlersRef.current.progress - (details.seekOffset || DEFAULT_SKIP_SECONDS));
+      }],
+      ['seekforward', (details) => {
+        seekTo(handlersRef.current.progress + (details.seekOffset || DEFAULT_SKIP_SECONDS));
+      }]
+    ];
+
+    actions.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Older browsers throw for actions they don't support
+        mediaSessionLogger.debug(`Media session action "${action}" not supported`);
+      }
+    });
+
+    return () => {
+      actions.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Ignore - unsupported actions were never registered
+        }
+      });
+    };
+  }, []);
+
+  // Playback state
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+    navigator.mediaSession.playbackState = nft ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [nft, isPlaying]);
+
+  // Position state for the lock-screen scrubber
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !('setPositionState' in navigator.mediaSession)) return;
+    if (!nft || !duration || !Number.isFinite(duration)) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        position: Math.min(Math.max(progress, 0), duration),
+        playbackRate
+      });
+    } catch (error) {
+      mediaSessionLogger.debug('Error updating media session position state:', error);
+    }
+  }, [nft, progress, duration, playbackRate]);
+};
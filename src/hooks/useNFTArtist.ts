@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getArtistForTrack } from '../lib/firebase/artists';
+import { getNFTCreator } from '../lib/creators';
+import type { NFT, Artist } from '../types/user';
+import { getMediaKey } from '../utils/media';
+
+// The artist page a track belongs to, plus the metadata's creator name for tracks
+// the artist sync hasn't attributed yet
+export function useNFTArtist(nft: NFT | null) {
+  const [artist, setArtist] = useState<Artist | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadArtist = async () => {
+      if (!nft) {
+        setArtist(null);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const result = await getArtistForTrack(nft.mediaKey || getMediaKey(nft));
+        if (!cancelled) setArtist(result);
+      } catch (error) {
+        console.error('Error loading artist for NFT:', error);
+        if (!cancelled) setArtist(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadArtist();
+    return () => {
+      cancelled = true;
+    };
+  }, [nft]);
+
+  const artistName = artist?.name || (nft ? getNFTCreator(nft) : null);
+
+  return { artist, artistName, loading };
+}
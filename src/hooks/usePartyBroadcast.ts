@@ -0,0 +1,55 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { NFT } from '../types/user';
+import { useListeningParty } from '../contexts/ListeningPartyContext';
+import { buildPartyPlayback } from '../lib/firebase/listeningParties';
+
+// Re-send the position at least this often while playing, so late joiners start close
+const REFRESH_INTERVAL_MS = 10 * 1000;
+// A jump bigger than this from where playback should be means the host seeked
+const SEEK_THRESHOLD_SECONDS = 2;
+
+interface UsePartyBroadcastProps {
+  nft: NFT | null;
+  isPlaying: boolean;
+  progress: number;
+  playbackRate: number;
+}
+
+/**
+ * Hook that publishes the host's playback to their listening party:
+ * immediately on track / play-pause / speed changes and seeks, and periodically otherwise.
+ * Does nothing unless the current user is hosting a party.
+ */
+export const usePartyBroadcast = ({ nft, isPlaying, progress, playbackRate }: UsePartyBroadcastProps) => {
+  const { isHost, broadcast } = useListeningParty();
+  const latestRef = useRef({ nft, isPlaying, progress, playbackRate });
+  latestRef.current = { nft, isPlaying, progress, playbackRate };
+  const lastSentRef = useRef<{ position: number; at: number; isPlaying: boolean; rate: number } | null>(null);
+  const nftKey = nft ? `${nft.contract}-${nft.tokenId}` : null;
+
+  const send = useCallback(() => {
+    const latest = latestRef.current;
+    broadcast(buildPartyPlayback(latest.nft, latest.progress, latest.isPlaying, latest.playbackRate));
+    lastSentRef.current = {
+      position: latest.progress,
+      at: Date.now(),
+      isPlaying: latest.isPlaying,
+      rate: latest.playbackRate
+    };
+  }, [broadcast]);
+
+  useEffect(() => {
+    if (isHost) send();
+  }, [isHost, nftKey, isPlaying, playbackRate, send]);
+
+  useEffect(() => {
+    const last = lastSentRef.current;
+    if (!isHost || !last) return;
+
+    const elapsed = (Date.now() - last.at) / 1000;
+    const expected = last.isPlaying ? last.position + elapsed * last.rate : last.position;
+    if (Math.abs(progress - expected) > SEEK_THRESHOLD_SECONDS || (isPlaying && elapsed * 1000 > REFRESH_INTERVAL_MS)) {
+      send();
+    }
+  }, [isHost, isPlaying, progress, send]);
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { NFT, Playlist } from '../types/user';
+import {
+  subscribeToPlaylists,
+  createPlaylist,
+  renamePlaylist,
+  addTrackToPlaylist,
+  removeTrackFromPlaylist,
+  reorderPlaylist,
+  deletePlaylist
+} from '../lib/firebase/playlists';
+
+/**
+ * Hook exposing a user's playlists with real-time updates
+ * plus the create/rename/reorder/delete operations bound to that user
+ */
+export const usePlaylists = (userFid?: number) => {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userFid) {
+      setPlaylists([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = subscribeToPlaylists(userFid, (updated) => {
+      setPlaylists(updated);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [userFid]);
+
+  const create = useCallback((name: string, nfts: NFT[] = []) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return createPlaylist(userFid, name, nfts);
+  }, [userFid]);
+
+  const rename = useCallback((playlistId: string, name: string) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return renamePlaylist(userFid, playlistId, name);
+  }, [userFid]);
+
+  const addTrack = useCallback((playlistId: string, nft: NFT) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return addTrackToPlaylist(userFid, playlistId, nft);
+  }, [userFid]);
+
+  const removeTrack = useCallback((playlistId: string, mediaKey: string) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return removeTrackFromPlaylist(userFid, playlistId, mediaKey);
+  }, [userFid]);
+
+  const reorder = useCallback((playlistId: string, orderedMediaKeys: string[]) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return reorderPlaylist(userFid, playlistId, orderedMediaKeys);
+  }, [userFid]);
+
+  const remove = useCallback((playlistId: string) => {
+    if (!userFid) return Promise.reject(new Error('Invalid user ID'));
+    return deletePlaylist(userFid, playlistId);
+  }, [userFid]);
+
+  return {
+    playlists,
+    isLoading,
+    createPlaylist: create,
+    renamePlaylist: rename,
+    addTrackToPlaylist: addTrack,
+    removeTrackFromPlaylist: removeTrack,
+    reorderPlaylist: reorder,
+    deletePlaylist: remove
+  };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { NFT } from '../types/user';
+import { getRecommendations, recommendedTrackToNFT } from '../lib/firebase/recommendations';
+import { getMediaKey } from '../utils/media';
+import { logger } from '../utils/logger';
+
+const recommendationsLogger = logger.getModuleLogger('recommendations');
+
+// How many recent likes get their own row, and how long each row is
+const SEED_COUNT = 3;
+const TRACKS_PER_ROW = 10;
+
+export interface RecommendationRow {
+  seed: NFT;
+  tracks: NFT[];
+}
+
+/**
+ * Hook building "Because you liked X" rows from the precomputed neighbors of the
+ * user's most recent likes, leaving out tracks they've already liked
+ */
+export const useRecommendations = (likedNFTs: NFT[]) => {
+  const [rawRows, setRawRows] = useState<RecommendationRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const seeds = useMemo(
+    () => likedNFTs.filter(nft => getMediaKey(nft)).slice(0, SEED_COUNT),
+    [likedNFTs]
+  );
+  // Only refetch when the seed tracks themselves change, not on every liked list update
+  const seedKey = seeds.map(nft => getMediaKey(nft)).join('|');
+
+  useEffect(() => {
+    if (seeds.length === 0) {
+      setRawRows([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all(seeds.map(async seed => ({
+      seed,
+      tracks: (await getRecommendations(getMediaKey(seed))).map(recommendedTrackToNFT)
+    })))
+      .then(rows => {
+        if (!cancelled) setRawRows(rows);
+      })
+      .catch(error => {
+        recommendationsLogger.error('Error loading recommendations:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seedKey]);
+
+  const rows = useMemo(() => {
+    const likedKeys = new Set(likedNFTs.map(nft => getMediaKey(nft)));
+    return rawRows
+      .map(row => ({
+        seed: row.seed,
+        tracks: row.tracks.filter(nft => !likedKeys.has(getMediaKey(nft))).slice(0, TRACKS_PER_ROW)
+      }))
+      .filter(row => row.tracks.length > 0);
+  }, [rawRows, likedNFTs]);
+
+  return { rows, isLoading };
+};
@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { logger } from '../utils/logger';
+
+const sleepTimerLogger = logger.getModuleLogger('sleepTimer');
+
+// Volume fades out over this long before playback is paused
+const FADE_DURATION_SECONDS = 30;
+// "End of track" uses a shorter fade so the track's ending isn't lost
+const END_OF_TRACK_FADE_SECONDS = 8;
+// Pause slightly before the real end so the ended handler doesn't auto-advance
+const END_OF_TRACK_MARGIN_SECONDS = 0.5;
+
+export type SleepTimerMode = number | 'endOfTrack'; // Minutes, or stop when the current track finishes
+
+export const SLEEP_TIMER_PRESETS: SleepTimerMode[] = [15, 30, 60, 'endOfTrack'];
+
+interface UseSleepTimerProps {
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  // The element actually playing, when that isn't audioRef (videos with embedded audio)
+  activeMediaRef?: React.RefObject<HTMLMediaElement | null>;
+  isPlaying: boolean;
+  progress: number;
+  duration: number;
+  onPlayPause: () => void;
+}
+
+export interface SleepTimerState {
+  mode: SleepTimerMode | null;
+  remaining: number | null; // Seconds until playback stops
+  start: (mode: SleepTimerMode) => void;
+  cancel: () => void;
+}
+
+export const useSleepTimer = ({
+  audioRef,
+  activeMediaRef,
+  isPlaying,
+  progress,
+  duration,
+  onPlayPause
+}: UseSleepTimerProps): SleepTimerState => {
+  const [mode, setMode] = useState<SleepTimerMode | null>(null);
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // The element being faded and its volume before the fade, so it can be restored afterwards
+  const fadedRef = useRef<{ media: HTMLMediaElement; volume: number } | null>(null);
+  const latestRef = useRef({ isPlaying, onPlayPause });
+  latestRef.current = { isPlaying, onPlayPause };
+
+  const restoreVolume = useCallback(() => {
+    if (fadedRef.current) {
+      fadedRef.current.media.volume = fadedRef.current.volume;
+    }
+    fadedRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    restoreVolume();
+    setMode(null);
+    setEndsAt(null);
+  }, [restoreVolume]);
+
+  const start = useCallback((nextMode: SleepTimerMode) => {
+    restoreVolume();
+    setMode(nextMode);
+    setNow(Date.now());
+    setEndsAt(typeof nextMode === 'number' ? Date.now() + nextMode * 60 * 1000 : null);
+    sleepTimerLogger.info(`Sleep timer set: ${nextMode === 'endOfTrack' ? 'end of track' : `${nextMode} minutes`}`);
+  }, [restoreVolume]);
+
+  // Tick once a second while a timed countdown is running
+  useEffect(() => {
+    if (endsAt === null) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [endsAt]);
+
+  const remaining = mode === null
+    ? null
+    : mode === 'endOfTrack'
+      ? (duration > 0 ? Math.max(duration - progress - END_OF_TRACK_MARGIN_SECONDS, 0) : null)
+      : Math.max(((endsAt ?? now) - now) / 1000, 0);
+
+  // Fade the volume over the last stretch, then pause and reset
+  useEffect(() => {
+    if (mode === null || remaining === null) return;
+    const media = activeMediaRef?.current || audioRef.current;
+    const fadeSeconds = mode === 'endOfTrack' ? END_OF_TRACK_FADE_SECONDS : FADE_DURATION_SECONDS;
+
+    if (remaining <= 0) {
+      sleepTimerLogger.info('Sleep timer finished, pausing playback');
+      if (latestRef.current.isPlaying) {
+        latestRef.current.onPlayPause();
+      }
+      cancel();
+      return;
+    }
+
+    if (media && remaining <= fadeSeconds) {
+      // A new track mid-fade picks up the fade from its own volume
+      if (fadedRef.current?.media !== media) {
+        restoreVolume();
+        fadedRef.current = { media, volume: media.volume };
+      }
+      media.volume = fadedRef.current.volume * (remaining / fadeSeconds);
+    }
+  }, [mode, remaining, audioRef, activeMediaRef, cancel, restoreVolume]);
+
+  return { mode, remaining, start, cancel };
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { NFT, CommentAuthor, TrackComment, TrackReaction } from '../types/user';
+import {
+  addComment,
+  deleteComment,
+  reportComment,
+  addReaction,
+  deleteReaction,
+  subscribeToComments,
+  subscribeToReactions
+} from '../lib/firebase/comments';
+import { getMediaKey } from '../utils/media';
+
+/**
+ * Hook keeping a track's comments and timestamped reactions live, with actions that post
+ * as the given author. Whether they may remove someone else's post - because they own the
+ * NFT - is decided by the comments API.
+ */
+export const useTrackComments = (nft: NFT | null, author: CommentAuthor | null) => {
+  const [comments, setComments] = useState<TrackComment[]>([]);
+  const [reactions, setReactions] = useState<TrackReaction[]>([]);
+  const mediaKey = nft ? (nft.mediaKey || getMediaKey(nft)) : '';
+
+  useEffect(() => {
+    setComments([]);
+    setReactions([]);
+    if (!mediaKey) return;
+
+    const unsubscribeComments = subscribeToComments(mediaKey, setComments);
+    const unsubscribeReactions = subscribeToReactions(mediaKey, setReactions);
+    return () => {
+      unsubscribeComments();
+      unsubscribeReactions();
+    };
+  }, [mediaKey]);
+
+  const requireAuthor = useCallback(() => {
+    if (!author) throw new Error('Sign in with Farcaster to join the conversation');
+    return author;
+  }, [author]);
+
+  const requireNFT = useCallback(() => {
+    if (!nft) throw new Error('Nothing is playing');
+    return nft;
+  }, [nft]);
+
+  const postComment = useCallback(async (text: string, parentId: string | null = null) => {
+    await addComment(requireNFT(), requireAuthor().fid, text, parentId);
+  }, [requireNFT, requireAuthor]);
+
+  const removeComment = useCallback(async (commentId: string) => {
+    await deleteComment(requireNFT(), commentId, requireAuthor().fid);
+  }, [requireNFT, requireAuthor]);
+
+  const report = useCallback(async (commentId: string) => {
+    await reportComment(requireNFT(), commentId, requireAuthor().fid);
+  }, [requireNFT, requireAuthor]);
+
+  const react = useCallback(async (emoji: string, position: number) => {
+    await addReaction(requireNFT(), requireAuthor().fid, emoji, position);
+  }, [requireNFT, requireAuthor]);
+
+  const removeReaction = useCallback(async (reactionId: string) => {
+    await deleteReaction(requireNFT(), reactionId, requireAuthor().fid);
+  }, [requireNFT, requireAuthor]);
+
+  return { comments, reactions, postComment, removeComment, report, react, removeReaction };
+};
@@ -0,0 +1,19 @@
+import type { NFT, ActivityTrack } from '../types/user';
+import { getMediaKey } from '../utils/media';
+
+// The slice of an NFT stored on activity events; null when the NFT can't be keyed
+export const toActivityTrack = (nft: NFT): ActivityTrack | null => {
+  const mediaKey = nft.mediaKey || getMediaKey(nft);
+  if (!mediaKey || !nft.contract || !nft.tokenId) return null;
+
+  return {
+    mediaKey,
+    contract: nft.contract,
+    tokenId: nft.tokenId,
+    name: nft.name || 'Untitled',
+    image: nft.image || (typeof nft.metadata?.image === 'string' ? nft.metadata.image : '') || '',
+    audioUrl: nft.audio || (typeof nft.metadata?.animation_url === 'string' ? nft.metadata.animation_url : '') || '',
+    collection: nft.collection?.name || '',
+    network: nft.network || 'ethereum'
+  };
+};
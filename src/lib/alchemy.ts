@@ -1,5 +1,5 @@
 import { Alchemy, Network, Nft, NftTokenType } from 'alchemy-sdk';
-import type { NFT, NFTFile, NFTMetadata } from '../types/user';
+import type { NFT, NFTFile, NFTMetadata, CollectionInfo } from '../types/user';
 
 const baseConfig = {
   apiKey: process.env.NEXT_PUBLIC_ALCHEMY_API_KEY,
@@ -151,6 +151,99 @@ const isMediaNFT = (metadata: NFTMetadata, animationUrl?: string): { hasAudio: b
   return { hasAudio, isVideo, isAnimation };
 };
 
+// Turn Alchemy metadata into our NFT shape, or null when it carries no audio/video
+const toMediaNFT = (metadata: Nft, network: string): NFT | null => {
+  // Get animation URL and process it
+  const rawAnimationUrl = metadata.raw.metadata?.animation_url || '';
+  const animationUrl = processMediaUrl(rawAnimationUrl) || '';
+
+  // Check for audio in metadata
+  const hasAudio = !!(metadata.raw.metadata?.audio || 
+    metadata.raw.metadata?.audio_url || 
+    (animationUrl && (
+      animationUrl.toLowerCase().endsWith('.mp3') ||
+      animationUrl.toLowerCase().endsWith('.wav') ||
+      animationUrl.toLowerCase().endsWith('.m4a') ||
+      animationUrl.toLowerCase().includes('audio/') ||
+      animationUrl.toLowerCase().includes('ipfs') ||
+      rawAnimationUrl.toLowerCase().startsWith('ipfs://')
+    )));
+
+  // Check for video in metadata
+  const isVideo = !!(animationUrl && (
+    animationUrl.toLowerCase().endsWith('.mp4') ||
+    animationUrl.toLowerCase().endsWith('.webm') ||
+    animationUrl.toLowerCase().endsWith('.mov') ||
+    animationUrl.toLowerCase().includes('video/')
+  ));
+
+  // Check properties.files if they exist
+  const hasMediaInProperties = metadata.raw.metadata?.properties?.files?.some((file: any) => {
+    if (!file) return false;
+    const fileUrl = (file.uri || file.url || '').toLowerCase();
+    const fileType = (file.type || file.mimeType || '').toLowerCase();
+    
+    return fileUrl.endsWith('.mp3') || 
+          fileUrl.endsWith('.wav') || 
+          fileUrl.endsWith('.m4a') ||
+          fileUrl.endsWith('.mp4') || 
+          fileUrl.endsWith('.webm') || 
+          fileUrl.endsWith('.mov') ||
+          fileType.includes('audio/') ||
+          fileType.includes('video/');
+  }) ?? false;
+
+  // Check if it has any media indicators in metadata
+  const { hasAudio: metadataHasAudio } = isMediaNFT(metadata.raw.metadata || {}, animationUrl);
+  
+  console.log(`[${network.toUpperCase()}] Media detection for NFT:`, {
+    contract: metadata.contract.address,
+    tokenId: metadata.tokenId,
+    name: metadata.name || metadata.tokenId,
+    hasAudio,
+    isVideo,
+    hasMediaInProperties,
+    metadataHasAudio,
+    rawAnimationUrl,
+    animationUrl
+  });
+
+  // Include if it has any media indicators
+  if (!hasAudio && !isVideo && !hasMediaInProperties && !metadataHasAudio) {
+    return null;
+  }
+
+  console.log('Found media NFT:', {
+    contract: metadata.contract.address,
+    tokenId: metadata.tokenId,
+    name: metadata.name || metadata.tokenId,
+    animationUrl,
+    hasAudio,
+    isVideo,
+    hasMediaInProperties,
+    metadata: metadata.raw.metadata
+  });
+
+  // Process image URL
+  const rawImageUrl = metadata.raw.metadata?.image || '';
+  const imageUrl = processMediaUrl(rawImageUrl) || '';
+
+  return {
+    contract: metadata.contract.address,
+    tokenId: metadata.tokenId,
+    name: metadata.name || `#${metadata.tokenId}`,
+    description: metadata.description || '',
+    image: imageUrl,
+    audio: hasAudio ? animationUrl : '',
+    animationUrl: isVideo ? animationUrl : undefined,
+    hasValidAudio: hasAudio,
+    isVideo,
+    hasMediaInProperties,
+    metadata: metadata.raw.metadata,
+    network
+  } as NFT;
+};
+
 export const fetchUserNFTsFromAlchemy = async (address: string): Promise<NFT[]> => {
   console.log('=== START MULTI-NETWORK NFT FETCH ===');
   console.log('Fetching NFTs for address:', address);
@@ -243,95 +336,7 @@ const fetchFromNetwork = async (address: string, client: Alchemy, network: strin
 
         console.log(`[${network.toUpperCase()}] Media URLs for NFT:`, mediaUrls);
 
-        // Get animation URL and process it
-        const rawAnimationUrl = metadata.raw.metadata?.animation_url || '';
-        const animationUrl = processMediaUrl(rawAnimationUrl) || '';
-
-        // Check for audio in metadata
-        const hasAudio = !!(metadata.raw.metadata?.audio || 
-          metadata.raw.metadata?.audio_url || 
-          (animationUrl && (
-            animationUrl.toLowerCase().endsWith('.mp3') ||
-            animationUrl.toLowerCase().endsWith('.wav') ||
-            animationUrl.toLowerCase().endsWith('.m4a') ||
-            animationUrl.toLowerCase().includes('audio/') ||
-            animationUrl.toLowerCase().includes('ipfs') ||
-            rawAnimationUrl.toLowerCase().startsWith('ipfs://')
-          )));
-
-        // Check for video in metadata
-        const isVideo = !!(animationUrl && (
-          animationUrl.toLowerCase().endsWith('.mp4') ||
-          animationUrl.toLowerCase().endsWith('.webm') ||
-          animationUrl.toLowerCase().endsWith('.mov') ||
-          animationUrl.toLowerCase().includes('video/')
-        ));
-
-        // Check properties.files if they exist
-        const hasMediaInProperties = metadata.raw.metadata?.properties?.files?.some((file: any) => {
-          if (!file) return false;
-          const fileUrl = (file.uri || file.url || '').toLowerCase();
-          const fileType = (file.type || file.mimeType || '').toLowerCase();
-          
-          return fileUrl.endsWith('.mp3') || 
-                fileUrl.endsWith('.wav') || 
-                fileUrl.endsWith('.m4a') ||
-                fileUrl.endsWith('.mp4') || 
-                fileUrl.endsWith('.webm') || 
-                fileUrl.endsWith('.mov') ||
-                fileType.includes('audio/') ||
-                fileType.includes('video/');
-        }) ?? false;
-
-        // Check if it has any media indicators in metadata
-        const { hasAudio: metadataHasAudio } = isMediaNFT(metadata.raw.metadata || {}, animationUrl);
-        
-        console.log(`[${network.toUpperCase()}] Media detection for NFT:`, {
-          contract: metadata.contract.address,
-          tokenId: metadata.tokenId,
-          name: metadata.name || metadata.tokenId,
-          hasAudio,
-          isVideo,
-          hasMediaInProperties,
-          metadataHasAudio,
-          rawAnimationUrl,
-          animationUrl
-        });
-
-        // Include if it has any media indicators
-        if (!hasAudio && !isVideo && !hasMediaInProperties && !metadataHasAudio) {
-          return null;
-        }
-
-        console.log('Found media NFT:', {
-          contract: metadata.contract.address,
-          tokenId: metadata.tokenId,
-          name: metadata.name || metadata.tokenId,
-          animationUrl,
-          hasAudio,
-          isVideo,
-          hasMediaInProperties,
-          metadata: metadata.raw.metadata
-        });
-
-        // Process image URL
-        const rawImageUrl = metadata.raw.metadata?.image || '';
-        const imageUrl = processMediaUrl(rawImageUrl) || '';
-
-        return {
-          contract: metadata.contract.address,
-          tokenId: metadata.tokenId,
-          name: metadata.name || `#${metadata.tokenId}`,
-          description: metadata.description || '',
-          image: imageUrl,
-          audio: hasAudio ? animationUrl : '',
-          animationUrl: isVideo ? animationUrl : undefined,
-          hasValidAudio: hasAudio,
-          isVideo,
-          hasMediaInProperties,
-          metadata: metadata.raw.metadata,
-          network
-        } as NFT;
+        return toMediaNFT(metadata, network);
 
       } catch (error: any) {
         console.error('Error fetching NFT metadata:', error);
@@ -366,4 +371,134 @@ const fetchFromNetwork = async (address: string, client: Alchemy, network: strin
     console.error('Error fetching NFTs from Alchemy:', error);
     return [];
   }
-};
\ No newline at end of file
+};
+// Pages of 100 tokens read per collection - enough for editions and drops without
+// walking a 10k PFP contract
+const MAX_COLLECTION_PAGES = 10;
+
+const getAlchemyClient = (network: 'ethereum' | 'base'): Alchemy =>
+  network === 'base' ? baseAlchemy : ethAlchemy;
+
+// Name and artwork for a contract, from Alchemy's contract metadata
+export const fetchCollectionInfoFromAlchemy = async (
+  contract: string,
+  network: 'ethereum' | 'base'
+): Promise<CollectionInfo> => {
+  try {
+    const contractMetadata = await getAlchemyClient(network).nft.getContractMetadata(contract);
+    return {
+      contract,
+      network,
+      name: contractMetadata.name || contractMetadata.openSeaMetadata?.collectionName || contract,
+      image: processMediaUrl(contractMetadata.openSeaMetadata?.imageUrl) || '',
+      description: contractMetadata.openSeaMetadata?.description || '',
+      totalSupply: contractMetadata.totalSupply ? Number(contractMetadata.totalSupply) : null
+    };
+  } catch (error) {
+    console.error(`Error fetching collection metadata for ${contract}:`, error);
+    return { contract, network, name: contract, image: '', description: '', totalSupply: null };
+  }
+};
+
+// Every media NFT minted by a contract, in token order
+export const fetchCollectionNFTsFromAlchemy = async (
+  contract: string,
+  network: 'ethereum' | 'base'
+): Promise<NFT[]> => {
+  if (!process.env.NEXT_PUBLIC_ALCHEMY_API_KEY) {
+    console.error('Alchemy API key is missing! Please set NEXT_PUBLIC_ALCHEMY_API_KEY environment variable.');
+    return [];
+  }
+
+  const client = getAlchemyClient(network);
+  const nfts: NFT[] = [];
+  let pageKey: string | undefined;
+
+  try {
+    for (let page = 0; page < MAX_COLLECTION_PAGES; page++) {
+      const response = await client.nft.getNftsForContract(contract, { pageKey, pageSize: BATCH_SIZE });
+      response.nfts.forEach(nft => {
+        const mediaNFT = toMediaNFT(nft, network);
+        if (mediaNFT) nfts.push(mediaNFT);
+      });
+      pageKey = response.pageKey;
+      if (!pageKey) break;
+    }
+  } catch (error) {
+    console.error(`Error fetching collection NFTs for ${contract}:`, error);
+  }
+
+  return nfts;
+};
+
+// Wallets currently holding a token from the contract, lowercased
+export const fetchCollectionOwnersFromAlchemy = async (
+  contract: string,
+  network: 'ethereum' | 'base'
+): Promise<string[]> => {
+  try {
+    const response = await getAlchemyClient(network).nft.getOwnersForContract(contract);
+    return response.owners.map(owner => owner.toLowerCase());
+  } catch (error) {
+    console.error(`Error fetching collection owners for ${contract}:`, error);
+    return [];
+  }
+};
+
+// Wallets currently holding the token, lowercased
+export const fetchNFTOwnersFromAlchemy = async (
+  contract: string,
+  tokenId: string,
+  network: 'ethereum' | 'base'
+): Promise<string[]> => {
+  try {
+    const response = await getAlchemyClient(network).nft.getOwnersForNft(contract, tokenId);
+    return response.owners.map(owner => owner.toLowerCase());
+  } catch (error) {
+    console.error(`Error fetching owners for ${contract}/${tokenId}:`, error);
+    return [];
+  }
+};
+
+// A single token as Alchemy has it, or null when it carries no audio/video or can't be fetched
+export const fetchNFTFromAlchemy = async (
+  contract: string,
+  tokenId: string,
+  network: 'ethereum' | 'base'
+): Promise<NFT | null> => {
+  try {
+    const metadata = await getAlchemyClient(network).nft.getNftMetadata(contract, tokenId);
+    return toMediaNFT(metadata, network);
+  } catch (error) {
+    console.error(`Error fetching metadata for ${contract}/${tokenId}:`, error);
+    return null;
+  }
+};
+
+export interface NFTMinter {
+  deployer: string | null; // Whoever deployed the token's contract
+  mintedTo: string | null; // First recipient of the token
+}
+
+/**
+ * Wallets behind a token, lowercased. On a per-artist contract the deployer is the artist, but
+ * on a contract a platform deploys for everyone (Zora, Sound, Foundation...) it's the platform,
+ * and the artist is whoever the token was first minted to. Telling the two apart needs more
+ * than one token, so that's left to the caller - see syncArtists.
+ */
+export const fetchNFTMinterFromAlchemy = async (
+  contract: string,
+  tokenId: string,
+  network: 'ethereum' | 'base'
+): Promise<NFTMinter | null> => {
+  try {
+    const nft = await getAlchemyClient(network).nft.getNftMetadata(contract, tokenId);
+    return {
+      deployer: nft.contract.contractDeployer?.toLowerCase() || null,
+      mintedTo: nft.mint?.mintAddress?.toLowerCase() || null
+    };
+  } catch (error) {
+    console.error(`Error fetching minter for ${contract}/${tokenId}:`, error);
+    return null;
+  }
+};
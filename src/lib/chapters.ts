@@ -0,0 +1,127 @@
+import type { NFT, Chapter } from '../types/user';
+import { processMediaUrl } from '../utils/media';
+import { logger } from '../utils/logger';
+
+const chaptersLogger = logger.getModuleLogger('chapters');
+
+// Cap on how many chapters we'll accept from metadata or an owner list
+export const MAX_CHAPTERS = 200;
+
+// "1:02:03", "62:03" or "3723" -> seconds; NaN if it isn't a timestamp
+export const parseTimestamp = (value: string): number => {
+  const trimmed = value.trim();
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) return NaN;
+  return trimmed.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+};
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(Math.floor(seconds), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+};
+
+const normalizeChapters = (chapters: Chapter[]): Chapter[] =>
+  chapters
+    .filter(chapter => Number.isFinite(chapter.time) && chapter.time >= 0)
+    .sort((a, b) => a.time - b.time)
+    .slice(0, MAX_CHAPTERS);
+
+// Parse a "0:00 Intro" list - one chapter per line, with an optional dash/colon after the time
+export const parseChapterList = (text: string): Chapter[] => {
+  const chapters: Chapter[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(/^\(?(\d+(?::\d{1,2}){1,2})\)?\s*[-–—:|]?\s*(.+)$/);
+    if (!match) return;
+    const time = parseTimestamp(match[1]);
+    if (!Number.isNaN(time)) {
+      chapters.push({ time, title: match[2].trim() });
+    }
+  });
+  return normalizeChapters(chapters);
+};
+
+export const formatChapterList = (chapters: Chapter[]): string =>
+  chapters.map(chapter => `${formatTimestamp(chapter.time)} ${chapter.title}`).join('\n');
+
+// Podcasting 2.0 JSON chapters ({ chapters: [{ startTime, title }] }) or a plain array of them
+const parseChapterObjects = (value: unknown): Chapter[] => {
+  const list = Array.isArray(value)
+    ? value
+    : Array.isArray((value as { chapters?: unknown })?.chapters)
+      ? (value as { chapters: unknown[] }).chapters
+      : [];
+
+  return normalizeChapters(list.flatMap((entry: any) => {
+    const rawTime = entry?.startTime ?? entry?.start_time ?? entry?.time ?? entry?.start;
+    const time = typeof rawTime === 'number' ? rawTime : parseTimestamp(String(rawTime ?? ''));
+    const title = String(entry?.title ?? entry?.name ?? '').trim();
+    return Number.isNaN(time) || !title ? [] : [{ time, title }];
+  }));
+};
+
+// Chapters from metadata attributes: either one "Chapters" trait holding a "0:00 Intro" list,
+// or one trait per chapter ("Chapter 1": "5:30 Topic")
+const parseChapterAttributes = (nft: NFT): Chapter[] => {
+  const attributes = nft.metadata?.attributes || [];
+  const chapterValues = attributes
+    .filter(attribute => /^chapters?\b/i.test(attribute.trait_type || ''))
+    .map(attribute => String(attribute.value));
+  return parseChapterList(chapterValues.join('\n'));
+};
+
+const isUrl = (value: string) => /^(https?|ipfs|ar):\/\//i.test(value.trim());
+
+// Resolve chapters declared in an NFT's metadata, fetching a linked chapters file if needed
+export const loadChaptersFromMetadata = async (nft: NFT): Promise<Chapter[]> => {
+  const metadata = nft.metadata;
+  if (!metadata) return [];
+
+  const fromAttributes = parseChapterAttributes(nft);
+  if (fromAttributes.length > 0) return fromAttributes;
+
+  const declared = metadata.chapters ?? metadata.properties?.chapters;
+  if (!declared) return [];
+
+  if (typeof declared === 'string') {
+    if (!isUrl(declared)) return parseChapterList(declared);
+
+    try {
+      const response = await fetch(processMediaUrl(declared.trim()));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return parseChapterObjects(await response.json());
+    } catch (error) {
+      chaptersLogger.warn(`Error fetching chapters for ${nft.contract}-${nft.tokenId}:`, error);
+      return [];
+    }
+  }
+
+  return parseChapterObjects(declared);
+};
+
+// Index of the chapter playing at `time`, or -1 before the first chapter starts
+export const getCurrentChapterIndex = (chapters: Chapter[], time: number): number => {
+  let current = -1;
+  for (let i = 0; i < chapters.length && chapters[i].time <= time; i++) {
+    current = i;
+  }
+  return current;
+};
+
+// Where "previous chapter" should go: the start of the current chapter, unless we're
+// only a few seconds in, in which case the chapter before it (like previous-track buttons)
+export const getPreviousChapterTime = (chapters: Chapter[], time: number): number | null => {
+  const current = getCurrentChapterIndex(chapters, time);
+  if (current < 0) return null;
+  if (time - chapters[current].time > 3 || current === 0) return chapters[current].time;
+  return chapters[current - 1].time;
+};
+
+export const getNextChapterTime = (chapters: Chapter[], time: number): number | null => {
+  const next = chapters[getCurrentChapterIndex(chapters, time) + 1];
+  return next ? next.time : null;
+};
@@ -0,0 +1,6 @@
+// Limits on track comments, shared by the comments sheet and the comments API that enforces them
+
+export const MAX_COMMENT_LENGTH = 500;
+
+// Reports from this many different listeners hide a comment until someone reviews it
+export const REPORT_HIDE_THRESHOLD = 3;
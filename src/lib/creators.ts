@@ -0,0 +1,44 @@
+import type { NFT } from '../types/user';
+
+// Attribute names platforms use for the person behind a track
+const CREATOR_TRAITS = /^(artist|artists|creator|created by|musician|author|host|producer)$/i;
+
+// Best-effort creator name from an NFT's metadata; null when the metadata doesn't say
+export const getNFTCreator = (nft: Pick<NFT, 'metadata'>): string | null => {
+  const metadata = nft.metadata;
+  if (!metadata) return null;
+
+  const declared = metadata.artist ?? metadata.created_by ?? metadata.creator ?? metadata.properties?.artist;
+  if (typeof declared === 'string' && declared.trim()) return declared.trim();
+
+  const attribute = metadata.attributes?.find(item => CREATOR_TRAITS.test((item.trait_type || '').trim()));
+  if (attribute && String(attribute.value).trim()) return String(attribute.value).trim();
+
+  return null;
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+// Wallet the metadata names as the creator, lowercased; platforms put it in the same
+// fields as the name, or in a creator/artist attribute
+export const getNFTCreatorAddress = (nft: Pick<NFT, 'metadata'>): string | null => {
+  const metadata = nft.metadata;
+  if (!metadata) return null;
+
+  const candidates: unknown[] = [
+    metadata.created_by,
+    metadata.creator,
+    metadata.artist,
+    metadata.properties?.creator,
+    metadata.properties?.artist_address,
+    ...(metadata.attributes || [])
+      .filter(item => CREATOR_TRAITS.test((item.trait_type || '').trim()))
+      .map(item => item.value)
+  ];
+  const address = candidates.find(value => typeof value === 'string' && ADDRESS_PATTERN.test(value.trim()));
+  return typeof address === 'string' ? address.trim().toLowerCase() : null;
+};
+
+// Creator names differ in case, spacing and a leading @ between platforms
+export const normalizeCreatorName = (name: string): string =>
+  name.trim().replace(/^@/, '').replace(/\s+/g, ' ').toLowerCase();
@@ -0,0 +1,88 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  startAfter,
+  documentId,
+  type QueryDocumentSnapshot
+} from 'firebase/firestore';
+import type { ActivityEvent } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { sendWrite } from '../writeApi';
+
+// Activity events live in one top-level collection, written once per action by the write API
+// (lib/server/activity.ts) - clients only read it. Feeds fan out on read: a follower queries
+// activity where actorFid is one of the fids they follow.
+const getActivityRef = () => collection(db, 'activity');
+
+// Firestore caps `in` filters at 30 values, so feeds query followed fids in chunks
+const FID_CHUNK_SIZE = 30;
+
+export const FEED_PAGE_SIZE = 20;
+
+export interface ActivityFeedPage {
+  events: ActivityEvent[];
+  // The last event's doc - pass back as `after` to load the next page; null when done
+  nextCursor: QueryDocumentSnapshot | null;
+}
+
+// Announce a new playlist through the write API, which builds the event from the stored
+// playlist. Best-effort, like every activity event: failures are logged and never thrown.
+export const recordPlaylistActivity = async (fid: number, playlistId: string): Promise<void> => {
+  if (!fid || fid <= 0) return;
+
+  try {
+    await sendWrite('/api/activity', 'POST', { fid, playlistId });
+  } catch (error) {
+    firebaseLogger.warn(`Error recording playlist activity for user ${fid}:`, error);
+  }
+};
+
+// Newest first, with the doc id breaking ties so events sharing a millisecond page in a fixed order
+const byNewest = (a: QueryDocumentSnapshot, b: QueryDocumentSnapshot) =>
+  b.data().createdAt - a.data().createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Load one page of activity from the given fids, newest first
+export const getActivityFeed = async (
+  fids: number[],
+  after?: QueryDocumentSnapshot | null,
+  pageSize = FEED_PAGE_SIZE
+): Promise<ActivityFeedPage> => {
+  const uniqueFids = Array.from(new Set(fids.filter(fid => fid > 0)));
+  if (uniqueFids.length === 0) {
+    return { events: [], nextCursor: null };
+  }
+
+  try {
+    const chunks: number[][] = [];
+    for (let i = 0; i < uniqueFids.length; i += FID_CHUNK_SIZE) {
+      chunks.push(uniqueFids.slice(i, i + FID_CHUNK_SIZE));
+    }
+
+    // Each chunk returns its own newest pageSize events; merging and cutting to pageSize
+    // gives the true newest pageSize overall
+    const snapshots = await Promise.all(chunks.map(chunk => getDocs(query(
+      getActivityRef(),
+      where('actorFid', 'in', chunk),
+      orderBy('createdAt', 'desc'),
+      orderBy(documentId(), 'desc'),
+      ...(after ? [startAfter(after)] : []),
+      limit(pageSize)
+    ))));
+
+    const merged = snapshots.flatMap(snapshot => snapshot.docs).sort(byNewest);
+    const pageDocs = merged.slice(0, pageSize);
+
+    const hasMore = merged.length > pageSize || snapshots.some(snapshot => snapshot.size === pageSize);
+    return {
+      events: pageDocs.map(eventDoc => ({ id: eventDoc.id, ...eventDoc.data() }) as ActivityEvent),
+      nextCursor: hasMore && pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : null
+    };
+  } catch (error) {
+    firebaseLogger.error('Error loading activity feed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { doc, getDoc } from 'firebase/firestore';
+import type { Artist } from '../../types/user';
+import { db, firebaseLogger } from './config';
+
+// One document per artist at artists/{id}, rebuilt on the server by syncArtists
+const ARTISTS_COLLECTION = 'artists';
+
+// Artist id per track at artist_tracks/{mediaKey}, covering the tracks past an artist doc's cap
+const ARTIST_TRACKS_COLLECTION = 'artist_tracks';
+
+export const getArtist = async (artistId: string): Promise<Artist | null> => {
+  if (!artistId) return null;
+
+  try {
+    const artistDoc = await getDoc(doc(db, ARTISTS_COLLECTION, artistId));
+    return artistDoc.exists() ? (artistDoc.data() as Artist) : null;
+  } catch (error) {
+    firebaseLogger.error('Error getting artist:', error);
+    return null;
+  }
+};
+
+// The artist a track was attributed to by the last sync, if any
+export const getArtistForTrack = async (mediaKey: string): Promise<Artist | null> => {
+  if (!mediaKey) return null;
+
+  try {
+    const trackDoc = await getDoc(doc(db, ARTIST_TRACKS_COLLECTION, mediaKey));
+    const artistId = trackDoc.data()?.artistId;
+    return artistId ? await getArtist(artistId) : null;
+  } catch (error) {
+    firebaseLogger.error('Error getting artist for track:', error);
+    return null;
+  }
+};
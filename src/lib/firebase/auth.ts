@@ -0,0 +1,29 @@
+import { signInWithCustomToken } from 'firebase/auth';
+import { sendWrite } from '../writeApi';
+import { auth, authLogger } from './config';
+
+// Shared by every owner write issued while a token exchange is in flight
+let pendingSignIn: Promise<void> | null = null;
+
+/**
+ * Sign the Firebase client in as fid before writing to something only fid may write, such as
+ * their playlists or playback positions. The custom token comes from /api/firebase-token, so
+ * this goes through the same Farcaster sign in as the write API.
+ */
+export const ensureFirebaseUser = async (fid: number): Promise<void> => {
+  if (auth.currentUser?.uid === String(fid)) return;
+
+  if (!pendingSignIn) {
+    pendingSignIn = (async () => {
+      const { token } = await sendWrite<{ token: string }>('/api/firebase-token', 'POST', { fid });
+      await signInWithCustomToken(auth, token);
+      authLogger.info(`Signed in to Firebase as ${fid}`);
+    })().finally(() => {
+      pendingSignIn = null;
+    });
+  }
+  await pendingSignIn;
+};
+
+// Whether the Firebase client is already signed in as fid, for writes not worth a sign in prompt
+export const isFirebaseUser = (fid: number): boolean => auth.currentUser?.uid === String(fid);
@@ -0,0 +1,31 @@
+import { doc, getDoc } from 'firebase/firestore';
+import type { NFT, Chapter } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { getMediaKey } from '../../utils/media';
+import { sendWrite, toTrackPayload } from '../writeApi';
+
+// Owner-supplied chapter lists live in chapters/{mediaKey}, alongside lyrics/{mediaKey}
+const getChaptersRef = (mediaKey: string) => doc(db, 'chapters', mediaKey);
+
+export const getOwnerChapters = async (nft: NFT): Promise<Chapter[] | null> => {
+  const mediaKey = nft.mediaKey || getMediaKey(nft);
+  if (!mediaKey) return null;
+
+  try {
+    const snapshot = await getDoc(getChaptersRef(mediaKey));
+    return snapshot.exists() ? (snapshot.data().chapters as Chapter[]) || null : null;
+  } catch (error) {
+    firebaseLogger.error('Error loading chapters:', error);
+    return null;
+  }
+};
+
+// Saved through /api/chapters, which checks fid holds the NFT; an empty list removes the chapters
+export const saveOwnerChapters = async (nft: NFT, fid: number, chapters: Chapter[]): Promise<void> => {
+  if (!fid || fid <= 0) throw new Error('Invalid user ID');
+  await sendWrite('/api/chapters', 'POST', {
+    fid,
+    nft: toTrackPayload(nft),
+    chapters: chapters.map(({ time, title }) => ({ time, title }))
+  });
+};
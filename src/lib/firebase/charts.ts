@@ -0,0 +1,21 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import type { Chart, ChartWindow } from '../../types/user';
+import { db, firebaseLogger } from './config';
+
+// One document per window at charts/{window}, rebuilt on the server by syncCharts
+const getChartRef = (chartWindow: ChartWindow) => doc(db, 'charts', chartWindow);
+
+export const subscribeToChart = (chartWindow: ChartWindow, callback: (chart: Chart | null) => void) => {
+  try {
+    return onSnapshot(getChartRef(chartWindow), (snapshot) => {
+      callback(snapshot.exists() ? (snapshot.data() as Chart) : null);
+    }, (error) => {
+      firebaseLogger.error(`Error in ${chartWindow} chart subscription:`, error);
+      callback(null);
+    });
+  } catch (error) {
+    firebaseLogger.error(`Error subscribing to ${chartWindow} chart:`, error);
+    callback(null);
+    return () => {}; // Return empty unsubscribe function
+  }
+};
@@ -0,0 +1,106 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs
+} from 'firebase/firestore';
+import { getAddress } from 'viem';
+import type { CollectionStats, FarcasterUser } from '../../types/user';
+import { db, firebaseLogger } from './config';
+
+// Firestore caps `in` / array-contains-any at 30 values
+const QUERY_CHUNK_SIZE = 30;
+
+// Owners checked against known users - large PFP contracts stop here rather than
+// firing hundreds of queries
+const MAX_HOLDER_LOOKUPS = 600;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Contracts were stored however Alchemy or the metadata API spelled them, so match
+// the lowercase and checksummed forms as well as the one we were given
+const getContractVariants = (contract: string): string[] => {
+  const variants = new Set([contract, contract.toLowerCase()]);
+  try {
+    variants.add(getAddress(contract.toLowerCase()));
+  } catch {
+    // Not an EVM address - nothing else to try
+  }
+  return Array.from(variants);
+};
+
+// Rows from a global collection for this contract, under either field name it's been written with
+const getContractRows = async (collectionName: string, contract: string) => {
+  const variants = getContractVariants(contract);
+  const [byNftContract, byContract] = await Promise.all([
+    getDocs(query(collection(db, collectionName), where('nftContract', 'in', variants))),
+    getDocs(query(collection(db, collectionName), where('contract', 'in', variants)))
+  ]);
+  const rows = new Map<string, Record<string, any>>();
+  [...byNftContract.docs, ...byContract.docs].forEach(rowDoc => rows.set(rowDoc.id, rowDoc.data()));
+  return rows;
+};
+
+// Total plays and likes across every track from the contract, plus per-track plays
+export const getCollectionStats = async (contract: string): Promise<CollectionStats> => {
+  try {
+    const [plays, likes] = await Promise.all([
+      getContractRows('global_plays', contract),
+      getContractRows('global_likes', contract)
+    ]);
+
+    const trackPlays: Record<string, number> = {};
+    let playCount = 0;
+    plays.forEach((data, id) => {
+      const count = data.playCount || 0;
+      trackPlays[data.mediaKey || id] = count;
+      playCount += count;
+    });
+
+    let likeCount = 0;
+    likes.forEach(data => {
+      likeCount += Math.max(data.likeCount || 0, 0);
+    });
+
+    return { playCount, likeCount, trackPlays };
+  } catch (error) {
+    firebaseLogger.error('Error getting collection stats:', error);
+    return { playCount: 0, likeCount: 0, trackPlays: {} };
+  }
+};
+
+// Podplayr users whose known wallets (from searchedusers) hold one of these addresses.
+// Owners come from Alchemy lowercased, which is how Neynar reports verified addresses.
+export const getKnownCollectionHolders = async (owners: string[]): Promise<FarcasterUser[]> => {
+  if (owners.length === 0) return [];
+
+  try {
+    const snapshots = await Promise.all(
+      chunk(owners.slice(0, MAX_HOLDER_LOOKUPS), QUERY_CHUNK_SIZE).map(ownerChunk =>
+        getDocs(query(collection(db, 'searchedusers'), where('verifiedAddresses', 'array-contains-any', ownerChunk)))
+      )
+    );
+
+    const holders = new Map<number, FarcasterUser>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(userDoc => {
+      const data = userDoc.data();
+      if (!data.fid || holders.has(data.fid)) return;
+      holders.set(data.fid, {
+        fid: data.fid,
+        username: data.username || '',
+        display_name: data.display_name,
+        pfp_url: data.pfp_url,
+        follower_count: data.follower_count || 0,
+        following_count: data.following_count || 0,
+        custody_address: data.custody_address || undefined,
+        verifiedAddresses: data.verifiedAddresses || []
+      });
+    }));
+
+    return Array.from(holders.values()).sort((a, b) => b.follower_count - a.follower_count);
+  } catch (error) {
+    firebaseLogger.error('Error getting known collection holders:', error);
+    return [];
+  }
+};
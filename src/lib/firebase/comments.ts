@@ -0,0 +1,157 @@
+import {
+  collection,
+  query,
+  orderBy,
+  limit,
+  onSnapshot,
+  type DocumentSnapshot
+} from 'firebase/firestore';
+import type { NFT, TrackComment, TrackReaction } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { sendWrite, toTrackPayload } from '../writeApi';
+import { MAX_COMMENT_LENGTH } from '../commentRules';
+
+export { MAX_COMMENT_LENGTH, REPORT_HIDE_THRESHOLD } from '../commentRules';
+
+// Everything said about a track lives under trackComments/{mediaKey}: comments and replies in
+// comments/{commentId}, timestamped reactions in reactions/{reactionId} and one report per
+// listener per comment in reports/{commentId}-{fid}. Clients only read it; posts, reports and
+// moderation go through /api/comments and /api/reactions, which check who's asking.
+const getCommentsRef = (mediaKey: string) => collection(db, 'trackComments', mediaKey, 'comments');
+const getReactionsRef = (mediaKey: string) => collection(db, 'trackComments', mediaKey, 'reactions');
+
+// Newest comments and reactions kept live per track
+const COMMENTS_LIMIT = 200;
+const REACTIONS_LIMIT = 300;
+
+const toTrackComment = (snapshot: DocumentSnapshot, mediaKey: string): TrackComment => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    mediaKey,
+    author: data.author,
+    text: data.text || '',
+    parentId: data.parentId || null,
+    reportCount: data.reportCount || 0,
+    hidden: Boolean(data.hidden),
+    createdAt: data.createdAt || 0
+  };
+};
+
+const toTrackReaction = (snapshot: DocumentSnapshot, mediaKey: string): TrackReaction => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    mediaKey,
+    author: data.author,
+    emoji: data.emoji || '',
+    position: data.position || 0,
+    createdAt: data.createdAt || 0
+  };
+};
+
+const assertFid = (fid: number) => {
+  if (!fid || fid <= 0) {
+    throw new Error('Invalid user ID');
+  }
+};
+
+// Post as fid; the server stores their profile as the author
+export const addComment = async (
+  nft: NFT,
+  fid: number,
+  text: string,
+  parentId: string | null = null
+): Promise<string> => {
+  assertFid(fid);
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Comment is empty');
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const { commentId } = await sendWrite<{ commentId: string }>('/api/comments', 'POST', {
+    fid,
+    nft: toTrackPayload(nft),
+    text: trimmed,
+    parentId
+  });
+  return commentId;
+};
+
+// Delete a comment along with its replies. The server allows it for whoever wrote it and for
+// anyone whose wallets hold the NFT.
+export const deleteComment = async (nft: NFT, commentId: string, fid: number): Promise<void> => {
+  assertFid(fid);
+  await sendWrite('/api/comments', 'DELETE', { fid, nft: toTrackPayload(nft), commentId });
+  firebaseLogger.info(`Deleted comment ${commentId}`);
+};
+
+// Each listener can report a comment once; enough reports hide it
+export const reportComment = async (nft: NFT, commentId: string, fid: number): Promise<void> => {
+  assertFid(fid);
+  await sendWrite('/api/comments/report', 'POST', { fid, nft: toTrackPayload(nft), commentId });
+};
+
+export const addReaction = async (nft: NFT, fid: number, emoji: string, position: number): Promise<string> => {
+  assertFid(fid);
+  const { reactionId } = await sendWrite<{ reactionId: string }>('/api/reactions', 'POST', {
+    fid,
+    nft: toTrackPayload(nft),
+    emoji,
+    position: Math.max(0, position)
+  });
+  return reactionId;
+};
+
+// Same rules as deleteComment: the author, or the track owner
+export const deleteReaction = async (nft: NFT, reactionId: string, fid: number): Promise<void> => {
+  assertFid(fid);
+  await sendWrite('/api/reactions', 'DELETE', { fid, nft: toTrackPayload(nft), reactionId });
+};
+
+// Live comments and replies for a track, oldest first; hidden ones are left to the caller
+export const subscribeToComments = (
+  mediaKey: string,
+  callback: (comments: TrackComment[]) => void
+) => {
+  try {
+    const commentsQuery = query(getCommentsRef(mediaKey), orderBy('createdAt', 'desc'), limit(COMMENTS_LIMIT));
+    return onSnapshot(commentsQuery, (snapshot) => {
+      const comments = snapshot.docs
+        .map(commentDoc => toTrackComment(commentDoc, mediaKey))
+        .reverse();
+      callback(comments);
+    }, (error) => {
+      firebaseLogger.error('Error in comments subscription:', error);
+      callback([]);
+    });
+  } catch (error) {
+    firebaseLogger.error('Error subscribing to comments:', error);
+    callback([]);
+    return () => {}; // Return empty unsubscribe function
+  }
+};
+
+// Live reactions for a track, in the order they appear along the seek bar
+export const subscribeToReactions = (
+  mediaKey: string,
+  callback: (reactions: TrackReaction[]) => void
+) => {
+  try {
+    const reactionsQuery = query(getReactionsRef(mediaKey), orderBy('createdAt', 'desc'), limit(REACTIONS_LIMIT));
+    return onSnapshot(reactionsQuery, (snapshot) => {
+      const reactions = snapshot.docs
+        .map(reactionDoc => toTrackReaction(reactionDoc, mediaKey))
+        .sort((a, b) => a.position - b.position);
+      callback(reactions);
+    }, (error) => {
+      firebaseLogger.error('Error in reactions subscription:', error);
+      callback([]);
+    });
+  } catch (error) {
+    firebaseLogger.error('Error subscribing to reactions:', error);
+    callback([]);
+    return () => {}; // Return empty unsubscribe function
+  }
+};
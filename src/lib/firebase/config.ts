@@ -1,6 +1,6 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 import { getStorage } from 'firebase/storage';
 import { logger } from '../../utils/logger';
 
@@ -25,8 +25,18 @@ export const db = getFirestore(app);
 export const auth = getAuth(app);
 export const storage = getStorage(app);
 
-// PODPLAYR official account details
-export const PODPLAYR_FID = 1736;
-export const PODPLAYR_USERNAME = 'podplayr';
-export const PODPLAYR_DISPLAY_NAME = 'PODPlayr 🎧';
-export const PODPLAYR_PFP_URL = 'https://i.imgur.com/m6AuNqy.png';
+// Local runs against `firebase emulators:start`, e.g. NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST=localhost:8080
+const emulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  firebaseLogger.info(`Using the Firestore emulator at ${emulatorHost}`);
+}
+
+// The custom tokens minted by /api/firebase-token only verify against the Auth emulator when
+// firebase-admin uses it too (FIREBASE_AUTH_EMULATOR_HOST)
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  firebaseLogger.info(`Using the Auth emulator at ${authEmulatorHost}`);
+}
@@ -0,0 +1,192 @@
+import {
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions
+} from 'firebase/firestore';
+import type { FollowedUser, NFT, SearchedUser } from '../../types/user';
+import { getMediaKey } from '../../utils/media';
+import { toMillis } from '../timestamps';
+import { toLikeDocument, toPlayDocument, type LikeDocument, type PlayDocument } from '../trackDocuments';
+
+// Typed views over the documents the API routes in src/app/api write. Reads go through
+// these converters so every module builds NFTs and users from a document the same way.
+
+export type { PlayDocument, LikeDocument };
+
+// users/{fid}/following/{fid} and users/{fid}/followers/{fid}
+export type FollowDocument = {
+  fid: number;
+  username: string;
+  display_name: string;
+  pfp_url: string;
+  timestamp: Timestamp | Date;
+};
+
+// user_searches/{searchId}, one row per search a listener made
+export type UserSearchDocument = {
+  searchedFid: number;
+  searchedUsername: string;
+  searchedDisplayName: string;
+  searchedPfpUrl: string;
+  searchedFollowerCount: number;
+  searchedFollowingCount: number;
+  timestamp: number;
+};
+
+// collection is a plain name on play and like documents, but an object on older likes
+const toCollectionName = (collection: unknown): string => {
+  if (typeof collection === 'string') return collection;
+  if (collection && typeof collection === 'object' && 'name' in collection) {
+    return String((collection as { name: unknown }).name);
+  }
+  return 'Unknown Collection';
+};
+
+// The NFT shape the player expects, with the media fields mirrored into metadata
+const toTrack = (data: DocumentData, untitled: string): NFT => {
+  const name = data.name || untitled;
+  const audio = data.audioUrl || '';
+  return {
+    contract: data.nftContract || data.contract,
+    tokenId: data.tokenId,
+    name,
+    description: data.description || '',
+    image: data.image || '',
+    audio,
+    hasValidAudio: Boolean(audio),
+    metadata: data.metadata || {
+      name,
+      description: data.description || '',
+      image: data.image || '',
+      animation_url: audio
+    },
+    collection: { name: toCollectionName(data.collection) },
+    network: data.network === 'base' ? 'base' : 'ethereum'
+  };
+};
+
+export const playConverter: FirestoreDataConverter<NFT, PlayDocument> = {
+  toFirestore(nft: NFT): PlayDocument {
+    return toPlayDocument(nft, nft.mediaKey || getMediaKey(nft));
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): NFT {
+    const data = snapshot.data(options);
+    // top_played entries from before plays moved server-side nest the whole NFT
+    if (!data.nftContract && data.nft) {
+      return { ...data.nft, mediaKey: data.mediaKey || snapshot.id, playCount: data.playCount || 0 };
+    }
+
+    const nft = toTrack(data, 'Untitled NFT');
+    return {
+      ...nft,
+      mediaKey: data.mediaKey || getMediaKey(nft),
+      playCount: data.playCount || 0,
+      timestamp: data.timestamp
+    };
+  }
+};
+
+export const likeConverter: FirestoreDataConverter<NFT, LikeDocument> = {
+  toFirestore(nft: NFT): LikeDocument {
+    return toLikeDocument(nft, nft.mediaKey || getMediaKey(nft));
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): NFT {
+    const data = snapshot.data(options);
+    const liked = data.nft || {};
+    // The document ID is the mediaKey; the nested nft, where there is one, is what was liked
+    return {
+      ...toTrack({
+        ...data,
+        contract: liked.contract || data.contract,
+        tokenId: liked.tokenId || data.tokenId,
+        name: liked.name || data.name,
+        description: liked.description || data.description,
+        image: liked.image || data.image,
+        audioUrl: liked.audio || data.audioUrl,
+        metadata: liked.metadata || data.metadata
+      }, 'Untitled'),
+      mediaKey: snapshot.id
+    };
+  }
+};
+
+export const followedUserConverter: FirestoreDataConverter<FollowedUser> = {
+  toFirestore(user: FollowedUser): FollowDocument {
+    return {
+      fid: user.fid,
+      username: user.username,
+      display_name: user.display_name || user.username,
+      pfp_url: user.pfp_url || `https://avatar.vercel.sh/${user.username}`,
+      timestamp: user.timestamp
+    };
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): FollowedUser {
+    const data = snapshot.data(options);
+    const fid = data.fid || Number(snapshot.id);
+    return {
+      fid,
+      username: data.username || `user${fid}`,
+      display_name: data.display_name || data.username || `User ${fid}`,
+      pfp_url: data.pfp_url || `https://avatar.vercel.sh/${data.username || fid}`,
+      timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date()
+    };
+  }
+};
+
+// searchedusers/{fid}: the profile cached the last time anyone searched for the user
+export const searchedUserConverter: FirestoreDataConverter<SearchedUser> = {
+  toFirestore(user: SearchedUser): DocumentData {
+    return { ...user };
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): SearchedUser {
+    const data = snapshot.data(options);
+    return {
+      fid: data.fid || Number(snapshot.id),
+      username: data.username || '',
+      display_name: data.display_name || data.username || '',
+      pfp_url: data.pfp_url || '',
+      follower_count: data.follower_count || 0,
+      following_count: data.following_count || 0,
+      custody_address: data.custody_address || undefined,
+      // Older entries kept Neynar's shape, with the addresses nested under eth_addresses
+      verifiedAddresses: Array.isArray(data.verifiedAddresses)
+        ? data.verifiedAddresses
+        : data.verifiedAddresses?.eth_addresses || [],
+      searchCount: data.searchCount || 0,
+      lastSearched: data.lastSearched,
+      timestamp: data.timestamp
+    };
+  }
+};
+
+// user_searches rows, read back as the user that was searched for
+export const userSearchConverter: FirestoreDataConverter<SearchedUser> = {
+  toFirestore(user: SearchedUser): UserSearchDocument {
+    return {
+      searchedFid: user.fid,
+      searchedUsername: user.username,
+      searchedDisplayName: user.display_name || user.username,
+      searchedPfpUrl: user.pfp_url || '',
+      searchedFollowerCount: user.follower_count,
+      searchedFollowingCount: user.following_count,
+      timestamp: toMillis(user.timestamp) || Date.now()
+    };
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): SearchedUser {
+    const data = snapshot.data(options);
+    const timestamp = toMillis(data.timestamp) || Date.now();
+    return {
+      fid: data.searchedFid,
+      username: data.searchedUsername,
+      display_name: data.searchedDisplayName,
+      pfp_url: data.searchedPfpUrl,
+      follower_count: data.searchedFollowerCount || 0,
+      following_count: data.searchedFollowingCount || 0,
+      searchCount: 1,
+      timestamp,
+      lastSearched: timestamp
+    };
+  }
+};
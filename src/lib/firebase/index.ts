@@ -1,7 +1,20 @@
 // Central export file for Firebase functionality
 
 // Export from config module
-export { db, auth, storage, firebaseLogger } from './config';
+export { app, db, auth, storage, firebaseLogger } from './config';
+
+// The official PODPlayr account every listener follows
+export { PODPLAYR_ACCOUNT } from '../podplayr';
+
+// Export from converters module
+export {
+  playConverter,
+  likeConverter,
+  followedUserConverter,
+  searchedUserConverter,
+  userSearchConverter
+} from './converters';
+export type { PlayDocument, LikeDocument, FollowDocument, UserSearchDocument } from './converters';
 
 // Export from utils module
 export { delay, fetchWithRetry } from './utils';
@@ -10,27 +23,143 @@ export { delay, fetchWithRetry } from './utils';
 export { 
   cacheUserWallet,
   getCachedWallet,
+  trackUserSearch,
+  subscribeToRecentSearches,
+  getRecentSearches,
   searchUsers
 } from './user';
 
+// Export from NFTs module
+export {
+  fetchNFTDetails,
+  fetchUserNFTs
+} from './nfts';
+
 // Export from plays module
 export {
   trackNFTPlay,
   getTopPlayedNFTs,
+  subscribeToTopPlayed,
   hasBeenTopPlayed,
-  subscribeToRecentPlays
+  subscribeToRecentPlays,
+  getUserPlayHistory,
+  subscribeToUserPlayHistory,
+  getUserTotalPlays
 } from './plays';
+export type { TrackPlayOptions } from './plays';
 
 // Export from likes module
 export {
-  cleanupLikes,
   getLikedNFTs,
   toggleLikeNFT,
-  addLikedNFT,
-  removeLikedNFT,
-  subscribeToLikedNFTs
+  subscribeToLikedNFTs,
+  getUserLikedNFTsCount
 } from './likes';
 
+// Export from playlists module
+export {
+  createPlaylist,
+  renamePlaylist,
+  addTrackToPlaylist,
+  removeTrackFromPlaylist,
+  reorderPlaylist,
+  deletePlaylist,
+  subscribeToPlaylists,
+  playlistTrackToNFT
+} from './playlists';
+
+// Export from playback positions module
+export {
+  savePlaybackPositionToFirestore,
+  getPlaybackPositionFromFirestore,
+  clearPlaybackPositionFromFirestore
+} from './playbackPositions';
+
+// Export from lyrics module
+export {
+  getUploadedLyrics,
+  saveUploadedLyrics,
+  deleteUploadedLyrics
+} from './lyrics';
+
+// Export from chapters module
+export {
+  getOwnerChapters,
+  saveOwnerChapters
+} from './chapters';
+
+// Export from listening parties module
+export {
+  buildPartyPlayback,
+  createListeningParty,
+  joinListeningParty,
+  leaveListeningParty,
+  touchPartyParticipant,
+  updatePartyPlayback,
+  transferPartyHost,
+  endListeningParty,
+  getListeningParty,
+  subscribeToListeningParty,
+  subscribeToPartyParticipants
+} from './listeningParties';
+
+// Export from activity module
+export {
+  recordPlaylistActivity,
+  getActivityFeed,
+  FEED_PAGE_SIZE
+} from './activity';
+
+// Export from charts module
+export {
+  subscribeToChart
+} from './charts';
+
+// Export from listening stats module
+export {
+  getUserPlayEvents,
+  shareWrappedSummary,
+  getWrappedSummary
+} from './listeningStats';
+
+// Export from recommendations module
+export {
+  getRecommendations,
+  recommendedTrackToNFT
+} from './recommendations';
+
+// Export from search index module
+export {
+  SEARCH_PAGE_SIZE,
+  searchCatalog,
+  getIndexedCollectionTracks
+} from './searchIndex';
+
+// Export from collection stats module
+export {
+  getCollectionStats,
+  getKnownCollectionHolders
+} from './collectionStats';
+
+// Export from artists module
+export {
+  getArtist,
+  getArtistForTrack
+} from './artists';
+
+// Export from comments module
+export {
+  MAX_COMMENT_LENGTH,
+  REPORT_HIDE_THRESHOLD,
+  addComment,
+  deleteComment,
+  reportComment,
+  addReaction,
+  deleteReaction,
+  subscribeToComments,
+  subscribeToReactions
+} from './comments';
+
 // Export from social module
 export {
   followUser,
@@ -41,6 +170,7 @@ export {
   getFollowingCount,
   getFollowersCount,
   getFollowers,
+  getFollowerProfiles,
   subscribeToFollowingUsers,
   subscribeToFollowers,
   ensurePodplayrFollow,
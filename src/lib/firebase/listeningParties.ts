@@ -0,0 +1,181 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  onSnapshot,
+  type DocumentSnapshot
+} from 'firebase/firestore';
+import type { NFT, ListeningParty, PartyParticipant, PartyPlaybackState } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { toPlaylistTrack } from './playlists';
+import { ensureFirebaseUser } from './auth';
+import { sendWrite } from '../writeApi';
+
+// Parties live in listeningParties/{partyId}; the host's playback is a field on the party doc
+// and everyone listening has a doc in listeningParties/{partyId}/participants/{fid}. The rules
+// let only the host write the party, so creating signs the Firebase client in first. Joining
+// goes through /api/parties, which fills in the participant's name and picture from their
+// profile; after that each participant only refreshes their own lastSeen, or leaves.
+const getPartiesRef = () => collection(db, 'listeningParties');
+const getPartyRef = (partyId: string) => doc(db, 'listeningParties', partyId);
+const getParticipantsRef = (partyId: string) => collection(db, 'listeningParties', partyId, 'participants');
+const getParticipantRef = (partyId: string, fid: number) =>
+  doc(db, 'listeningParties', partyId, 'participants', fid.toString());
+
+const toListeningParty = (snapshot: DocumentSnapshot): ListeningParty => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    hostFid: data.hostFid,
+    createdBy: data.createdBy,
+    playback: data.playback,
+    createdAt: data.createdAt || 0,
+    endedAt: data.endedAt ?? null
+  };
+};
+
+export type PartyProfile = Pick<PartyParticipant, 'fid' | 'username' | 'displayName' | 'pfpUrl'>;
+
+export const buildPartyPlayback = (
+  nft: NFT | null,
+  position: number,
+  isPlaying: boolean,
+  playbackRate: number
+): PartyPlaybackState => ({
+  track: nft ? toPlaylistTrack(nft) : null,
+  position,
+  isPlaying,
+  playbackRate,
+  updatedAt: Date.now()
+});
+
+// Start a party hosted by `host`, seeded with whatever they're playing now
+export const createListeningParty = async (host: PartyProfile, playback: PartyPlaybackState): Promise<string> => {
+  if (!host.fid || host.fid <= 0) {
+    throw new Error('Invalid user ID');
+  }
+
+  try {
+    const now = Date.now();
+    await ensureFirebaseUser(host.fid);
+    const partyDoc = await addDoc(getPartiesRef(), {
+      hostFid: host.fid,
+      createdBy: host.fid,
+      playback,
+      createdAt: now,
+      endedAt: null
+    });
+    await joinListeningParty(partyDoc.id, host.fid);
+    firebaseLogger.info(`Created listening party ${partyDoc.id} hosted by ${host.fid}`);
+    return partyDoc.id;
+  } catch (error) {
+    firebaseLogger.error('Error creating listening party:', error);
+    throw error;
+  }
+};
+
+// Signs the Firebase client in too, for the heartbeat and leaving that follow
+export const joinListeningParty = async (partyId: string, fid: number): Promise<void> => {
+  await sendWrite('/api/parties', 'POST', { fid, partyId });
+  await ensureFirebaseUser(fid);
+};
+
+export const leaveListeningParty = async (partyId: string, fid: number): Promise<void> => {
+  try {
+    await deleteDoc(getParticipantRef(partyId, fid));
+  } catch (error) {
+    firebaseLogger.error('Error leaving listening party:', error);
+  }
+};
+
+export const touchPartyParticipant = async (partyId: string, fid: number): Promise<void> => {
+  try {
+    await updateDoc(getParticipantRef(partyId, fid), { lastSeen: Date.now() });
+  } catch (error) {
+    firebaseLogger.warn('Error updating party heartbeat:', error);
+  }
+};
+
+// Only the host should call this; followers read it through subscribeToListeningParty
+export const updatePartyPlayback = async (partyId: string, playback: PartyPlaybackState): Promise<void> => {
+  try {
+    await updateDoc(getPartyRef(partyId), { playback });
+  } catch (error) {
+    firebaseLogger.error('Error broadcasting party playback:', error);
+  }
+};
+
+export const transferPartyHost = async (partyId: string, toFid: number): Promise<void> => {
+  try {
+    await updateDoc(getPartyRef(partyId), { hostFid: toFid });
+    firebaseLogger.info(`Handed listening party ${partyId} to ${toFid}`);
+  } catch (error) {
+    firebaseLogger.error('Error transferring party host:', error);
+    throw error;
+  }
+};
+
+export const endListeningParty = async (partyId: string): Promise<void> => {
+  try {
+    await updateDoc(getPartyRef(partyId), { endedAt: Date.now() });
+  } catch (error) {
+    firebaseLogger.error('Error ending listening party:', error);
+    throw error;
+  }
+};
+
+export const getListeningParty = async (partyId: string): Promise<ListeningParty | null> => {
+  try {
+    const snapshot = await getDoc(getPartyRef(partyId));
+    return snapshot.exists() ? toListeningParty(snapshot) : null;
+  } catch (error) {
+    firebaseLogger.error('Error getting listening party:', error);
+    return null;
+  }
+};
+
+export const subscribeToListeningParty = (
+  partyId: string,
+  callback: (party: ListeningParty | null) => void
+) => {
+  try {
+    return onSnapshot(getPartyRef(partyId), (snapshot) => {
+      if (!snapshot.exists()) {
+        callback(null);
+        return;
+      }
+      callback(toListeningParty(snapshot));
+    }, (error) => {
+      firebaseLogger.error('Error in listening party subscription:', error);
+      callback(null);
+    });
+  } catch (error) {
+    firebaseLogger.error('Error subscribing to listening party:', error);
+    callback(null);
+    return () => {}; // Return empty unsubscribe function
+  }
+};
+
+export const subscribeToPartyParticipants = (
+  partyId: string,
+  callback: (participants: PartyParticipant[]) => void
+) => {
+  try {
+    return onSnapshot(getParticipantsRef(partyId), (snapshot) => {
+      const participants = snapshot.docs
+        .map(participantDoc => participantDoc.data() as PartyParticipant)
+        .sort((a, b) => a.joinedAt - b.joinedAt);
+      callback(participants);
+    }, (error) => {
+      firebaseLogger.error('Error in party participants subscription:', error);
+      callback([]);
+    });
+  } catch (error) {
+    firebaseLogger.error('Error subscribing to party participants:', error);
+    callback([]);
+    return () => {}; // Return empty unsubscribe function
+  }
+};
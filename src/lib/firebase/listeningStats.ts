@@ -0,0 +1,53 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs
+} from 'firebase/firestore';
+import type { PlayEvent, WrappedSummary } from '../../types/user';
+import { toPlayEvent } from '../listeningStats';
+import { toMillis } from '../timestamps';
+import { sendWrite } from '../writeApi';
+import { db, firebaseLogger } from './config';
+
+// Shared yearly recaps live at wrappedSummaries/{fid}-{year}
+const getWrappedRef = (fid: number, year: number) => doc(db, 'wrappedSummaries', `${fid}-${year}`);
+
+// Every play in a user's history, oldest first. Reads the whole subcollection so
+// "first listen" can be judged against everything the user has ever played.
+export const getUserPlayEvents = async (fid: number): Promise<PlayEvent[]> => {
+  if (!fid || fid <= 0) return [];
+
+  try {
+    const snapshot = await getDocs(collection(db, 'users', fid.toString(), 'playHistory'));
+    return snapshot.docs
+      .map(historyDoc => {
+        const data = historyDoc.data();
+        return toPlayEvent(data, toMillis(data.timestamp, data.timestampISO));
+      })
+      .filter(event => event.mediaKey && event.playedAt > 0)
+      .sort((a, b) => a.playedAt - b.playedAt);
+  } catch (error) {
+    firebaseLogger.error('Error getting play events for stats:', error);
+    return [];
+  }
+};
+
+// Built and stored by /api/wrapped from the user's playHistory, so the recap can't be made up.
+// The browser's time zone goes along so the server counts days the way the dashboard does.
+// Returns the stored summary for the share text.
+export const shareWrappedSummary = async (fid: number, year: number): Promise<WrappedSummary> => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { summary } = await sendWrite<{ summary: WrappedSummary }>('/api/wrapped', 'POST', { fid, year, timeZone });
+  return summary;
+};
+
+export const getWrappedSummary = async (fid: number, year: number): Promise<WrappedSummary | null> => {
+  try {
+    const snapshot = await getDoc(getWrappedRef(fid, year));
+    return snapshot.exists() ? (snapshot.data() as WrappedSummary) : null;
+  } catch (error) {
+    firebaseLogger.error('Error getting wrapped summary:', error);
+    return null;
+  }
+};
@@ -0,0 +1,44 @@
+import { doc, getDoc } from 'firebase/firestore';
+import type { NFT } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { getMediaKey } from '../../utils/media';
+import { sendWrite, toTrackPayload } from '../writeApi';
+
+// Owner-uploaded lyrics/transcripts live in lyrics/{mediaKey}, so every copy of the same content shares them
+const getLyricsRef = (mediaKey: string) => doc(db, 'lyrics', mediaKey);
+
+export interface UploadedLyrics {
+  text: string; // Raw LRC or WebVTT
+  uploadedBy: number; // fid
+  contract: string;
+  tokenId: string;
+  updatedAt: number;
+}
+
+export const getUploadedLyrics = async (nft: NFT): Promise<UploadedLyrics | null> => {
+  const mediaKey = nft.mediaKey || getMediaKey(nft);
+  if (!mediaKey) return null;
+
+  try {
+    const snapshot = await getDoc(getLyricsRef(mediaKey));
+    return snapshot.exists() ? (snapshot.data() as UploadedLyrics) : null;
+  } catch (error) {
+    firebaseLogger.error('Error loading uploaded lyrics:', error);
+    return null;
+  }
+};
+
+// Uploads go through /api/lyrics, which checks the uploader holds the NFT
+export const saveUploadedLyrics = async (nft: NFT, fid: number, text: string): Promise<void> => {
+  if (!fid || fid <= 0) throw new Error('Invalid user ID');
+  await sendWrite('/api/lyrics', 'POST', { fid, nft: toTrackPayload(nft), text });
+};
+
+export const deleteUploadedLyrics = async (nft: NFT, fid: number): Promise<void> => {
+  try {
+    await sendWrite('/api/lyrics', 'DELETE', { fid, nft: toTrackPayload(nft) });
+  } catch (error) {
+    firebaseLogger.error('Error deleting uploaded lyrics:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,162 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc
+} from 'firebase/firestore';
+import type { NFT } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { searchedUserConverter } from './converters';
+import { cacheUserWallet, getCachedWallet } from './user';
+import { fetchWithRetry } from './utils';
+
+// Fetch NFT details, from the nft_details cache when we have them and from Neynar otherwise.
+// Clients can't write the cache - anyone could have filled it with made-up metadata.
+export const fetchNFTDetails = async (contractAddress: string, tokenId: string): Promise<NFT | null> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'nft_details'),
+      where('contract', '==', contractAddress),
+      where('tokenId', '==', tokenId)
+    ));
+
+    if (!snapshot.empty) {
+      const data = snapshot.docs[0].data();
+      return {
+        contract: data.contract,
+        tokenId: data.tokenId,
+        name: data.name,
+        description: data.description,
+        image: data.image,
+        audio: data.audioUrl,
+        hasValidAudio: true,
+        metadata: {
+          name: data.name,
+          description: data.description,
+          image: data.image,
+          animation_url: data.audioUrl
+        },
+        collection: {
+          name: data.collection
+        },
+        network: data.network
+      };
+    }
+
+    const neynarKey = process.env.NEXT_PUBLIC_NEYNAR_API_KEY;
+    if (!neynarKey) throw new Error('Neynar API key not found');
+
+    const response = await fetch(
+      `https://api.neynar.com/v2/farcaster/cast?identifier=${contractAddress}&token_id=${tokenId}`,
+      {
+        headers: {
+          'accept': 'application/json',
+          'api_key': neynarKey
+        }
+      }
+    );
+
+    const data = await response.json();
+    if (!data.result) return null;
+
+    const nft: NFT = {
+      contract: contractAddress,
+      tokenId: tokenId,
+      name: data.result.metadata?.name || 'Untitled NFT',
+      description: data.result.metadata?.description,
+      image: data.result.metadata?.image || '',
+      audio: data.result.metadata?.animation_url || '',
+      hasValidAudio: !!data.result.metadata?.animation_url,
+      metadata: {
+        name: data.result.metadata?.name,
+        description: data.result.metadata?.description,
+        image: data.result.metadata?.image,
+        animation_url: data.result.metadata?.animation_url,
+        attributes: data.result.metadata?.attributes
+      },
+      collection: {
+        name: data.result.collection?.name || 'Unknown Collection',
+        image: data.result.collection?.image
+      },
+      network: 'ethereum'
+    };
+
+    return nft;
+  } catch (error) {
+    firebaseLogger.error('Error fetching NFT details:', error);
+    return null;
+  }
+};
+
+// The user's wallets: the cached one, those on their searchedusers entry and, failing both, Neynar
+const getUserAddresses = async (fid: number): Promise<string[]> => {
+  const addresses = new Set<string>();
+
+  const cachedAddress = await getCachedWallet(fid);
+  if (cachedAddress) addresses.add(cachedAddress);
+
+  const userDoc = await getDoc(doc(db, 'searchedusers', fid.toString()).withConverter(searchedUserConverter));
+  const searchedUser = userDoc.data();
+  if (searchedUser) {
+    if (searchedUser.custody_address) addresses.add(searchedUser.custody_address);
+    searchedUser.verifiedAddresses?.forEach(address => addresses.add(address));
+  }
+
+  if (addresses.size === 0) {
+    firebaseLogger.info('No known addresses, fetching from Neynar...');
+    const neynarKey = process.env.NEXT_PUBLIC_NEYNAR_API_KEY;
+    if (!neynarKey) throw new Error('Neynar API key not found');
+
+    const profileResponse = await fetchWithRetry(
+      `https://api.neynar.com/v2/farcaster/user/bulk?fids=${fid}`,
+      {
+        headers: {
+          'accept': 'application/json',
+          'api_key': neynarKey
+        }
+      }
+    );
+    const user = (await profileResponse.json()).users?.[0];
+    if (user?.custody_address) addresses.add(user.custody_address);
+    user?.verified_addresses?.eth_addresses?.forEach((address: string) => addresses.add(address));
+  }
+
+  const uniqueAddresses = Array.from(addresses);
+  if (!cachedAddress && uniqueAddresses.length > 0) {
+    await cacheUserWallet(fid, uniqueAddresses[0]);
+  }
+  return uniqueAddresses;
+};
+
+// Fetch NFTs for a specific user by their fid, across all their known wallets
+export const fetchUserNFTs = async (fid: number): Promise<NFT[]> => {
+  try {
+    firebaseLogger.info('=== START NFT FETCH for FID:', fid, ' ===');
+
+    const addresses = await getUserAddresses(fid);
+    if (addresses.length === 0) {
+      firebaseLogger.info('No addresses found for user');
+      return [];
+    }
+
+    firebaseLogger.info('Fetching NFTs from Alchemy for addresses:', addresses);
+    const { fetchUserNFTsFromAlchemy } = await import('../alchemy');
+    const alchemyResults = await Promise.all(addresses.map(address => fetchUserNFTsFromAlchemy(address)));
+
+    // Deduplicate NFTs by contract+tokenId
+    const nftMap = new Map<string, NFT>();
+    alchemyResults.flat().forEach(nft => {
+      const key = `${nft.contract}-${nft.tokenId}`;
+      if (!nftMap.has(key)) {
+        nftMap.set(key, nft);
+      }
+    });
+
+    firebaseLogger.info('Total unique NFTs found:', nftMap.size);
+    return Array.from(nftMap.values());
+  } catch (error) {
+    firebaseLogger.error('Error fetching user NFTs:', error);
+    return [];
+  }
+};
@@ -0,0 +1,62 @@
+import { doc, getDoc, setDoc, deleteDoc } from 'firebase/firestore';
+import { db, firebaseLogger } from './config';
+import { ensureFirebaseUser } from './auth';
+import type { PlaybackPosition } from '../playbackPositions';
+
+// Positions are stored under users/{fid}/playbackPositions/{mediaKey} so they follow the user across
+// devices; only fid may write them
+const getPlaybackPositionRef = (fid: number, mediaKey: string) =>
+  doc(db, 'users', fid.toString(), 'playbackPositions', mediaKey);
+
+export const savePlaybackPositionToFirestore = async (
+  fid: number,
+  mediaKey: string,
+  position: PlaybackPosition
+): Promise<void> => {
+  if (!fid || fid <= 0 || !mediaKey) return;
+
+  try {
+    await ensureFirebaseUser(fid);
+    await setDoc(getPlaybackPositionRef(fid, mediaKey), {
+      mediaKey,
+      position: position.position,
+      duration: position.duration,
+      updatedAt: position.updatedAt
+    });
+  } catch (error) {
+    firebaseLogger.error('Error saving playback position:', error);
+  }
+};
+
+export const getPlaybackPositionFromFirestore = async (
+  fid: number,
+  mediaKey: string
+): Promise<PlaybackPosition | null> => {
+  if (!fid || fid <= 0 || !mediaKey) return null;
+
+  try {
+    const snapshot = await getDoc(getPlaybackPositionRef(fid, mediaKey));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data();
+    return {
+      position: data.position || 0,
+      duration: data.duration || 0,
+      updatedAt: data.updatedAt || 0
+    };
+  } catch (error) {
+    firebaseLogger.error('Error loading playback position:', error);
+    return null;
+  }
+};
+
+export const clearPlaybackPositionFromFirestore = async (fid: number, mediaKey: string): Promise<void> => {
+  if (!fid || fid <= 0 || !mediaKey) return;
+
+  try {
+    await ensureFirebaseUser(fid);
+    await deleteDoc(getPlaybackPositionRef(fid, mediaKey));
+  } catch (error) {
+    firebaseLogger.error('Error clearing playback position:', error);
+  }
+};
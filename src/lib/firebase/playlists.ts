@@ -0,0 +1,258 @@
+import {
+  collection,
+  query,
+  orderBy,
+  doc,
+  onSnapshot,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore';
+import type { NFT, Playlist, PlaylistTrack } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { getMediaKey } from '../../utils/media';
+import { recordPlaylistActivity } from './activity';
+import { ensureFirebaseUser } from './auth';
+
+// Playlists live under users/{fid}/playlists - one document per playlist with an ordered tracks array.
+// Only fid may write them, so every write signs the Firebase client in as fid first.
+const getPlaylistsRef = (fid: number) => collection(db, 'users', fid.toString(), 'playlists');
+const getPlaylistRef = (fid: number, playlistId: string) => doc(db, 'users', fid.toString(), 'playlists', playlistId);
+
+// Build the compact track entry we persist for an NFT (same fields we keep for likes)
+export const toPlaylistTrack = (nft: NFT): PlaylistTrack | null => {
+  const mediaKey = nft.mediaKey || getMediaKey(nft);
+  if (!mediaKey) return null;
+
+  return {
+    mediaKey,
+    contract: nft.contract,
+    tokenId: nft.tokenId,
+    name: nft.name || 'Untitled',
+    description: nft.description || (typeof nft.metadata?.description === 'string' ? nft.metadata.description : '') || '',
+    image: nft.image || (typeof nft.metadata?.image === 'string' ? nft.metadata.image : '') || '',
+    audioUrl: nft.audio || (typeof nft.metadata?.animation_url === 'string' ? nft.metadata.animation_url : '') || '',
+    collection: nft.collection?.name || '',
+    network: nft.network || 'ethereum',
+    // Round-trip through JSON so nested metadata carries no undefined values, which Firestore rejects
+    metadata: JSON.parse(JSON.stringify(nft.metadata || {})),
+    addedAt: Date.now()
+  };
+};
+
+// Collapse tracks that share a mediaKey, keeping the first occurrence's position
+const dedupeTracks = (tracks: PlaylistTrack[]): PlaylistTrack[] => {
+  const seen = new Set<string>();
+  return tracks.filter(track => {
+    if (!track?.mediaKey || seen.has(track.mediaKey)) return false;
+    seen.add(track.mediaKey);
+    return true;
+  });
+};
+
+// Convert a stored playlist track back into an NFT the player understands
+export const playlistTrackToNFT = (track: PlaylistTrack): NFT => ({
+  mediaKey: track.mediaKey,
+  contract: track.contract,
+  tokenId: track.tokenId,
+  name: track.name || 'Untitled',
+  description: track.description || '',
+  image: track.image || '',
+  audio: track.audioUrl || '',
+  hasValidAudio: Boolean(track.audioUrl),
+  collection: track.collection ? { name: track.collection } : undefined,
+  network: track.network || 'ethereum',
+  metadata: {
+    ...(track.metadata || {}),
+    image: track.metadata?.image || track.image || '',
+    animation_url: track.metadata?.animation_url || track.audioUrl || ''
+  }
+});
+
+// Rewrite a playlist's tracks from the ones it holds now, throwing if it doesn't exist. The read
+// and the write share a transaction, so edits from two tabs retry instead of dropping each
+// other's tracks. edit returns null to leave the playlist alone; the result says whether it did.
+const updatePlaylistTracks = async (
+  fid: number,
+  playlistId: string,
+  edit: (tracks: PlaylistTrack[]) => PlaylistTrack[] | null
+): Promise<boolean> => {
+  await ensureFirebaseUser(fid);
+  return runTransaction(db, async transaction => {
+    const playlistRef = getPlaylistRef(fid, playlistId);
+    const snapshot = await transaction.get(playlistRef);
+    if (!snapshot.exists()) {
+      throw new Error('Playlist not found');
+    }
+
+    const tracks = edit((snapshot.data().tracks || []) as PlaylistTrack[]);
+    if (!tracks) return false;
+    transaction.update(playlistRef, { tracks, updatedAt: Date.now() });
+    return true;
+  });
+};
+
+// Create a new named playlist, optionally seeded with NFTs
+export const createPlaylist = async (fid: number, name: string, nfts: NFT[] = []): Promise<string> => {
+  if (!fid || fid <= 0) {
+    firebaseLogger.error('Invalid fid provided to createPlaylist:', fid);
+    throw new Error('Invalid user ID');
+  }
+
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Playlist name is required');
+  }
+
+  try {
+    const tracks = dedupeTracks(
+      nfts.map(toPlaylistTrack).filter((track): track is PlaylistTrack => track !== null)
+    );
+    const now = Date.now();
+
+    await ensureFirebaseUser(fid);
+    const playlistDoc = await addDoc(getPlaylistsRef(fid), {
+      name: trimmedName,
+      tracks,
+      createdAt: now,
+      updatedAt: now,
+      serverTimestamp: serverTimestamp()
+    });
+
+    firebaseLogger.info(`Created playlist "${trimmedName}" (${playlistDoc.id}) with ${tracks.length} tracks for user ${fid}`);
+    recordPlaylistActivity(fid, playlistDoc.id);
+    return playlistDoc.id;
+  } catch (error) {
+    firebaseLogger.error('Error creating playlist:', error);
+    throw error;
+  }
+};
+
+// Rename an existing playlist
+export const renamePlaylist = async (fid: number, playlistId: string, name: string): Promise<void> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Playlist name is required');
+  }
+
+  try {
+    await ensureFirebaseUser(fid);
+    await updateDoc(getPlaylistRef(fid, playlistId), {
+      name: trimmedName,
+      updatedAt: Date.now()
+    });
+    firebaseLogger.info(`Renamed playlist ${playlistId} to "${trimmedName}" for user ${fid}`);
+  } catch (error) {
+    firebaseLogger.error('Error renaming playlist:', error);
+    throw error;
+  }
+};
+
+// Append an NFT to a playlist - a no-op if the same content (mediaKey) is already in it
+export const addTrackToPlaylist = async (fid: number, playlistId: string, nft: NFT): Promise<boolean> => {
+  const track = toPlaylistTrack(nft);
+  if (!track) {
+    firebaseLogger.error('Could not generate mediaKey for NFT:', nft);
+    throw new Error('Could not generate mediaKey');
+  }
+
+  try {
+    const added = await updatePlaylistTracks(fid, playlistId, tracks =>
+      tracks.some(existing => existing.mediaKey === track.mediaKey) ? null : [...tracks, track]
+    );
+    if (!added) {
+      firebaseLogger.info(`Track ${track.mediaKey} already in playlist ${playlistId}, skipping`);
+      return false;
+    }
+
+    firebaseLogger.info(`Added ${track.name} to playlist ${playlistId} for user ${fid}`);
+    return true;
+  } catch (error) {
+    firebaseLogger.error('Error adding track to playlist:', error);
+    throw error;
+  }
+};
+
+// Remove a track (by mediaKey) from a playlist
+export const removeTrackFromPlaylist = async (fid: number, playlistId: string, mediaKey: string): Promise<void> => {
+  try {
+    await updatePlaylistTracks(fid, playlistId, tracks => tracks.filter(track => track.mediaKey !== mediaKey));
+    firebaseLogger.info(`Removed ${mediaKey} from playlist ${playlistId} for user ${fid}`);
+  } catch (error) {
+    firebaseLogger.error('Error removing track from playlist:', error);
+    throw error;
+  }
+};
+
+// Reorder a playlist to match the given mediaKey order
+// Keys missing from the new order keep their relative position at the end so a stale client can't drop tracks
+export const reorderPlaylist = async (fid: number, playlistId: string, orderedMediaKeys: string[]): Promise<void> => {
+  try {
+    await updatePlaylistTracks(fid, playlistId, tracks => {
+      const byKey = new Map(tracks.map(track => [track.mediaKey, track]));
+
+      const reordered: PlaylistTrack[] = [];
+      orderedMediaKeys.forEach(mediaKey => {
+        const track = byKey.get(mediaKey);
+        if (track) {
+          reordered.push(track);
+          byKey.delete(mediaKey);
+        }
+      });
+      tracks.forEach(track => {
+        if (byKey.has(track.mediaKey)) reordered.push(track);
+      });
+      return dedupeTracks(reordered);
+    });
+    firebaseLogger.info(`Reordered playlist ${playlistId} for user ${fid}`);
+  } catch (error) {
+    firebaseLogger.error('Error reordering playlist:', error);
+    throw error;
+  }
+};
+
+// Delete a playlist entirely
+export const deletePlaylist = async (fid: number, playlistId: string): Promise<void> => {
+  try {
+    await ensureFirebaseUser(fid);
+    await deleteDoc(getPlaylistRef(fid, playlistId));
+    firebaseLogger.info(`Deleted playlist ${playlistId} for user ${fid}`);
+  } catch (error) {
+    firebaseLogger.error('Error deleting playlist:', error);
+    throw error;
+  }
+};
+
+// Subscribe to a user's playlists with real-time updates (newest first)
+export const subscribeToPlaylists = (fid: number, callback: (playlists: Playlist[]) => void): () => void => {
+  if (!fid || fid <= 0) {
+    firebaseLogger.error('Invalid fid provided to subscribeToPlaylists:', fid);
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(getPlaylistsRef(fid), orderBy('createdAt', 'desc'));
+
+  firebaseLogger.info(`Subscribing to playlists for user ${fid}`);
+
+  return onSnapshot(q, (snapshot) => {
+    const playlists: Playlist[] = snapshot.docs.map(playlistDoc => {
+      const data = playlistDoc.data();
+      return {
+        id: playlistDoc.id,
+        name: data.name || 'Untitled Playlist',
+        tracks: dedupeTracks(data.tracks || []),
+        createdAt: data.createdAt || 0,
+        updatedAt: data.updatedAt || 0
+      };
+    });
+
+    firebaseLogger.info(`Found ${playlists.length} playlists for user ${fid}`);
+    callback(playlists);
+  }, (error) => {
+    firebaseLogger.error('Error in playlists subscription:', error);
+    callback([]);
+  });
+};
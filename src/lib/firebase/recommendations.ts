@@ -0,0 +1,23 @@
+import { doc, getDoc } from 'firebase/firestore';
+import type { NFT, RecommendedTrack, TrackRecommendations } from '../../types/user';
+import { db, firebaseLogger } from './config';
+import { playlistTrackToNFT } from './playlists';
+
+// One document per seed track at recommendations/{mediaKey}, rebuilt on the server by syncRecommendations
+const getRecommendationsRef = (mediaKey: string) => doc(db, 'recommendations', mediaKey);
+
+// Precomputed neighbors for one track, most similar first
+export const getRecommendations = async (mediaKey: string): Promise<RecommendedTrack[]> => {
+  if (!mediaKey) return [];
+
+  try {
+    const snapshot = await getDoc(getRecommendationsRef(mediaKey));
+    return snapshot.exists() ? ((snapshot.data() as TrackRecommendations).neighbors || []) : [];
+  } catch (error) {
+    firebaseLogger.error('Error getting recommendations:', error);
+    return [];
+  }
+};
+
+export const recommendedTrackToNFT = (track: RecommendedTrack): NFT =>
+  playlistTrackToNFT({ ...track, addedAt: 0 });
@@ -0,0 +1,111 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  type DocumentData
+} from 'firebase/firestore';
+import type { ActivityTrack, GroupedSearchResults, SearchIndexEntry } from '../../types/user';
+import { MAX_PREFIX_LENGTH, getTrigrams, scoreWords, tokenize } from '../searchText';
+import { db, firebaseLogger } from './config';
+
+// One document per track and per collection at searchIndex/{id}, rebuilt on the server by syncSearchIndex
+const SEARCH_INDEX_COLLECTION = 'searchIndex';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// Candidates fetched per query before scoring on the client
+const CANDIDATE_LIMIT = 100;
+
+// Firestore caps array-contains-any at 30 values
+const MAX_QUERY_TRIGRAMS = 30;
+
+// Entries scoring below this for a query are dropped
+const MIN_SCORE = 0.5;
+
+const toSearchEntry = (data: DocumentData, score: number): SearchIndexEntry => ({
+  id: data.id,
+  type: data.type,
+  title: data.title || 'Untitled',
+  subtitle: data.subtitle || '',
+  image: data.image || '',
+  contract: data.contract || '',
+  network: data.network === 'base' ? 'base' : 'ethereum',
+  track: data.track || null,
+  trackCount: data.trackCount || 0,
+  popularity: data.popularity || 0,
+  score
+});
+
+/**
+ * Search indexed tracks and collections. Candidates come from a prefix match on the
+ * longest query word plus a trigram match for typos; every candidate is then scored
+ * against all the query words.
+ */
+export const searchCatalog = async (
+  text: string,
+  pageSize: number = SEARCH_PAGE_SIZE
+): Promise<Pick<GroupedSearchResults, 'tracks' | 'collections'>> => {
+  const queryWords = tokenize(text);
+  if (queryWords.length === 0) return { tracks: [], collections: [] };
+
+  try {
+    const searchIndex = collection(db, SEARCH_INDEX_COLLECTION);
+    const longestWord = [...queryWords].sort((a, b) => b.length - a.length)[0];
+    const [prefixSnapshot, fuzzySnapshot] = await Promise.all([
+      getDocs(query(
+        searchIndex,
+        where('prefixes', 'array-contains', longestWord.slice(0, MAX_PREFIX_LENGTH)),
+        orderBy('popularity', 'desc'),
+        limit(CANDIDATE_LIMIT)
+      )),
+      getDocs(query(
+        searchIndex,
+        where('trigrams', 'array-contains-any', getTrigrams(longestWord).slice(0, MAX_QUERY_TRIGRAMS)),
+        orderBy('popularity', 'desc'),
+        limit(CANDIDATE_LIMIT)
+      ))
+    ]);
+
+    const candidates = new Map<string, SearchIndexEntry>();
+    [...prefixSnapshot.docs, ...fuzzySnapshot.docs].forEach(entryDoc => {
+      if (candidates.has(entryDoc.id)) return;
+      const data = entryDoc.data();
+      const score = scoreWords(queryWords, data.words || []);
+      if (score >= MIN_SCORE) candidates.set(entryDoc.id, toSearchEntry(data, score));
+    });
+
+    const ranked = Array.from(candidates.values())
+      .sort((a, b) => b.score - a.score || b.popularity - a.popularity);
+    return {
+      tracks: ranked.filter(entry => entry.type === 'track').slice(0, pageSize),
+      collections: ranked.filter(entry => entry.type === 'collection').slice(0, pageSize)
+    };
+  } catch (error) {
+    firebaseLogger.error('Error searching catalog:', error);
+    return { tracks: [], collections: [] };
+  }
+};
+
+// Indexed tracks from one contract, most popular first
+export const getIndexedCollectionTracks = async (contract: string): Promise<ActivityTrack[]> => {
+  if (!contract) return [];
+
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, SEARCH_INDEX_COLLECTION),
+      where('type', '==', 'track'),
+      where('contract', '==', contract.toLowerCase()),
+      limit(CANDIDATE_LIMIT)
+    ));
+    return snapshot.docs
+      .map(entryDoc => entryDoc.data())
+      .sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
+      .flatMap(data => (data.track ? [data.track as ActivityTrack] : []));
+  } catch (error) {
+    firebaseLogger.error('Error getting indexed collection tracks:', error);
+    return [];
+  }
+};
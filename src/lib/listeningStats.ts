@@ -0,0 +1,219 @@
+import type { PlayEvent, ListeningStats, StatsRankItem, WrappedSummary } from '../types/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_LIMIT = 5;
+const DAYS_SHOWN = 7;
+const WEEKS_SHOWN = 8;
+
+// A playHistory row as a stats event; playedAt is read by the caller, since the client and
+// firebase-admin SDKs each have their own Timestamp class
+export const toPlayEvent = (data: Record<string, any>, playedAt: number): PlayEvent => ({
+  mediaKey: data.mediaKey || '',
+  contract: data.nftContract || '',
+  tokenId: data.tokenId || '',
+  name: data.name || 'Untitled',
+  image: data.image || '',
+  audioUrl: data.audioUrl || '',
+  collection: data.collection || '',
+  network: data.network === 'base' ? 'base' : 'ethereum',
+  creator: data.creator || null,
+  durationSeconds: typeof data.durationSeconds === 'number' ? data.durationSeconds : null,
+  listenedSeconds: typeof data.listenedSeconds === 'number' ? data.listenedSeconds : null,
+  playedAt
+});
+
+// One formatter per IANA zone; undefined is the runtime's own zone
+const calendarFormatters = new Map<string | undefined, Intl.DateTimeFormat>();
+
+const getCalendarFormatter = (timeZone?: string): Intl.DateTimeFormat => {
+  let formatter = calendarFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    });
+    calendarFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getCalendarFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock time in timeZone at timestamp, written as if it were UTC
+const toWallClock = (timestamp: number, timeZone?: string): number => {
+  const parts = Object.fromEntries(
+    getCalendarFormatter(timeZone).formatToParts(timestamp).map(part => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// The moment the wall clock in timeZone reads midnight on the given calendar day
+const startOfDay = (year: number, month: number, day: number, timeZone?: string): number => {
+  const wallClock = Date.UTC(year, month, day);
+  const guess = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+  // The offset can differ on the day itself when it starts a DST change
+  return wallClock - (toWallClock(guess, timeZone) - guess);
+};
+
+// Calendar day number in the listener's zone, so streaks and per-day buckets follow their
+// midnight even when the stats are worked out on the server
+const toDayIndex = (timestamp: number, timeZone?: string): number =>
+  Math.floor(toWallClock(timestamp, timeZone) / DAY_MS);
+
+// Labels for a calendar day; the day number is already in the listener's zone
+const formatDay = (dayIndex: number, options: Intl.DateTimeFormatOptions): string =>
+  new Date(dayIndex * DAY_MS).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+
+// Time actually listened, never more than the track's length. Plays from before listens were
+// recorded count their whole length.
+const toMinutes = (events: PlayEvent[]): number =>
+  Math.round(events.reduce((total, event) => {
+    const listened = event.listenedSeconds ?? event.durationSeconds ?? 0;
+    return total + (event.durationSeconds ? Math.min(listened, event.durationSeconds) : listened);
+  }, 0) / 60);
+
+const rankBy = (
+  events: PlayEvent[],
+  getKey: (event: PlayEvent) => string | null | undefined,
+  getLabel: (event: PlayEvent) => string,
+  getImage?: (event: PlayEvent) => string
+): StatsRankItem[] => {
+  const counts = new Map<string, StatsRankItem>();
+  events.forEach(event => {
+    const key = getKey(event);
+    if (!key) return;
+    const existing = counts.get(key);
+    if (existing) {
+      existing.plays++;
+    } else {
+      // image is left off rather than undefined - these get written to Firestore when shared
+      counts.set(key, { key, label: getLabel(event), ...(getImage ? { image: getImage(event) } : {}), plays: 1 });
+    }
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.plays - a.plays || a.label.localeCompare(b.label))
+    .slice(0, TOP_LIMIT);
+};
+
+const getStreaks = (events: PlayEvent[], today: number, timeZone?: string) => {
+  const days = Array.from(new Set(events.map(event => toDayIndex(event.playedAt, timeZone)))).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // A streak is still alive if the last play was today or yesterday
+  const lastDay = days[days.length - 1];
+  const current = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+  return { current, longest };
+};
+
+/**
+ * Compute the stats dashboard from a user's full play history (oldest first).
+ * Rankings and first listens cover [since, until]; the per-day/week minutes and
+ * streaks always look back from `until`, by the calendar in timeZone (the runtime's own
+ * when omitted).
+ */
+export const computeListeningStats = (
+  allEvents: PlayEvent[],
+  since: number,
+  until: number = Date.now(),
+  timeZone?: string
+): ListeningStats => {
+  const events = allEvents.filter(event => event.playedAt >= since && event.playedAt <= until);
+  const today = toDayIndex(until, timeZone);
+  const eventDays = allEvents.map(event => toDayIndex(event.playedAt, timeZone));
+
+  const minutesByDay = Array.from({ length: DAYS_SHOWN }, (_, i) => {
+    const day = today - (DAYS_SHOWN - 1 - i);
+    return {
+      label: formatDay(day, { weekday: 'short' }),
+      minutes: toMinutes(allEvents.filter((_, index) => eventDays[index] === day))
+    };
+  });
+
+  const minutesByWeek = Array.from({ length: WEEKS_SHOWN }, (_, i) => {
+    const weekEnd = today - (WEEKS_SHOWN - 1 - i) * 7;
+    const weekStart = weekEnd - 6;
+    return {
+      label: formatDay(weekStart, { month: 'numeric', day: 'numeric' }),
+      minutes: toMinutes(allEvents.filter((_, index) => eventDays[index] >= weekStart && eventDays[index] <= weekEnd))
+    };
+  });
+
+  // A first listen is a track whose earliest play in the whole history falls in the period
+  const firstPlays = new Map<string, PlayEvent>();
+  allEvents.forEach(event => {
+    if (!firstPlays.has(event.mediaKey)) firstPlays.set(event.mediaKey, event);
+  });
+  const firstListens = Array.from(firstPlays.values())
+    .filter(event => event.playedAt >= since && event.playedAt <= until)
+    .sort((a, b) => b.playedAt - a.playedAt);
+
+  const { current, longest } = getStreaks(allEvents.filter(event => event.playedAt <= until), today, timeZone);
+
+  return {
+    totalPlays: events.length,
+    totalMinutes: toMinutes(events),
+    topTracks: rankBy(events, event => event.mediaKey, event => event.name, event => event.image),
+    topCollections: rankBy(events, event => event.collection, event => event.collection || ''),
+    topCreators: rankBy(events, event => event.creator?.toLowerCase(), event => event.creator || ''),
+    minutesByDay,
+    minutesByWeek,
+    currentStreak: current,
+    longestStreak: longest,
+    firstListens: firstListens.length,
+    recentFirstListens: firstListens.slice(0, TOP_LIMIT).map(event => ({
+      key: event.mediaKey,
+      label: event.name,
+      image: event.image,
+      plays: 1
+    }))
+  };
+};
+
+// A calendar year in timeZone (the runtime's own when omitted), cut off at now for the year
+// in progress
+export const getYearRange = (year: number, now: number = Date.now(), timeZone?: string) => ({
+  since: startOfDay(year, 0, 1, timeZone),
+  until: Math.min(startOfDay(year + 1, 0, 1, timeZone) - 1, now)
+});
+
+// The calendar year in timeZone at now
+export const getCurrentYear = (now: number = Date.now(), timeZone?: string): number =>
+  new Date(toWallClock(now, timeZone)).getUTCFullYear();
+
+export const buildWrappedSummary = (
+  stats: ListeningStats,
+  fid: number,
+  username: string,
+  year: number
+): WrappedSummary => ({
+  fid,
+  username,
+  year,
+  totalPlays: stats.totalPlays,
+  totalMinutes: stats.totalMinutes,
+  topTracks: stats.topTracks,
+  topCreators: stats.topCreators,
+  topCollections: stats.topCollections,
+  longestStreak: stats.longestStreak,
+  firstListens: stats.firstListens,
+  createdAt: Date.now()
+});
@@ -0,0 +1,159 @@
+import type { NFT, NFTFile, LyricLine, Lyrics } from '../types/user';
+import { processMediaUrl } from '../utils/media';
+import { logger } from '../utils/logger';
+
+const lyricsLogger = logger.getModuleLogger('lyrics');
+
+// Uploaded files larger than this are almost certainly not lyrics
+export const MAX_LYRICS_LENGTH = 200 * 1024;
+
+const LYRICS_MIME_TYPES = ['text/vtt', 'text/x-lrc', 'application/x-lrc', 'text/lrc'];
+const LYRICS_EXTENSION_PATTERN = /\.(lrc|vtt)(\?|#|$)/i;
+
+// [mm:ss], [mm:ss.xx] or [hh:mm:ss.xxx]
+const LRC_TIMESTAMP_PATTERN = /\[(\d{1,2}:)?(\d{1,3}):(\d{2}(?:[.:]\d{1,3})?)\]/g;
+// hh:mm:ss.ttt --> hh:mm:ss.ttt (hours optional)
+const VTT_CUE_TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const parseClockTime = (value: string): number => {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const parseLRC = (text: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  let offsetSeconds = 0;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    // [offset:+/-ms] shifts every timestamp in the file
+    const offsetMatch = rawLine.match(/^\[offset:\s*([+-]?\d+)\]/i);
+    if (offsetMatch) {
+      offsetSeconds = Number(offsetMatch[1]) / 1000;
+      return;
+    }
+
+    const timestamps = Array.from(rawLine.matchAll(LRC_TIMESTAMP_PATTERN));
+    if (timestamps.length === 0) return;
+
+    const lineText = rawLine.replace(LRC_TIMESTAMP_PATTERN, '').trim();
+    // A line can carry several timestamps when it repeats (e.g. a chorus)
+    timestamps.forEach(match => {
+      const hours = match[1] ? Number(match[1].slice(0, -1)) : 0;
+      const time = hours * 3600 + Number(match[2]) * 60 + Number(match[3].replace(':', '.'));
+      lines.push({ time: Math.max(time - offsetSeconds, 0), text: lineText });
+    });
+  });
+
+  return lines.sort((a, b) => a.time - b.time);
+};
+
+export const parseWebVTT = (text: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  // Cues are separated by blank lines; the header block and NOTE/STYLE blocks have no timing
+  text.replace(/\r\n/g, '\n').split(/\n{2,}/).forEach(block => {
+    const blockLines = block.split('\n');
+    const timingIndex = blockLines.findIndex(line => VTT_CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) return;
+
+    const timing = blockLines[timingIndex].match(VTT_CUE_TIMING_PATTERN)!;
+    const cueText = blockLines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '') // Strip voice/styling tags
+      .trim();
+    if (!cueText) return;
+
+    lines.push({
+      time: parseClockTime(timing[1]),
+      endTime: parseClockTime(timing[2]),
+      text: cueText
+    });
+  });
+
+  return lines.sort((a, b) => a.time - b.time);
+};
+
+// Detect the format from the content itself, since metadata rarely labels it
+export const parseLyrics = (text: string, source: Lyrics['source']): Lyrics | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('WEBVTT')) {
+    const lines = parseWebVTT(trimmed);
+    return lines.length > 0 ? { format: 'vtt', lines, source } : null;
+  }
+
+  const lines = parseLRC(trimmed);
+  return lines.length > 0 ? { format: 'lrc', lines, source } : null;
+};
+
+const isLyricsFile = (file: NFTFile): boolean => {
+  const mimeType = (file.mimeType || file.type || '').toLowerCase();
+  const url = file.uri || file.url || '';
+  return LYRICS_MIME_TYPES.includes(mimeType) || LYRICS_EXTENSION_PATTERN.test(url);
+};
+
+// Find lyrics in an NFT's metadata: inline LRC/VTT text or a link to a file.
+// Checks the top-level fields, then properties, then properties.files entries.
+export const findLyricsInMetadata = (nft: NFT): string | null => {
+  const metadata = nft.metadata;
+  if (!metadata) return null;
+
+  const candidates = [
+    metadata.lyrics,
+    metadata.transcript,
+    metadata.properties?.lyrics,
+    metadata.properties?.transcript
+  ];
+  const inline = candidates.find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+  if (inline) return inline;
+
+  const file = metadata.properties?.files?.find(isLyricsFile);
+  return file ? (file.uri || file.url || null) : null;
+};
+
+const isUrl = (value: string) => /^(https?|ipfs|ar):\/\//i.test(value.trim());
+
+// Resolve metadata lyrics to parsed lines, fetching them first if metadata only links to a file
+export const loadLyricsFromMetadata = async (nft: NFT): Promise<Lyrics | null> => {
+  const found = findLyricsInMetadata(nft);
+  if (!found) return null;
+
+  if (!isUrl(found)) {
+    return parseLyrics(found, 'metadata');
+  }
+
+  try {
+    const response = await fetch(processMediaUrl(found.trim()));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const text = await response.text();
+    return parseLyrics(text.slice(0, MAX_LYRICS_LENGTH), 'metadata');
+  } catch (error) {
+    lyricsLogger.warn(`Error fetching lyrics for ${nft.contract}-${nft.tokenId}:`, error);
+    return null;
+  }
+};
+
+// Index of the line that should be highlighted at `time`, or -1 before the first line
+export const getActiveLyricIndex = (lines: LyricLine[], time: number): number => {
+  let low = 0;
+  let high = lines.length - 1;
+  let active = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].time <= time) {
+      active = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // WebVTT cues go quiet between their end and the next cue's start
+  const line = lines[active];
+  if (line?.endTime !== undefined && time > line.endTime) return -1;
+  return active;
+};
@@ -0,0 +1,32 @@
+// Rules for when a listen counts as a play, shared by the player (which decides when to report
+// one) and the plays API (which checks the report before counting it)
+
+// Share of a track that has to actually be listened to, not skipped past, before it's a play
+export const PLAY_THRESHOLD_RATIO = 0.25;
+
+// Very short tracks still need a few seconds of listening, and the plays API never counts less
+export const MIN_LISTEN_SECONDS = 5;
+
+// Gaps between timeupdate events larger than this are seeks, not listening
+const MAX_LISTEN_STEP_SECONDS = 2;
+
+export const requiredListenSeconds = (durationSeconds: number): number =>
+  Math.min(durationSeconds, Math.max(durationSeconds * PLAY_THRESHOLD_RATIO, MIN_LISTEN_SECONDS));
+
+/**
+ * Accumulates how much of a track has been heard from successive currentTime readings.
+ * Forward steps small enough to be playback add up; seeks and rewinds add nothing.
+ */
+export const createListenMeter = () => {
+  let lastTime: number | null = null;
+  let listenedSeconds = 0;
+
+  return (currentTime: number): number => {
+    if (lastTime !== null) {
+      const step = currentTime - lastTime;
+      if (step > 0 && step <= MAX_LISTEN_STEP_SECONDS) listenedSeconds += step;
+    }
+    lastTime = currentTime;
+    return listenedSeconds;
+  };
+};
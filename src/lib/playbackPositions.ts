@@ -0,0 +1,105 @@
+import { logger } from '../utils/logger';
+
+const positionsLogger = logger.getModuleLogger('playbackPositions');
+
+// localStorage key for saved playback positions, keyed by mediaKey
+export const PLAYBACK_POSITIONS_STORAGE_KEY = 'podplayr_playback_positions';
+
+// Only long-form media (podcast-length episodes, mixes) is worth resuming
+const MIN_RESUMABLE_DURATION = 5 * 60;
+
+// Positions this close to the start aren't worth offering a resume for
+const MIN_RESUME_POSITION = 15;
+
+// Past this fraction of the duration the item counts as finished and the position is dropped
+const COMPLETED_FRACTION = 0.95;
+
+// Keep storage bounded - the least recently updated entries are evicted first
+const MAX_SAVED_POSITIONS = 200;
+
+export interface PlaybackPosition {
+  position: number; // Seconds
+  duration: number; // Seconds
+  updatedAt: number;
+}
+
+const readPositions = (): Record<string, PlaybackPosition> => {
+  try {
+    const stored = localStorage.getItem(PLAYBACK_POSITIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    positionsLogger.warn('Error reading playback positions from localStorage:', error);
+    return {};
+  }
+};
+
+const writePositions = (positions: Record<string, PlaybackPosition>) => {
+  try {
+    const keys = Object.keys(positions);
+    if (keys.length > MAX_SAVED_POSITIONS) {
+      keys
+        .sort((a, b) => positions[a].updatedAt - positions[b].updatedAt)
+        .slice(0, keys.length - MAX_SAVED_POSITIONS)
+        .forEach(key => delete positions[key]);
+    }
+    localStorage.setItem(PLAYBACK_POSITIONS_STORAGE_KEY, JSON.stringify(positions));
+  } catch (error) {
+    positionsLogger.warn('Error saving playback positions to localStorage:', error);
+  }
+};
+
+export const isLongFormDuration = (duration: number): boolean =>
+  Number.isFinite(duration) && duration >= MIN_RESUMABLE_DURATION;
+
+// Whether a position is meaningful enough to keep (long-form, started, not finished)
+export const isResumablePosition = (position: number, duration: number): boolean =>
+  isLongFormDuration(duration) &&
+  position >= MIN_RESUME_POSITION &&
+  position < duration * COMPLETED_FRACTION;
+
+export const getPlaybackPosition = (mediaKey: string): PlaybackPosition | null => {
+  if (!mediaKey) return null;
+  return readPositions()[mediaKey] || null;
+};
+
+// Save (or drop, if no longer resumable) the position for a mediaKey
+export const savePlaybackPosition = (mediaKey: string, position: number, duration: number): void => {
+  if (!mediaKey) return;
+  const positions = readPositions();
+
+  if (!isResumablePosition(position, duration)) {
+    if (positions[mediaKey]) {
+      delete positions[mediaKey];
+      writePositions(positions);
+    }
+    return;
+  }
+
+  positions[mediaKey] = { position, duration, updatedAt: Date.now() };
+  writePositions(positions);
+};
+
+export const clearPlaybackPosition = (mediaKey: string): void => {
+  const positions = readPositions();
+  if (!positions[mediaKey]) return;
+  delete positions[mediaKey];
+  writePositions(positions);
+};
+
+// Adopt a position from another device if it's newer than what we have locally
+export const mergePlaybackPosition = (mediaKey: string, remote: PlaybackPosition): PlaybackPosition => {
+  const local = getPlaybackPosition(mediaKey);
+  if (local && local.updatedAt >= remote.updatedAt) return local;
+
+  const positions = readPositions();
+  positions[mediaKey] = remote;
+  writePositions(positions);
+  return remote;
+};
+
+// Fraction played (0-1) for a partially played item, or null if there's nothing to resume
+export const getPlaybackProgress = (mediaKey: string): number | null => {
+  const saved = getPlaybackPosition(mediaKey);
+  if (!saved || !saved.duration) return null;
+  return Math.min(saved.position / saved.duration, 1);
+};
@@ -0,0 +1,64 @@
+import { logger } from '../utils/logger';
+
+const ratesLogger = logger.getModuleLogger('playbackRates');
+
+// localStorage key for per-mediaKey playback speeds
+export const PLAYBACK_RATES_STORAGE_KEY = 'podplayr_playback_rates';
+
+// Speeds offered in the player, cycled in this order
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+export const clampPlaybackRate = (rate: number): number =>
+  Number.isFinite(rate) ? Math.min(Math.max(rate, MIN_PLAYBACK_RATE), MAX_PLAYBACK_RATE) : DEFAULT_PLAYBACK_RATE;
+
+const readRates = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(PLAYBACK_RATES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    ratesLogger.warn('Error reading playback rates from localStorage:', error);
+    return {};
+  }
+};
+
+export const getPlaybackRate = (mediaKey: string): number => {
+  if (!mediaKey) return DEFAULT_PLAYBACK_RATE;
+  const rate = readRates()[mediaKey];
+  return rate ? clampPlaybackRate(rate) : DEFAULT_PLAYBACK_RATE;
+};
+
+// Remember a speed for a mediaKey; normal speed isn't stored so the map only holds overrides
+export const savePlaybackRate = (mediaKey: string, rate: number): void => {
+  if (!mediaKey) return;
+  try {
+    const rates = readRates();
+    if (rate === DEFAULT_PLAYBACK_RATE) {
+      delete rates[mediaKey];
+    } else {
+      rates[mediaKey] = clampPlaybackRate(rate);
+    }
+    localStorage.setItem(PLAYBACK_RATES_STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    ratesLogger.warn('Error saving playback rate to localStorage:', error);
+  }
+};
+
+// Next speed in the PLAYBACK_RATES cycle, wrapping back to the slowest
+export const getNextPlaybackRate = (rate: number): number => {
+  const next = PLAYBACK_RATES.find(option => option > rate);
+  return next ?? PLAYBACK_RATES[0];
+};
+
+// Set the rate on a media element, keeping the pitch natural for spoken word
+export const applyPlaybackRate = (media: HTMLMediaElement, rate: number): void => {
+  media.preservesPitch = true;
+  // Older Safari and Firefox only understand the prefixed properties
+  (media as any).webkitPreservesPitch = true;
+  (media as any).mozPreservesPitch = true;
+  media.playbackRate = rate;
+};
@@ -0,0 +1,167 @@
+import type { NFT } from '../types/user';
+import { getMediaKey } from '../utils/media';
+import { logger } from '../utils/logger';
+
+const queueLogger = logger.getModuleLogger('queue');
+
+// localStorage key for the persisted play queue
+export const QUEUE_STORAGE_KEY = 'podplayr_play_queue';
+
+// Keep the persisted queue bounded so we never blow through the localStorage quota
+const MAX_QUEUE_SIZE = 500;
+
+export interface QueueItem {
+  id: string; // Stable per-entry id so the same NFT can sit in the queue twice
+  nft: NFT;
+}
+
+export interface QueueState {
+  items: QueueItem[];
+  currentIndex: number; // -1 when nothing from the queue is playing
+  queueType: string;
+}
+
+export type QueueAction =
+  | { type: 'SET_QUEUE'; nfts: NFT[]; startIndex: number; queueType: string }
+  | { type: 'ENQUEUE'; nfts: NFT[] }
+  | { type: 'PLAY_NEXT'; nfts: NFT[] }
+  | { type: 'REMOVE'; id: string }
+  | { type: 'REORDER'; fromIndex: number; toIndex: number }
+  | { type: 'CLEAR' }
+  | { type: 'SET_CURRENT_INDEX'; index: number }
+  | { type: 'RESTORE'; state: QueueState };
+
+export const initialQueueState: QueueState = {
+  items: [],
+  currentIndex: -1,
+  queueType: ''
+};
+
+let queueItemCounter = 0;
+const createQueueItem = (nft: NFT): QueueItem => ({
+  id: `${Date.now().toString(36)}-${(queueItemCounter++).toString(36)}`,
+  nft: { ...nft, mediaKey: nft.mediaKey || getMediaKey(nft) }
+});
+
+// Strip local-only fields before the NFT is written to storage
+const toStorableNFT = (nft: NFT): NFT => {
+  const { addedToRecentlyPlayed, addedToRecentlyPlayedAt, playTracked, ...rest } = nft;
+  return rest as NFT;
+};
+
+export const queueReducer = (state: QueueState, action: QueueAction): QueueState => {
+  switch (action.type) {
+    case 'SET_QUEUE': {
+      const items = action.nfts.slice(0, MAX_QUEUE_SIZE).map(createQueueItem);
+      const currentIndex = items.length === 0 ? -1 : Math.min(Math.max(action.startIndex, 0), items.length - 1);
+      return { items, currentIndex, queueType: action.queueType };
+    }
+    case 'ENQUEUE': {
+      const room = MAX_QUEUE_SIZE - state.items.length;
+      if (room <= 0) return state;
+      return { ...state, items: [...state.items, ...action.nfts.slice(0, room).map(createQueueItem)] };
+    }
+    case 'PLAY_NEXT': {
+      const room = MAX_QUEUE_SIZE - state.items.length;
+      if (room <= 0) return state;
+      const insertAt = state.currentIndex + 1;
+      const items = [...state.items];
+      items.splice(insertAt, 0, ...action.nfts.slice(0, room).map(createQueueItem));
+      return { ...state, items };
+    }
+    case 'REMOVE': {
+      const removeIndex = state.items.findIndex(item => item.id === action.id);
+      if (removeIndex === -1) return state;
+      const items = state.items.filter(item => item.id !== action.id);
+      let currentIndex = state.currentIndex;
+      if (removeIndex < currentIndex) {
+        currentIndex -= 1;
+      } else if (removeIndex === currentIndex) {
+        // The playing entry was removed - keep pointing at the slot before it so "next" continues naturally
+        currentIndex = Math.min(currentIndex - 1, items.length - 1);
+      }
+      return { ...state, items, currentIndex };
+    }
+    case 'REORDER': {
+      const { fromIndex, toIndex } = action;
+      if (
+        fromIndex === toIndex ||
+        fromIndex < 0 || fromIndex >= state.items.length ||
+        toIndex < 0 || toIndex >= state.items.length
+      ) {
+        return state;
+      }
+      const items = [...state.items];
+      const [moved] = items.splice(fromIndex, 1);
+      items.splice(toIndex, 0, moved);
+
+      // Keep currentIndex pointing at the same entry
+      const currentId = state.items[state.currentIndex]?.id;
+      const currentIndex = currentId ? items.findIndex(item => item.id === currentId) : state.currentIndex;
+      return { ...state, items, currentIndex };
+    }
+    case 'CLEAR': {
+      // Clearing drops everything except the entry that's playing, so playback isn't interrupted
+      const current = state.items[state.currentIndex];
+      return current
+        ? { ...state, items: [current], currentIndex: 0 }
+        : initialQueueState;
+    }
+    case 'SET_CURRENT_INDEX': {
+      if (action.index < -1 || action.index >= state.items.length) return state;
+      return { ...state, currentIndex: action.index };
+    }
+    case 'RESTORE':
+      return action.state;
+    default:
+      return state;
+  }
+};
+
+// Find a queue entry for an NFT by mediaKey, preferring the entry at or after the current index
+export const findQueueIndex = (state: QueueState, nft: NFT): number => {
+  const mediaKey = nft.mediaKey || getMediaKey(nft);
+  const matches = (item: QueueItem) => (item.nft.mediaKey || getMediaKey(item.nft)) === mediaKey;
+
+  const start = Math.max(state.currentIndex, 0);
+  for (let i = start; i < state.items.length; i++) {
+    if (matches(state.items[i])) return i;
+  }
+  return state.items.findIndex(matches);
+};
+
+export const loadPersistedQueue = (): QueueState | null => {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored) as QueueState;
+    if (!Array.isArray(parsed.items)) return null;
+
+    const items = parsed.items.filter(item => item && item.id && item.nft);
+    const currentIndex = typeof parsed.currentIndex === 'number' && parsed.currentIndex < items.length
+      ? parsed.currentIndex
+      : -1;
+
+    queueLogger.info(`Restored ${items.length} queued NFTs from localStorage (position ${currentIndex + 1})`);
+    return { items, currentIndex, queueType: parsed.queueType || '' };
+  } catch (error) {
+    queueLogger.warn('Error loading play queue from localStorage:', error);
+    return null;
+  }
+};
+
+export const persistQueue = (state: QueueState): void => {
+  try {
+    if (state.items.length === 0) {
+      localStorage.removeItem(QUEUE_STORAGE_KEY);
+      return;
+    }
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify({
+      ...state,
+      items: state.items.map(item => ({ id: item.id, nft: toStorableNFT(item.nft) }))
+    }));
+  } catch (error) {
+    queueLogger.warn('Error saving play queue to localStorage:', error);
+  }
+};
@@ -0,0 +1,60 @@
+// Text helpers shared by the search index job and the client-side scorer, so both
+// sides agree on what a "word" is
+
+// Longest prefix stored per word - queries longer than this match on their first characters
+export const MAX_PREFIX_LENGTH = 12;
+const MIN_PREFIX_LENGTH = 2;
+
+// Below this trigram similarity a word doesn't count as a typo of the query word
+const FUZZY_THRESHOLD = 0.4;
+
+// Lowercase, strip accents and split on anything that isn't a letter or digit
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+export const getPrefixes = (word: string): string[] => {
+  const prefixes: string[] = [];
+  for (let length = MIN_PREFIX_LENGTH; length <= Math.min(word.length, MAX_PREFIX_LENGTH); length++) {
+    prefixes.push(word.slice(0, length));
+  }
+  return prefixes;
+};
+
+// Padded so short words and word starts still produce trigrams
+export const getTrigrams = (word: string): string[] => {
+  const padded = `  ${word} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(trigrams);
+};
+
+// Dice coefficient over trigram sets, 0-1
+const trigramSimilarity = (a: string, b: string): number => {
+  const trigramsA = getTrigrams(a);
+  const trigramsB = new Set(getTrigrams(b));
+  const shared = trigramsA.filter(trigram => trigramsB.has(trigram)).length;
+  return (2 * shared) / (trigramsA.length + trigramsB.size);
+};
+
+/**
+ * How well a set of indexed words matches the query words, 0-1. A query word scores 1
+ * when it prefixes an indexed word, otherwise its best trigram similarity (typos), and
+ * the result is averaged over the query words.
+ */
+export const scoreWords = (queryWords: string[], words: string[]): number => {
+  if (queryWords.length === 0 || words.length === 0) return 0;
+
+  const total = queryWords.reduce((sum, queryWord) => {
+    if (words.some(word => word.startsWith(queryWord))) return sum + 1;
+    const best = Math.max(...words.map(word => trigramSimilarity(queryWord, word)));
+    return sum + (best >= FUZZY_THRESHOLD ? best : 0);
+  }, 0);
+  return total / queryWords.length;
+};
@@ -0,0 +1,59 @@
+import type { NFT, ActivityTrack, ActivityType, PlaylistTrack } from '../../types/user';
+import { toActivityTrack } from '../activityTracks';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// Activity events read by the feeds in lib/firebase/activity.ts.
+// Best-effort: a failed event never fails the write that caused it.
+export const recordTrackActivity = async (actorFid: number, type: ActivityType, nft: NFT): Promise<void> => {
+  const track = toActivityTrack(nft);
+  if (!track) return;
+
+  try {
+    await adminDb.collection('activity').add({
+      actorFid,
+      type,
+      track,
+      createdAt: Date.now()
+    });
+  } catch (error) {
+    serverLogger.warn(`Error recording ${type} activity for user ${actorFid}:`, error);
+  }
+};
+
+/**
+ * Announce a playlist fid just created. The event is built from the stored playlist rather than
+ * anything the client sends, and keyed by the playlist so it's only ever posted once.
+ */
+export const recordPlaylistActivity = async (actorFid: number, playlistId: string): Promise<boolean> => {
+  const playlist = await adminDb.collection('users').doc(actorFid.toString())
+    .collection('playlists').doc(playlistId).get();
+  if (!playlist.exists) return false;
+
+  const data = playlist.data() || {};
+  const tracks: PlaylistTrack[] = data.tracks || [];
+  const first = tracks[0];
+  const track: ActivityTrack | null = first ? {
+    mediaKey: first.mediaKey,
+    contract: first.contract,
+    tokenId: first.tokenId,
+    name: first.name || 'Untitled',
+    image: first.image || '',
+    audioUrl: first.audioUrl || '',
+    collection: first.collection || '',
+    network: first.network || 'ethereum'
+  } : null;
+
+  try {
+    await adminDb.collection('activity').doc(`playlist-${actorFid}-${playlistId}`).create({
+      actorFid,
+      type: 'playlist',
+      track,
+      playlist: { id: playlistId, name: data.name || 'Untitled', trackCount: tracks.length },
+      createdAt: Date.now()
+    });
+    return true;
+  } catch (error) {
+    serverLogger.warn(`Error recording playlist activity for user ${actorFid}:`, error);
+    return false;
+  }
+};
@@ -0,0 +1,458 @@
+import type { DocumentData, QueryDocumentSnapshot, WriteBatch } from 'firebase-admin/firestore';
+import type { Artist, ArtistTrack, FarcasterUser, NFTMetadata } from '../../types/user';
+import { getNFTCreator, getNFTCreatorAddress, normalizeCreatorName } from '../creators';
+import { fetchNFTMinterFromAlchemy, type NFTMinter } from '../alchemy';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// One document per artist at artists/{id}, read by the client's getArtist
+const ARTISTS_COLLECTION = 'artists';
+
+// Artist per track at artist_tracks/{mediaKey}, read by the client's getArtistForTrack
+const ARTIST_TRACKS_COLLECTION = 'artist_tracks';
+
+// Deployer per contract at contract_minters/{contract}, so Alchemy is asked once per contract
+const CONTRACT_MINTERS_COLLECTION = 'contract_minters';
+
+// First recipient per token on shared contracts, at token_minters/{contract}-{tokenId}
+const TOKEN_MINTERS_COLLECTION = 'token_minters';
+
+// Alchemy lookups per run; the rest are picked up by later runs
+const MAX_MINTER_LOOKUPS = 100;
+
+// Contracts whole platforms mint into, whose deployer is never the artist
+const SHARED_PLATFORM_CONTRACTS = new Set([
+  '0x495f947276749ce646f68ac8c248420045cb7b5e', // OpenSea Shared Storefront
+  '0xabefbc9fd2f806065b4f3c237d4b59d9a97bcac7', // Zora
+  '0x3b3ee1931dc30c1957379fac9aba94d1c48a5405', // Foundation
+  '0xb932a70a57673d89f4acffbe830e8ed7f75fb9e0', // SuperRare
+  '0x60f80121c31a0d46b5279700f9df786054aa5ee5', // Rarible
+  '0xd07dc4262bcdbf85190c01c996b4c06a461d2430', // Rarible multiples
+  '0x0bc2a24ce568dad89691116d5b34deb6c203f342' // Catalog
+]);
+
+// Neynar's bulk-by-address endpoint takes up to 350 addresses per call
+const NEYNAR_ADDRESS_CHUNK_SIZE = 350;
+
+// Keeps artist documents well under Firestore's 1MB limit
+const MAX_TRACKS_PER_ARTIST = 200;
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+interface TrackSource {
+  track: ArtistTrack;
+  names: Map<string, string>; // name key -> name as written
+  addresses: Set<string>;
+}
+
+const toTrack = (mediaKey: string, data: DocumentData): ArtistTrack => ({
+  mediaKey,
+  contract: data.nftContract || data.contract || '',
+  tokenId: data.tokenId || '',
+  name: data.name || 'Untitled',
+  image: data.image || data.imageUrl || '',
+  audioUrl: data.audioUrl || '',
+  collection: data.collection || 'Unknown Collection',
+  network: data.network === 'base' ? 'base' : 'ethereum',
+  playCount: 0
+});
+
+// Only rows under users/{fid}, not same-named top-level collections
+const isUserOwned = (snapshot: QueryDocumentSnapshot): boolean =>
+  snapshot.ref.parent.parent?.parent.id === 'users';
+
+const getNameKey = (name: string): string =>
+  normalizeCreatorName(name).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Every track seen in global_plays, likes, playlists and play history, with whatever the
+// metadata says about who made it. global_plays is read first so its play counts win.
+const collectTrackSources = async (): Promise<Map<string, TrackSource>> => {
+  const [playsSnapshot, likesSnapshot, playlistsSnapshot, historySnapshot] = await Promise.all([
+    adminDb.collection('global_plays').get(),
+    adminDb.collectionGroup('likes').get(),
+    adminDb.collectionGroup('playlists').get(),
+    adminDb.collectionGroup('playHistory').get()
+  ]);
+
+  const sources = new Map<string, TrackSource>();
+  const addSource = (mediaKey: string, data: DocumentData, metadata?: NFTMetadata, creator?: string | null) => {
+    if (!mediaKey) return null;
+    let source = sources.get(mediaKey);
+    if (!source) {
+      source = { track: toTrack(mediaKey, data), names: new Map(), addresses: new Set() };
+      sources.set(mediaKey, source);
+    }
+
+    const address = metadata ? getNFTCreatorAddress({ metadata }) : null;
+    if (address) source.addresses.add(address);
+
+    // Some platforms put the wallet in the name field - that's an address, not a name
+    const name = creator ?? (metadata ? getNFTCreator({ metadata }) : null);
+    if (name && ADDRESS_PATTERN.test(name)) {
+      source.addresses.add(name.toLowerCase());
+    } else if (name) {
+      const key = getNameKey(name);
+      if (key && !source.names.has(key)) source.names.set(key, name);
+    }
+    return source;
+  };
+
+  playsSnapshot.docs.forEach(playDoc => {
+    const data = playDoc.data();
+    const source = addSource(data.mediaKey || playDoc.id, data);
+    if (source) source.track.playCount += data.playCount || 0;
+  });
+
+  likesSnapshot.docs.forEach(likeDoc => {
+    if (!isUserOwned(likeDoc)) return;
+    const data = likeDoc.data();
+    addSource(data.mediaKey || likeDoc.id, data, data.metadata);
+  });
+
+  playlistsSnapshot.docs.forEach(playlistDoc => {
+    if (!isUserOwned(playlistDoc)) return;
+    (playlistDoc.data().tracks || []).forEach((track: DocumentData) => {
+      addSource(track.mediaKey, track, track.metadata);
+    });
+  });
+
+  historySnapshot.docs.forEach(historyDoc => {
+    if (!isUserOwned(historyDoc)) return;
+    const data = historyDoc.data();
+    if (data.creator) addSource(data.mediaKey, data, undefined, data.creator);
+  });
+
+  return sources;
+};
+
+// Deployer and a sample token's first recipient for each contract: cached ones from Firestore,
+// plus new ones from Alchemy while lookups remain. Contracts Alchemy couldn't resolve are
+// cached with no wallets too.
+const resolveContractMinters = async (
+  sources: Map<string, TrackSource>,
+  lookups: { remaining: number }
+): Promise<Map<string, NFTMinter>> => {
+  const cachedSnapshot = await adminDb.collection(CONTRACT_MINTERS_COLLECTION).get();
+  const minters = new Map<string, NFTMinter>();
+  cachedSnapshot.docs.forEach(minterDoc => {
+    const data = minterDoc.data();
+    // Entries cached before deployers were kept apart from recipients get looked up again
+    if (data.deployer === undefined) return;
+    minters.set(minterDoc.id, { deployer: data.deployer, mintedTo: data.mintedTo || null });
+  });
+
+  const unresolved = new Map<string, ArtistTrack>();
+  sources.forEach(({ track }) => {
+    const contract = track.contract.toLowerCase();
+    if (ADDRESS_PATTERN.test(contract) && !minters.has(contract) && !unresolved.has(contract)) {
+      unresolved.set(contract, track);
+    }
+  });
+
+  const pending = Array.from(unresolved.entries()).slice(0, lookups.remaining);
+  lookups.remaining -= pending.length;
+  const batch = adminDb.batch();
+  for (const [contract, track] of pending) {
+    const network = track.network || 'ethereum';
+    const minter = await fetchNFTMinterFromAlchemy(contract, track.tokenId, network)
+      || { deployer: null, mintedTo: null };
+    minters.set(contract, minter);
+    batch.set(adminDb.collection(CONTRACT_MINTERS_COLLECTION).doc(contract), {
+      ...minter,
+      tokenId: track.tokenId,
+      network,
+      resolvedAt: Date.now()
+    });
+  }
+  if (pending.length > 0) await batch.commit();
+
+  return minters;
+};
+
+// Deployers whose contracts credit more than one creator: a platform deploying for everyone
+// rather than an artist deploying their own. Checked before minters fill in missing wallets,
+// so only what the metadata says counts.
+const findSharedDeployers = (sources: Map<string, TrackSource>, minters: Map<string, NFTMinter>): Set<string> => {
+  const creatorsByDeployer = new Map<string, { names: Set<string>; addresses: Set<string> }>();
+  sources.forEach(source => {
+    const deployer = minters.get(source.track.contract.toLowerCase())?.deployer;
+    if (!deployer) return;
+    const creators = creatorsByDeployer.get(deployer) || { names: new Set<string>(), addresses: new Set<string>() };
+    source.names.forEach((_, key) => creators.names.add(key));
+    source.addresses.forEach(address => creators.addresses.add(address));
+    creatorsByDeployer.set(deployer, creators);
+  });
+
+  const shared = new Set<string>();
+  creatorsByDeployer.forEach(({ names, addresses }, deployer) => {
+    if (names.size > 1 || addresses.size > 1) shared.add(deployer);
+  });
+  minters.forEach(({ deployer }, contract) => {
+    if (deployer && SHARED_PLATFORM_CONTRACTS.has(contract)) shared.add(deployer);
+  });
+  return shared;
+};
+
+// First recipient of each token on a shared contract, which is the artist who minted it there.
+// Only asked for tracks the metadata names no wallet for; the rest wait for later runs.
+const resolveTokenMinters = async (
+  tracks: ArtistTrack[],
+  lookups: { remaining: number }
+): Promise<Map<string, string>> => {
+  const cachedSnapshot = await adminDb.collection(TOKEN_MINTERS_COLLECTION).get();
+  const cached = new Map<string, string | null>();
+  cachedSnapshot.docs.forEach(minterDoc => cached.set(minterDoc.id, minterDoc.data().mintedTo || null));
+
+  const recipients = new Map<string, string>();
+  const pending: ArtistTrack[] = [];
+  tracks.forEach(track => {
+    const contract = track.contract.toLowerCase();
+    const id = `${contract}-${track.tokenId}`;
+    if (cached.has(id)) {
+      const mintedTo = cached.get(id);
+      if (mintedTo) recipients.set(track.mediaKey, mintedTo);
+    } else if (pending.length < lookups.remaining) {
+      pending.push(track);
+    }
+  });
+
+  lookups.remaining -= pending.length;
+  const batch = adminDb.batch();
+  for (const track of pending) {
+    const contract = track.contract.toLowerCase();
+    const network = track.network || 'ethereum';
+    const mintedTo = (await fetchNFTMinterFromAlchemy(contract, track.tokenId, network))?.mintedTo || null;
+    if (mintedTo) recipients.set(track.mediaKey, mintedTo);
+    batch.set(adminDb.collection(TOKEN_MINTERS_COLLECTION).doc(`${contract}-${track.tokenId}`), {
+      mintedTo,
+      network,
+      resolvedAt: Date.now()
+    });
+  }
+  if (pending.length > 0) await batch.commit();
+
+  return recipients;
+};
+
+// Farcaster user for each address that one is verified or custodied by
+const fetchFarcasterUsersByAddress = async (addresses: string[]): Promise<Map<string, FarcasterUser>> => {
+  const users = new Map<string, FarcasterUser>();
+  const neynarKey = process.env.NEYNAR_API_KEY || process.env.NEXT_PUBLIC_NEYNAR_API_KEY;
+  if (!neynarKey || addresses.length === 0) return users;
+
+  for (let i = 0; i < addresses.length; i += NEYNAR_ADDRESS_CHUNK_SIZE) {
+    const chunk = addresses.slice(i, i + NEYNAR_ADDRESS_CHUNK_SIZE);
+    try {
+      const response = await fetch(
+        `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${chunk.join(',')}`,
+        {
+          headers: {
+            'accept': 'application/json',
+            'api_key': neynarKey
+          }
+        }
+      );
+      // 404 just means none of the chunk's addresses belong to a Farcaster account
+      if (!response.ok) continue;
+
+      const data: Record<string, any[]> = await response.json();
+      Object.entries(data).forEach(([address, matches]) => {
+        const user = matches?.[0];
+        if (!user?.fid) return;
+        users.set(address.toLowerCase(), {
+          fid: user.fid,
+          username: user.username || '',
+          display_name: user.display_name,
+          pfp_url: user.pfp_url,
+          follower_count: user.follower_count || 0,
+          following_count: user.following_count || 0,
+          profile: user.profile?.bio?.text ? { bio: user.profile.bio.text } : undefined,
+          custody_address: user.custody_address || undefined,
+          verifiedAddresses: (user.verified_addresses?.eth_addresses || []).map((item: string) => item.toLowerCase())
+        });
+      });
+    } catch (error) {
+      serverLogger.error('Error looking up Farcaster users by address:', error);
+    }
+  }
+  return users;
+};
+
+// Tracks are linked into one artist through shared names, wallets and Farcaster accounts
+const createUnionFind = () => {
+  const parents = new Map<string, string>();
+  const find = (node: string): string => {
+    const parent = parents.get(node);
+    if (!parent || parent === node) {
+      parents.set(node, node);
+      return node;
+    }
+    const root = find(parent);
+    parents.set(node, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parents.set(rootB, rootA);
+  };
+  return { find, union };
+};
+
+const buildArtist = (
+  sources: TrackSource[],
+  farcasterUsers: FarcasterUser[],
+  now: number
+): Artist => {
+  const nameCounts = new Map<string, { name: string; count: number }>();
+  const addresses = new Set<string>();
+  sources.forEach(source => {
+    source.names.forEach((name, key) => {
+      const entry = nameCounts.get(key) || { name, count: 0 };
+      entry.count++;
+      nameCounts.set(key, entry);
+    });
+    source.addresses.forEach(address => addresses.add(address));
+  });
+
+  const topName = Array.from(nameCounts.entries()).sort((a, b) => b[1].count - a[1].count)[0];
+  const farcaster = [...farcasterUsers].sort((a, b) => b.follower_count - a.follower_count)[0] || null;
+  const firstAddress = Array.from(addresses).sort()[0];
+
+  const id = farcaster
+    ? `fid-${farcaster.fid}`
+    : topName ? `name-${topName[0]}` : `address-${firstAddress}`;
+  const name = topName?.[1].name
+    || farcaster?.display_name
+    || farcaster?.username
+    || shortenAddress(firstAddress);
+
+  const tracks = sources
+    .map(source => source.track)
+    .sort((a, b) => b.playCount - a.playCount)
+    .slice(0, MAX_TRACKS_PER_ARTIST);
+
+  return {
+    id,
+    name,
+    addresses: Array.from(addresses),
+    farcaster,
+    tracks,
+    totalPlays: sources.reduce((total, source) => total + source.track.playCount, 0),
+    updatedAt: now
+  };
+};
+
+// Queue writes in batches of WRITE_BATCH_SIZE and commit each
+const writeInBatches = async <T>(items: T[], write: (batch: WriteBatch, item: T) => void): Promise<void> => {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    items.slice(i, i + WRITE_BATCH_SIZE).forEach(item => write(batch, item));
+    await batch.commit();
+  }
+};
+
+/**
+ * Rebuild every artist; run from the admin sync-artists endpoint. Tracks are grouped by the creator
+ * name in their metadata, the creator wallet in their metadata or else the wallet that minted
+ * them, and the Farcaster account those wallets belong to. The minting wallet is the contract's
+ * deployer, except on contracts a platform deployed for many artists, where it's whoever each
+ * token was first minted to; the platform's own wallet never links anything.
+ */
+export const syncArtists = async (): Promise<{ success: boolean; artists?: number; error?: unknown }> => {
+  try {
+    const sources = await collectTrackSources();
+    const lookups = { remaining: MAX_MINTER_LOOKUPS };
+    const minters = await resolveContractMinters(sources, lookups);
+    const sharedDeployers = findSharedDeployers(sources, minters);
+    const isShared = (contract: string) => {
+      const deployer = minters.get(contract)?.deployer;
+      return SHARED_PLATFORM_CONTRACTS.has(contract) || (!!deployer && sharedDeployers.has(deployer));
+    };
+
+    const unattributed = Array.from(sources.values()).filter(source => source.addresses.size === 0);
+    const tokenMinters = await resolveTokenMinters(
+      unattributed.map(source => source.track).filter(track => isShared(track.contract.toLowerCase())),
+      lookups
+    );
+    unattributed.forEach(source => {
+      const contract = source.track.contract.toLowerCase();
+      const minter = minters.get(contract);
+      const address = isShared(contract)
+        ? tokenMinters.get(source.track.mediaKey)
+        : minter?.deployer || minter?.mintedTo;
+      if (address) source.addresses.add(address);
+    });
+
+    const linkingAddresses = new Set<string>();
+    sources.forEach(source => source.addresses.forEach(address => {
+      if (!sharedDeployers.has(address)) linkingAddresses.add(address);
+    }));
+
+    const { find, union } = createUnionFind();
+    const trackNodes = new Map<string, string>();
+    sources.forEach((source, mediaKey) => {
+      const nodes = [
+        ...Array.from(source.names.keys()).map(key => `name:${key}`),
+        ...Array.from(source.addresses).filter(address => linkingAddresses.has(address)).map(address => `address:${address}`)
+      ];
+      if (nodes.length === 0) return;
+      nodes.slice(1).forEach(node => union(nodes[0], node));
+      trackNodes.set(mediaKey, nodes[0]);
+    });
+
+    const farcasterByAddress = await fetchFarcasterUsersByAddress(Array.from(linkingAddresses));
+    farcasterByAddress.forEach((user, address) => union(`address:${address}`, `fid:${user.fid}`));
+
+    const groups = new Map<string, TrackSource[]>();
+    trackNodes.forEach((node, mediaKey) => {
+      const root = find(node);
+      groups.set(root, [...(groups.get(root) || []), sources.get(mediaKey)!]);
+    });
+
+    const now = Date.now();
+    const artistByTrack = new Map<string, string>();
+    const artists = Array.from(groups.values()).map(groupSources => {
+      const farcasterUsers = new Map<number, FarcasterUser>();
+      groupSources.forEach(source => source.addresses.forEach(address => {
+        const user = farcasterByAddress.get(address);
+        if (user) farcasterUsers.set(user.fid, user);
+      }));
+      const artist = buildArtist(groupSources, Array.from(farcasterUsers.values()), now);
+      // Every track, including those past MAX_TRACKS_PER_ARTIST in the artist's document
+      groupSources.forEach(source => artistByTrack.set(source.track.mediaKey, artist.id));
+      return artist;
+    });
+
+    await writeInBatches(artists, (batch, artist) => {
+      batch.set(adminDb.collection(ARTISTS_COLLECTION).doc(artist.id), artist);
+    });
+
+    // Only tracks whose artist changed are rewritten; tracks no longer attributed are removed
+    const trackSnapshot = await adminDb.collection(ARTIST_TRACKS_COLLECTION).get();
+    const storedArtists = new Map(trackSnapshot.docs.map(trackDoc => [trackDoc.id, trackDoc.data().artistId]));
+    const changedTracks = Array.from(artistByTrack.entries())
+      .filter(([mediaKey, artistId]) => storedArtists.get(mediaKey) !== artistId);
+    await writeInBatches(changedTracks, (batch, [mediaKey, artistId]) => {
+      batch.set(adminDb.collection(ARTIST_TRACKS_COLLECTION).doc(mediaKey), { artistId, updatedAt: now });
+    });
+    const staleTracks = trackSnapshot.docs.filter(trackDoc => !artistByTrack.has(trackDoc.id));
+    await writeInBatches(staleTracks, (batch, trackDoc) => batch.delete(trackDoc.ref));
+
+    // Artists whose id changed (e.g. newly linked to Farcaster) leave their old document behind
+    const artistIds = new Set(artists.map(artist => artist.id));
+    const existingSnapshot = await adminDb.collection(ARTISTS_COLLECTION).get();
+    const stale = existingSnapshot.docs.filter(artistDoc => !artistIds.has(artistDoc.id));
+    await writeInBatches(stale, (batch, artistDoc) => batch.delete(artistDoc.ref));
+
+    serverLogger.info(`Synced ${artists.length} artists, removed ${stale.length} stale`);
+    return { success: true, artists: artists.length };
+  } catch (error) {
+    serverLogger.error('Error syncing artists:', error);
+    return { success: false, error };
+  }
+};
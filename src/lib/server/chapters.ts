@@ -0,0 +1,23 @@
+import type { Chapter } from '../../types/user';
+import { adminDb, serverLogger } from './firebaseAdmin';
+import type { ResolvedTrack } from './tracks';
+
+// chapters/{mediaKey}, alongside lyrics/{mediaKey}; see lib/firebase/chapters.ts for reads
+const getChaptersRef = (mediaKey: string) => adminDb.collection('chapters').doc(mediaKey);
+
+// Replace the track's chapter list with fid's; an empty list removes it. The route has already
+// checked fid owns the NFT.
+export const saveChapters = async ({ nft, mediaKey }: ResolvedTrack, fid: number, chapters: Chapter[]): Promise<void> => {
+  if (chapters.length === 0) {
+    await getChaptersRef(mediaKey).delete();
+  } else {
+    await getChaptersRef(mediaKey).set({
+      chapters: chapters.map(({ time, title }) => ({ time, title })),
+      uploadedBy: fid,
+      contract: nft.contract,
+      tokenId: nft.tokenId,
+      updatedAt: Date.now()
+    });
+  }
+  serverLogger.info(`User ${fid} saved ${chapters.length} chapters for ${mediaKey.substring(0, 12)}...`);
+};
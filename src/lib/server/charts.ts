@@ -0,0 +1,158 @@
+import { Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import type { Chart, ChartEntry, ChartMovement, ChartWindow } from '../../types/user';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// One document per window at charts/{window}, read by the client's subscribeToChart
+const getChartRef = (chartWindow: ChartWindow) => adminDb.collection('charts').doc(chartWindow);
+
+// Each period's chart at charts/{window}/periods/{periodStart}, so movement is measured
+// against where a track finished last period rather than wherever the last run left it
+const getPeriodRef = (chartWindow: ChartWindow, periodStart: number) =>
+  getChartRef(chartWindow).collection('periods').doc(String(periodStart));
+
+export const CHART_WINDOWS: ChartWindow[] = ['daily', 'weekly', 'monthly', 'allTime'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the period `time` falls in, in UTC: the day, the week from Monday, or the calendar
+// month. The all-time chart has no period of its own and moves day to day.
+const getPeriodStart = (chartWindow: ChartWindow, time: number): number => {
+  const date = new Date(time);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (chartWindow === 'weekly') return dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  if (chartWindow === 'monthly') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return dayStart;
+};
+
+// Entries kept per chart; large enough that network/collection filters still have a list to show
+export const CHART_SIZE = 100;
+
+type ChartTrack = Omit<ChartEntry, 'rank' | 'previousRank' | 'movement' | 'playCount'>;
+
+const toChartTrack = (mediaKey: string, data: DocumentData): ChartTrack => ({
+  mediaKey,
+  contract: data.nftContract || '',
+  tokenId: data.tokenId || '',
+  name: data.name || 'Untitled',
+  image: data.image || '',
+  audioUrl: data.audioUrl || '',
+  collection: data.collection || 'Unknown Collection',
+  network: data.network === 'base' ? 'base' : 'ethereum'
+});
+
+// Play counts per mediaKey from playHistory in [since, until). Older rows store `timestamp` as
+// epoch millis and newer ones as a Firestore Timestamp, and Firestore never compares across
+// types - so both are queried and merged.
+const countWindowPlays = async (since: number, until: number) => {
+  const playHistory = adminDb.collectionGroup('playHistory');
+  const [timestampSnapshot, millisSnapshot] = await Promise.all([
+    playHistory
+      .where('timestamp', '>=', Timestamp.fromMillis(since))
+      .where('timestamp', '<', Timestamp.fromMillis(until))
+      .get(),
+    playHistory.where('timestamp', '>=', since).where('timestamp', '<', until).get()
+  ]);
+
+  const counts = new Map<string, { track: ChartTrack; playCount: number }>();
+  [...timestampSnapshot.docs, ...millisSnapshot.docs].forEach(historyDoc => {
+    const data = historyDoc.data();
+    if (!data.mediaKey) return;
+    const existing = counts.get(data.mediaKey);
+    if (existing) {
+      existing.playCount++;
+    } else {
+      counts.set(data.mediaKey, { track: toChartTrack(data.mediaKey, data), playCount: 1 });
+    }
+  });
+  return Array.from(counts.values());
+};
+
+// All-time counts are already kept per mediaKey in global_plays
+const countAllTimePlays = async () => {
+  const snapshot = await adminDb.collection('global_plays')
+    .orderBy('playCount', 'desc')
+    .limit(CHART_SIZE)
+    .get();
+  return snapshot.docs.map(playDoc => ({
+    track: toChartTrack(playDoc.id, playDoc.data()),
+    playCount: playDoc.data().playCount || 0
+  }));
+};
+
+const getMovement = (rank: number, previousRank: number | null): ChartMovement => {
+  if (previousRank === null) return 'new';
+  if (rank < previousRank) return 'up';
+  if (rank > previousRank) return 'down';
+  return 'same';
+};
+
+// Rank counts against the previous period's chart so each entry knows how it moved
+const rankChartEntries = (
+  counts: { track: ChartTrack; playCount: number }[],
+  previous: ChartEntry[]
+): ChartEntry[] => {
+  const previousRanks = new Map(previous.map(entry => [entry.mediaKey, entry.rank]));
+  return counts
+    .filter(({ playCount }) => playCount > 0)
+    .sort((a, b) => b.playCount - a.playCount || a.track.name.localeCompare(b.track.name))
+    .slice(0, CHART_SIZE)
+    .map(({ track, playCount }, index) => {
+      const rank = index + 1;
+      const previousRank = previousRanks.get(track.mediaKey) ?? null;
+      return { ...track, rank, previousRank, movement: getMovement(rank, previousRank), playCount };
+    });
+};
+
+// The previous period's final chart. A period whose last snapshot was taken before it ended is
+// recounted over its whole span first; all-time counts can't be recounted, so the last
+// snapshot of the previous day stands.
+const getPreviousEntries = async (chartWindow: ChartWindow, periodStart: number): Promise<ChartEntry[]> => {
+  const previousStart = getPeriodStart(chartWindow, periodStart - 1);
+  const snapshot = await getPeriodRef(chartWindow, previousStart).get();
+  const previous = snapshot.data() as Chart | undefined;
+  if (chartWindow === 'allTime' || (previous && previous.generatedAt >= periodStart)) {
+    return previous?.entries || [];
+  }
+
+  const earlierStart = getPeriodStart(chartWindow, previousStart - 1);
+  const earlier = await getPeriodRef(chartWindow, earlierStart).get();
+  const entries = rankChartEntries(
+    await countWindowPlays(previousStart, periodStart),
+    earlier.data()?.entries || []
+  );
+  const closed: Chart = { window: chartWindow, periodStart: previousStart, entries, generatedAt: Date.now() };
+  await getPeriodRef(chartWindow, previousStart).set(closed);
+  return entries;
+};
+
+// Recompute one window's chart for the period in progress and store it
+export const syncChart = async (chartWindow: ChartWindow): Promise<Chart> => {
+  const now = Date.now();
+  const periodStart = getPeriodStart(chartWindow, now);
+  const counts = chartWindow === 'allTime'
+    ? await countAllTimePlays()
+    : await countWindowPlays(periodStart, now);
+
+  const entries = rankChartEntries(counts, await getPreviousEntries(chartWindow, periodStart));
+
+  const chart: Chart = { window: chartWindow, periodStart, entries, generatedAt: now };
+  const batch = adminDb.batch();
+  batch.set(getChartRef(chartWindow), chart);
+  batch.set(getPeriodRef(chartWindow, periodStart), chart);
+  await batch.commit();
+  serverLogger.info(`Synced ${chartWindow} chart with ${entries.length} entries`);
+  return chart;
+};
+
+// Recompute every window's chart; run from the admin sync-charts endpoint on a schedule
+export const syncCharts = async (): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    for (const chartWindow of CHART_WINDOWS) {
+      await syncChart(chartWindow);
+    }
+    return { success: true };
+  } catch (error) {
+    serverLogger.error('Error syncing charts:', error);
+    return { success: false, error };
+  }
+};
@@ -0,0 +1,104 @@
+import type { CommentAuthor, NFT } from '../../types/user';
+import { REPORT_HIDE_THRESHOLD } from '../commentRules';
+import { adminDb, serverLogger } from './firebaseAdmin';
+import { ownsNFT } from './ownership';
+import { getProfile } from './profiles';
+
+// Everything said about a track lives under trackComments/{mediaKey}; see lib/firebase/comments.ts
+// for the layout and the live subscriptions
+const getTrackRef = (mediaKey: string) => adminDb.collection('trackComments').doc(mediaKey);
+const getCommentsRef = (mediaKey: string) => getTrackRef(mediaKey).collection('comments');
+const getReactionsRef = (mediaKey: string) => getTrackRef(mediaKey).collection('reactions');
+const getReportRef = (mediaKey: string, commentId: string, fid: number) =>
+  getTrackRef(mediaKey).collection('reports').doc(`${commentId}-${fid}`);
+
+// The author stored with a comment or reaction comes from the poster's profile, never the client
+const getAuthor = async (fid: number): Promise<CommentAuthor> => {
+  const profile = await getProfile(fid);
+  return {
+    fid,
+    username: profile.username,
+    displayName: profile.display_name,
+    pfpUrl: profile.pfp_url
+  };
+};
+
+// Authors can remove their own posts; anyone holding the NFT can moderate everything on it
+const canRemove = async (fid: number, authorFid: number | undefined, nft: NFT): Promise<boolean> =>
+  authorFid === fid || ownsNFT(fid, nft.contract, nft.tokenId, nft.network);
+
+export const addComment = async (
+  mediaKey: string,
+  fid: number,
+  text: string,
+  parentId: string | null
+): Promise<string> => {
+  if (parentId && !(await getCommentsRef(mediaKey).doc(parentId).get()).exists) {
+    throw new Error('The comment being replied to is gone');
+  }
+
+  const commentRef = await getCommentsRef(mediaKey).add({
+    author: await getAuthor(fid),
+    text,
+    parentId,
+    reportCount: 0,
+    hidden: false,
+    createdAt: Date.now()
+  });
+  return commentRef.id;
+};
+
+// Delete a comment along with its replies, as its author or the track's owner. Returns false
+// when fid is neither.
+export const deleteComment = async (mediaKey: string, nft: NFT, commentId: string, fid: number): Promise<boolean> => {
+  const commentRef = getCommentsRef(mediaKey).doc(commentId);
+  const snapshot = await commentRef.get();
+  if (!snapshot.exists) return true;
+  if (!(await canRemove(fid, snapshot.data()?.author?.fid, nft))) return false;
+
+  const replies = await getCommentsRef(mediaKey).where('parentId', '==', commentId).get();
+  const batch = adminDb.batch();
+  replies.docs.forEach(replyDoc => batch.delete(replyDoc.ref));
+  batch.delete(commentRef);
+  await batch.commit();
+  serverLogger.info(`User ${fid} deleted comment ${commentId} on ${mediaKey} and ${replies.size} replies`);
+  return true;
+};
+
+// Each listener can report a comment once; enough reports hide it
+export const reportComment = async (mediaKey: string, commentId: string, fid: number): Promise<void> => {
+  const reportRef = getReportRef(mediaKey, commentId, fid);
+  const commentRef = getCommentsRef(mediaKey).doc(commentId);
+  await adminDb.runTransaction(async transaction => {
+    const [reportSnapshot, commentSnapshot] = await transaction.getAll(reportRef, commentRef);
+    if (reportSnapshot.exists || !commentSnapshot.exists) return;
+
+    const reportCount = (commentSnapshot.data()?.reportCount || 0) + 1;
+    transaction.set(reportRef, { commentId, fid, createdAt: Date.now() });
+    transaction.update(commentRef, {
+      reportCount,
+      hidden: reportCount >= REPORT_HIDE_THRESHOLD
+    });
+  });
+};
+
+export const addReaction = async (mediaKey: string, fid: number, emoji: string, position: number): Promise<string> => {
+  const reactionRef = await getReactionsRef(mediaKey).add({
+    author: await getAuthor(fid),
+    emoji,
+    position: Math.max(0, Math.round(position * 10) / 10),
+    createdAt: Date.now()
+  });
+  return reactionRef.id;
+};
+
+// Same rules as deleteComment: the author, or the track owner
+export const deleteReaction = async (mediaKey: string, nft: NFT, reactionId: string, fid: number): Promise<boolean> => {
+  const reactionRef = getReactionsRef(mediaKey).doc(reactionId);
+  const snapshot = await reactionRef.get();
+  if (!snapshot.exists) return true;
+  if (!(await canRemove(fid, snapshot.data()?.author?.fid, nft))) return false;
+
+  await reactionRef.delete();
+  return true;
+};
@@ -0,0 +1,27 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+const matchesSecret = (provided: string, secret: string) => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Guard for the routes under src/pages/api/admin: the caller must send CRON_SECRET, as
+ * `Authorization: Bearer <secret>` (what Vercel Cron sends) or an `x-cron-secret` header.
+ * Without CRON_SECRET configured every call is refused. Responds 401 and returns false when
+ * the request isn't allowed.
+ */
+export const requireCronSecret = (req: NextApiRequest, res: NextApiResponse): boolean => {
+  const secret = process.env.CRON_SECRET;
+  const authorization = req.headers.authorization;
+  const provided = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : req.headers['x-cron-secret'];
+
+  if (secret && typeof provided === 'string' && matchesSecret(provided, secret)) return true;
+
+  res.status(401).json({ success: false, message: 'Unauthorized' });
+  return false;
+};
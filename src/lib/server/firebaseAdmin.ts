@@ -0,0 +1,25 @@
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { logger } from '../../utils/logger';
+
+// Initialize Firebase Admin if not already initialized. With FIRESTORE_EMULATOR_HOST set the
+// SDK talks to the emulator, which needs a project ID but no service account.
+if (!getApps().length) {
+  initializeApp(process.env.FIRESTORE_EMULATOR_HOST ? { projectId: process.env.FIREBASE_PROJECT_ID } : {
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+// Server-side writes bypass the security rules, which leave these collections read-only for clients
+export const adminDb = getFirestore();
+export { FieldValue };
+
+// Mints the custom tokens that sign the client SDK in as a Farcaster fid, see /api/firebase-token
+export const adminAuth = getAuth();
+
+export const serverLogger = logger.getModuleLogger('server');
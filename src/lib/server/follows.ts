@@ -0,0 +1,83 @@
+import type { FarcasterUser } from '../../types/user';
+import { PODPLAYR_ACCOUNT } from '../podplayr';
+import { adminDb, FieldValue, serverLogger } from './firebaseAdmin';
+import { getProfile } from './profiles';
+
+// The followed user's profile as stored in the follower's following list
+export type FollowTarget = Pick<FarcasterUser, 'fid' | 'username' | 'display_name' | 'pfp_url'>;
+
+const getFollowingRef = (fid: number, targetFid: number) =>
+  adminDb.collection('users').doc(fid.toString()).collection('following').doc(targetFid.toString());
+const getFollowerRef = (fid: number, followerFid: number) =>
+  adminDb.collection('users').doc(fid.toString()).collection('followers').doc(followerFid.toString());
+const getSearchedUserRef = (fid: number) => adminDb.collection('searchedusers').doc(fid.toString());
+
+// PODPlayr's follower count is its followers subcollection, refreshed whenever it changes
+const refreshPodplayrFollowerCount = async (): Promise<void> => {
+  const followers = await adminDb.collection('users').doc(PODPLAYR_ACCOUNT.fid.toString())
+    .collection('followers').count().get();
+  await getSearchedUserRef(PODPLAYR_ACCOUNT.fid).set({
+    fid: PODPLAYR_ACCOUNT.fid,
+    username: PODPLAYR_ACCOUNT.username,
+    display_name: PODPLAYR_ACCOUNT.display_name,
+    pfp_url: PODPLAYR_ACCOUNT.pfp_url,
+    follower_count: followers.data().count
+  }, { merge: true });
+};
+
+/**
+ * Make fid follow target: writes both sides of the relationship and bumps the
+ * following and follower counts on searchedusers. Following twice is a no-op; the check and
+ * the writes share a transaction so two concurrent follows can't both count.
+ */
+export const follow = async (fid: number, target: FollowTarget): Promise<void> => {
+  if (fid === target.fid) throw new Error('Cannot follow yourself');
+
+  const followingRef = getFollowingRef(fid, target.fid);
+  if ((await followingRef.get()).exists) return;
+
+  const isPodplayr = target.fid === PODPLAYR_ACCOUNT.fid;
+  const followerProfile = await getProfile(fid);
+
+  const followed = await adminDb.runTransaction(async transaction => {
+    if ((await transaction.get(followingRef)).exists) return false;
+
+    transaction.set(followingRef, {
+      fid: target.fid,
+      username: target.username,
+      display_name: target.display_name || target.username,
+      pfp_url: isPodplayr ? PODPLAYR_ACCOUNT.pfp_url : target.pfp_url || `https://avatar.vercel.sh/${target.username}`,
+      timestamp: FieldValue.serverTimestamp()
+    });
+    transaction.set(getFollowerRef(target.fid, fid), {
+      fid,
+      ...followerProfile,
+      timestamp: FieldValue.serverTimestamp()
+    });
+    transaction.set(getSearchedUserRef(fid), { fid, following_count: FieldValue.increment(1) }, { merge: true });
+    transaction.set(getSearchedUserRef(target.fid), { fid: target.fid, follower_count: FieldValue.increment(1) }, { merge: true });
+    return true;
+  });
+  if (!followed) return;
+
+  if (isPodplayr) await refreshPodplayrFollowerCount();
+  serverLogger.info(`User ${fid} followed user ${target.fid}`);
+};
+
+// Undo follow. Everyone keeps following PODPlayr, so that one is refused.
+export const unfollow = async (fid: number, targetFid: number): Promise<void> => {
+  if (targetFid === PODPLAYR_ACCOUNT.fid) throw new Error('Cannot unfollow PODPlayr');
+
+  const followingRef = getFollowingRef(fid, targetFid);
+  const unfollowed = await adminDb.runTransaction(async transaction => {
+    if (!(await transaction.get(followingRef)).exists) return false;
+
+    transaction.delete(followingRef);
+    transaction.delete(getFollowerRef(targetFid, fid));
+    transaction.set(getSearchedUserRef(fid), { following_count: FieldValue.increment(-1) }, { merge: true });
+    transaction.set(getSearchedUserRef(targetFid), { follower_count: FieldValue.increment(-1) }, { merge: true });
+    return true;
+  });
+
+  if (unfollowed) serverLogger.info(`User ${fid} unfollowed user ${targetFid}`);
+};
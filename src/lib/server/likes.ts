@@ -0,0 +1,85 @@
+import type { NFT } from '../../types/user';
+import { computeMediaKey } from '../../utils/media';
+import { toLikeDocument, toPlayDocument } from '../trackDocuments';
+import { adminDb, FieldValue, serverLogger } from './firebaseAdmin';
+import { recordTrackActivity } from './activity';
+
+/**
+ * Like or unlike an NFT for fid, keeping global_likes and the nfts like count in step.
+ * forceUnlike always removes the like, which the Library relies on. Returns whether the
+ * NFT is liked afterwards. The like's existence and the counters are read and written in one
+ * transaction, so concurrent toggles can't double count.
+ */
+export const toggleLike = async (nft: NFT, fid: number, forceUnlike = false): Promise<boolean> => {
+  const mediaKey = computeMediaKey(nft);
+  if (!mediaKey) throw new Error('Could not determine media key');
+
+  const globalLikeRef = adminDb.collection('global_likes').doc(mediaKey);
+  const userLikeRef = adminDb.collection('users').doc(fid.toString()).collection('likes').doc(mediaKey);
+  const nftRef = adminDb.collection('nfts').doc(`${nft.contract}-${nft.tokenId}`);
+  const track = toPlayDocument(nft, mediaKey);
+
+  const liked = await adminDb.runTransaction(async transaction => {
+    const [userLikeDoc, globalLikeDoc, nftDoc] = await transaction.getAll(userLikeRef, globalLikeRef, nftRef);
+
+    if (forceUnlike || userLikeDoc.exists) {
+      if (!userLikeDoc.exists) return false;
+
+      transaction.delete(userLikeRef);
+
+      if (globalLikeDoc.exists) {
+        // This listener's like is part of the count, so a count of one or less ends with them
+        if ((globalLikeDoc.data()?.likeCount || 0) <= 1) {
+          transaction.delete(globalLikeRef);
+        } else {
+          transaction.update(globalLikeRef, {
+            likeCount: FieldValue.increment(-1),
+            lastUnliked: FieldValue.serverTimestamp()
+          });
+        }
+      }
+
+      if (nftDoc.exists) {
+        transaction.update(nftRef, { likes: Math.max(0, (nftDoc.data()?.likes || 1) - 1) });
+      }
+      return false;
+    }
+
+    transaction.set(userLikeRef, { ...toLikeDocument(nft, mediaKey), timestamp: FieldValue.serverTimestamp() });
+
+    if (globalLikeDoc.exists) {
+      const globalData = globalLikeDoc.data() || {};
+      transaction.update(globalLikeRef, {
+        likeCount: FieldValue.increment(1),
+        lastLiked: FieldValue.serverTimestamp(),
+        name: nft.name || globalData.name || 'Untitled',
+        description: track.description || globalData.description || '',
+        image: track.image || globalData.image || '',
+        audioUrl: track.audioUrl || globalData.audioUrl || '',
+        collection: nft.collection?.name || globalData.collection || 'Unknown Collection',
+        network: nft.network || globalData.network || 'ethereum'
+      });
+    } else {
+      transaction.set(globalLikeRef, {
+        ...track,
+        likeCount: 1,
+        firstLiked: FieldValue.serverTimestamp(),
+        lastLiked: FieldValue.serverTimestamp()
+      });
+    }
+
+    if (nftDoc.exists) {
+      transaction.update(nftRef, { likes: (nftDoc.data()?.likes || 0) + 1 });
+    }
+    return true;
+  });
+
+  if (!liked) {
+    serverLogger.info(`Removed like of ${mediaKey.substring(0, 12)}... for user ${fid}`);
+    return false;
+  }
+
+  serverLogger.info(`Added like of ${mediaKey.substring(0, 12)}... for user ${fid}`);
+  await recordTrackActivity(fid, 'like', { ...nft, mediaKey });
+  return true;
+};
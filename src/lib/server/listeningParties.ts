@@ -0,0 +1,30 @@
+import type { PartyParticipant } from '../../types/user';
+import { adminDb, serverLogger } from './firebaseAdmin';
+import { getProfile } from './profiles';
+
+// listeningParties/{partyId}/participants/{fid}; see lib/firebase/listeningParties.ts for the
+// party itself and the heartbeat participants keep up from the client
+const getPartyRef = (partyId: string) => adminDb.collection('listeningParties').doc(partyId);
+
+/**
+ * Add fid to a party, or rejoin it, under the name and picture from their profile. Participants
+ * only refresh lastSeen from the client afterwards, so nobody can show up as someone else.
+ */
+export const joinParty = async (partyId: string, fid: number): Promise<void> => {
+  const party = await getPartyRef(partyId).get();
+  if (!party.exists) throw new Error('Listening party not found');
+  if (party.data()?.endedAt) throw new Error('This listening party has ended');
+
+  const profile = await getProfile(fid);
+  const now = Date.now();
+  const participant: PartyParticipant = {
+    fid,
+    username: profile.username,
+    displayName: profile.display_name,
+    pfpUrl: profile.pfp_url,
+    joinedAt: now,
+    lastSeen: now
+  };
+  await getPartyRef(partyId).collection('participants').doc(fid.toString()).set(participant);
+  serverLogger.info(`User ${fid} joined listening party ${partyId}`);
+};
@@ -0,0 +1,32 @@
+import type { PlayEvent, WrappedSummary } from '../../types/user';
+import { buildWrappedSummary, computeListeningStats, getYearRange, toPlayEvent } from '../listeningStats';
+import { toMillis } from '../timestamps';
+import { adminDb } from './firebaseAdmin';
+import { getProfile } from './profiles';
+
+const getPlayEvents = async (fid: number): Promise<PlayEvent[]> => {
+  const snapshot = await adminDb.collection('users').doc(fid.toString()).collection('playHistory').get();
+  return snapshot.docs
+    .map(historyDoc => {
+      const data = historyDoc.data();
+      return toPlayEvent(data, toMillis(data.timestamp, data.timestampISO));
+    })
+    .filter(event => event.mediaKey && event.playedAt > 0)
+    .sort((a, b) => a.playedAt - b.playedAt);
+};
+
+/**
+ * Build fid's recap for year from the plays recordPlay stored, and save it at
+ * wrappedSummaries/{fid}-{year} for the share page. The year and streaks follow the
+ * listener's calendar in timeZone, not the server's. Re-sharing overwrites it with the
+ * latest numbers.
+ */
+export const saveWrappedSummary = async (fid: number, year: number, timeZone?: string): Promise<WrappedSummary> => {
+  const [events, profile] = await Promise.all([getPlayEvents(fid), getProfile(fid)]);
+  const { since, until } = getYearRange(year, Date.now(), timeZone);
+  const stats = computeListeningStats(events, since, until, timeZone);
+  const summary = buildWrappedSummary(stats, fid, profile.username, year);
+
+  await adminDb.collection('wrappedSummaries').doc(`${fid}-${year}`).set(summary);
+  return summary;
+};
@@ -0,0 +1,22 @@
+import { adminDb, serverLogger } from './firebaseAdmin';
+import type { ResolvedTrack } from './tracks';
+
+// lyrics/{mediaKey}, shared by every copy of the same content; see lib/firebase/lyrics.ts for reads
+const getLyricsRef = (mediaKey: string) => adminDb.collection('lyrics').doc(mediaKey);
+
+// Store fid's LRC/WebVTT upload for the track. The route has already checked fid owns it.
+export const saveLyrics = async ({ nft, mediaKey }: ResolvedTrack, fid: number, text: string): Promise<void> => {
+  await getLyricsRef(mediaKey).set({
+    text,
+    uploadedBy: fid,
+    contract: nft.contract,
+    tokenId: nft.tokenId,
+    updatedAt: Date.now()
+  });
+  serverLogger.info(`User ${fid} uploaded lyrics for ${mediaKey.substring(0, 12)}...`);
+};
+
+export const deleteLyrics = async ({ mediaKey }: ResolvedTrack, fid: number): Promise<void> => {
+  await getLyricsRef(mediaKey).delete();
+  serverLogger.info(`User ${fid} removed the lyrics for ${mediaKey.substring(0, 12)}...`);
+};
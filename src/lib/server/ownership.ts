@@ -0,0 +1,35 @@
+import { fetchNFTOwnersFromAlchemy } from '../alchemy';
+import { neynarClient } from '../neynar';
+import { serverLogger } from './firebaseAdmin';
+
+// Custody and verified Ethereum wallets of a Farcaster user, lowercased
+const getUserAddresses = async (fid: number): Promise<string[]> => {
+  try {
+    const user = (await neynarClient.fetchBulkUsers({ fids: [fid] })).users?.[0];
+    if (!user) return [];
+    return [user.custody_address, ...(user.verified_addresses?.eth_addresses || [])]
+      .filter((address): address is string => Boolean(address))
+      .map(address => address.toLowerCase());
+  } catch (error) {
+    serverLogger.warn(`Error fetching wallets for user ${fid}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Whether one of fid's wallets holds the token right now. Owner-only writes (lyrics, chapters,
+ * comment moderation) check this on the server instead of trusting the client's NFT list.
+ */
+export const ownsNFT = async (
+  fid: number,
+  contract: string,
+  tokenId: string,
+  network: 'ethereum' | 'base' = 'ethereum'
+): Promise<boolean> => {
+  const [addresses, owners] = await Promise.all([
+    getUserAddresses(fid),
+    fetchNFTOwnersFromAlchemy(contract, tokenId, network)
+  ]);
+  const ownerSet = new Set(owners);
+  return addresses.some(address => ownerSet.has(address));
+};
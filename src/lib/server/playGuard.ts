@@ -0,0 +1,228 @@
+import type { DocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { MIN_LISTEN_SECONDS, requiredListenSeconds } from '../playRules';
+import { MAX_PLAYBACK_RATE } from '../playbackRates';
+import { toMillis } from '../timestamps';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// Per-listener counters checked on every play: today's count, when the last play was counted
+// and when each recently played mediaKey last counted
+const PLAY_GUARDS_COLLECTION = 'play_guards';
+
+// Plays refused by the guard, kept for the suspicious listeners report
+const PLAY_AUDIT_COLLECTION = 'play_audit';
+
+// The same track counts at most once per window for a listener, so loops don't inflate it
+const PLAY_COOLDOWN_MS = 30 * 60 * 1000;
+
+// Most plays one listener can add in a UTC day
+const DAILY_PLAY_CAP = 200;
+
+// Timeupdate granularity and rounding on the client
+const LISTEN_TOLERANCE_SECONDS = 1;
+
+// Crossfades overlap the end of one track with the start of the next
+const OVERLAP_SLACK_MS = 15 * 1000;
+
+const WRITE_BATCH_SIZE = 400;
+
+// Listeners whose report of a track's length is kept on its global_plays doc; enough for a
+// stable median without growing the doc with every new listener
+const MAX_DURATION_REPORTS = 50;
+
+export type PlayRejectionReason = 'too_short' | 'cooldown' | 'daily_cap' | 'overlapping';
+
+// What the player reports about a listen alongside the play. durationSeconds only counts until
+// other listeners have reported the track's length: from then on their median is used instead.
+export interface PlayEvidence {
+  listenedSeconds?: number;
+  durationSeconds?: number;
+}
+
+export interface SuspiciousListener {
+  fid: number;
+  rejections: number;
+  reasons: Partial<Record<PlayRejectionReason, number>>;
+  lastRejectedAt: number;
+}
+
+const toDayKey = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// However short the track claims to be, a play takes at least MIN_LISTEN_SECONDS of listening
+const isLongEnough = ({ listenedSeconds = 0, durationSeconds }: PlayEvidence) =>
+  Boolean(durationSeconds && durationSeconds > 0) &&
+  listenedSeconds + LISTEN_TOLERANCE_SECONDS >= MIN_LISTEN_SECONDS &&
+  listenedSeconds + LISTEN_TOLERANCE_SECONDS >= requiredListenSeconds(durationSeconds as number);
+
+// Median of the lengths listeners reported for a track, by fid, or null when there are none
+export const medianDuration = (reports: Record<string, number>): number | null => {
+  const durations = Object.values(reports).filter(duration => duration > 0).sort((a, b) => a - b);
+  if (durations.length === 0) return null;
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+};
+
+/**
+ * The track's length reports once fid's counted play adds its own. Each listener gets one
+ * report, replaced by their latest, and new listeners stop being added once
+ * MAX_DURATION_REPORTS have reported.
+ */
+export const addDurationReport = (
+  reports: Record<string, number>,
+  fid: number,
+  durationSeconds: number | null
+): Record<string, number> => {
+  const key = fid.toString();
+  if (!durationSeconds || durationSeconds <= 0) return reports;
+  if (!(key in reports) && Object.keys(reports).length >= MAX_DURATION_REPORTS) return reports;
+  return { ...reports, [key]: durationSeconds };
+};
+
+export const getPlayGuardRef = (fid: number) => adminDb.collection(PLAY_GUARDS_COLLECTION).doc(fid.toString());
+
+/**
+ * Decide whether a play of mediaKey counts, inside the transaction that counts it. guardDoc is
+ * the listener's getPlayGuardRef doc, read in that transaction, and knownDurationSeconds the
+ * median length other listeners reported for the track, which wins over this listener's. An accepted play
+ * is reserved against the cooldown and daily cap, so parallel tabs can't both squeeze through.
+ * Returns why the play was refused, or null when it counts.
+ */
+export const admitPlay = (
+  transaction: Transaction,
+  guardDoc: DocumentSnapshot,
+  mediaKey: string,
+  evidence: PlayEvidence,
+  knownDurationSeconds?: number | null
+): PlayRejectionReason | null => {
+  const durationSeconds = knownDurationSeconds || evidence.durationSeconds;
+  if (!isLongEnough({ listenedSeconds: evidence.listenedSeconds, durationSeconds })) return 'too_short';
+
+  const guard = guardDoc.data() || {};
+  const now = Date.now();
+  const today = toDayKey(now);
+  const dailyCount = guard.day === today ? guard.dailyCount || 0 : 0;
+  const lastPlays: Record<string, number> = guard.lastPlays || {};
+
+  if (dailyCount >= DAILY_PLAY_CAP) return 'daily_cap';
+  if (now - (lastPlays[mediaKey] || 0) < PLAY_COOLDOWN_MS) return 'cooldown';
+
+  // One person can't have heard more since their last counted play than the time that's passed
+  const minimumElapsedMs = ((evidence.listenedSeconds || 0) / MAX_PLAYBACK_RATE) * 1000;
+  if (guard.lastCountedAt && now - guard.lastCountedAt + OVERLAP_SLACK_MS < minimumElapsedMs) {
+    return 'overlapping';
+  }
+
+  const recentPlays = Object.fromEntries(
+    Object.entries(lastPlays).filter(([, playedAt]) => now - playedAt < PLAY_COOLDOWN_MS)
+  );
+  transaction.set(guardDoc.ref, {
+    day: today,
+    dailyCount: dailyCount + 1,
+    lastCountedAt: now,
+    lastPlays: { ...recentPlays, [mediaKey]: now }
+  });
+  return null;
+};
+
+export const recordRejectedPlay = async (
+  fid: number,
+  mediaKey: string,
+  reason: PlayRejectionReason,
+  evidence: PlayEvidence
+): Promise<void> => {
+  try {
+    await adminDb.collection(PLAY_AUDIT_COLLECTION).add({
+      fid,
+      mediaKey,
+      reason,
+      listenedSeconds: evidence.listenedSeconds ?? null,
+      durationSeconds: evidence.durationSeconds ?? null,
+      createdAt: Date.now()
+    });
+  } catch (error) {
+    serverLogger.warn(`Error auditing rejected play for user ${fid}:`, error);
+  }
+};
+
+/**
+ * Listeners with at least minRejections refused plays in the last `days` days, most first.
+ * A handful of too_short rejections is normal skipping; cooldown, daily_cap and overlapping
+ * in volume point at loops, parallel tabs or scripts.
+ */
+export const getSuspiciousListeners = async (days = 7, minRejections = 10): Promise<SuspiciousListener[]> => {
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const snapshot = await adminDb.collection(PLAY_AUDIT_COLLECTION).where('createdAt', '>=', since).get();
+
+  const byFid = new Map<number, SuspiciousListener>();
+  snapshot.docs.forEach(auditDoc => {
+    const { fid, reason, createdAt } = auditDoc.data() as { fid: number; reason: PlayRejectionReason; createdAt: number };
+    const listener: SuspiciousListener = byFid.get(fid) || { fid, rejections: 0, reasons: {}, lastRejectedAt: 0 };
+    listener.rejections++;
+    listener.reasons[reason] = (listener.reasons[reason] || 0) + 1;
+    listener.lastRejectedAt = Math.max(listener.lastRejectedAt, createdAt || 0);
+    byFid.set(fid, listener);
+  });
+
+  return Array.from(byFid.values())
+    .filter(listener => listener.rejections >= minRejections)
+    .sort((a, b) => b.rejections - a.rejections);
+};
+
+/**
+ * Rebuild playCount on global_plays and top_played by replaying nft_plays through the
+ * cooldown and daily cap, plus the listen check for rows that recorded listenedSeconds.
+ * Plays from before the guard existed are judged by the same rules they'd face today.
+ */
+export const recomputePlayCounts = async (): Promise<{
+  success: boolean;
+  scanned?: number;
+  counted?: number;
+  updated?: number;
+  error?: unknown;
+}> => {
+  try {
+    const playsSnapshot = await adminDb.collection('nft_plays').orderBy('timestamp', 'asc').get();
+
+    const counts = new Map<string, number>();
+    const dailyCounts = new Map<string, number>(); // `${fid}-${day}` -> plays counted that day
+    const lastCounted = new Map<string, number>(); // `${fid}-${mediaKey}` -> last counted at
+    let counted = 0;
+
+    playsSnapshot.docs.forEach(playDoc => {
+      const data = playDoc.data();
+      const playedAt = toMillis(data.timestamp);
+      if (!data.fid || !data.mediaKey || !playedAt) return;
+      if (typeof data.listenedSeconds === 'number' && !isLongEnough(data)) return;
+
+      const dayKey = `${data.fid}-${toDayKey(playedAt)}`;
+      const trackKey = `${data.fid}-${data.mediaKey}`;
+      if ((dailyCounts.get(dayKey) || 0) >= DAILY_PLAY_CAP) return;
+      if (playedAt - (lastCounted.get(trackKey) ?? -Infinity) < PLAY_COOLDOWN_MS) return;
+
+      dailyCounts.set(dayKey, (dailyCounts.get(dayKey) || 0) + 1);
+      lastCounted.set(trackKey, playedAt);
+      counts.set(data.mediaKey, (counts.get(data.mediaKey) || 0) + 1);
+      counted++;
+    });
+
+    const [globalSnapshot, topPlayedSnapshot] = await Promise.all([
+      adminDb.collection('global_plays').get(),
+      adminDb.collection('top_played').get()
+    ]);
+    const changed = [...globalSnapshot.docs, ...topPlayedSnapshot.docs]
+      .filter(playsDoc => (playsDoc.data().playCount || 0) !== (counts.get(playsDoc.id) || 0));
+
+    for (let i = 0; i < changed.length; i += WRITE_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      changed.slice(i, i + WRITE_BATCH_SIZE).forEach(playsDoc => {
+        batch.update(playsDoc.ref, { playCount: counts.get(playsDoc.id) || 0 });
+      });
+      await batch.commit();
+    }
+
+    serverLogger.info(`Recomputed play counts: ${counted} of ${playsSnapshot.size} plays count, ${changed.length} docs updated`);
+    return { success: true, scanned: playsSnapshot.size, counted, updated: changed.length };
+  } catch (error) {
+    serverLogger.error('Error recomputing play counts:', error);
+    return { success: false, error };
+  }
+};
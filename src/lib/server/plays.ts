@@ -0,0 +1,233 @@
+import type { DocumentData } from 'firebase-admin/firestore';
+import type { NFT } from '../../types/user';
+import { computeMediaKey } from '../../utils/media';
+import { getNFTCreator } from '../creators';
+import { adminDb, FieldValue, serverLogger } from './firebaseAdmin';
+import { recordTrackActivity } from './activity';
+import {
+  addDurationReport,
+  admitPlay,
+  getPlayGuardRef,
+  medianDuration,
+  recordRejectedPlay,
+  type PlayEvidence,
+  type PlayRejectionReason
+} from './playGuard';
+
+export interface PlayOptions extends PlayEvidence {
+  thresholdReached?: boolean;
+}
+
+export interface PlayResult {
+  mediaKey: string;
+  counted: boolean;
+  reason?: PlayRejectionReason;
+}
+
+/**
+ * Count one play of an NFT by fid once the play guard accepts it: bumps global_plays, nfts
+ * and top_played, appends to nft_plays and the listener's playHistory, then records a play
+ * activity event. The guard and the counters share one transaction, so a refused or retried
+ * play never moves a count. Refused plays only go to the audit log. Returns null when the NFT
+ * has no audio to key.
+ */
+export const recordPlay = async (nft: NFT, fid: number, options: PlayOptions = {}): Promise<PlayResult | null> => {
+  const name = nft.name || nft.metadata?.name || `NFT #${nft.tokenId}`;
+  const audioUrl = nft.metadata?.animation_url || nft.audio || nft.metadata?.audio || nft.metadata?.audio_url;
+  if (!audioUrl) {
+    serverLogger.warn('No audio URL found for NFT:', { contract: nft.contract, tokenId: nft.tokenId });
+    return null;
+  }
+
+  const mediaKey = computeMediaKey(nft);
+  if (!mediaKey) return null;
+
+  const description = nft.description || nft.metadata?.description || '';
+  const collectionName = nft.collection?.name || 'Unknown Collection';
+  const network = nft.network || 'ethereum';
+  const reportedDuration = options.durationSeconds && Number.isFinite(options.durationSeconds)
+    ? Math.round(options.durationSeconds)
+    : null;
+
+  const globalPlayRef = adminDb.collection('global_plays').doc(mediaKey);
+  const nftRef = adminDb.collection('nfts').doc(`${nft.contract}-${nft.tokenId}-${mediaKey.substring(0, 12)}`);
+  const topPlayedRef = adminDb.collection('top_played').doc(mediaKey);
+
+  // Metadata is refreshed on every play so the charts show what the NFT looks like now
+  const latestMetadata = (existing: DocumentData = {}) => ({
+    name: name || existing.name || 'Untitled',
+    image: nft.image || existing.image || '',
+    audioUrl: audioUrl || existing.audioUrl,
+    description: description || existing.description || '',
+    collection: nft.collection?.name || existing.collection || 'Unknown Collection',
+    network: nft.network || existing.network || 'ethereum'
+  });
+
+  const rejection = await adminDb.runTransaction(async transaction => {
+    const [guardDoc, globalPlayDoc, nftDoc, topPlayedDoc] = await transaction.getAll(
+      getPlayGuardRef(fid),
+      globalPlayRef,
+      nftRef,
+      topPlayedRef
+    );
+
+    // Each listener's reported length is kept on global_plays, and a play is judged by the
+    // median of everyone else's, so one scripted report can't lower the bar for the track
+    const durationReports: Record<string, number> = globalPlayDoc.data()?.durationReports || {};
+    const otherReports = Object.fromEntries(
+      Object.entries(durationReports).filter(([reporter]) => reporter !== fid.toString())
+    );
+    const refused = admitPlay(transaction, guardDoc, mediaKey, options, medianDuration(otherReports));
+    if (refused) return refused;
+
+    const updatedReports = addDurationReport(durationReports, fid, reportedDuration);
+    const durationSeconds = medianDuration(updatedReports);
+
+    const newPlayCount = (globalPlayDoc.data()?.playCount || 0) + 1;
+
+    if (globalPlayDoc.exists) {
+      transaction.update(globalPlayRef, {
+        playCount: FieldValue.increment(1),
+        lastPlayed: FieldValue.serverTimestamp(),
+        durationReports: updatedReports,
+        durationSeconds,
+        ...latestMetadata(globalPlayDoc.data())
+      });
+    } else {
+      transaction.set(globalPlayRef, {
+        mediaKey,
+        nftContract: nft.contract,
+        tokenId: nft.tokenId,
+        name,
+        description,
+        image: nft.image || nft.metadata?.image || '',
+        audioUrl,
+        collection: collectionName,
+        network,
+        durationReports: updatedReports,
+        durationSeconds,
+        playCount: 1,
+        firstPlayed: FieldValue.serverTimestamp(),
+        lastPlayed: FieldValue.serverTimestamp()
+      });
+    }
+
+    if (nftDoc.exists) {
+      transaction.update(nftRef, {
+        plays: FieldValue.increment(1),
+        lastPlayed: FieldValue.serverTimestamp(),
+        mediaKey
+      });
+    } else {
+      transaction.set(nftRef, {
+        contract: nft.contract,
+        tokenId: nft.tokenId,
+        mediaKey,
+        name,
+        plays: 1,
+        firstPlayed: FieldValue.serverTimestamp(),
+        lastPlayed: FieldValue.serverTimestamp()
+      });
+    }
+
+    if (topPlayedDoc.exists) {
+      transaction.update(topPlayedRef, {
+        lastPlayed: FieldValue.serverTimestamp(),
+        playCount: FieldValue.increment(1),
+        ...latestMetadata(topPlayedDoc.data())
+      });
+    } else {
+      transaction.set(topPlayedRef, {
+        mediaKey,
+        nftContract: nft.contract,
+        tokenId: nft.tokenId,
+        name,
+        image: nft.image || '',
+        audioUrl,
+        description,
+        collection: collectionName,
+        network,
+        firstTopPlayedAt: FieldValue.serverTimestamp(),
+        lastPlayed: FieldValue.serverTimestamp(),
+        playCount: newPlayCount
+      });
+    }
+
+    const playData = {
+      fid,
+      mediaKey,
+      nftContract: nft.contract,
+      tokenId: nft.tokenId,
+      name,
+      description,
+      image: nft.image || nft.metadata?.image || '',
+      audioUrl,
+      collection: collectionName,
+      network,
+      timestamp: FieldValue.serverTimestamp(),
+      playCount: newPlayCount,
+      thresholdReached: options.thresholdReached || false,
+      creator: getNFTCreator(nft),
+      // Track length, used to estimate listening time
+      durationSeconds,
+      // Kept so recomputePlayCounts can re-check the listen
+      listenedSeconds: options.listenedSeconds ?? null
+    };
+    transaction.set(adminDb.collection('nft_plays').doc(), playData);
+    transaction.set(adminDb.collection('users').doc(fid.toString()).collection('playHistory').doc(), playData);
+    return null;
+  });
+
+  if (rejection) {
+    serverLogger.info(`Refused play of ${mediaKey.substring(0, 12)}... for user ${fid}: ${rejection}`);
+    await recordRejectedPlay(fid, mediaKey, rejection, options);
+    return { mediaKey, counted: false, reason: rejection };
+  }
+
+  serverLogger.info(`Tracked play of ${mediaKey.substring(0, 12)}... for user ${fid}`);
+  await recordTrackActivity(fid, 'play', { ...nft, name, mediaKey });
+  return { mediaKey, counted: true };
+};
+
+/**
+ * Keep top_played down to the 3 most-played NFTs in global_plays. Runs from the admin
+ * sync-top-played endpoint now that clients can no longer write the collection.
+ */
+export const syncTopPlayed = async (): Promise<{ success: boolean; error?: unknown }> => {
+  try {
+    const [topNFTsSnapshot, currentTopPlayedSnapshot] = await Promise.all([
+      adminDb.collection('global_plays').orderBy('playCount', 'desc').limit(3).get(),
+      adminDb.collection('top_played').get()
+    ]);
+
+    const batch = adminDb.batch();
+    const keepMediaKeys = new Set<string>();
+    const now = Date.now();
+
+    topNFTsSnapshot.docs.forEach((snapshot, index) => {
+      keepMediaKeys.add(snapshot.id);
+      batch.set(adminDb.collection('top_played').doc(snapshot.id), {
+        ...snapshot.data(),
+        rank: index + 1,
+        lastUpdated: FieldValue.serverTimestamp(),
+        lastUpdatedTimestamp: now,
+        lastUpdatedISO: new Date(now).toISOString()
+      });
+    });
+
+    let removedCount = 0;
+    currentTopPlayedSnapshot.docs.forEach(snapshot => {
+      if (!keepMediaKeys.has(snapshot.id)) {
+        batch.delete(snapshot.ref);
+        removedCount++;
+      }
+    });
+
+    await batch.commit();
+    serverLogger.info(`Synced top_played: kept ${keepMediaKeys.size} NFTs, removed ${removedCount}`);
+    return { success: true };
+  } catch (error) {
+    serverLogger.error('Error updating top_played collection:', error);
+    return { success: false, error };
+  }
+};
@@ -0,0 +1,39 @@
+import { neynarClient } from '../neynar';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+export interface Profile {
+  username: string;
+  display_name: string;
+  pfp_url: string;
+}
+
+/**
+ * How a user shows up next to what they write - in a followers list, on a comment: their
+ * searchedusers entry, else Neynar. Looked up on the server so nobody can post under
+ * someone else's name.
+ */
+export const getProfile = async (fid: number): Promise<Profile> => {
+  const snapshot = await adminDb.collection('searchedusers').doc(fid.toString()).get();
+  const data = snapshot.data() || {};
+  if (data.username) {
+    return {
+      username: data.username,
+      display_name: data.display_name || data.username,
+      pfp_url: data.pfp_url || `https://avatar.vercel.sh/${data.username}`
+    };
+  }
+
+  try {
+    const user = (await neynarClient.fetchBulkUsers({ fids: [fid] })).users?.[0];
+    if (user) {
+      return {
+        username: user.username,
+        display_name: user.display_name || user.username,
+        pfp_url: user.pfp_url || `https://avatar.vercel.sh/${user.username}`
+      };
+    }
+  } catch (error) {
+    serverLogger.warn(`Error fetching profile for ${fid}:`, error);
+  }
+  return { username: `user${fid}`, display_name: `User ${fid}`, pfp_url: `https://avatar.vercel.sh/${fid}` };
+};
@@ -0,0 +1,179 @@
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import type { ActivityTrack, RecommendedTrack, TrackRecommendations } from '../../types/user';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// One document per seed track at recommendations/{mediaKey}, read by the client's getRecommendations
+const getRecommendationsRef = (mediaKey: string) => adminDb.collection('recommendations').doc(mediaKey);
+
+// Neighbors stored per track
+export const RECOMMENDATIONS_PER_TRACK = 20;
+
+// A like says more about taste than a play does
+const LIKE_WEIGHT = 2;
+const PLAY_WEIGHT = 1;
+
+// Heavy listeners are capped to their strongest signals so the pair count stays bounded
+const MAX_ITEMS_PER_USER = 200;
+
+// Damps similarity between tracks that only a handful of listeners share
+const SHRINKAGE = 2;
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+// Likes and plays carry the contract under different field names
+const toTrack = (mediaKey: string, data: DocumentData): ActivityTrack => ({
+  mediaKey,
+  contract: data.nftContract || data.contract || '',
+  tokenId: data.tokenId || '',
+  name: data.name || 'Untitled',
+  image: data.image || '',
+  audioUrl: data.audioUrl || '',
+  collection: data.collection || 'Unknown Collection',
+  network: data.network === 'base' ? 'base' : 'ethereum'
+});
+
+// fid of a users/{fid}/<subcollection>/{doc} row, or null for same-named collections elsewhere
+const getOwnerFid = (snapshot: QueryDocumentSnapshot): string | null => {
+  const owner = snapshot.ref.parent.parent;
+  return owner && owner.parent.id === 'users' ? owner.id : null;
+};
+
+type UserSignals = Map<string, Map<string, number>>;
+
+const addSignal = (signals: UserSignals, fid: string, mediaKey: string, weight: number) => {
+  const items = signals.get(fid) || new Map<string, number>();
+  items.set(mediaKey, Math.max(items.get(mediaKey) || 0, weight));
+  signals.set(fid, items);
+};
+
+// Per-user weight for every track they've liked or played, plus a compact track for each mediaKey.
+// Play rows are read first so a track's collection/network comes from playHistory where it exists.
+const collectUserSignals = async () => {
+  const [playsSnapshot, likesSnapshot, legacyLikesSnapshot] = await Promise.all([
+    adminDb.collectionGroup('playHistory').get(),
+    adminDb.collectionGroup('likes').get(),
+    adminDb.collection('user_likes').get()
+  ]);
+
+  const signals: UserSignals = new Map();
+  const tracks = new Map<string, ActivityTrack>();
+  const rememberTrack = (mediaKey: string, data: DocumentData) => {
+    if (!tracks.has(mediaKey)) tracks.set(mediaKey, toTrack(mediaKey, data));
+  };
+
+  playsSnapshot.docs.forEach(playDoc => {
+    const data = playDoc.data();
+    const fid = getOwnerFid(playDoc);
+    if (!fid || !data.mediaKey) return;
+    addSignal(signals, fid, data.mediaKey, PLAY_WEIGHT);
+    rememberTrack(data.mediaKey, data);
+  });
+
+  likesSnapshot.docs.forEach(likeDoc => {
+    const fid = getOwnerFid(likeDoc);
+    if (!fid) return;
+    const data = likeDoc.data();
+    const mediaKey = data.mediaKey || likeDoc.id;
+    addSignal(signals, fid, mediaKey, LIKE_WEIGHT);
+    rememberTrack(mediaKey, data);
+  });
+
+  // Older likes were stored flat as user_likes/{fid}-{contract}-{tokenId}
+  legacyLikesSnapshot.docs.forEach(likeDoc => {
+    const data = likeDoc.data();
+    const fid = data.fid ? String(data.fid) : likeDoc.id.split('-')[0];
+    if (!fid || !data.mediaKey) return;
+    addSignal(signals, fid, data.mediaKey, LIKE_WEIGHT);
+    rememberTrack(data.mediaKey, data);
+  });
+
+  return { signals, tracks };
+};
+
+// Item-to-item cosine similarity over the user/track weight matrix, shrunk toward zero
+// for pairs with few co-listeners. Returns the top neighbors per track.
+const computeNeighbors = (signals: UserSignals) => {
+  const norms = new Map<string, number>();
+  const dots = new Map<string, Map<string, { dot: number; users: number }>>();
+
+  const addPair = (a: string, b: string, product: number) => {
+    const row = dots.get(a) || new Map<string, { dot: number; users: number }>();
+    const cell = row.get(b) || { dot: 0, users: 0 };
+    cell.dot += product;
+    cell.users++;
+    row.set(b, cell);
+    dots.set(a, row);
+  };
+
+  signals.forEach(items => {
+    const weighted = Array.from(items.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_ITEMS_PER_USER);
+
+    weighted.forEach(([mediaKey, weight]) => {
+      norms.set(mediaKey, (norms.get(mediaKey) || 0) + weight * weight);
+    });
+
+    for (let i = 0; i < weighted.length; i++) {
+      for (let j = i + 1; j < weighted.length; j++) {
+        const [a, weightA] = weighted[i];
+        const [b, weightB] = weighted[j];
+        addPair(a, b, weightA * weightB);
+        addPair(b, a, weightA * weightB);
+      }
+    }
+  });
+
+  const neighbors = new Map<string, { mediaKey: string; score: number }[]>();
+  dots.forEach((row, mediaKey) => {
+    const normA = Math.sqrt(norms.get(mediaKey) || 0);
+    const scored = Array.from(row.entries()).map(([other, { dot, users }]) => {
+      const normB = Math.sqrt(norms.get(other) || 0);
+      const cosine = normA && normB ? dot / (normA * normB) : 0;
+      return { mediaKey: other, score: cosine * (users / (users + SHRINKAGE)) };
+    });
+    neighbors.set(
+      mediaKey,
+      scored
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, RECOMMENDATIONS_PER_TRACK)
+    );
+  });
+  return neighbors;
+};
+
+// Rebuild every track's neighbor list from likes and play history; run from the admin sync-recommendations endpoint
+export const syncRecommendations = async (): Promise<{ success: boolean; tracks?: number; error?: unknown }> => {
+  try {
+    const generatedAt = Date.now();
+    const { signals, tracks } = await collectUserSignals();
+    const neighbors = computeNeighbors(signals);
+
+    const documents: TrackRecommendations[] = [];
+    neighbors.forEach((scored, mediaKey) => {
+      const recommended: RecommendedTrack[] = scored.flatMap(({ mediaKey: neighborKey, score }) => {
+        const track = tracks.get(neighborKey);
+        return track ? [{ ...track, score: Math.round(score * 1000) / 1000 }] : [];
+      });
+      if (recommended.length > 0) {
+        documents.push({ mediaKey, neighbors: recommended, generatedAt });
+      }
+    });
+
+    for (let i = 0; i < documents.length; i += WRITE_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      documents.slice(i, i + WRITE_BATCH_SIZE).forEach(recommendations => {
+        batch.set(getRecommendationsRef(recommendations.mediaKey), recommendations);
+      });
+      await batch.commit();
+    }
+
+    serverLogger.info(`Synced recommendations for ${documents.length} tracks from ${signals.size} listeners`);
+    return { success: true, tracks: documents.length };
+  } catch (error) {
+    serverLogger.error('Error syncing recommendations:', error);
+    return { success: false, error };
+  }
+};
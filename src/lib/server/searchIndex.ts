@@ -0,0 +1,189 @@
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import type { ActivityTrack, NFTMetadata, SearchIndexEntry } from '../../types/user';
+import { getPrefixes, getTrigrams, tokenize } from '../searchText';
+import { adminDb, serverLogger } from './firebaseAdmin';
+
+// One document per track and per collection at searchIndex/{id}, queried by the client's searchCatalog
+const SEARCH_INDEX_COLLECTION = 'searchIndex';
+
+// Keeps each document well under Firestore's index entry limits
+const MAX_DESCRIPTION_WORDS = 40;
+const MAX_WORDS = 80;
+const MAX_TRIGRAMS = 400;
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+const UNKNOWN_COLLECTION = 'Unknown Collection';
+
+// What's stored: the entry plus the arrays the prefix and fuzzy queries match against
+type StoredSearchEntry = Omit<SearchIndexEntry, 'score'> & {
+  words: string[];
+  prefixes: string[];
+  trigrams: string[];
+};
+
+interface TrackSource {
+  track: ActivityTrack;
+  words: Set<string>;
+  descriptionWords: Set<string>;
+  plays: number;
+  likes: number;
+}
+
+const toTrack = (mediaKey: string, data: DocumentData): ActivityTrack => ({
+  mediaKey,
+  contract: data.nftContract || data.contract || '',
+  tokenId: data.tokenId || '',
+  name: data.name || 'Untitled',
+  image: data.image || data.imageUrl || '',
+  audioUrl: data.audioUrl || '',
+  collection: data.collection || UNKNOWN_COLLECTION,
+  network: data.network === 'base' ? 'base' : 'ethereum'
+});
+
+const getAttributeText = (metadata?: NFTMetadata): string =>
+  (metadata?.attributes || [])
+    .map(attribute => `${attribute.trait_type} ${attribute.value}`)
+    .join(' ');
+
+// Only rows under users/{fid}, not same-named top-level collections
+const isUserOwned = (snapshot: QueryDocumentSnapshot): boolean =>
+  snapshot.ref.parent.parent?.parent.id === 'users';
+
+// Every track seen in global_plays, likes and playlists, with the text to index for it.
+// global_plays is read first so its play counts and collection names win.
+const collectTrackSources = async (): Promise<Map<string, TrackSource>> => {
+  const [playsSnapshot, likesSnapshot, playlistsSnapshot] = await Promise.all([
+    adminDb.collection('global_plays').get(),
+    adminDb.collectionGroup('likes').get(),
+    adminDb.collectionGroup('playlists').get()
+  ]);
+
+  const sources = new Map<string, TrackSource>();
+  const addSource = (mediaKey: string, data: DocumentData, metadata?: NFTMetadata) => {
+    if (!mediaKey) return null;
+    let source = sources.get(mediaKey);
+    if (!source) {
+      source = { track: toTrack(mediaKey, data), words: new Set(), descriptionWords: new Set(), plays: 0, likes: 0 };
+      sources.set(mediaKey, source);
+    }
+    const words = source.words;
+    [data.name, data.collection, getAttributeText(metadata)].forEach(text => {
+      if (typeof text === 'string') tokenize(text).forEach(word => words.add(word));
+    });
+    const description = data.description || metadata?.description;
+    if (typeof description === 'string') {
+      tokenize(description).slice(0, MAX_DESCRIPTION_WORDS).forEach(word => source!.descriptionWords.add(word));
+    }
+    return source;
+  };
+
+  playsSnapshot.docs.forEach(playDoc => {
+    const data = playDoc.data();
+    const source = addSource(data.mediaKey || playDoc.id, data);
+    if (source) source.plays += data.playCount || 0;
+  });
+
+  likesSnapshot.docs.forEach(likeDoc => {
+    if (!isUserOwned(likeDoc)) return;
+    const data = likeDoc.data();
+    const source = addSource(data.mediaKey || likeDoc.id, data, data.metadata);
+    if (source) source.likes++;
+  });
+
+  playlistsSnapshot.docs.forEach(playlistDoc => {
+    if (!isUserOwned(playlistDoc)) return;
+    (playlistDoc.data().tracks || []).forEach((track: DocumentData) => {
+      addSource(track.mediaKey, track, track.metadata);
+    });
+  });
+
+  return sources;
+};
+
+// Name, collection and attribute words come before description words so they survive the cap
+const buildTextFields = (words: string[]) => {
+  const capped = Array.from(new Set(words)).slice(0, MAX_WORDS);
+  return {
+    words: capped,
+    prefixes: Array.from(new Set(capped.flatMap(getPrefixes))),
+    trigrams: Array.from(new Set(capped.flatMap(getTrigrams))).slice(0, MAX_TRIGRAMS)
+  };
+};
+
+const buildTrackEntry = (source: TrackSource): StoredSearchEntry => ({
+  id: `track-${source.track.mediaKey}`,
+  type: 'track',
+  title: source.track.name,
+  subtitle: source.track.collection || UNKNOWN_COLLECTION,
+  image: source.track.image,
+  contract: source.track.contract.toLowerCase(),
+  network: source.track.network || 'ethereum',
+  track: source.track,
+  trackCount: 1,
+  popularity: source.plays + source.likes,
+  ...buildTextFields([...Array.from(source.words), ...Array.from(source.descriptionWords)])
+});
+
+// One entry per contract, named after its most common collection name. Contracts we only
+// know as "Unknown Collection" have nothing to search on and are left out.
+const buildCollectionEntries = (tracks: StoredSearchEntry[]): StoredSearchEntry[] => {
+  const byContract = new Map<string, StoredSearchEntry[]>();
+  tracks.forEach(entry => {
+    if (!entry.contract) return;
+    byContract.set(entry.contract, [...(byContract.get(entry.contract) || []), entry]);
+  });
+
+  const entries: StoredSearchEntry[] = [];
+  byContract.forEach((contractTracks, contract) => {
+    const nameCounts = new Map<string, number>();
+    contractTracks.forEach(entry => {
+      if (entry.subtitle !== UNKNOWN_COLLECTION) {
+        nameCounts.set(entry.subtitle, (nameCounts.get(entry.subtitle) || 0) + 1);
+      }
+    });
+    const name = Array.from(nameCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (!name) return;
+
+    const mostPopular = [...contractTracks].sort((a, b) => b.popularity - a.popularity)[0];
+    entries.push({
+      id: `collection-${contract}`,
+      type: 'collection',
+      title: name,
+      subtitle: `${contractTracks.length} ${contractTracks.length === 1 ? 'track' : 'tracks'}`,
+      image: mostPopular.image,
+      contract,
+      network: mostPopular.network,
+      track: null,
+      trackCount: contractTracks.length,
+      popularity: contractTracks.reduce((total, entry) => total + entry.popularity, 0),
+      ...buildTextFields(tokenize(name))
+    });
+  });
+  return entries;
+};
+
+// Rebuild the whole search index; run from the admin sync-search-index endpoint
+export const syncSearchIndex = async (): Promise<{ success: boolean; tracks?: number; collections?: number; error?: unknown }> => {
+  try {
+    const sources = await collectTrackSources();
+    const trackEntries = Array.from(sources.values()).map(buildTrackEntry);
+    const collectionEntries = buildCollectionEntries(trackEntries);
+    const entries = [...trackEntries, ...collectionEntries];
+
+    for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      entries.slice(i, i + WRITE_BATCH_SIZE).forEach(entry => {
+        batch.set(adminDb.collection(SEARCH_INDEX_COLLECTION).doc(entry.id), entry);
+      });
+      await batch.commit();
+    }
+
+    serverLogger.info(`Indexed ${trackEntries.length} tracks and ${collectionEntries.length} collections for search`);
+    return { success: true, tracks: trackEntries.length, collections: collectionEntries.length };
+  } catch (error) {
+    serverLogger.error('Error syncing search index:', error);
+    return { success: false, error };
+  }
+};
@@ -0,0 +1,74 @@
+import type { FarcasterUser } from '../../types/user';
+import { PODPLAYR_ACCOUNT } from '../podplayr';
+import { neynarClient } from '../neynar';
+import { adminDb, FieldValue, serverLogger } from './firebaseAdmin';
+
+/**
+ * Look a username up on Neynar and record that fid searched for it: bumps the searched user's
+ * searchedusers entry, caches their first wallet for NFT loading and appends to user_searches.
+ * Returns the full profile with custody and verified addresses merged into verifiedAddresses.
+ */
+export const recordUserSearch = async (username: string, fid: number): Promise<FarcasterUser> => {
+  const searchResponse = await neynarClient.searchUser({ q: username, limit: 1 });
+  const searchedUser = searchResponse.result?.users?.[0];
+  if (!searchedUser) throw new Error('User not found');
+
+  const profileResponse = await neynarClient.fetchBulkUsers({ fids: [searchedUser.fid] });
+  const user = profileResponse.users?.[0];
+  if (!user) throw new Error('User profile not found');
+
+  const addresses = Array.from(new Set([
+    ...(user.custody_address ? [user.custody_address] : []),
+    ...(user.verified_addresses?.eth_addresses || [])
+  ]));
+
+  const batch = adminDb.batch();
+  batch.set(adminDb.collection('searchedusers').doc(user.fid.toString()), {
+    fid: user.fid,
+    username: user.username,
+    display_name: user.display_name || user.username,
+    pfp_url: user.pfp_url || '',
+    custody_address: addresses[0] || null,
+    verifiedAddresses: addresses,
+    // PODPlayr's count is its in-app followers, kept up to date by follows.ts
+    ...(user.fid === PODPLAYR_ACCOUNT.fid ? {} : { follower_count: user.follower_count }),
+    following_count: user.following_count,
+    lastSearched: Date.now(),
+    searchCount: FieldValue.increment(1)
+  }, { merge: true });
+
+  if (addresses.length > 0) {
+    batch.set(adminDb.collection('wallet_cache').doc(user.fid.toString()), {
+      address: addresses[0],
+      timestamp: FieldValue.serverTimestamp()
+    });
+  }
+
+  batch.set(adminDb.collection('user_searches').doc(), {
+    searching_fid: fid,
+    searchedFid: user.fid,
+    searchedUsername: user.username,
+    searchedDisplayName: user.display_name || user.username,
+    searchedPfpUrl: user.pfp_url || '',
+    searchedFollowerCount: user.follower_count,
+    searchedFollowingCount: user.following_count,
+    timestamp: Date.now(),
+    serverTimestamp: FieldValue.serverTimestamp()
+  });
+
+  await batch.commit();
+  serverLogger.info(`User ${fid} searched for ${user.username}`);
+
+  return {
+    fid: user.fid,
+    username: user.username,
+    display_name: user.display_name,
+    pfp_url: user.pfp_url,
+    follower_count: user.follower_count,
+    following_count: user.following_count,
+    custody_address: addresses[0],
+    verified_addresses: { eth_addresses: user.verified_addresses?.eth_addresses || [] },
+    verifiedAddresses: addresses,
+    profile: { bio: user.profile?.bio?.text || '' }
+  };
+};
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '../../auth';
+
+/**
+ * fid of the Sign In With Farcaster session making the request, or null when there isn't one.
+ * Sessions are created through next-auth, either from a SIWF signature obtained inside a frame
+ * (sdk.actions.signIn) or from AuthKit on the web - the fid is never taken from the request body.
+ */
+export const getSessionFid = async (): Promise<number | null> => {
+  const session = await getSession();
+  const fid = session?.user?.fid;
+  return typeof fid === 'number' && Number.isInteger(fid) && fid > 0 ? fid : null;
+};
+
+export const unauthorized = () =>
+  NextResponse.json({ success: false, error: 'Sign in with Farcaster first' }, { status: 401 });
+
+export const badRequest = (error: string) =>
+  NextResponse.json({ success: false, error }, { status: 400 });
+
+// A body naming a different user than the session is someone writing on another user's behalf
+export const forbidden = () =>
+  NextResponse.json({ success: false, error: 'Cannot write for another user' }, { status: 403 });
+
+// Owner-only writes (lyrics, chapters, comment moderation) by someone whose wallets don't hold the NFT
+export const notOwner = () =>
+  NextResponse.json({ success: false, error: 'Only the owner of this NFT can do that' }, { status: 403 });
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import type { NFT } from '../../types/user';
+import { fetchNFTFromAlchemy } from '../alchemy';
+import { computeMediaKey } from '../../utils/media';
+
+// The parts of an NFT a client sends with a write. Anything else it carries - local playback
+// state, a precomputed mediaKey - is dropped so the key is always derived on the server.
+export const trackSchema = z.object({
+  contract: z.string().min(1).max(128),
+  tokenId: z.string().min(1).max(128),
+  name: z.string().optional().default(''),
+  description: z.string().optional(),
+  image: z.string().optional().default(''),
+  audio: z.string().optional(),
+  metadata: z.record(z.any()).optional(),
+  collection: z.object({
+    name: z.string(),
+    image: z.string().optional()
+  }).optional(),
+  network: z.enum(['ethereum', 'base']).optional()
+});
+
+export interface ResolvedTrack {
+  nft: NFT;
+  mediaKey: string;
+}
+
+/**
+ * The token a client names, as Alchemy has it, and the mediaKey of its own media. Writes that
+ * change what everyone sees on a track key off this instead of the URLs the client sent, which
+ * could pair a token the caller holds with someone else's media. Null when the token has no
+ * media to key on.
+ */
+export const resolveTrack = async (
+  track: Pick<z.infer<typeof trackSchema>, 'contract' | 'tokenId' | 'network'>
+): Promise<ResolvedTrack | null> => {
+  const network = track.network || 'ethereum';
+  const nft = await fetchNFTFromAlchemy(track.contract, track.tokenId, network);
+  if (!nft) return null;
+
+  const mediaKey = computeMediaKey(nft);
+  if (mediaKey.startsWith('unknown_nft_')) return null;
+  return { nft: { ...nft, network }, mediaKey };
+};
@@ -0,0 +1,34 @@
+// Helpers for share / deep links that can start playback part-way through an NFT
+
+// Accepts "90", "1:30", "1:02:03" and YouTube-style "1h2m3s" / "90s"; null when missing or invalid
+export const parseStartTimeParam = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+
+  let seconds = NaN;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    seconds = Number(trimmed);
+  } else if (/^\d+(:\d{1,2}){1,2}$/.test(trimmed)) {
+    seconds = trimmed.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+  } else {
+    const match = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (match && (match[1] || match[2] || match[3])) {
+      seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+    }
+  }
+
+  return Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : null;
+};
+
+// Query string for the app's deep links: contract, tokenId and an optional start time
+export const buildPlayQuery = (contract: string, tokenId: string, startTime?: number | null): string => {
+  const params = new URLSearchParams({ contract, tokenId });
+  if (startTime && startTime > 0) {
+    params.set('t', Math.floor(startTime).toString());
+  }
+  return params.toString();
+};
+
+// Link that unfurls as a frame (via /api/share) and then opens the NFT in the app
+export const buildShareUrl = (appUrl: string, contract: string, tokenId: string, startTime?: number | null): string =>
+  `${appUrl}/api/share?${buildPlayQuery(contract, tokenId, startTime)}`;
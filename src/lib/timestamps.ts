@@ -0,0 +1,15 @@
+/**
+ * Epoch millis from a stored timestamp: a Firestore Timestamp from either SDK, epoch millis or
+ * an ISO string, since older rows hold any of them. Rows whose timestamp is missing can pass
+ * the ISO copy some of them carry as `iso`. 0 when there's nothing to read.
+ */
+export const toMillis = (value: unknown, iso?: string): number => {
+  if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  const text = typeof value === 'string' ? value : iso;
+  const parsed = text ? Date.parse(text) : NaN;
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
@@ -0,0 +1,60 @@
+import type { NFT } from '../types/user';
+
+// The stored shapes of a track, built here for the API routes that write them and typed for
+// the client converters that read them back, so both sides agree on every field.
+
+// A Firestore Timestamp from either SDK, or epoch millis on rows the old client wrote
+type StoredTimestamp = { toMillis(): number } | number;
+
+// global_plays, top_played, nft_plays and users/{fid}/playHistory, keyed or tagged by mediaKey
+export type PlayDocument = {
+  mediaKey: string;
+  nftContract: string;
+  tokenId: string;
+  name: string;
+  description: string;
+  image: string;
+  audioUrl: string;
+  collection: string;
+  network: string;
+  playCount?: number;
+  timestamp?: StoredTimestamp;
+};
+
+// users/{fid}/likes/{mediaKey}: the flat play fields plus the NFT as it was liked
+export type LikeDocument = PlayDocument & {
+  nft: Pick<NFT, 'contract' | 'tokenId' | 'name' | 'description' | 'image' | 'audio' | 'metadata'>;
+};
+
+// The flat fields for an NFT, with media the NFT itself lacks taken from its metadata
+export const toPlayDocument = (nft: NFT, mediaKey: string): PlayDocument => ({
+  mediaKey,
+  nftContract: nft.contract,
+  tokenId: nft.tokenId,
+  name: nft.name || 'Untitled',
+  description: nft.description || nft.metadata?.description || '',
+  image: nft.image || nft.metadata?.image || '',
+  audioUrl: nft.audio || nft.metadata?.animation_url || '',
+  collection: nft.collection?.name || 'Unknown Collection',
+  network: nft.network || 'ethereum'
+});
+
+/**
+ * The users/{fid}/likes/{mediaKey} document for an NFT, without its timestamp. Round-trips
+ * through JSON so nested metadata carries no undefined values.
+ */
+export const toLikeDocument = (nft: NFT, mediaKey: string): LikeDocument => {
+  const track = toPlayDocument(nft, mediaKey);
+  return JSON.parse(JSON.stringify({
+    ...track,
+    nft: {
+      contract: nft.contract,
+      tokenId: nft.tokenId,
+      name: track.name,
+      description: track.description,
+      image: track.image,
+      audio: track.audioUrl,
+      metadata: nft.metadata || {}
+    }
+  }));
+};
@@ -0,0 +1,69 @@
+import sdk from '@farcaster/frame-sdk';
+import { getSession, getCsrfToken, signIn } from 'next-auth/react';
+import type { NFT } from '../types/user';
+import { logger } from '../utils/logger';
+
+const writeApiLogger = logger.getModuleLogger('writeApi');
+
+// Shared by every write issued while a sign in is in flight, so the user is asked once
+let pendingSignIn: Promise<void> | null = null;
+
+const signInWithFarcaster = async (): Promise<void> => {
+  // The SIWF nonce is next-auth's CSRF token, which authorize() in src/auth.ts checks against
+  const nonce = await getCsrfToken();
+  if (!nonce) throw new Error('Could not start Farcaster sign in');
+
+  const { message, signature } = await sdk.actions.signIn({ nonce });
+  const result = await signIn('credentials', { message, signature, redirect: false });
+  if (!result?.ok) throw new Error('Farcaster sign in failed');
+};
+
+// Make sure the next-auth session belongs to fid, asking the Farcaster client to sign in if not
+const ensureSession = async (fid: number): Promise<void> => {
+  const session = await getSession();
+  if (session?.user?.fid === fid) return;
+
+  if (!pendingSignIn) {
+    pendingSignIn = signInWithFarcaster().finally(() => {
+      pendingSignIn = null;
+    });
+  }
+  await pendingSignIn;
+};
+
+/**
+ * Send a write to one of the authenticated API routes as fid, signing in first when needed.
+ * Firestore is read-only for clients, so plays, likes, follows and searches all go through here.
+ */
+export const sendWrite = async <T extends object>(
+  path: string,
+  method: 'POST' | 'DELETE',
+  body: { fid: number } & Record<string, unknown>
+): Promise<T> => {
+  await ensureSession(body.fid);
+
+  const response = await fetch(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    writeApiLogger.error(`${method} ${path} failed:`, response.status, data.error);
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+};
+
+// The fields the write routes accept for an NFT; the server derives the mediaKey itself
+export const toTrackPayload = (nft: NFT) => ({
+  contract: nft.contract,
+  tokenId: String(nft.tokenId),
+  name: nft.name || undefined,
+  description: nft.description || undefined,
+  image: nft.image || undefined,
+  audio: nft.audio || undefined,
+  metadata: nft.metadata,
+  collection: nft.collection?.name ? { name: nft.collection.name, image: nft.collection.image } : undefined,
+  network: nft.network === 'base' || nft.network === 'ethereum' ? nft.network : undefined
+});
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { recomputePlayCounts } from '../../../lib/server/playGuard';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint to rebuild global play counts from nft_plays under the play guard rules
+ * Run this once after the guard ships, and again whenever the rules change
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    console.log('Starting play count recompute...');
+    
+    const result = await recomputePlayCounts();
+    
+    console.log('Play count recompute result:', result);
+    
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      message: result.success ? 'Play counts recomputed successfully' : 'Error recomputing play counts',
+      result
+    });
+  } catch (error) {
+    console.error('Error recomputing play counts:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error recomputing play counts',
+      error: String(error)
+    });
+  }
+}
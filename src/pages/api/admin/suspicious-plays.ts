@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSuspiciousListeners } from '../../../lib/server/playGuard';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint listing fids with the most refused plays
+ * Optional query params: days (lookback, default 7) and min (rejections to be listed, default 10)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const days = Number(req.query.days) || 7;
+    const minRejections = Number(req.query.min) || 10;
+
+    const listeners = await getSuspiciousListeners(days, minRejections);
+
+    return res.status(200).json({
+      success: true,
+      days,
+      minRejections,
+      listeners
+    });
+  } catch (error) {
+    console.error('Error building suspicious plays report:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error building suspicious plays report',
+      error: String(error)
+    });
+  }
+}
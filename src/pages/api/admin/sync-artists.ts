@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { syncArtists } from '../../../lib/server/artists';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint to rebuild artist profiles from track metadata, minters and Farcaster
+ * Run this on a schedule so newly played NFTs are attributed and new Farcaster links are picked up
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    console.log('Starting artist sync...');
+    
+    const result = await syncArtists();
+    
+    console.log('Artist sync result:', result);
+    
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      message: result.success ? 'Artists updated successfully' : 'Error updating artists',
+      result
+    });
+  } catch (error) {
+    console.error('Error syncing artists:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error updating artists',
+      error: String(error)
+    });
+  }
+}
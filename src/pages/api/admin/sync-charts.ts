@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { syncCharts } from '../../../lib/server/charts';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint to rebuild the daily/weekly/monthly/all-time charts
+ * Run this on a schedule; rank movement is measured against the previous day, week or month
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    console.log('Starting charts sync...');
+    
+    const result = await syncCharts();
+    
+    console.log('Charts sync result:', result);
+    
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      message: result.success ? 'Charts updated successfully' : 'Error updating charts',
+      result
+    });
+  } catch (error) {
+    console.error('Error syncing charts:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error updating charts',
+      error: String(error)
+    });
+  }
+}
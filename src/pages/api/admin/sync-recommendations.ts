@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { syncRecommendations } from '../../../lib/server/recommendations';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint to rebuild the per-track recommendation neighbors
+ * Run this on a schedule so new likes and plays feed into "Because you liked" rows
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    console.log('Starting recommendations sync...');
+    
+    const result = await syncRecommendations();
+    
+    console.log('Recommendations sync result:', result);
+    
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      message: result.success ? 'Recommendations updated successfully' : 'Error updating recommendations',
+      result
+    });
+  } catch (error) {
+    console.error('Error syncing recommendations:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error updating recommendations',
+      error: String(error)
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { syncSearchIndex } from '../../../lib/server/searchIndex';
+import { requireCronSecret } from '../../../lib/server/cron';
+
+/**
+ * Admin API endpoint to rebuild the track and collection search index
+ * Run this on a schedule so newly played, liked and playlisted NFTs become searchable
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    console.log('Starting search index sync...');
+    
+    const result = await syncSearchIndex();
+    
+    console.log('Search index sync result:', result);
+    
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      message: result.success ? 'Search index updated successfully' : 'Error updating search index',
+      result
+    });
+  } catch (error) {
+    console.error('Error syncing search index:', error);
+    
+    return res.status(500).json({
+      success: false,
+      message: 'Error updating search index',
+      error: String(error)
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { syncTopPlayedCollection } from '../../../lib/firebase/plays';
+import { syncTopPlayed } from '../../../lib/server/plays';
+import { requireCronSecret } from '../../../lib/server/cron';
 
 /**
  * Admin API endpoint to clean up the top_played collection
@@ -9,10 +10,12 @@ export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
+  if (!requireCronSecret(req, res)) return;
+
   try {
     console.log('Starting cleanup of top_played collection...');
     
-    const result = await syncTopPlayedCollection();
+    const result = await syncTopPlayed();
     
     console.log('Cleanup result:', result);
     
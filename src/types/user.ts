@@ -52,6 +52,12 @@ export interface NFTMetadata {
   uri?: string;
   mimeType?: string;
   mime_type?: string;
+  lyrics?: string; // LRC or WebVTT text, or a URL to one
+  transcript?: string; // Same as lyrics, used by spoken-word media
+  chapters?: string | unknown[] | { chapters?: unknown[] }; // "0:00 Intro" list, JSON chapters, or a URL to them
+  artist?: string;
+  created_by?: string;
+  creator?: string;
   attributes?: Array<{
     trait_type: string;
     value: string | number;
@@ -90,6 +96,23 @@ export interface NFTFile {
   name?: string;
 }
 
+export interface LyricLine {
+  time: number; // Seconds from the start of the track
+  endTime?: number; // WebVTT cues carry an explicit end
+  text: string;
+}
+
+export interface Lyrics {
+  format: 'lrc' | 'vtt';
+  lines: LyricLine[]; // Sorted by time
+  source: 'metadata' | 'upload';
+}
+
+export interface Chapter {
+  time: number; // Start, in seconds
+  title: string;
+}
+
 export interface NFTMedia {
   gateway?: string;
   raw?: string;
@@ -163,6 +186,223 @@ export interface PublicCollection {
   updatedAt: any;
 }
 
+export interface PlaylistTrack {
+  mediaKey: string; // Tracks are keyed by mediaKey so duplicate content collapses like likes do
+  contract: string;
+  tokenId: string;
+  name: string;
+  description?: string;
+  image: string;
+  audioUrl: string;
+  collection?: string;
+  network?: 'ethereum' | 'base';
+  metadata?: NFTMetadata;
+  addedAt: number;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  tracks: PlaylistTrack[]; // Ordered - array position is the play order
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PartyParticipant {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfpUrl: string;
+  joinedAt: number;
+  lastSeen: number; // Refreshed by a heartbeat while the participant has the app open
+}
+
+export interface PartyPlaybackState {
+  track: PlaylistTrack | null; // Compact NFT, same shape as playlist entries
+  position: number; // Seconds, as of when the host wrote it
+  isPlaying: boolean;
+  playbackRate: number;
+  updatedAt: number;
+}
+
+export interface ListeningParty {
+  id: string;
+  hostFid: number; // Whoever currently controls playback - can be handed off
+  createdBy: number;
+  playback: PartyPlaybackState;
+  createdAt: number;
+  endedAt: number | null;
+}
+
+// Who posted a comment or reaction, stored with it so threads render without profile lookups
+export type CommentAuthor = Pick<PartyParticipant, 'fid' | 'username' | 'displayName' | 'pfpUrl'>;
+
+export interface TrackComment {
+  id: string;
+  mediaKey: string;
+  author: CommentAuthor;
+  text: string;
+  parentId: string | null; // Set on replies; threads are one level deep
+  reportCount: number;
+  hidden: boolean; // Set once enough listeners report it
+  createdAt: number;
+}
+
+// A SoundCloud-style reaction pinned to a moment in the track
+export interface TrackReaction {
+  id: string;
+  mediaKey: string;
+  author: CommentAuthor;
+  emoji: string;
+  position: number; // Seconds into the track when it was posted
+  createdAt: number;
+}
+
+export type ActivityType = 'play' | 'like' | 'playlist';
+
+// Just enough of a track to render a feed row and start playback - no metadata blob
+export type ActivityTrack = Pick<PlaylistTrack, 'mediaKey' | 'contract' | 'tokenId' | 'name' | 'image' | 'audioUrl' | 'collection' | 'network'>;
+
+export interface ActivityEvent {
+  id: string;
+  actorFid: number;
+  type: ActivityType;
+  track: ActivityTrack | null; // The played/liked track, or a new playlist's first track
+  playlist?: {
+    id: string;
+    name: string;
+    trackCount: number;
+  };
+  createdAt: number;
+}
+
+export type ChartWindow = 'daily' | 'weekly' | 'monthly' | 'allTime';
+
+export type ChartMovement = 'up' | 'down' | 'same' | 'new';
+
+export interface ChartEntry extends ActivityTrack {
+  rank: number;
+  previousRank: number | null; // Rank at the end of the previous period; null if it wasn't on it
+  movement: ChartMovement;
+  playCount: number; // Plays within the window
+}
+
+export interface Chart {
+  window: ChartWindow;
+  periodStart: number; // UTC start of the day, week (from Monday) or month; the day for allTime
+  entries: ChartEntry[]; // Ordered by rank
+  generatedAt: number;
+}
+
+// A playHistory row normalized for stats - timestamps in millis whichever way they were stored
+export interface PlayEvent extends ActivityTrack {
+  creator: string | null;
+  durationSeconds: number | null; // Only recorded for plays tracked after track lengths were stored
+  listenedSeconds: number | null; // Only recorded for plays tracked by the play guard
+  playedAt: number;
+}
+
+export interface StatsRankItem {
+  key: string;
+  label: string;
+  image?: string;
+  plays: number;
+}
+
+export interface ListeningStats {
+  totalPlays: number;
+  totalMinutes: number;
+  topTracks: StatsRankItem[];
+  topCollections: StatsRankItem[];
+  topCreators: StatsRankItem[];
+  minutesByDay: { label: string; minutes: number }[]; // Oldest first
+  minutesByWeek: { label: string; minutes: number }[]; // Oldest first
+  currentStreak: number; // Consecutive days with a play, ending today or yesterday
+  longestStreak: number;
+  firstListens: number; // Tracks heard for the first time in the period
+  recentFirstListens: StatsRankItem[];
+}
+
+// The yearly recap as saved for sharing; read back by the OG image
+export interface WrappedSummary {
+  fid: number;
+  username: string;
+  year: number;
+  totalPlays: number;
+  totalMinutes: number;
+  topTracks: StatsRankItem[];
+  topCreators: StatsRankItem[];
+  topCollections: StatsRankItem[];
+  longestStreak: number;
+  firstListens: number;
+  createdAt: number;
+}
+
+export interface RecommendedTrack extends ActivityTrack {
+  score: number; // Cosine similarity to the seed track, 0-1
+}
+
+// Precomputed item-to-item neighbors for one track, written by syncRecommendations
+export interface TrackRecommendations {
+  mediaKey: string;
+  neighbors: RecommendedTrack[]; // Most similar first
+  generatedAt: number;
+}
+
+export type SearchEntryType = 'track' | 'collection';
+
+// A track or collection in the search index, as returned to the client
+export interface SearchIndexEntry {
+  id: string; // track-{mediaKey} or collection-{contract}
+  type: SearchEntryType;
+  title: string;
+  subtitle: string;
+  image: string;
+  contract: string;
+  network: 'ethereum' | 'base';
+  track: ActivityTrack | null; // Set for tracks
+  trackCount: number; // Tracks in the collection; 1 for a track
+  popularity: number; // Plays plus likes, used to break ties
+  score: number; // Match quality for the query, 0-1
+}
+
+export interface GroupedSearchResults {
+  users: FarcasterUser[];
+  tracks: SearchIndexEntry[];
+  collections: SearchIndexEntry[];
+}
+
+export interface CollectionInfo {
+  contract: string;
+  network: 'ethereum' | 'base';
+  name: string;
+  image: string;
+  description: string;
+  totalSupply: number | null;
+}
+
+// Play and like totals for a contract, summed over its tracks' global_plays / global_likes rows
+export interface CollectionStats {
+  playCount: number;
+  likeCount: number;
+  trackPlays: Record<string, number>; // mediaKey -> plays
+}
+
+export interface ArtistTrack extends ActivityTrack {
+  playCount: number;
+}
+
+// A musician gathered from track metadata, minter wallets and Farcaster, written by syncArtists
+export interface Artist {
+  id: string; // fid-{fid} when linked to Farcaster, else name-{slug} or address-{wallet}
+  name: string;
+  addresses: string[]; // Creator and minter wallets, lowercased
+  farcaster: FarcasterUser | null;
+  tracks: ArtistTrack[]; // Discography, most played first; artist_tracks covers every track
+  totalPlays: number;
+  updatedAt: number;
+}
+
 export interface LibraryViewProps {
   likedNFTs: NFT[];
   handlePlayAudio: (nft: NFT) => Promise<void>;
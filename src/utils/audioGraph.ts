@@ -0,0 +1,229 @@
+import type { NFT } from '../types/user';
+import { getMediaKey } from './media';
+import { cacheLoudnessGain, getCachedLoudnessGain } from './audioPreloader';
+import { logger } from './logger';
+
+const audioGraphLogger = logger.getModuleLogger('audioGraph');
+
+// Center frequencies (Hz) of the graphic equalizer bands
+export const EQ_BANDS = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const MAX_EQ_GAIN_DB = 12;
+
+export type EqPresetId = 'flat' | 'bassBoost' | 'vocal' | 'spokenWord' | 'trebleBoost' | 'custom';
+
+// Per-band gains in dB, one entry per EQ_BANDS frequency
+export const EQ_PRESETS: Record<Exclude<EqPresetId, 'custom'>, { label: string; gains: number[] }> = {
+  flat: { label: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  bassBoost: { label: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  vocal: { label: 'Vocal', gains: [-2, -2, -1, 0, 2, 4, 4, 3, 1, 0] },
+  spokenWord: { label: 'Spoken Word', gains: [-6, -4, -2, 0, 2, 4, 4, 3, 0, -2] },
+  trebleBoost: { label: 'Treble Boost', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] }
+};
+
+// Loudness normalization aims every track at this RMS level (about -20 dBFS)
+const TARGET_RMS = 0.1;
+// Never boost or cut a track by more than 12 dB
+const MIN_LOUDNESS_GAIN = 0.25;
+const MAX_LOUDNESS_GAIN = 4;
+// Measure loudness over this much audible playback on a track's first play
+const MEASURE_SECONDS = 15;
+const MEASURE_INTERVAL_MS = 250;
+// Frames quieter than this are treated as silence and left out of the measurement
+const SILENCE_RMS = 0.005;
+
+interface TrackNodes {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+}
+
+const clampGain = (gain: number) => Math.min(Math.max(gain, MIN_LOUDNESS_GAIN), MAX_LOUDNESS_GAIN);
+
+// Routes player audio elements through a shared Web Audio graph:
+//   element -> per-track loudness gain -> EQ filters -> destination
+// Each track keeps its own gain node so two tracks can overlap during a crossfade. Earlier
+// tracks are disconnected once they stop, so the graph doesn't keep every played element alive.
+class AudioGraph {
+  private static instance: AudioGraph;
+  private context: AudioContext | null = null;
+  private filters: BiquadFilterNode[] = [];
+  // A media element can only ever be given one source node, so they're remembered per element
+  private tracks: WeakMap<HTMLMediaElement, TrackNodes> = new WeakMap();
+  // Elements currently wired into the filter chain, and the one attached last
+  private connected: Set<HTMLMediaElement> = new Set();
+  private current: HTMLMediaElement | null = null;
+  private eqGains: number[] = EQ_PRESETS.flat.gains;
+  private normalizeLoudness = false;
+  private stopMeasurement: (() => void) | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AudioGraph {
+    if (!AudioGraph.instance) {
+      AudioGraph.instance = new AudioGraph();
+    }
+    return AudioGraph.instance;
+  }
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      Boolean(window.AudioContext || (window as any).webkitAudioContext);
+  }
+
+  private ensureContext(): AudioContext {
+    if (this.context) return this.context;
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+
+    // Peaking filters in the middle, shelves at either end
+    this.filters = EQ_BANDS.map((frequency, index) => {
+      const filter = context.createBiquadFilter();
+      filter.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = 1.1;
+      filter.gain.value = this.eqGains[index] || 0;
+      return filter;
+    });
+    // filters[0] is the chain input; the last filter feeds the speakers
+    for (let i = 0; i < this.filters.length - 1; i++) {
+      this.filters[i].connect(this.filters[i + 1]);
+    }
+    this.filters[this.filters.length - 1].connect(context.destination);
+
+    this.context = context;
+    audioGraphLogger.info('Audio graph created');
+    return context;
+  }
+
+  // Send an audio element through the graph. The element must have crossOrigin="anonymous"
+  // set before its src, otherwise the browser outputs silence for cross-origin media.
+  public attach(media: HTMLMediaElement, nft: NFT): void {
+    if (!AudioGraph.isSupported()) return;
+
+    try {
+      const context = this.ensureContext();
+      if (context.state === 'suspended') {
+        context.resume().catch(error => audioGraphLogger.warn('Error resuming audio context:', error));
+      }
+
+      let nodes = this.tracks.get(media);
+      if (!nodes) {
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        nodes = { source: context.createMediaElementSource(media), gain: context.createGain(), analyser };
+        this.tracks.set(media, nodes);
+      }
+      if (!this.connected.has(media)) {
+        nodes.source.connect(nodes.gain);
+        nodes.source.connect(nodes.analyser);
+        nodes.gain.connect(this.filters[0]);
+        this.connected.add(media);
+      }
+      this.current = media;
+      this.releaseOtherTracks(media);
+
+      this.stopMeasurement?.();
+      this.stopMeasurement = null;
+
+      const cachedGain = getCachedLoudnessGain(nft);
+      if (!this.normalizeLoudness) {
+        nodes.gain.gain.value = 1;
+      } else if (cachedGain !== null) {
+        nodes.gain.gain.value = cachedGain;
+      } else {
+        nodes.gain.gain.value = 1;
+        this.stopMeasurement = this.measureLoudness(media, nodes, nft);
+      }
+    } catch (error) {
+      audioGraphLogger.error('Error attaching media to audio graph:', error);
+    }
+  }
+
+  // Disconnect the tracks before this one: straight away if they've stopped, otherwise once a
+  // crossfade has faded them out and paused them
+  private releaseOtherTracks(current: HTMLMediaElement): void {
+    this.connected.forEach(media => {
+      if (media === current) return;
+      if (media.paused || media.ended) {
+        this.detach(media);
+        return;
+      }
+      const release = () => {
+        media.removeEventListener('pause', release);
+        media.removeEventListener('ended', release);
+        // It may have been attached again since
+        if (media !== this.current) this.detach(media);
+      };
+      media.addEventListener('pause', release);
+      media.addEventListener('ended', release);
+    });
+  }
+
+  private detach(media: HTMLMediaElement): void {
+    const nodes = this.tracks.get(media);
+    if (!nodes || !this.connected.has(media)) return;
+    nodes.source.disconnect();
+    nodes.gain.disconnect();
+    this.connected.delete(media);
+  }
+
+  // Sample the track's RMS level while it plays, then cache and apply a normalizing gain
+  private measureLoudness(media: HTMLMediaElement, nodes: TrackNodes, nft: NFT): () => void {
+    const samples = new Float32Array(nodes.analyser.fftSize);
+    const framesNeeded = (MEASURE_SECONDS * 1000) / MEASURE_INTERVAL_MS;
+    let sumOfSquares = 0;
+    let frames = 0;
+
+    const intervalId = setInterval(() => {
+      if (media.paused) return;
+
+      nodes.analyser.getFloatTimeDomainData(samples);
+      let frameSum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        frameSum += samples[i] * samples[i];
+      }
+      const frameRms = Math.sqrt(frameSum / samples.length);
+      if (frameRms < SILENCE_RMS) return;
+
+      sumOfSquares += frameRms * frameRms;
+      frames++;
+      if (frames < framesNeeded) return;
+
+      clearInterval(intervalId);
+      const rms = Math.sqrt(sumOfSquares / frames);
+      const gain = clampGain(TARGET_RMS / rms);
+      cacheLoudnessGain(nft, gain);
+      audioGraphLogger.info(`Measured loudness for ${getMediaKey(nft)}: rms=${rms.toFixed(4)}, gain=${gain.toFixed(2)}`);
+
+      if (this.normalizeLoudness && this.context) {
+        // Ease into the new level rather than jumping mid-track
+        nodes.gain.gain.setTargetAtTime(gain, this.context.currentTime, 0.5);
+      }
+    }, MEASURE_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }
+
+  public setEqGains(gains: number[]): void {
+    this.eqGains = gains;
+    if (!this.context) return;
+    this.filters.forEach((filter, index) => {
+      filter.gain.setTargetAtTime(gains[index] || 0, this.context!.currentTime, 0.05);
+    });
+  }
+
+  // Takes effect from the next attached track
+  public setNormalizeLoudness(enabled: boolean): void {
+    this.normalizeLoudness = enabled;
+    if (!enabled) {
+      this.stopMeasurement?.();
+      this.stopMeasurement = null;
+    }
+  }
+}
+
+export const audioGraph = AudioGraph.getInstance();
+
+export const isAudioGraphSupported = AudioGraph.isSupported;
@@ -1,4 +1,4 @@
-import { getMediaKey, extractIPFSHash, IPFS_GATEWAYS } from './media';
+import { getMediaKey, extractIPFSHash, IPFS_GATEWAYS, processMediaUrl } from './media';
 import type { NFT } from '../types/user';
 
 interface AudioMetadata {
@@ -46,6 +46,32 @@ export const getCachedAudioMetadata = (nft: NFT): AudioMetadata | null => {
   }
 };
 
+// Cache the loudness-normalization gain measured for a track (see utils/audioGraph)
+export const cacheLoudnessGain = (nft: NFT, gain: number) => {
+  if (!nft || !Number.isFinite(gain)) return;
+
+  const mediaKey = getMediaKey(nft);
+  try {
+    localStorage.setItem(`audio-loudness-${mediaKey}`, JSON.stringify({ gain, measuredAt: Date.now() }));
+  } catch (error) {
+    console.warn('Failed to cache loudness gain:', error);
+  }
+};
+
+// Get the cached loudness gain for an NFT, or null if it hasn't been measured yet
+export const getCachedLoudnessGain = (nft: NFT): number | null => {
+  if (!nft) return null;
+
+  try {
+    const mediaKey = getMediaKey(nft);
+    const cached = localStorage.getItem(`audio-loudness-${mediaKey}`);
+    return cached ? JSON.parse(cached).gain ?? null : null;
+  } catch (error) {
+    console.warn('Failed to get cached loudness gain:', error);
+    return null;
+  }
+};
+
 // Test gateway speeds and cache results
 export const testGatewaySpeeds = async (urls: string[]): Promise<GatewayTest[]> => {
   const tests = urls.map(async (url) => {
@@ -167,12 +193,19 @@ export const getMuxAsset = (nft: NFT): MuxAssetResponse | null => {
 };
 
 // Preload audio and create Mux assets
-export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low' = 'medium'): Promise<void> => {
-  if (!nft) return;
+// Resolves with the buffered audio element so callers (e.g. crossfade) can play it directly,
+// or null when preloading was skipped
+export const preloadAudio = async (
+  nft: NFT,
+  priority: 'high' | 'medium' | 'low' = 'medium',
+  crossOrigin = false // Needed when the element will be routed through the Web Audio graph
+): Promise<HTMLAudioElement | null> => {
+  if (!nft) return null;
   
   // Get MediaKey for consistent identification
   const mediaKey = getMediaKey(nft);
-  if (!mediaKey) return;
+  if (!mediaKey) return null;
+  let preparedAudio: HTMLAudioElement | null = null;
   
   try {
     // IMPORTANT: This function now uses direct preloading without mediaLoadManager
@@ -218,7 +251,7 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
       if (networkInfo.saveData || 
           (networkInfo.effectiveType === 'slow-2g' && isPriorityLow)) {
         console.log(`[AudioPreloader] Skipping preload for ${nft.name} - data saving mode or extremely slow connection`);
-        return;
+        return null;
       }
       
       // On very slow connections, only preload high priority items
@@ -229,13 +262,13 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
         isPriorityLow
       ) {
         console.log(`[Mobile] Skipping preload for ${mediaKey} due to limited connection`);
-        return;
+        return null;
       }
       
       // On 3G, only preload high and medium priority
       if (networkInfo.effectiveType === '3g' && isPriorityLow) {
         console.log(`[Mobile] Skipping low priority preload for ${mediaKey} on 3G`);
-        return;
+        return null;
       }
     }
     
@@ -246,7 +279,7 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
     // to prevent unnecessary network usage
     if (cached && isMobile) {
       console.log(`[Mobile] Using cached audio metadata for ${mediaKey}`);
-      return;
+      return null;
     }
     
     // Simple direct preloading without mediaLoadManager
@@ -256,6 +289,9 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
       const preloadPromise = new Promise<void>((resolve) => {
         try {
           const audio = new Audio();
+          audio.preload = 'auto';
+          if (crossOrigin) audio.crossOrigin = 'anonymous';
+          preparedAudio = audio;
           
           // Set up event handlers
           const onLoaded = () => {
@@ -267,6 +303,7 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
           audio.oncanplaythrough = onLoaded;
           audio.onerror = () => {
             console.warn(`Failed to preload audio: ${audioUrl}`);
+            preparedAudio = null;
             onLoaded(); // Resolve anyway to prevent hanging
           };
           
@@ -278,7 +315,7 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
           }, 10000);
           
           // Start loading
-          audio.src = audioUrl;
+          audio.src = processMediaUrl(audioUrl);
           audio.load();
           
           // If it's already loaded, resolve immediately
@@ -346,8 +383,10 @@ export const preloadAudio = async (nft: NFT, priority: 'high' | 'medium' | 'low'
       ]);
     }
     
+    return preparedAudio;
   } catch (error) {
     console.warn(`Error in preloadAudio for ${mediaKey}:`, error);
     // Don't rethrow - just log and continue
+    return null;
   }
 };
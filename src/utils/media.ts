@@ -375,6 +375,43 @@ export const normalizeUrl = (url: string): string => {
   }
 };
 
+/**
+ * The content-based mediaKey for an NFT's media URLs, worked out from scratch on every call.
+ * Server code uses this rather than getMediaKey: getMediaKey's caches live for the whole process
+ * and are keyed by contract/tokenId, so one request's NFT would decide the key for the next.
+ */
+export const computeMediaKey = (nft: NFT): string => {
+  // Get media URLs that uniquely identify the content
+  // Normalize URLs to ensure consistent matching
+  const videoUrl = normalizeUrl(nft.metadata?.animation_url || '');
+  const imageUrl = normalizeUrl(nft.image || nft.metadata?.image || '');
+  const audioUrl = normalizeUrl(nft.audio || '');
+
+  // Create safe IDs for each URL - using the normalized URLs
+  // This is a critical step to ensure identical content gets the same mediaKey
+  const safeUrls = Array.from(new Set([
+    videoUrl,
+    imageUrl,
+    audioUrl
+  ]))
+    .filter(Boolean) // Remove empty strings
+    .map(createSafeId)
+    .filter(Boolean) // Remove any empty strings after processing
+    .sort(); // Sort for consistency to ensure same content = same key regardless of URL order
+
+  if (safeUrls.length === 0) {
+    // Last resort fallback
+    return `unknown_nft_${Date.now()}`;
+  }
+
+  // Join with a delimiter and ensure it's Firestore-safe
+  return safeUrls.join('_')
+    .toLowerCase() // Ensure consistent case
+    .replace(/[^a-z0-9_]/g, '_') // Final safety check for Firestore-safe chars
+    .replace(/_+/g, '_') // Clean up any remaining multiple underscores
+    .replace(/^_+|_+$/g, ''); // Trim leading/trailing underscores
+};
+
 /**
  * Generates a consistent mediaKey for NFTs with identical content.
  * 
@@ -408,15 +445,13 @@ export const getMediaKey = (nft: NFT): string => {
     return nft.mediaKey;
   }
   
-  // Get media URLs that uniquely identify the content
-  // Normalize URLs to ensure consistent matching
-  const videoUrl = normalizeUrl(nft.metadata?.animation_url || '');
-  const imageUrl = normalizeUrl(nft.image || nft.metadata?.image || '');
-  const audioUrl = normalizeUrl(nft.audio || '');
-  
   // Create a content signature based on the URLs - this is the CORE of our content-first architecture
   // NFTs with identical content (same audio/image/animation) MUST have the same mediaKey
-  const contentSignature = [videoUrl, imageUrl, audioUrl].filter(Boolean).sort().join('|');
+  const contentSignature = [
+    normalizeUrl(nft.metadata?.animation_url || ''),
+    normalizeUrl(nft.image || nft.metadata?.image || ''),
+    normalizeUrl(nft.audio || '')
+  ].filter(Boolean).sort().join('|');
   
   // Check if we've already calculated a mediaKey for this content
   if (contentUrlToMediaKeyCache[contentSignature]) {
@@ -425,66 +460,22 @@ export const getMediaKey = (nft: NFT): string => {
     return cachedMediaKey;
   }
 
-  // Create safe IDs for each URL - using the normalized URLs
-  // This is a critical step to ensure identical content gets the same mediaKey
-  const safeUrls = Array.from(new Set([
-    videoUrl,
-    imageUrl,
-    audioUrl
-  ]))
-    .filter(Boolean) // Remove empty strings
-    .map(createSafeId)
-    .filter(Boolean) // Remove any empty strings after processing
-    .sort(); // Sort for consistency to ensure same content = same key regardless of URL order
-
-  if (safeUrls.length === 0) {
-    // Last resort fallback
-    return `unknown_nft_${Date.now()}`;
+  const urlBasedKey = computeMediaKey(nft);
+  if (urlBasedKey.startsWith('unknown_nft_')) {
+    // The timestamped fallback is never cached, so the next call tries the NFT's URLs again
+    return urlBasedKey;
   }
 
-  // Join with a delimiter and ensure it's Firestore-safe
-  const urlBasedKey = safeUrls.join('_')
-    .toLowerCase() // Ensure consistent case
-    .replace(/[^a-z0-9_]/g, '_') // Final safety check for Firestore-safe chars
-    .replace(/_+/g, '_') // Clean up any remaining multiple underscores
-    .replace(/^_+|_+$/g, ''); // Trim leading/trailing underscores
-  
-  // Create a unique identifier for this specific NFT
-  const contractTokenId = `${nft.contract}_${nft.tokenId}`.toLowerCase();
-  
-  // Create a unique hash for the content URLs to identify variants
-  const contentHash = createSafeId(safeUrls.join('|'));
-  const variantKey = `${contractTokenId}_variant_${contentHash.slice(0, 8)}`;
-  
-  try {
-    // CRITICAL OPTIMIZATION: For content-first architecture, we prioritize the urlBasedKey
-    // This ensures identical content gets the same mediaKey regardless of contract/tokenId
-    
-    // Cache the urlBasedKey for this content signature
-    contentUrlToMediaKeyCache[contentSignature] = urlBasedKey;
-    
-    // Cache the result for future calls with this specific NFT
-    mediaKeyCache[cacheKey] = urlBasedKey;
-    
-    // We're now using a simplified approach that focuses on content identity
-    // rather than tracking variants, which aligns with our core architectural decision
-    
-    // Only log in debug mode to reduce noise during playback
-    if (DEBUG_MEDIA_KEYS && !isPlaybackActive()) {
-      console.log('🔑 Using content-based mediaKey:', urlBasedKey.slice(0, 16));
-    }
-    
-    return urlBasedKey;
-  } catch (e) {
-    // If any error occurs, fall back to the urlBasedKey which is our content-first approach
-    mediaKeyCache[cacheKey] = urlBasedKey;
-    contentUrlToMediaKeyCache[contentSignature] = urlBasedKey;
-    
-    if (DEBUG_MEDIA_KEYS && !isPlaybackActive()) {
-      console.log('🔑 Error occurred, using content-based mediaKey:', urlBasedKey.slice(0, 16));
-    }
-    return urlBasedKey;
+  // Cache the urlBasedKey for this content signature, and for this specific NFT
+  contentUrlToMediaKeyCache[contentSignature] = urlBasedKey;
+  mediaKeyCache[cacheKey] = urlBasedKey;
+
+  // Only log in debug mode to reduce noise during playback
+  if (DEBUG_MEDIA_KEYS && !isPlaybackActive()) {
+    console.log('🔑 Using content-based mediaKey:', urlBasedKey.slice(0, 16));
   }
+
+  return urlBasedKey;
 };
 
 export function getDirectMediaUrl(url: string): string {
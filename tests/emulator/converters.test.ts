@@ -0,0 +1,106 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { doc, getDoc, Timestamp as ClientTimestamp } from 'firebase/firestore';
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import { getMediaKey } from '../../src/utils/media';
+import { likeConverter, playConverter, userSearchConverter } from '../../src/lib/firebase/converters';
+import { toLikeDocument, toPlayDocument } from '../../src/lib/trackDocuments';
+import { toMillis } from '../../src/lib/timestamps';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+import { clearFirestore, clientDb, closeConnections } from './setup';
+import { LISTENER_FIDS, SECOND_TRACK, SHARED_TRACK } from './fixtures';
+
+const sharedKey = getMediaKey(SHARED_TRACK);
+const [fid] = LISTENER_FIDS;
+const SEARCHED_AT = Date.UTC(2024, 4, 1, 12, 0, 0);
+
+after(closeConnections);
+
+describe('toMillis', () => {
+  it('reads every way a timestamp has been stored', () => {
+    assert.equal(toMillis(ClientTimestamp.fromMillis(SEARCHED_AT)), SEARCHED_AT);
+    assert.equal(toMillis(AdminTimestamp.fromMillis(SEARCHED_AT)), SEARCHED_AT);
+    assert.equal(toMillis(SEARCHED_AT), SEARCHED_AT);
+    assert.equal(toMillis(new Date(SEARCHED_AT).toISOString()), SEARCHED_AT);
+    assert.equal(toMillis(undefined, new Date(SEARCHED_AT).toISOString()), SEARCHED_AT);
+    assert.equal(toMillis(undefined), 0);
+    assert.equal(toMillis('not a date'), 0);
+  });
+});
+
+describe('document builders', () => {
+  it('builds the same documents on the client as the API routes do', () => {
+    assert.deepEqual(playConverter.toFirestore(SECOND_TRACK), toPlayDocument(SECOND_TRACK, getMediaKey(SECOND_TRACK)));
+    assert.deepEqual(likeConverter.toFirestore(SECOND_TRACK), toLikeDocument(SECOND_TRACK, getMediaKey(SECOND_TRACK)));
+  });
+});
+
+describe('converters', () => {
+  beforeEach(clearFirestore);
+
+  it('reads back a like the likes API wrote as the NFT that was liked', async () => {
+    await adminDb.collection('users').doc(fid.toString()).collection('likes').doc(sharedKey).set({
+      ...toLikeDocument(SHARED_TRACK, sharedKey),
+      timestamp: AdminTimestamp.now()
+    });
+
+    const snapshot = await getDoc(doc(clientDb, 'users', fid.toString(), 'likes', sharedKey).withConverter(likeConverter));
+    const liked = snapshot.data();
+    assert.ok(liked);
+    assert.equal(liked.mediaKey, sharedKey);
+    assert.equal(liked.contract, SHARED_TRACK.contract);
+    assert.equal(liked.tokenId, SHARED_TRACK.tokenId);
+    assert.equal(liked.name, SHARED_TRACK.name);
+    assert.equal(liked.audio, SHARED_TRACK.audio);
+    assert.deepEqual(liked.metadata, SHARED_TRACK.metadata);
+    assert.equal(liked.collection?.name, SHARED_TRACK.collection?.name);
+    assert.equal(liked.network, 'base');
+  });
+
+  it('reads play rows and the nested top_played entries older clients wrote', async () => {
+    const secondKey = getMediaKey(SECOND_TRACK);
+    await adminDb.collection('global_plays').doc(secondKey).set({ ...toPlayDocument(SECOND_TRACK, secondKey), playCount: 4 });
+    await adminDb.collection('top_played').doc(sharedKey).set({ nft: SHARED_TRACK, mediaKey: sharedKey, playCount: 9 });
+
+    const played = (await getDoc(doc(clientDb, 'global_plays', secondKey).withConverter(playConverter))).data();
+    assert.ok(played);
+    assert.equal(played.mediaKey, secondKey);
+    assert.equal(played.playCount, 4);
+    assert.equal(played.contract, SECOND_TRACK.contract);
+    assert.equal(played.audio, SECOND_TRACK.audio);
+    assert.equal(played.metadata?.animation_url, SECOND_TRACK.audio);
+
+    const legacy = (await getDoc(doc(clientDb, 'top_played', sharedKey).withConverter(playConverter))).data();
+    assert.ok(legacy);
+    assert.equal(legacy.mediaKey, sharedKey);
+    assert.equal(legacy.playCount, 9);
+    assert.equal(legacy.name, SHARED_TRACK.name);
+  });
+
+  it('reads user_searches rows whichever way their timestamp was stored', async () => {
+    const timestamps = {
+      millis: SEARCHED_AT,
+      iso: new Date(SEARCHED_AT).toISOString(),
+      timestamp: AdminTimestamp.fromMillis(SEARCHED_AT)
+    };
+    await Promise.all(Object.entries(timestamps).map(([id, timestamp]) =>
+      adminDb.collection('user_searches').doc(id).set({
+        searching_fid: fid,
+        searchedFid: 201,
+        searchedUsername: 'fixture201',
+        searchedDisplayName: 'Fixture 201',
+        searchedPfpUrl: '',
+        searchedFollowerCount: 3,
+        searchedFollowingCount: 1,
+        timestamp
+      })
+    ));
+
+    for (const id of Object.keys(timestamps)) {
+      const searched = (await getDoc(doc(clientDb, 'user_searches', id).withConverter(userSearchConverter))).data();
+      assert.ok(searched);
+      assert.equal(searched.fid, 201);
+      assert.equal(searched.lastSearched, SEARCHED_AT, `timestamp stored as ${id}`);
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import type { NFT } from '../../src/types/user';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+
+const audioNFT = (contract: string, tokenId: string, name: string, media: string): NFT => {
+  const image = `https://fixtures.podplayr.test/${media}.png`;
+  const audio = `https://fixtures.podplayr.test/${media}.mp3`;
+  return {
+    contract,
+    tokenId,
+    name,
+    description: `${name}, seeded by the emulator suite`,
+    image,
+    audio,
+    hasValidAudio: true,
+    metadata: { name, image, animation_url: audio, artist: 'Fixture Artist' },
+    collection: { name: 'Emulator Fixtures' },
+    network: 'base'
+  };
+};
+
+// The same recording minted on two contracts, so both share one getMediaKey
+export const SHARED_TRACK = audioNFT('0x1111111111111111111111111111111111111111', '1', 'Shared Track', 'shared');
+export const SHARED_TRACK_REISSUE = audioNFT('0x2222222222222222222222222222222222222222', '7', 'Shared Track (Reissue)', 'shared');
+
+export const SECOND_TRACK = audioNFT('0x3333333333333333333333333333333333333333', '2', 'Second Track', 'second');
+export const THIRD_TRACK = audioNFT('0x3333333333333333333333333333333333333333', '3', 'Third Track', 'third');
+export const FOURTH_TRACK = audioNFT('0x3333333333333333333333333333333333333333', '4', 'Fourth Track', 'fourth');
+
+// Half of a two minute track: enough for the play guard to count it
+export const COUNTED_LISTEN = { durationSeconds: 120, listenedSeconds: 60, thresholdReached: true };
+
+// A skip a few seconds in
+export const SKIPPED_LISTEN = { durationSeconds: 120, listenedSeconds: 3 };
+
+// Every counted play within a few seconds comes from its own listener, or the guard would
+// refuse it as overlapping with that listener's previous play
+export const LISTENER_FIDS = [101, 102, 103, 104, 105, 106, 107, 108];
+export const ARTIST_FID = 201;
+
+// searchedusers entries for fids, so follows take profiles from Firestore rather than Neynar
+export const seedProfiles = async (fids: number[]): Promise<void> => {
+  const batch = adminDb.batch();
+  fids.forEach(fid => {
+    batch.set(adminDb.collection('searchedusers').doc(fid.toString()), {
+      fid,
+      username: `fixture${fid}`,
+      display_name: `Fixture ${fid}`,
+      pfp_url: `https://avatar.vercel.sh/fixture${fid}`,
+      follower_count: 0,
+      following_count: 0
+    });
+  });
+  await batch.commit();
+};
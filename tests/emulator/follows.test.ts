@@ -0,0 +1,69 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { collection, getDocs } from 'firebase/firestore';
+import { followedUserConverter } from '../../src/lib/firebase/converters';
+import { follow, unfollow, type FollowTarget } from '../../src/lib/server/follows';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+import { clearFirestore, clientDb, closeConnections } from './setup';
+import { ARTIST_FID, LISTENER_FIDS, seedProfiles } from './fixtures';
+
+const [first, second] = LISTENER_FIDS;
+
+const ARTIST: FollowTarget = {
+  fid: ARTIST_FID,
+  username: `fixture${ARTIST_FID}`,
+  display_name: `Fixture ${ARTIST_FID}`,
+  pfp_url: `https://avatar.vercel.sh/fixture${ARTIST_FID}`
+};
+
+const readCounts = async (fid: number) => {
+  const data = (await adminDb.collection('searchedusers').doc(fid.toString()).get()).data() || {};
+  return { followers: data.follower_count, following: data.following_count };
+};
+
+// The artist's followers list as the profile page reads it
+const readFollowers = async (fid: number) => {
+  const snapshot = await getDocs(
+    collection(clientDb, 'users', fid.toString(), 'followers').withConverter(followedUserConverter)
+  );
+  return snapshot.docs.map(followerDoc => followerDoc.data());
+};
+
+after(closeConnections);
+
+describe('follows', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await seedProfiles([first, second, ARTIST_FID]);
+  });
+
+  it('counts each follower once, however often they follow', async () => {
+    await follow(first, ARTIST);
+    await Promise.all([follow(second, ARTIST), follow(second, ARTIST)]);
+    await follow(first, ARTIST);
+
+    assert.deepEqual(await readCounts(ARTIST_FID), { followers: 2, following: 0 });
+    assert.deepEqual(await readCounts(first), { followers: 0, following: 1 });
+    assert.deepEqual(await readCounts(second), { followers: 0, following: 1 });
+
+    const followers = await readFollowers(ARTIST_FID);
+    assert.deepEqual(followers.map(follower => follower.username).sort(), [`fixture${first}`, `fixture${second}`]);
+  });
+
+  it('takes the counts back down on unfollow, once', async () => {
+    await follow(first, ARTIST);
+    await follow(second, ARTIST);
+
+    await unfollow(first, ARTIST_FID);
+    await unfollow(first, ARTIST_FID);
+
+    assert.deepEqual(await readCounts(ARTIST_FID), { followers: 1, following: 0 });
+    assert.deepEqual(await readCounts(first), { followers: 0, following: 0 });
+    assert.deepEqual((await readFollowers(ARTIST_FID)).map(follower => follower.fid), [second]);
+  });
+
+  it('refuses to follow yourself', async () => {
+    await assert.rejects(follow(ARTIST_FID, ARTIST), /Cannot follow yourself/);
+    assert.deepEqual(await readCounts(ARTIST_FID), { followers: 0, following: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { collection, getDocs } from 'firebase/firestore';
+import { getMediaKey } from '../../src/utils/media';
+import { likeConverter } from '../../src/lib/firebase/converters';
+import { toggleLike } from '../../src/lib/server/likes';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+import { clearFirestore, clientDb, closeConnections } from './setup';
+import { LISTENER_FIDS, SECOND_TRACK, SHARED_TRACK, SHARED_TRACK_REISSUE } from './fixtures';
+
+const sharedKey = getMediaKey(SHARED_TRACK);
+const [first, second] = LISTENER_FIDS;
+
+// The Library's view of fid's likes, through the client converter
+const readLikes = async (fid: number) => {
+  const snapshot = await getDocs(collection(clientDb, 'users', fid.toString(), 'likes').withConverter(likeConverter));
+  return snapshot.docs.map(likeDoc => likeDoc.data());
+};
+
+const readLikeCount = async (mediaKey: string): Promise<number | undefined> =>
+  (await adminDb.collection('global_likes').doc(mediaKey).get()).data()?.likeCount;
+
+after(closeConnections);
+
+describe('likes', () => {
+  beforeEach(clearFirestore);
+
+  it('keeps global_likes in step as listeners like and unlike either mint', async () => {
+    assert.equal(await toggleLike(SHARED_TRACK, first), true);
+    assert.equal(await toggleLike(SHARED_TRACK_REISSUE, second), true);
+    assert.equal(await readLikeCount(sharedKey), 2);
+
+    const [liked] = await readLikes(first);
+    assert.equal(liked.mediaKey, sharedKey);
+    assert.equal(liked.contract, SHARED_TRACK.contract);
+    assert.equal(liked.name, SHARED_TRACK.name);
+
+    // Toggling the other mint of the same recording unlikes it
+    assert.equal(await toggleLike(SHARED_TRACK_REISSUE, first), false);
+    assert.deepEqual(await readLikes(first), []);
+    assert.equal(await readLikeCount(sharedKey), 1);
+
+    assert.equal(await toggleLike(SHARED_TRACK_REISSUE, second), false);
+    assert.equal((await adminDb.collection('global_likes').doc(sharedKey).get()).exists, false);
+  });
+
+  it('treats a forced unlike of something not liked as a no-op', async () => {
+    await toggleLike(SHARED_TRACK, first);
+
+    assert.equal(await toggleLike(SHARED_TRACK, second, true), false);
+    assert.equal(await readLikeCount(sharedKey), 1);
+
+    assert.equal(await toggleLike(SHARED_TRACK, first, true), false);
+    assert.equal(await toggleLike(SHARED_TRACK, first, true), false);
+    assert.equal((await adminDb.collection('global_likes').doc(sharedKey).get()).exists, false);
+  });
+
+  it('keeps the like count on an NFT document that has one', async () => {
+    const nftRef = adminDb.collection('nfts').doc(`${SECOND_TRACK.contract}-${SECOND_TRACK.tokenId}`);
+    await nftRef.set({ contract: SECOND_TRACK.contract, tokenId: SECOND_TRACK.tokenId, likes: 0 });
+
+    await Promise.all([toggleLike(SECOND_TRACK, first), toggleLike(SECOND_TRACK, second)]);
+    assert.equal((await nftRef.get()).data()?.likes, 2);
+    assert.equal(await readLikeCount(getMediaKey(SECOND_TRACK)), 2);
+
+    await toggleLike(SECOND_TRACK, first);
+    assert.equal((await nftRef.get()).data()?.likes, 1);
+  });
+});
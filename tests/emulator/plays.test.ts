@@ -0,0 +1,126 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { collection, doc, getDoc, getDocs, orderBy, query } from 'firebase/firestore';
+import { getMediaKey } from '../../src/utils/media';
+import { playConverter } from '../../src/lib/firebase/converters';
+import { recordPlay, syncTopPlayed } from '../../src/lib/server/plays';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+import { clearFirestore, clientDb, closeConnections } from './setup';
+import {
+  COUNTED_LISTEN,
+  FOURTH_TRACK,
+  LISTENER_FIDS,
+  SECOND_TRACK,
+  SHARED_TRACK,
+  SHARED_TRACK_REISSUE,
+  SKIPPED_LISTEN,
+  THIRD_TRACK
+} from './fixtures';
+
+const sharedKey = getMediaKey(SHARED_TRACK);
+
+// Play count as the info card reads it: global_plays/{mediaKey} through the client converter
+const readPlayCount = async (mediaKey: string): Promise<number> => {
+  const snapshot = await getDoc(doc(clientDb, 'global_plays', mediaKey).withConverter(playConverter));
+  return snapshot.data()?.playCount || 0;
+};
+
+after(closeConnections);
+
+describe('play counting', () => {
+  beforeEach(clearFirestore);
+
+  it('keys both mints of the shared recording to one mediaKey', () => {
+    assert.ok(sharedKey);
+    assert.equal(getMediaKey(SHARED_TRACK_REISSUE), sharedKey);
+    assert.notEqual(getMediaKey(SECOND_TRACK), sharedKey);
+  });
+
+  it('counts plays of either mint on one global_plays document', async () => {
+    const [first, second] = LISTENER_FIDS;
+    assert.deepEqual(await recordPlay(SHARED_TRACK, first, COUNTED_LISTEN), { mediaKey: sharedKey, counted: true });
+    assert.deepEqual(await recordPlay(SHARED_TRACK_REISSUE, second, COUNTED_LISTEN), { mediaKey: sharedKey, counted: true });
+
+    assert.equal(await readPlayCount(sharedKey), 2);
+    assert.equal(await readPlayCount(getMediaKey(SHARED_TRACK_REISSUE)), 2);
+
+    const globalPlays = await adminDb.collection('global_plays').get();
+    assert.deepEqual(globalPlays.docs.map(playDoc => playDoc.id), [sharedKey]);
+
+    const topPlayed = await adminDb.collection('top_played').doc(sharedKey).get();
+    assert.equal(topPlayed.data()?.playCount, 2);
+
+    const firstHistory = await adminDb.collection('users').doc(first.toString()).collection('playHistory').get();
+    assert.equal(firstHistory.size, 1);
+    assert.equal(firstHistory.docs[0].data().mediaKey, sharedKey);
+  });
+
+  it('leaves the counts alone for skips and replays inside the cooldown', async () => {
+    const [first, second] = LISTENER_FIDS;
+    await recordPlay(SHARED_TRACK, first, COUNTED_LISTEN);
+
+    assert.deepEqual(
+      await recordPlay(SHARED_TRACK_REISSUE, first, COUNTED_LISTEN),
+      { mediaKey: sharedKey, counted: false, reason: 'cooldown' }
+    );
+    assert.deepEqual(
+      await recordPlay(SHARED_TRACK, second, SKIPPED_LISTEN),
+      { mediaKey: sharedKey, counted: false, reason: 'too_short' }
+    );
+
+    assert.equal(await readPlayCount(sharedKey), 1);
+    const topPlayed = await adminDb.collection('top_played').doc(sharedKey).get();
+    assert.equal(topPlayed.data()?.playCount, 1);
+
+    const audit = await adminDb.collection('play_audit').get();
+    assert.deepEqual(audit.docs.map(auditDoc => auditDoc.data().reason).sort(), ['cooldown', 'too_short']);
+  });
+
+  it('judges plays by the median length other listeners reported', async () => {
+    const [scripted, a, b, late] = LISTENER_FIDS;
+    // A scripted first play claiming the track is a second long still counts on its own...
+    const first = await recordPlay(SECOND_TRACK, scripted, { durationSeconds: 1, listenedSeconds: 5 });
+    assert.equal(first?.counted, true);
+    await recordPlay(SECOND_TRACK, a, COUNTED_LISTEN);
+    await recordPlay(SECOND_TRACK, b, COUNTED_LISTEN);
+
+    // ...but doesn't make an 8 second listen count once others have reported the real length
+    const result = await recordPlay(SECOND_TRACK, late, { durationSeconds: 8, listenedSeconds: 8 });
+    assert.equal(result?.counted, false);
+    assert.equal(result?.reason, 'too_short');
+    assert.equal(await readPlayCount(getMediaKey(SECOND_TRACK)), 3);
+  });
+});
+
+describe('top played', () => {
+  beforeEach(clearFirestore);
+
+  it('ranks by play count with both mints of a recording in one slot', async () => {
+    const [a, b, c, d, e, f, g] = LISTENER_FIDS;
+    await recordPlay(SHARED_TRACK, a, COUNTED_LISTEN);
+    await recordPlay(SHARED_TRACK_REISSUE, b, COUNTED_LISTEN);
+    await recordPlay(SHARED_TRACK, c, COUNTED_LISTEN);
+    await recordPlay(THIRD_TRACK, d, COUNTED_LISTEN);
+    await recordPlay(THIRD_TRACK, e, COUNTED_LISTEN);
+    await recordPlay(SECOND_TRACK, f, COUNTED_LISTEN);
+    await recordPlay(FOURTH_TRACK, g, COUNTED_LISTEN);
+
+    const { success } = await syncTopPlayed();
+    assert.equal(success, true);
+
+    const snapshot = await getDocs(query(
+      collection(clientDb, 'top_played').withConverter(playConverter),
+      orderBy('playCount', 'desc')
+    ));
+    const ranking = snapshot.docs.map(playDoc => playDoc.data());
+
+    // Top 3 only: one of the two single-play tracks drops out
+    assert.equal(ranking.length, 3);
+    assert.deepEqual(ranking.slice(0, 2).map(nft => [nft.mediaKey, nft.playCount]), [
+      [sharedKey, 3],
+      [getMediaKey(THIRD_TRACK), 2]
+    ]);
+    assert.equal(ranking[2].playCount, 1);
+    assert.deepEqual(snapshot.docs.map(playDoc => playDoc.get('rank')), [1, 2, 3]);
+  });
+});
@@ -0,0 +1,31 @@
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore, terminate } from 'firebase/firestore';
+import { adminDb } from '../../src/lib/server/firebaseAdmin';
+
+// Set by `firebase emulators:exec`. The suite wipes the database between tests, so it refuses
+// to run against anything else.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error('FIRESTORE_EMULATOR_HOST is not set - run the suite with `yarn test`, which starts the emulator');
+}
+
+const projectId = process.env.FIREBASE_PROJECT_ID || 'demo-podplayr';
+
+// A client SDK instance reading through firestore.rules, the way the app does
+const clientApp = initializeApp({ projectId, apiKey: 'demo-api-key' }, 'emulator-tests');
+export const clientDb = getFirestore(clientApp);
+const [host, port] = emulatorHost.split(':');
+connectFirestoreEmulator(clientDb, host, Number(port));
+
+export const clearFirestore = async (): Promise<void> => {
+  const response = await fetch(
+    `http://${emulatorHost}/emulator/v1/projects/${projectId}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error(`Could not clear the Firestore emulator: ${response.status}`);
+};
+
+// Both SDKs hold connections open, which would keep the test process alive
+export const closeConnections = async (): Promise<void> => {
+  await Promise.all([terminate(clientDb), adminDb.terminate()]);
+};